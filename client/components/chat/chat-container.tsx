@@ -1,35 +1,54 @@
 // Track previous scroll dimensions for restoration after loading older messages
 import { useMessages } from "@/hooks/useMessages";
-import { useAutoMarkAsRead } from "@/hooks/useConversations";
-import { memo, useMemo, useRef, useEffect, useCallback, useLayoutEffect } from "react";
+import { useAutoMarkAsRead, usePinnedMessages } from "@/hooks/useConversations";
+import { useScheduledMessages } from "@/hooks/useScheduledMessages";
+import { useStarredMessageIds } from "@/hooks/useStarredMessages";
+import { memo, useMemo, useRef, useEffect, useCallback, useLayoutEffect, useState } from "react";
 import Image from "next/image";
 import MessageLoader from "../common/message-loader";
 import MessageBubble from "./message-bubble";
+import SystemMessage from "./message-bubble/system-message";
 import useAuth from "./../../hooks/useAuth";
 import { useVirtualizer } from "@tanstack/react-virtual";
 
 import { useChatParams } from "@/hooks/use-chat-params";
+import { useMessageJumpStore } from "@/store/message-jump-store";
 import { Button } from "@/components/ui/button";
-import { PlusCircle } from "lucide-react";
+import { ChevronsDown, PlusCircle } from "lucide-react";
 
 /**
  * ChatContainer with virtualization and WhatsApp-like scroll behavior:
  * - Messages are virtualized for performance (only visible ones render)
  * - Auto-scrolls to bottom when new messages arrive
  * - Maintains scroll position when loading older messages at the top
+ * - Jumps to quoted messages, loading a window of history around the original
+ *   when it is not in the loaded pages
  */
 function ChatContainer() {
   const { conversationId } = useChatParams();
-  const { messages: allMessages, isLoading, fetchNextPage, hasNextPage } =
-    useMessages(conversationId);
+  // Message the history window is centered on; null shows the latest messages
+  const [aroundMessageId, setAroundMessageId] = useState<string | null>(null);
+  const {
+    messages: allMessages,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNewerPage,
+    hasNewerPage,
+    isWindowed,
+  } = useMessages(conversationId, { aroundMessageId });
+  const { bubbles: scheduledBubbles } = useScheduledMessages(conversationId);
   const { user: activeUser } = useAuth();
   const { markConversationAsRead } = useAutoMarkAsRead();
 
   const scrollRef = useRef<HTMLDivElement>(null);
 
-  // Memoized for virtualizer (though now it's just the direct array)
-  // kept for consistency if we add processing later
-  const messagesList = useMemo(() => allMessages || [], [allMessages]);
+  // Memoized for virtualizer; pending scheduled messages follow the newest sent ones
+  const messagesList = useMemo(
+    () => (hasNewerPage ? allMessages || [] : [...(allMessages || []), ...scheduledBubbles]),
+    [allMessages, scheduledBubbles, hasNewerPage]
+  );
 
   // Setup Virtualizer
   const rowVirtualizer = useVirtualizer({
@@ -69,6 +88,66 @@ function ChatContainer() {
     fetchNextPage();
   };
 
+  const handleLoadNewer = () => {
+    isLoadingMoreRef.current = true;
+    fetchNewerPage();
+  };
+
+  // Quoted message being jumped to, and the one highlighted after the jump
+  const [jumpTarget, setJumpTarget] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setAroundMessageId(null);
+    setJumpTarget(null);
+  }, [conversationId]);
+
+  // Jumps requested from outside the list (e.g. a pinned message in the header)
+  const pendingJump = useMessageJumpStore((state) => state.pendingJump);
+  const clearPendingJump = useMessageJumpStore((state) => state.clearPendingJump);
+
+  useEffect(() => {
+    if (!pendingJump || pendingJump.conversationId !== conversationId) return;
+    setJumpTarget(pendingJump.messageId);
+    clearPendingJump();
+  }, [pendingJump, conversationId, clearPendingJump]);
+
+  const starredIds = useStarredMessageIds(conversationId);
+  const pinnedMessages = usePinnedMessages(conversationId);
+  const pinnedIds = useMemo(
+    () => new Set(pinnedMessages.map((pin) => pin.messageId)),
+    [pinnedMessages]
+  );
+
+  useEffect(() => {
+    if (!jumpTarget) return;
+
+    const index = messagesList.findIndex(
+      (m) => m.id === jumpTarget || m.clientMessageId === jumpTarget
+    );
+
+    if (index !== -1) {
+      rowVirtualizer.scrollToIndex(index, { align: "center" });
+      setHighlightedId(messagesList[index].id);
+      setJumpTarget(null);
+      return;
+    }
+
+    // Not loaded: show the history around it instead, giving up if that finds nothing
+    if (aroundMessageId !== jumpTarget) {
+      isLoadingMoreRef.current = true;
+      setAroundMessageId(jumpTarget);
+    } else if (!isLoading) {
+      setJumpTarget(null);
+    }
+  }, [jumpTarget, messagesList, aroundMessageId, isLoading, rowVirtualizer]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timeout = setTimeout(() => setHighlightedId(null), 1500);
+    return () => clearTimeout(timeout);
+  }, [highlightedId]);
+
   // Mark as read logic
   useEffect(() => {
     if (!conversationId || !activeUser?.waId || messagesList.length === 0 || isLoading) return;
@@ -121,7 +200,7 @@ function ChatContainer() {
         style={{ height: `${rowVirtualizer.getTotalSize()}px` }}
       >
         {rowVirtualizer.getVirtualItems().map((vItem) => {
-          const message = allMessages[vItem.index];
+          const message = messagesList[vItem.index];
           const isSender = activeUser?.waId === message.from;
           return (
             <div
@@ -137,16 +216,49 @@ function ChatContainer() {
               }}
               className="px-1 sm:px-6"
             >
-              <MessageBubble
-                message={message}
-                isSender={isSender}
-                isReceiver={!isSender}
-              />
+              {message.type === "system" ? (
+                <SystemMessage message={message} />
+              ) : (
+                <MessageBubble
+                  message={message}
+                  isSender={isSender}
+                  isReceiver={!isSender}
+                  onQuoteClick={setJumpTarget}
+                  isHighlighted={highlightedId === message.id}
+                  isPinned={pinnedIds.has(message.clientMessageId ?? message.id)}
+                  isStarred={starredIds.has(message.clientMessageId ?? message.id)}
+                />
+              )}
             </div>
           );
         })}
       </div>
 
+      {hasNewerPage && (
+        <div className="flex items-center justify-center py-2 z-10">
+          <Button
+            variant="ghost"
+            onClick={handleLoadNewer}
+            disabled={isFetchingNextPage}
+            className="text-sm"
+          >
+            <PlusCircle size={18} className="mr-2" /> Load Newer
+          </Button>
+        </div>
+      )}
+
+      {isWindowed && (
+        <Button
+          size="icon"
+          variant="secondary"
+          onClick={() => setAroundMessageId(null)}
+          className="fixed bottom-4 right-4 z-30 rounded-full shadow-md"
+          aria-label="Jump to latest messages"
+        >
+          <ChevronsDown className="size-5" />
+        </Button>
+      )}
+
       {isLoading && <MessageLoader />}
     </div>
   );
@@ -1,29 +1,86 @@
-import { ArrowLeft, MoreVertical, Phone, Video } from "lucide-react";
+import { ArrowLeft, Ban, Flag, MoreVertical, Phone, Timer, Video } from "lucide-react";
 import { SocketEvents } from "@/types/socket-events";
 import { Avatar, AvatarFallback } from "../ui/avatar";
 import { Button } from "../ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "../ui/dropdown-menu";
 import { useRouter } from "next/navigation";
 import { useUserStore } from "@/store/user-store";
 import { useEffect, useState, useMemo } from "react";
 import socketService from "@/services/socket.service";
+import { useChatParams } from "@/hooks/use-chat-params";
+import { useConversationActivity } from "@/hooks/useConversationActivity";
+import { useConversation, useSetMessageTimer } from "@/hooks/useConversations";
+import { useBlockedUsers, useBlockUser, useUnblockUser } from "@/hooks/useContacts";
+import { MessageTimer } from "@/types";
+import ReportDialog from "./report-dialog";
+import PinnedMessagesStrip from "./pinned-messages-strip";
+import { formatActivity, formatWaIdToPhone } from "@/utils";
+
+// Disappearing messages timers, in seconds (null = off)
+const MESSAGE_TIMERS: { value: MessageTimer; label: string; seconds: number | null }[] = [
+  { value: "off", label: "Off", seconds: null },
+  { value: "24h", label: "24 hours", seconds: 24 * 60 * 60 },
+  { value: "7d", label: "7 days", seconds: 7 * 24 * 60 * 60 },
+  { value: "90d", label: "90 days", seconds: 90 * 24 * 60 * 60 },
+];
 
 function ChatHeader() {
   const router = useRouter();
   const activeChatUser = useUserStore((state) => state.activeChatUser);
+  const { conversationId } = useChatParams();
+  const activity = useConversationActivity(conversationId);
+  const conversation = useConversation(conversationId);
+  const setMessageTimer = useSetMessageTimer();
+  const messageTimer =
+    MESSAGE_TIMERS.find((timer) => timer.seconds === (conversation?.messageTimer ?? null)) ?? MESSAGE_TIMERS[0];
+  // Group chats are opened with the conversation itself as the active "user"
+  const isGroup = activeChatUser?.waId === conversationId;
   const [isOnline, setIsOnline] = useState(false);
   const [lastSeen, setLastSeen] = useState<number | null>(null);
+  const { data: blockedUsers } = useBlockedUsers();
+  const blockUser = useBlockUser();
+  const unblockUser = useUnblockUser();
+  const isBlocked = !isGroup && Boolean(blockedUsers?.some((u) => u.waId === activeChatUser?.waId));
+  const [isReporting, setIsReporting] = useState(false);
 
-  useEffect(() => {
+  const toggleBlock = () => {
     if (!activeChatUser?.waId) return;
+    // Presence is hidden between blocked users, so ask again once the block changes
+    const refreshStatus = () =>
+      socketService.emit(SocketEvents.USER_GET_STATUS, { waId: activeChatUser.waId });
+
+    if (isBlocked) {
+      unblockUser.mutate(activeChatUser.waId, { onSuccess: refreshStatus });
+    } else if (confirm(`Block ${activeChatUser.name}? Blocked contacts cannot message you or see when you are online.`)) {
+      blockUser.mutate(activeChatUser.waId, {
+        onSuccess: () => {
+          setIsOnline(false);
+          setLastSeen(null);
+        },
+      });
+    }
+  };
 
-    const socket = socketService.getSocket();
+  useEffect(() => {
+    if (!activeChatUser?.waId) return;
 
     // Reset state when user changes
     setIsOnline(false);
     setLastSeen(null);
 
     // Initial status check
-    socket.emit(SocketEvents.USER_GET_STATUS, { waId: activeChatUser.waId });
+    socketService.emit(SocketEvents.USER_GET_STATUS, { waId: activeChatUser.waId });
 
     const handleStatus = (data: { waId: string; isOnline: boolean; lastSeen?: number }) => {
       if (data.waId === activeChatUser.waId) {
@@ -45,14 +102,14 @@ function ChatHeader() {
       }
     };
 
-    socket.on(SocketEvents.USER_STATUS, handleStatus);
-    socket.on(SocketEvents.USER_ONLINE, handleOnline);
-    socket.on(SocketEvents.USER_OFFLINE, handleOffline);
+    const unsubscribers = [
+      socketService.on(SocketEvents.USER_STATUS, handleStatus),
+      socketService.on(SocketEvents.USER_ONLINE, handleOnline),
+      socketService.on(SocketEvents.USER_OFFLINE, handleOffline),
+    ];
 
     return () => {
-      socket.off(SocketEvents.USER_STATUS, handleStatus);
-      socket.off(SocketEvents.USER_ONLINE, handleOnline);
-      socket.off(SocketEvents.USER_OFFLINE, handleOffline);
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
     };
   }, [activeChatUser?.waId]);
 
@@ -76,40 +133,105 @@ function ChatHeader() {
   }, [isOnline, lastSeen]);
 
   return (
-    <header className="h-16 w-full px-4 py-3 flex items-center z-10 shadow-sm bg-background">
-      <div className="flex w-full items-center justify-between gap-4">
-        <div className="flex items-center gap-2">
-          <ArrowLeft
-            onClick={handleBack}
-            className="cursor-pointer lg:hidden"
-          />
-          <div className="flex items-center min-w-0">
-            <Avatar className="h-10 w-10 mr-3 flex-shrink-0">
-              <AvatarFallback>{activeChatUser?.name?.[0]}</AvatarFallback>
-            </Avatar>
-            <div className="min-w-0">
-              <h2 className="text-primary text-sm truncate max-w-[120px] sm:max-w-none">
-                {activeChatUser?.name}
-              </h2>
-              <p className="text-sm text-muted-foreground truncate max-w-[120px] sm:max-w-none">
-                {formattedLastSeen}
-              </p>
+    <>
+      <header className="h-16 w-full px-4 py-3 flex items-center z-10 shadow-sm bg-background">
+        <div className="flex w-full items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <ArrowLeft
+              onClick={handleBack}
+              className="cursor-pointer lg:hidden"
+            />
+            <div className="flex items-center min-w-0">
+              <Avatar className="h-10 w-10 mr-3 flex-shrink-0">
+                <AvatarFallback>{activeChatUser?.name?.[0]}</AvatarFallback>
+              </Avatar>
+              <div className="min-w-0">
+                <h2 className="flex items-center gap-1 text-primary text-sm">
+                  <span className="truncate max-w-[120px] sm:max-w-none">{activeChatUser?.name}</span>
+                  {messageTimer.seconds && (
+                    <Timer
+                      className="size-3.5 shrink-0 text-muted-foreground"
+                      aria-label={`Disappearing messages: ${messageTimer.label}`}
+                    />
+                  )}
+                </h2>
+                {activity ? (
+                  <p className="text-sm text-label truncate max-w-[120px] sm:max-w-none">
+                    {formatActivity(activity.activity, isGroup ? formatWaIdToPhone(activity.waId) : null)}
+                  </p>
+                ) : (
+                  <p className="text-sm text-muted-foreground truncate max-w-[120px] sm:max-w-none">
+                    {formattedLastSeen}
+                  </p>
+                )}
+              </div>
             </div>
           </div>
+          <div className="flex items-center space-x-1 sm:space-x-2">
+            <Button variant="ghost" size="sm" className="p-2 sm:p-2" aria-label="Audio Call">
+              <Phone className="h-5 w-5" />
+            </Button>
+            <Button variant="ghost" size="sm" className="p-2 sm:p-2" aria-label="Video Call">
+              <Video className="h-5 w-5" />
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="p-2 sm:p-2" aria-label="More Options">
+                  <MoreVertical className="h-5 w-5" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>
+                    <Timer /> Disappearing messages
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent>
+                    <DropdownMenuRadioGroup
+                      value={messageTimer.value}
+                      onValueChange={(value) =>
+                        value !== messageTimer.value &&
+                        setMessageTimer.mutate({ conversationId, timer: value as MessageTimer })
+                      }
+                    >
+                      {MESSAGE_TIMERS.map(({ value, label }) => (
+                        <DropdownMenuRadioItem key={value} value={value}>
+                          {label}
+                        </DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+                {!isGroup && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      variant={isBlocked ? "default" : "destructive"}
+                      disabled={blockUser.isPending || unblockUser.isPending}
+                      onSelect={toggleBlock}
+                    >
+                      <Ban /> {isBlocked ? "Unblock" : "Block"}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem variant="destructive" onSelect={() => setIsReporting(true)}>
+                      <Flag /> Report
+                    </DropdownMenuItem>
+                  </>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         </div>
-        <div className="flex items-center space-x-1 sm:space-x-2">
-          <Button variant="ghost" size="sm" className="p-2 sm:p-2" aria-label="Audio Call">
-            <Phone className="h-5 w-5" />
-          </Button>
-          <Button variant="ghost" size="sm" className="p-2 sm:p-2" aria-label="Video Call">
-            <Video className="h-5 w-5" />
-          </Button>
-          <Button variant="ghost" size="sm" className="p-2 sm:p-2" aria-label="More Options">
-            <MoreVertical className="h-5 w-5" />
-          </Button>
-        </div>
-      </div>
-    </header>
+        {!isGroup && activeChatUser?.waId && (
+          <ReportDialog
+            open={isReporting}
+            onOpenChange={setIsReporting}
+            target={{ waId: activeChatUser.waId }}
+            name={activeChatUser.name ?? formatWaIdToPhone(activeChatUser.waId) ?? activeChatUser.waId}
+            canBlock={!isBlocked}
+          />
+        )}
+      </header>
+      {conversationId && <PinnedMessagesStrip conversationId={conversationId} />}
+    </>
   );
 }
 
@@ -0,0 +1,161 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Users } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { fetchAllConversations } from "@/services/conversations.service";
+import { useForwardMessages } from "@/hooks/useMessages";
+import useAuth from "@/hooks/useAuth";
+import { Conversation, Message } from "@/types";
+import { MAX_FORWARD_TARGETS, formatWaIdToPhone } from "@/utils";
+
+type ForwardDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  messages: Message[];
+  /** Called once the messages were forwarded */
+  onForwarded?: () => void;
+};
+
+/**
+ * Picks up to `MAX_FORWARD_TARGETS` chats to forward messages to.
+ */
+const ForwardDialog = ({ open, onOpenChange, messages, onForwarded }: ForwardDialogProps) => {
+  const { user } = useAuth();
+  const [search, setSearch] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const forward = useForwardMessages();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["forward-targets", user?.waId],
+    queryFn: () => fetchAllConversations(100),
+    enabled: open && Boolean(user?.waId),
+  });
+
+  // Start from scratch each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setSearch("");
+    setSelectedIds([]);
+  }, [open]);
+
+  const nameOf = useCallback(
+    (conversation: Conversation) => {
+      if (conversation.type === "group") return conversation.name || "Group";
+      const other = conversation.participants.find((p) => p.waId !== user?.waId);
+      return other?.name || formatWaIdToPhone(other?.waId) || "Unknown";
+    },
+    [user?.waId]
+  );
+
+  const conversations = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return (data?.conversations ?? []).filter(
+      (conversation) => !query || nameOf(conversation).toLowerCase().includes(query)
+    );
+  }, [data, search, nameOf]);
+
+  const toggle = (id: string) =>
+    setSelectedIds((ids) =>
+      ids.includes(id)
+        ? ids.filter((selected) => selected !== id)
+        : ids.length < MAX_FORWARD_TARGETS
+          ? [...ids, id]
+          : ids
+    );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedIds.length) return;
+    forward.mutate(
+      { messages, conversationIds: selectedIds },
+      {
+        onSuccess: () => {
+          onOpenChange(false);
+          onForwarded?.();
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {messages.length === 1 ? "Forward message to" : `Forward ${messages.length} messages to`}
+          </DialogTitle>
+          <DialogDescription>Pick up to {MAX_FORWARD_TARGETS} chats.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4 mt-2">
+          <input
+            type="search"
+            className="w-full border rounded px-3 py-2 text-sm focus:outline-none"
+            placeholder="Search chats"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            aria-label="Search chats"
+          />
+          <ul className="flex flex-col gap-1 max-h-72 overflow-y-auto" aria-label="Chats">
+            {isLoading && <li className="text-sm text-wa-info px-2">Loading chats…</li>}
+            {!isLoading && !conversations.length && (
+              <li className="text-sm text-wa-info px-2">No chats found</li>
+            )}
+            {conversations.map((conversation) => {
+              const name = nameOf(conversation);
+              const isSelected = selectedIds.includes(conversation.id);
+              const isFull = !isSelected && selectedIds.length >= MAX_FORWARD_TARGETS;
+              return (
+                <li key={conversation.id}>
+                  <label
+                    className={`flex items-center gap-3 rounded px-2 py-1.5 text-sm ${
+                      isFull ? "opacity-50" : "cursor-pointer hover:bg-muted"
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={isSelected}
+                      disabled={isFull}
+                      onChange={() => toggle(conversation.id)}
+                    />
+                    <Avatar className="size-8">
+                      <AvatarFallback>
+                        {conversation.type === "group" ? <Users className="size-4" /> : name[0]}
+                      </AvatarFallback>
+                    </Avatar>
+                    <span className="truncate">{name}</span>
+                  </label>
+                </li>
+              );
+            })}
+          </ul>
+          <div className="flex justify-end gap-2 mt-2">
+            <button
+              type="button"
+              className="px-4 py-2 rounded bg-muted text-primary"
+              onClick={() => onOpenChange(false)}
+              disabled={forward.isPending}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded bg-primary text-white disabled:opacity-50"
+              disabled={!selectedIds.length || forward.isPending}
+            >
+              {forward.isPending ? "Forwarding..." : "Forward"}
+            </button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ForwardDialog;
@@ -2,10 +2,12 @@
 import ChatHeader from "./chat-header";
 import ChatContainer from "./chat-container";
 import MessageBar from "./message-bar";
+import SelectionBar from "./selection-bar";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { cn } from "@/lib/utils";
 import { useChatParams } from "@/hooks/use-chat-params";
 import { useSyncActiveUser } from "@/hooks/use-sync-active-user";
+import { useSelectionStore } from "@/store/selection-store";
 
 function Chat() {
   const { activeChatUserId } = useChatParams();
@@ -14,6 +16,7 @@ function Chat() {
   useSyncActiveUser(activeChatUserId);
 
   const isMobile = useIsMobile();
+  const isSelecting = useSelectionStore((state) => state.isSelecting);
 
   return (
     <div
@@ -22,7 +25,11 @@ function Chat() {
       <div className="w-screen lg:w-full flex flex-col h-screen z-10">
         <ChatHeader />
         <ChatContainer />
-        <MessageBar />
+        {/* Hidden rather than unmounted, so the draft survives selecting messages */}
+        <div className={isSelecting ? "hidden" : undefined}>
+          <MessageBar />
+        </div>
+        {isSelecting && <SelectionBar />}
       </div>
     </div>
   );
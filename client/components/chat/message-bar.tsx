@@ -3,12 +3,28 @@ import { useEffect, useRef, useState } from "react";
 import dynamic from "next/dynamic";
 import { EmojiClickData } from "emoji-picker-react";
 const EmojiPicker = dynamic(() => import("emoji-picker-react"), { ssr: false });
-import { Mic, Plus, SendHorizontal, Smile } from "lucide-react";
+import { CalendarClock, Loader2, Mic, Pencil, Plus, Reply, SendHorizontal, Smile, Trash2, X } from "lucide-react";
 import { Button } from "../ui/button";
 import { Input } from "../ui/input";
-import { useSendMessage } from "@/hooks/useMessages";
+import { useEditMessage, useSendMessage } from "@/hooks/useMessages";
 import { useUserStore } from "@/store/user-store";
+import { useComposerStore } from "@/store/composer-store";
 import useAuth from "@/hooks/useAuth";
+import { formatWaIdToPhone, toReplySnippet } from "@/utils";
+import {
+  computeWaveform,
+  createImageThumbnail,
+  encodeImageBlurhash,
+  formatDuration,
+  messageTypeForMime,
+  readMediaMetadata,
+} from "@/utils/media";
+import { IUploadMediaRequest, toAttachment, uploadMedia } from "@/services/media.service";
+import { useVoiceRecorder } from "@/hooks/useVoiceRecorder";
+import { useActivityEmitter } from "@/hooks/useActivityEmitter";
+import { useScheduleMessage } from "@/hooks/useScheduledMessages";
+import ScheduleMessageDialog from "./schedule-message-dialog";
+import { toast } from "sonner";
 
 import { useChatParams } from "@/hooks/use-chat-params";
 
@@ -17,10 +33,21 @@ function MessageBar() {
   const activeChatUser = useUserStore((state) => state.activeChatUser);
   const { user: activeUser } = useAuth();
   const { mutate: sendMessage } = useSendMessage();
+  const { mutate: editMessage } = useEditMessage();
+  const editingMessage = useComposerStore((state) => state.editingMessage);
+  const setEditingMessage = useComposerStore((state) => state.setEditingMessage);
+  const replyingTo = useComposerStore((state) => state.replyingTo);
+  const setReplyingTo = useComposerStore((state) => state.setReplyingTo);
   const [message, setMessage] = useState("");
   const [showEmojiPicker, setEmojiPicker] = useState(false);
   const emojiPickerRef = useRef<HTMLDivElement | null>(null);
   const inputRef = useRef<HTMLInputElement | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const recorder = useVoiceRecorder();
+  const { notifyTyping, stopTyping, setRecording } = useActivityEmitter(conversationId);
+  const scheduleMessage = useScheduleMessage();
+  const [isScheduling, setIsScheduling] = useState(false);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -47,6 +74,32 @@ function MessageBar() {
     }
   }, [showEmojiPicker]);
 
+  // Load the message being edited into the input; leaving the conversation cancels the edit
+  useEffect(() => {
+    if (!editingMessage) return;
+    if (editingMessage.conversationId !== conversationId) {
+      setEditingMessage(null);
+      return;
+    }
+    setMessage(editingMessage.text);
+    inputRef.current?.focus();
+  }, [editingMessage, conversationId, setEditingMessage]);
+
+  // Replies are scoped to the conversation they were started in
+  useEffect(() => {
+    if (!replyingTo) return;
+    if (replyingTo.conversationId !== conversationId) {
+      setReplyingTo(null);
+      return;
+    }
+    inputRef.current?.focus();
+  }, [replyingTo, conversationId, setReplyingTo]);
+
+  const cancelEdit = () => {
+    setEditingMessage(null);
+    setMessage("");
+  };
+
   // Handle Emoji Modal
   const handleEmojiModal = (): void => setEmojiPicker(!showEmojiPicker);
 
@@ -62,19 +115,31 @@ function MessageBar() {
   const handleSubmit = () => {
     if (!message.trim()) return;
 
+    if (editingMessage) {
+      if (message.trim() !== editingMessage.text) {
+        editMessage(editingMessage, message.trim());
+      }
+      cancelEdit();
+      inputRef.current?.focus();
+      return;
+    }
+
     const toWaId = activeChatUser?.waId;
     if (!toWaId) return;
 
+    stopTyping();
     const data = {
       from: activeUser.waId,
       to: toWaId,
       text: message,
       conversationId, // Include conversationId for optimistic updates
+      replyTo: replyingTo ? toReplySnippet(replyingTo) : undefined,
     };
 
     sendMessage(data, {
       onSuccess: () => {
         setMessage("");
+        setReplyingTo(null);
         // Focus input after sending
         inputRef.current?.focus();
 
@@ -82,67 +147,258 @@ function MessageBar() {
     });
   };
 
+  /* schedule the draft instead of sending it now */
+  const handleSchedule = (text: string, scheduledFor: number) => {
+    scheduleMessage.mutate(
+      {
+        conversationId,
+        text,
+        scheduledFor,
+        replyTo: replyingTo ? { messageId: replyingTo.clientMessageId ?? replyingTo.id } : undefined,
+      },
+      {
+        onSuccess: () => {
+          setIsScheduling(false);
+          setMessage("");
+          setReplyingTo(null);
+          stopTyping();
+          toast.success("Message scheduled");
+        },
+      }
+    );
+  };
+
+  /* upload a file, then send it with the typed text as its caption */
+  const uploadAndSend = async (
+    file: File,
+    describe: (conversationId: string) => Promise<IUploadMediaRequest>
+  ) => {
+    const toWaId = activeChatUser?.waId;
+    if (!toWaId || !conversationId) return;
+
+    setIsUploading(true);
+    try {
+      const media = await uploadMedia(file, await describe(conversationId));
+
+      sendMessage(
+        {
+          from: activeUser.waId,
+          to: toWaId,
+          text: message.trim(),
+          conversationId,
+          type: messageTypeForMime(media.mimeType),
+          attachment: toAttachment(media),
+          replyTo: replyingTo ? toReplySnippet(replyingTo) : undefined,
+        },
+        {
+          onSuccess: () => {
+            setMessage("");
+            setReplyingTo(null);
+          },
+        }
+      );
+    } catch (err) {
+      console.error(err);
+      toast.error("Could not upload the file");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    void uploadAndSend(file, async (conversationId) => {
+      const metadata = await readMediaMetadata(file);
+      if (messageTypeForMime(file.type) !== "image") return { conversationId, ...metadata };
+
+      const [thumbnail, blurhash] = await Promise.all([
+        createImageThumbnail(file),
+        encodeImageBlurhash(file),
+      ]);
+      return { conversationId, ...metadata, thumbnail, blurhash };
+    });
+  };
+
+  const handleStartRecording = async () => {
+    if (await recorder.start()) {
+      setRecording(true);
+    } else {
+      toast.error("Allow microphone access to record voice messages");
+    }
+  };
+
+  const handleCancelRecording = () => {
+    recorder.cancel();
+    setRecording(false);
+  };
+
+  const handleSendRecording = async () => {
+    setRecording(false);
+    const clip = await recorder.stop();
+    if (!clip) return;
+
+    const extension = clip.blob.type.includes("ogg") ? "ogg" : clip.blob.type.includes("mp4") ? "m4a" : "webm";
+    const file = new File([clip.blob], `voice-message.${extension}`, { type: clip.blob.type });
+
+    void uploadAndSend(file, async (conversationId) => ({
+      conversationId,
+      duration: clip.duration,
+      waveform: await computeWaveform(clip.blob),
+    }));
+  };
+
   // Add onKeyDown handler for Enter key
   const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSubmit();
+    } else if (e.key === "Escape" && editingMessage) {
+      e.preventDefault();
+      cancelEdit();
+    } else if (e.key === "Escape" && replyingTo) {
+      e.preventDefault();
+      setReplyingTo(null);
     }
   };
 
   return (
-    <div className="dark:bg-message-bar shadow-sm rounded-full h-message-bar mx-3 mb-3 px-1.5 py-1 flex items-center gap-x-0.5 relative">
-      <div className="flex relative items-center h-full max-w-3xs">
-        <Button
-          size={"icon"}
-          className="size-10 flex bg-transparent text-primary items-center justify-center rounded-full hover:bg-searchbar/50 transition-colors duration-150"
-          tabIndex={0}
-          aria-label="Attach File"
-        >
-          <Plus className="text-panel-header-icon cursor-pointer size-6" />
-        </Button>
-        <Button
-          size={"icon"}
-          className="size-10 flex bg-transparent text-primary items-center justify-center rounded-full hover:bg-searchbar/50 transition-colors duration-150"
-          id="emoji-open"
-          tabIndex={0}
-          onClick={handleEmojiModal}
-          aria-label="Open Emoji Picker"
-        >
-          <Smile className="text-panel-header-icon cursor-pointer size-6" />
-        </Button>
-        {showEmojiPicker && (
-          <div className="absolute bottom-24 left-16 z-40" ref={emojiPickerRef}>
-            <EmojiPicker onEmojiClick={handleEmojiClick} />
+    <>
+      {editingMessage && (
+        <div className="mx-3 mb-1 px-4 py-2 rounded-lg dark:bg-message-bar shadow-sm flex items-center gap-3 text-sm">
+          <Pencil className="size-4 text-label shrink-0" />
+          <div className="flex flex-col min-w-0 flex-1">
+            <span className="text-label font-semibold">Edit message</span>
+            <span className="text-muted-foreground truncate">{editingMessage.text}</span>
+          </div>
+          <button type="button" onClick={cancelEdit} aria-label="Cancel editing">
+            <X className="size-4 text-panel-header-icon" />
+          </button>
+        </div>
+      )}
+      {replyingTo && (
+        <div className="mx-3 mb-1 px-4 py-2 rounded-lg dark:bg-message-bar shadow-sm flex items-center gap-3 text-sm">
+          <Reply className="size-4 text-label shrink-0" />
+          <div className="flex flex-col min-w-0 flex-1 border-l-4 border-label pl-2">
+            <span className="text-label font-semibold">
+              {replyingTo.from === activeUser?.waId ? "You" : formatWaIdToPhone(replyingTo.from)}
+            </span>
+            <span className="text-muted-foreground truncate">{replyingTo.text}</span>
+          </div>
+          <button type="button" onClick={() => setReplyingTo(null)} aria-label="Cancel reply">
+            <X className="size-4 text-panel-header-icon" />
+          </button>
+        </div>
+      )}
+      <div className="dark:bg-message-bar shadow-sm rounded-full h-message-bar mx-3 mb-3 px-1.5 py-1 flex items-center gap-x-0.5 relative">
+        <div className="flex relative items-center h-full max-w-3xs">
+          <Button
+            size={"icon"}
+            className="size-10 flex bg-transparent text-primary items-center justify-center rounded-full hover:bg-searchbar/50 transition-colors duration-150"
+            tabIndex={0}
+            aria-label="Attach File"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading || Boolean(editingMessage)}
+          >
+            {isUploading ? (
+              <Loader2 className="text-panel-header-icon size-6 animate-spin" />
+            ) : (
+              <Plus className="text-panel-header-icon cursor-pointer size-6" />
+            )}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            className="hidden"
+            accept="image/*,audio/*,video/*,.pdf,.doc,.docx,.xls,.xlsx,.zip,.txt"
+            onChange={handleFileSelected}
+          />
+          <Button
+            size={"icon"}
+            className="size-10 flex bg-transparent text-primary items-center justify-center rounded-full hover:bg-searchbar/50 transition-colors duration-150"
+            id="emoji-open"
+            tabIndex={0}
+            onClick={handleEmojiModal}
+            aria-label="Open Emoji Picker"
+          >
+            <Smile className="text-panel-header-icon cursor-pointer size-6" />
+          </Button>
+          {showEmojiPicker && (
+            <div className="absolute bottom-24 left-16 z-40" ref={emojiPickerRef}>
+              <EmojiPicker onEmojiClick={handleEmojiClick} />
+            </div>
+          )}
+        </div>
+        {recorder.isRecording ? (
+          <div className="w-full h-10 flex items-center gap-3 px-1.5 text-primary" aria-live="polite">
+            <button type="button" onClick={handleCancelRecording} aria-label="Discard Voice Message">
+              <Trash2 className="text-panel-header-icon cursor-pointer size-5" />
+            </button>
+            <span className="size-2.5 rounded-full bg-red-500 animate-pulse" />
+            <span className="tabular-nums">{formatDuration(recorder.elapsed)}</span>
+          </div>
+        ) : (
+          <div className="w-full rounded-lg h-10 flex items-center">
+            <Input
+              ref={inputRef}
+              type="text"
+              placeholder="Type a message"
+              className="border-none ring-0 placeholder:font-semibold placeholder:-tracking-normal px-1.5 placeholder:text-[15px] leading-1 focus:ring-0 focus-visible:ring-0 bg-transparent dark:bg-transparent focus:outline-none text-primary h-full rounded-lg w-full"
+              onChange={(e) => {
+                setMessage(e.target.value);
+                // Edits are not announced
+                if (editingMessage) return;
+                if (e.target.value) notifyTyping();
+                else stopTyping();
+              }}
+              value={message}
+              onKeyDown={handleInputKeyDown}
+            />
           </div>
         )}
-      </div>
-      <div className="w-full rounded-lg h-10 flex items-center">
-        <Input
-          ref={inputRef}
-          type="text"
-          placeholder="Type a message"
-          className="border-none ring-0 placeholder:font-semibold placeholder:-tracking-normal px-1.5 placeholder:text-[15px] leading-1 focus:ring-0 focus-visible:ring-0 bg-transparent dark:bg-transparent focus:outline-none text-primary h-full rounded-lg w-full"
-          onChange={(e) => setMessage(e.target.value)}
-          value={message}
-          onKeyDown={handleInputKeyDown}
-        />
-      </div>
-      <div className="flex w-10 items-center justify-center">
-        <button
-          className={`${message === "" ? "opacity-20" : null}`}
-          type="button"
-          onClick={message.length ? handleSubmit : undefined}
-          aria-label={message.length ? "Send Message" : "Record Voice Message"}
-        >
-          {message.length ? (
-            <SendHorizontal className="text-panel-header-icon cursor-pointer text-xl" />
+        {message.trim() && !editingMessage && !recorder.isRecording && (
+          <button
+            type="button"
+            onClick={() => setIsScheduling(true)}
+            aria-label="Schedule Message"
+            className="flex w-10 items-center justify-center"
+          >
+            <CalendarClock className="text-panel-header-icon cursor-pointer size-5" />
+          </button>
+        )}
+        <div className="flex w-10 items-center justify-center">
+          {recorder.isRecording ? (
+            <button type="button" onClick={handleSendRecording} aria-label="Send Voice Message">
+              <SendHorizontal className="text-panel-header-icon cursor-pointer text-xl" />
+            </button>
           ) : (
-            <Mic className="text-panel-header-icon cursor-pointer text-xl" />
+            <button
+              className={`${!message.length && (isUploading || editingMessage) ? "opacity-20" : null}`}
+              type="button"
+              onClick={message.length ? handleSubmit : handleStartRecording}
+              disabled={!message.length && (isUploading || Boolean(editingMessage))}
+              aria-label={message.length ? "Send Message" : "Record Voice Message"}
+            >
+              {message.length ? (
+                <SendHorizontal className="text-panel-header-icon cursor-pointer text-xl" />
+              ) : (
+                <Mic className="text-panel-header-icon cursor-pointer text-xl" />
+              )}
+            </button>
           )}
-        </button>
+        </div>
       </div>
-    </div>
+      <ScheduleMessageDialog
+        open={isScheduling}
+        onOpenChange={setIsScheduling}
+        initialText={message}
+        title="Schedule message"
+        isPending={scheduleMessage.isPending}
+        onSubmit={handleSchedule}
+      />
+    </>
   );
 }
 
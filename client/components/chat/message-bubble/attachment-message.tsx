@@ -0,0 +1,37 @@
+import { Download, FileText } from "lucide-react";
+import { MessageAttachment } from "@/types";
+import { getMediaUrl } from "@/services/media.service";
+import { formatFileSize } from "@/utils/media";
+
+type AttachmentMessageProps = {
+  attachment: MessageAttachment;
+};
+
+/**
+ * File card with a download link (only participants of the conversation can open it).
+ */
+const AttachmentMessage = ({ attachment }: AttachmentMessageProps) => {
+  const extension = attachment.fileName.split(".").pop()?.toUpperCase();
+
+  return (
+    <a
+      href={getMediaUrl(attachment.mediaId)}
+      target="_blank"
+      rel="noopener noreferrer"
+      download={attachment.fileName}
+      className="mt-1 flex items-center gap-3 rounded-md bg-black/10 px-3 py-2 min-w-52"
+      aria-label={`Download ${attachment.fileName}`}
+    >
+      <FileText className="size-8 shrink-0 text-wa-info" />
+      <div className="flex flex-col min-w-0 flex-1">
+        <span className="truncate text-white">{attachment.fileName}</span>
+        <span className="text-[11px] text-wa-info">
+          {[extension, formatFileSize(attachment.size)].filter(Boolean).join(" · ")}
+        </span>
+      </div>
+      <Download className="size-5 shrink-0 text-wa-info" />
+    </a>
+  );
+};
+
+export default AttachmentMessage;
@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from "react";
+import { decode } from "blurhash";
+import { Loader2, RotateCw } from "lucide-react";
+import { Message, MessageAttachment } from "@/types";
+import { getMediaUrl } from "@/services/media.service";
+import MediaLightbox from "./media-lightbox";
+
+const MAX_WIDTH = 280;
+const MAX_HEIGHT = 320;
+
+type ImageMessageProps = {
+  message: Message;
+  attachment: MessageAttachment;
+};
+
+// Bubble size that keeps the image's aspect ratio
+function displaySize({ width, height }: MessageAttachment) {
+  if (!width || !height) return { width: MAX_WIDTH, height: MAX_WIDTH };
+  const scale = Math.min(1, MAX_WIDTH / width, MAX_HEIGHT / height);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
+
+const BlurhashCanvas = ({ hash }: { hash: string }) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) return;
+    try {
+      const pixels = decode(hash, 32, 32);
+      const image = context.createImageData(32, 32);
+      image.data.set(pixels);
+      context.putImageData(image, 0, 0);
+    } catch {
+      // An invalid hash leaves the plain background
+    }
+  }, [hash]);
+
+  return <canvas ref={canvasRef} width={32} height={32} className="absolute inset-0 size-full" aria-hidden />;
+};
+
+/**
+ * Image bubble: blurhash placeholder, lazily loaded thumbnail, and the lightbox on click.
+ */
+const ImageMessage = ({ message, attachment }: ImageMessageProps) => {
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isLightboxOpen, setIsLightboxOpen] = useState(false);
+  const size = displaySize(attachment);
+  const isSending = message.status === "pending" || message.status === "sending";
+  const isFailed = message.status === "failed";
+
+  const retry = async () => {
+    const { messageQueueService } = await import("@/services/message-queue.service");
+    await messageQueueService.retryMessage(message.id);
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsLightboxOpen(true)}
+        className="relative mt-1 overflow-hidden rounded-md bg-black/20 cursor-pointer"
+        style={size}
+        aria-label={`Open image ${attachment.fileName}`}
+      >
+        {attachment.blurhash && !isLoaded && <BlurhashCanvas hash={attachment.blurhash} />}
+        {/* eslint-disable-next-line @next/next/no-img-element -- served by the API with the session cookie */}
+        <img
+          src={getMediaUrl(attachment.mediaId, attachment.hasThumbnail ? "thumbnail" : undefined)}
+          alt={message.text || attachment.fileName}
+          loading="lazy"
+          onLoad={() => setIsLoaded(true)}
+          className={`relative size-full object-cover transition-opacity ${isLoaded ? "opacity-100" : "opacity-0"}`}
+        />
+        {isSending && (
+          <span className="absolute inset-0 flex items-center justify-center bg-black/30">
+            <Loader2 className="size-8 animate-spin text-white" />
+          </span>
+        )}
+      </button>
+      {isFailed && (
+        <button
+          type="button"
+          onClick={retry}
+          className="mt-1 flex items-center gap-1 text-xs text-red-400 cursor-pointer"
+        >
+          <RotateCw className="size-3" /> Not sent. Tap to retry
+        </button>
+      )}
+      {isLightboxOpen && (
+        <MediaLightbox
+          conversationId={message.conversationId}
+          initialMediaId={attachment.mediaId}
+          onClose={() => setIsLightboxOpen(false)}
+        />
+      )}
+    </>
+  );
+};
+
+export default ImageMessage;
@@ -1,100 +1,414 @@
-import React from "react";
+import React, { useState } from "react";
 import MessageStatus from "@/components/common/message-status";
 import { calculateTime } from "@/utils/calculateTime";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 
-import { ChevronDown } from "lucide-react";
-import { Message } from "@/types";
-import { formatWaIdToPhone } from "@/utils";
+import {
+  Ban,
+  ChevronDown,
+  FastForward,
+  Flag,
+  Forward,
+  ListChecks,
+  Pencil,
+  Pin,
+  PinOff,
+  Reply,
+  Star,
+  StarOff,
+  Trash2,
+} from "lucide-react";
+import { Message, PinDuration } from "@/types";
+import {
+  FORWARDED_MANY_TIMES,
+  canDeleteForEveryone,
+  canEditMessage,
+  canForwardMessage,
+  canPinMessage,
+  formatWaIdToPhone,
+} from "@/utils";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useComposerStore } from "@/store/composer-store";
+import { useSelectionStore } from "@/store/selection-store";
+import { useDeleteMessage, useReactToMessage } from "@/hooks/useMessages";
+import { useCancelScheduledMessage, useUpdateScheduledMessage } from "@/hooks/useScheduledMessages";
+import { usePinMessage, useUnpinMessage } from "@/hooks/useConversations";
+import { useToggleStar } from "@/hooks/useStarredMessages";
+import ScheduleMessageDialog from "../schedule-message-dialog";
+import ReportDialog from "../report-dialog";
+import ForwardDialog from "../forward-dialog";
+import useAuth from "@/hooks/useAuth";
+import QuotedMessage from "./quoted-message";
+import ReactionChips from "./reaction-chips";
+import AttachmentMessage from "./attachment-message";
+import ImageMessage from "./image-message";
+import VoiceMessage from "./voice-message";
+
+const QUICK_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "🙏"];
+
+const PIN_DURATIONS: { value: PinDuration | undefined; label: string }[] = [
+  { value: "24h", label: "24 hours" },
+  { value: "7d", label: "7 days" },
+  { value: "30d", label: "30 days" },
+  { value: undefined, label: "Until unpinned" },
+];
 
 type MessageBubbleProps = {
   message: Message;
   isSender: boolean;
   isReceiver: boolean;
+  /** Jumps to a quoted message */
+  onQuoteClick?: (messageId: string) => void;
+  /** Briefly set after jumping to this message */
+  isHighlighted?: boolean;
+  /** Pinned for everyone in the conversation */
+  isPinned?: boolean;
+  /** Starred by the current user (only they see it) */
+  isStarred?: boolean;
 };
 
 const MessageBubble = ({
   message,
   isSender,
   isReceiver,
-}: MessageBubbleProps) => (
-  <div
-    className={`relative flex w-full mb-2 ${isSender ? "justify-end" : "justify-start"
-      }`}
-  >
-    {/* Receiver side: show avatar on upper top left */}
-    {isReceiver && (
-      <div className="flex flex-col items-start mr-2">
-        <Avatar className="size-8 border-2 mb-1">
-          <AvatarFallback>{message.contact.name[0]}</AvatarFallback>
-        </Avatar>
-      </div>
-    )}
-    {/* Message bubble */}
-    {message.type === "text" && (
-      <div
-        className={[
-          "relative group text-primary px-3 py-1 text-sm max-w-[65%] shadow flex flex-col",
-          isSender
-            ? "bg-outgoing ml-8 rounded-tl-md rounded-b-md rounded-tr-none"
-            : "bg-incoming mr-2 rounded-tr-md rounded-b-md rounded-tl-none",
-        ].join(" ")}
-      >
-        <span
+  onQuoteClick,
+  isHighlighted,
+  isPinned,
+  isStarred,
+}: MessageBubbleProps) => {
+  const setEditingMessage = useComposerStore((state) => state.setEditingMessage);
+  const setReplyingTo = useComposerStore((state) => state.setReplyingTo);
+  const { mutate: deleteMessage } = useDeleteMessage();
+  const { mutate: reactToMessage } = useReactToMessage();
+  const { user } = useAuth();
+  const canEdit = canEditMessage(message, isSender);
+  const canDeleteForAll = canDeleteForEveryone(message, isSender);
+  const isDeleted = Boolean(message.deletedAt);
+  // Not sent yet: it can only be edited or cancelled
+  const isScheduled = message.status === "scheduled";
+  const [isEditingSchedule, setIsEditingSchedule] = useState(false);
+  const updateSchedule = useUpdateScheduledMessage();
+  const { mutate: cancelSchedule } = useCancelScheduledMessage();
+  const [isReporting, setIsReporting] = useState(false);
+  const canReport = !isSender && !isDeleted && !isScheduled;
+  const canForward = canForwardMessage(message);
+  const [isForwarding, setIsForwarding] = useState(false);
+  const isSelecting = useSelectionStore((state) => state.isSelecting);
+  const isSelected = useSelectionStore((state) =>
+    state.selectedMessages.some((m) => m.id === message.id)
+  );
+  const toggleSelected = useSelectionStore((state) => state.toggleSelected);
+  const isForwardedManyTimes = (message.forwardCount ?? 0) >= FORWARDED_MANY_TIMES;
+  const canPin = canPinMessage(message);
+  const { mutate: pinMessage } = usePinMessage();
+  const { mutate: unpinMessage } = useUnpinMessage();
+  // Pins are keyed by the id the sender's client generated, like quotes
+  const pinKey = message.clientMessageId ?? message.id;
+  const { mutate: toggleStar } = useToggleStar();
+
+  // Picking the emoji you already reacted with removes it
+  const myReaction = message.reactions?.find((r) => r.waId === user?.waId)?.emoji;
+  const toggleReaction = (emoji: string) =>
+    reactToMessage(message, emoji === myReaction ? null : emoji);
+
+  const handleDelete = (deleteFor: "me" | "everyone") => {
+    if (
+      confirm(
+        deleteFor === "everyone"
+          ? "Delete this message for everyone?"
+          : "Delete this message for you?"
+      )
+    ) {
+      deleteMessage(message, deleteFor);
+    }
+  };
+
+  const handleCancelSchedule = () => {
+    if (confirm("Cancel this scheduled message?")) {
+      cancelSchedule(message.id);
+    }
+  };
+
+  const handleUpdateSchedule = (text: string, scheduledFor: number) => {
+    updateSchedule.mutate(
+      { scheduleId: message.id, text, scheduledFor },
+      { onSuccess: () => setIsEditingSchedule(false) }
+    );
+  };
+
+  return (
+    <div
+      className={`relative flex w-full mb-2 ${isSender ? "justify-end" : "justify-start"
+        } ${isSelected ? "bg-label/10" : ""}`}
+      // While selecting, a click picks the message instead of reaching the bubble
+      onClickCapture={
+        isSelecting && canForward
+          ? (e) => {
+            e.stopPropagation();
+            toggleSelected(message);
+          }
+          : undefined
+      }
+    >
+      {/* Receiver side: show avatar on upper top left */}
+      {isReceiver && (
+        <div className="flex flex-col items-start mr-2">
+          <Avatar className="size-8 border-2 mb-1">
+            <AvatarFallback>{message.contact.name[0]}</AvatarFallback>
+          </Avatar>
+        </div>
+      )}
+      {/* Message bubble */}
+      {(message.type === "text" || message.attachment) && (
+        <div
           className={[
-            "absolute top-0",
+            "relative group text-primary px-3 py-1 text-sm max-w-[65%] shadow flex flex-col",
             isSender
-              ? "right-[-8px] text-outgoing scale-x-[-1]"
-              : "left-[-8px] text-incoming",
+              ? "bg-outgoing ml-8 rounded-tl-md rounded-b-md rounded-tr-none"
+              : "bg-incoming mr-2 rounded-tr-md rounded-b-md rounded-tl-none",
+            isHighlighted ? "ring-2 ring-label transition-shadow" : "",
+            isScheduled ? "opacity-75" : "",
           ].join(" ")}
         >
-          <svg
-            viewBox="0 0 8 13"
-            height="13"
-            width="8"
-            preserveAspectRatio="xMidYMid meet"
-            className=""
-            version="1.1"
-            x="0px"
-            y="0px"
-            enableBackground="new 0 0 8 13"
+          <span
+            className={[
+              "absolute top-0",
+              isSender
+                ? "right-[-8px] text-outgoing scale-x-[-1]"
+                : "left-[-8px] text-incoming",
+            ].join(" ")}
           >
-            <title>tail-in</title>
-            <path
-              opacity="0.13"
-              fill="#0000000"
-              d="M1.533,3.568L8,12.193V1H2.812 C1.042,1,0.474,2.156,1.533,3.568z"
-            ></path>
-            <path
-              fill="currentColor"
-              d="M1.533,2.568L8,11.193V0L2.812,0C1.042,0,0.474,1.156,1.533,2.568z"
-            ></path>
-          </svg>
-        </span>
-        <ChevronDown
-          className={` cursor-pointer absolute hidden group-hover:block top-0.5 right-2`}
-        />
-        {/* Optional: show name for receiver */}
-        {isReceiver && (
-          <div className="capitalize text-wa-info text-[11px] mt-1">
-            {formatWaIdToPhone(message.from)}
-          </div>
-        )}
-        <div className="flex gap-2 items-end ">
-          <span className="break-all text-white leading-7">{message.text}</span>
-          <div className="flex gap-1 items-end text-wa-info">
-            <span className="text-[11px] pt-1 min-w-fit">
-              {calculateTime(message?.createdAt)}
-            </span>
-            <span>
-              {isSender && <MessageStatus messageStatus={message?.status} />}
+            <svg
+              viewBox="0 0 8 13"
+              height="13"
+              width="8"
+              preserveAspectRatio="xMidYMid meet"
+              className=""
+              version="1.1"
+              x="0px"
+              y="0px"
+              enableBackground="new 0 0 8 13"
+            >
+              <title>tail-in</title>
+              <path
+                opacity="0.13"
+                fill="#0000000"
+                d="M1.533,3.568L8,12.193V1H2.812 C1.042,1,0.474,2.156,1.533,3.568z"
+              ></path>
+              <path
+                fill="currentColor"
+                d="M1.533,2.568L8,11.193V0L2.812,0C1.042,0,0.474,1.156,1.533,2.568z"
+              ></path>
+            </svg>
+          </span>
+          <DropdownMenu>
+            <DropdownMenuTrigger
+              className="absolute hidden group-hover:block data-[state=open]:block top-0.5 right-2"
+              aria-label="Message options"
+            >
+              <ChevronDown className="cursor-pointer" />
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {isScheduled ? (
+                <>
+                  <DropdownMenuItem onClick={() => setIsEditingSchedule(true)}>
+                    <Pencil /> Edit scheduled message
+                  </DropdownMenuItem>
+                  <DropdownMenuItem variant="destructive" onClick={handleCancelSchedule}>
+                    <Trash2 /> Cancel scheduled message
+                  </DropdownMenuItem>
+                </>
+              ) : (
+                <>
+                  {!isDeleted && (
+                    <div className="flex gap-0.5 px-1 pb-1" role="group" aria-label="React">
+                      {QUICK_REACTIONS.map((emoji) => (
+                        <DropdownMenuItem
+                          key={emoji}
+                          onClick={() => toggleReaction(emoji)}
+                          className={`text-lg px-1.5 ${emoji === myReaction ? "bg-accent" : ""}`}
+                          aria-label={`React with ${emoji}`}
+                        >
+                          {emoji}
+                        </DropdownMenuItem>
+                      ))}
+                    </div>
+                  )}
+                  {!isDeleted && (
+                    <DropdownMenuItem onClick={() => setReplyingTo(message)}>
+                      <Reply /> Reply
+                    </DropdownMenuItem>
+                  )}
+                  {canForward && (
+                    <>
+                      <DropdownMenuItem onClick={() => setIsForwarding(true)}>
+                        <Forward /> Forward
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => toggleSelected(message)}>
+                        <ListChecks /> Select
+                      </DropdownMenuItem>
+                    </>
+                  )}
+                  {/* Like pins, stars need the server copy of the message */}
+                  {canPin && (
+                    <DropdownMenuItem onClick={() => toggleStar({ message, starred: !isStarred })}>
+                      {isStarred ? <StarOff /> : <Star />} {isStarred ? "Unstar" : "Star"}
+                    </DropdownMenuItem>
+                  )}
+                  {canPin && isPinned && (
+                    <DropdownMenuItem
+                      onClick={() =>
+                        unpinMessage({ conversationId: message.conversationId, messageId: pinKey })
+                      }
+                    >
+                      <PinOff /> Unpin
+                    </DropdownMenuItem>
+                  )}
+                  {canPin && !isPinned && (
+                    <DropdownMenuSub>
+                      <DropdownMenuSubTrigger className="gap-2 [&_svg:not([class*='size-'])]:size-4">
+                        <Pin /> Pin
+                      </DropdownMenuSubTrigger>
+                      <DropdownMenuSubContent>
+                        {PIN_DURATIONS.map(({ value, label }) => (
+                          <DropdownMenuItem
+                            key={label}
+                            onClick={() =>
+                              pinMessage({
+                                conversationId: message.conversationId,
+                                messageId: pinKey,
+                                duration: value,
+                              })
+                            }
+                          >
+                            {label}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuSubContent>
+                    </DropdownMenuSub>
+                  )}
+                  {canEdit && (
+                    <DropdownMenuItem onClick={() => setEditingMessage(message)}>
+                      <Pencil /> Edit
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem onClick={() => handleDelete("me")}>
+                    <Trash2 /> Delete for me
+                  </DropdownMenuItem>
+                  {canDeleteForAll && (
+                    <DropdownMenuItem
+                      variant="destructive"
+                      onClick={() => handleDelete("everyone")}
+                    >
+                      <Trash2 /> Delete for everyone
+                    </DropdownMenuItem>
+                  )}
+                  {canReport && (
+                    <DropdownMenuItem variant="destructive" onClick={() => setIsReporting(true)}>
+                      <Flag /> Report
+                    </DropdownMenuItem>
+                  )}
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          {/* Optional: show name for receiver */}
+          {isReceiver && (
+            <div className="capitalize text-wa-info text-[11px] mt-1">
+              {formatWaIdToPhone(message.from)}
+            </div>
+          )}
+          {message.forwarded && !isDeleted && (
+            <span className="flex items-center gap-1 italic text-wa-info text-[11px] mt-1">
+              {isForwardedManyTimes ? <FastForward className="size-3" /> : <Forward className="size-3" />}
+              {isForwardedManyTimes ? "Forwarded many times" : "Forwarded"}
             </span>
+          )}
+          {message.replyTo && !isDeleted && (
+            <QuotedMessage reply={message.replyTo} onClick={onQuoteClick} />
+          )}
+          {message.attachment && !isDeleted && (
+            message.type === "image" ? (
+              <ImageMessage message={message} attachment={message.attachment} />
+            ) : message.type === "audio" ? (
+              <VoiceMessage message={message} attachment={message.attachment} isSender={isSender} />
+            ) : (
+              <AttachmentMessage attachment={message.attachment} />
+            )
+          )}
+          <div className="flex gap-2 items-end ">
+            {isDeleted ? (
+              <span className="flex items-center gap-1 italic text-wa-info leading-7">
+                <Ban className="size-4" />
+                {isSender ? "You deleted this message" : "This message was deleted"}
+              </span>
+            ) : (
+              <span className="break-all text-white leading-7">{message.text}</span>
+            )}
+            <div className="flex gap-1 items-end text-wa-info">
+              {isStarred && !isDeleted && (
+                <Star className="size-3 mb-1 fill-current" aria-label="Starred" />
+              )}
+              {isPinned && !isDeleted && (
+                <Pin className="size-3 mb-1" aria-label="Pinned" />
+              )}
+              {message.editedAt && !isDeleted && (
+                <span className="text-[11px] pt-1 italic" title={`Edited ${new Date(message.editedAt).toLocaleString()}`}>
+                  Edited
+                </span>
+              )}
+              <span className="text-[11px] pt-1 min-w-fit">
+                {isScheduled && message.scheduledFor
+                  ? `Scheduled for ${new Date(message.scheduledFor).toLocaleString([], {
+                    dateStyle: "medium",
+                    timeStyle: "short",
+                  })}`
+                  : calculateTime(message?.createdAt)}
+              </span>
+              <span>
+                {isSender && <MessageStatus messageStatus={message?.status} />}
+              </span>
+            </div>
           </div>
+          {!isDeleted && message.reactions && (
+            <ReactionChips reactions={message.reactions} onToggle={toggleReaction} />
+          )}
         </div>
-      </div>
-    )}
-    {/* Sender side: no avatar */}
-  </div>
-);
+      )}
+      {/* Sender side: no avatar */}
+      {canForward && (
+        <ForwardDialog open={isForwarding} onOpenChange={setIsForwarding} messages={[message]} />
+      )}
+      {canReport && (
+        <ReportDialog
+          open={isReporting}
+          onOpenChange={setIsReporting}
+          target={{ messageId: message.clientMessageId ?? message.id }}
+          name={message.contact.name || formatWaIdToPhone(message.from) || message.from}
+        />
+      )}
+      {isScheduled && (
+        <ScheduleMessageDialog
+          open={isEditingSchedule}
+          onOpenChange={setIsEditingSchedule}
+          initialText={message.text}
+          initialTime={message.scheduledFor}
+          title="Edit scheduled message"
+          submitLabel="Save"
+          isPending={updateSchedule.isPending}
+          onSubmit={handleUpdateSchedule}
+        />
+      )}
+    </div>
+  );
+};
 
 export default MessageBubble;
@@ -0,0 +1,112 @@
+import { useEffect, useRef, useState } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Message } from "@/types";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { messageDexieService } from "@/services/message.dexie.service";
+import { getMediaUrl } from "@/services/media.service";
+import { calculateTime } from "@/utils/calculateTime";
+
+// Horizontal distance (px) a swipe needs to change image
+const SWIPE_THRESHOLD = 50;
+
+type MediaLightboxProps = {
+  conversationId: string;
+  /** Image shown first */
+  initialMediaId: string;
+  onClose: () => void;
+};
+
+/**
+ * Full-screen viewer for the images of a conversation.
+ * Arrow keys, the side buttons and swipes move between images; Escape closes.
+ */
+const MediaLightbox = ({ conversationId, initialMediaId, onClose }: MediaLightboxProps) => {
+  const [images, setImages] = useState<Message[]>([]);
+  const [index, setIndex] = useState(0);
+  const swipeStartX = useRef<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    messageDexieService.getMediaMessages(conversationId, "image").then((messages) => {
+      if (cancelled) return;
+      setImages(messages);
+      setIndex(Math.max(0, messages.findIndex((m) => m.attachment?.mediaId === initialMediaId)));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId, initialMediaId]);
+
+  const hasPrevious = index > 0;
+  const hasNext = index < images.length - 1;
+  const showPrevious = () => hasPrevious && setIndex(index - 1);
+  const showNext = () => hasNext && setIndex(index + 1);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowLeft") showPrevious();
+    else if (e.key === "ArrowRight") showNext();
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (swipeStartX.current === null) return;
+    const distance = e.clientX - swipeStartX.current;
+    swipeStartX.current = null;
+    if (distance > SWIPE_THRESHOLD) showPrevious();
+    else if (distance < -SWIPE_THRESHOLD) showNext();
+  };
+
+  const current = images[index];
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent
+        className="max-w-none sm:max-w-none w-screen h-screen rounded-none border-none bg-black/95 p-4 flex flex-col"
+        onKeyDown={handleKeyDown}
+      >
+        <DialogTitle className="text-sm font-normal text-white">
+          {current ? `${index + 1} / ${images.length} · ${calculateTime(current.createdAt)}` : "Image"}
+        </DialogTitle>
+        <div
+          className="relative flex-1 flex items-center justify-center min-h-0 touch-pan-y select-none"
+          onPointerDown={(e) => (swipeStartX.current = e.clientX)}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => (swipeStartX.current = null)}
+        >
+          {current?.attachment && (
+            // eslint-disable-next-line @next/next/no-img-element -- served by the API with the session cookie
+            <img
+              key={current.attachment.mediaId}
+              src={getMediaUrl(current.attachment.mediaId)}
+              alt={current.text || current.attachment.fileName}
+              className="max-h-full max-w-full object-contain"
+              draggable={false}
+            />
+          )}
+          {hasPrevious && (
+            <button
+              type="button"
+              onClick={showPrevious}
+              className="absolute left-2 rounded-full bg-black/50 p-2 text-white cursor-pointer"
+              aria-label="Previous image"
+            >
+              <ChevronLeft className="size-6" />
+            </button>
+          )}
+          {hasNext && (
+            <button
+              type="button"
+              onClick={showNext}
+              className="absolute right-2 rounded-full bg-black/50 p-2 text-white cursor-pointer"
+              aria-label="Next image"
+            >
+              <ChevronRight className="size-6" />
+            </button>
+          )}
+        </div>
+        {current?.text && <p className="text-center text-white text-sm">{current.text}</p>}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MediaLightbox;
@@ -0,0 +1,32 @@
+import { MessageReply } from "@/types";
+import useAuth from "@/hooks/useAuth";
+import { formatWaIdToPhone } from "@/utils";
+
+type QuotedMessageProps = {
+  reply: MessageReply;
+  onClick?: (messageId: string) => void;
+};
+
+/**
+ * Quoted block at the top of a reply. Clicking it jumps to the original message.
+ */
+const QuotedMessage = ({ reply, onClick }: QuotedMessageProps) => {
+  const { user } = useAuth();
+  const author = reply.from === user?.waId ? "You" : formatWaIdToPhone(reply.from);
+
+  return (
+    <button
+      type="button"
+      onClick={() => onClick?.(reply.messageId)}
+      className="mt-1 mb-0.5 w-full text-left rounded-md border-l-4 border-label bg-black/10 px-2 py-1 cursor-pointer"
+      aria-label="Go to quoted message"
+    >
+      <span className="block text-label text-xs font-semibold">{author}</span>
+      <span className="block text-muted-foreground text-xs line-clamp-2 break-all">
+        {reply.text || <em>This message was deleted</em>}
+      </span>
+    </button>
+  );
+};
+
+export default QuotedMessage;
@@ -0,0 +1,58 @@
+import { useMemo } from "react";
+import { MessageReaction } from "@/types";
+import useAuth from "@/hooks/useAuth";
+import { formatWaIdToPhone } from "@/utils";
+
+type ReactionChipsProps = {
+  reactions: MessageReaction[];
+  /** Toggles the current user's reaction */
+  onToggle: (emoji: string) => void;
+};
+
+/**
+ * Reactions grouped by emoji, with who reacted in the tooltip.
+ */
+const ReactionChips = ({ reactions, onToggle }: ReactionChipsProps) => {
+  const { user } = useAuth();
+
+  const groups = useMemo(() => {
+    const byEmoji = new Map<string, string[]>();
+    reactions.forEach(({ emoji, waId }) => {
+      byEmoji.set(emoji, [...(byEmoji.get(emoji) ?? []), waId]);
+    });
+    return [...byEmoji.entries()].sort((a, b) => b[1].length - a[1].length);
+  }, [reactions]);
+
+  if (groups.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1 mb-0.5">
+      {groups.map(([emoji, waIds]) => {
+        const isMine = Boolean(user?.waId && waIds.includes(user.waId));
+        const names = waIds
+          .map((waId) => (waId === user?.waId ? "You" : formatWaIdToPhone(waId)))
+          .join(", ");
+
+        return (
+          <button
+            key={emoji}
+            type="button"
+            onClick={() => onToggle(emoji)}
+            title={names}
+            aria-label={`${emoji} ${waIds.length}: ${names}`}
+            aria-pressed={isMine}
+            className={[
+              "flex items-center gap-1 rounded-full px-1.5 text-xs bg-black/20 cursor-pointer",
+              isMine ? "ring-1 ring-label" : "",
+            ].join(" ")}
+          >
+            <span>{emoji}</span>
+            {waIds.length > 1 && <span className="text-wa-info">{waIds.length}</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ReactionChips;
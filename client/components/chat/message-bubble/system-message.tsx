@@ -0,0 +1,16 @@
+import { Timer } from "lucide-react";
+import { Message } from "@/types";
+
+/**
+ * Centered notice for conversation events, e.g. the disappearing messages timer changing.
+ */
+const SystemMessage = ({ message }: { message: Message }) => (
+  <div className="flex w-full justify-center mb-2">
+    <p className="flex items-center gap-1.5 max-w-[85%] rounded-md bg-incoming px-3 py-1.5 text-center text-xs text-muted-foreground shadow-sm">
+      <Timer className="size-3.5 shrink-0" />
+      {message.text}
+    </p>
+  </div>
+);
+
+export default SystemMessage;
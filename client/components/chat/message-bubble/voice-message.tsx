@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from "react";
+import { Loader2, Pause, Play, RotateCw } from "lucide-react";
+import { Message, MessageAttachment } from "@/types";
+import { getMediaUrl } from "@/services/media.service";
+import { messageDexieService } from "@/services/message.dexie.service";
+import { formatDuration } from "@/utils/media";
+
+const PLAYBACK_RATES = [1, 1.5, 2];
+// Flat bars for notes recorded without a waveform
+const FALLBACK_WAVEFORM = Array.from({ length: 48 }, () => 30);
+
+type VoiceMessageProps = {
+  message: Message;
+  attachment: MessageAttachment;
+  isSender: boolean;
+};
+
+/**
+ * Voice note bubble: play/pause, seekable waveform, playback speed and an unplayed dot.
+ */
+const VoiceMessage = ({ message, attachment, isSender }: VoiceMessageProps) => {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [rate, setRate] = useState(PLAYBACK_RATES[0]);
+  const duration = attachment.duration ?? 0;
+  const waveform = attachment.waveform?.length ? attachment.waveform : FALLBACK_WAVEFORM;
+  const progress = duration ? Math.min(1, currentTime / duration) : 0;
+  const isSending = message.status === "pending" || message.status === "sending";
+  const isFailed = message.status === "failed";
+  const isUnplayed = !isSender && !message.playedAt;
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = rate;
+  }, [rate]);
+
+  const togglePlay = async () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (!audio.paused) {
+      audio.pause();
+      return;
+    }
+
+    await audio.play();
+    if (isUnplayed) {
+      await messageDexieService.updateMessage(message.clientMessageId ?? message.id, {
+        playedAt: Date.now(),
+      });
+    }
+  };
+
+  const seek = (e: React.MouseEvent<HTMLDivElement>) => {
+    const audio = audioRef.current;
+    if (!audio || !duration) return;
+    const { left, width } = e.currentTarget.getBoundingClientRect();
+    audio.currentTime = ((e.clientX - left) / width) * duration;
+    setCurrentTime(audio.currentTime);
+  };
+
+  const cycleRate = () =>
+    setRate(PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(rate) + 1) % PLAYBACK_RATES.length]);
+
+  const retry = async () => {
+    const { messageQueueService } = await import("@/services/message-queue.service");
+    await messageQueueService.retryMessage(message.id);
+  };
+
+  return (
+    <div className="mt-1 flex items-center gap-2 min-w-60 py-1">
+      <audio
+        ref={audioRef}
+        src={getMediaUrl(attachment.mediaId)}
+        preload="none"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => {
+          setIsPlaying(false);
+          setCurrentTime(0);
+        }}
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+      />
+      {isSending ? (
+        <Loader2 className="size-8 shrink-0 animate-spin text-wa-info" />
+      ) : isFailed ? (
+        <button type="button" onClick={retry} aria-label="Retry sending" className="cursor-pointer">
+          <RotateCw className="size-7 shrink-0 text-red-400" />
+        </button>
+      ) : (
+        <button
+          type="button"
+          onClick={togglePlay}
+          aria-label={isPlaying ? "Pause voice message" : "Play voice message"}
+          className="cursor-pointer"
+        >
+          {isPlaying ? (
+            <Pause className="size-7 shrink-0 text-wa-info" />
+          ) : (
+            <Play className="size-7 shrink-0 text-wa-info" />
+          )}
+        </button>
+      )}
+      <div className="flex flex-col flex-1 gap-1">
+        <div
+          className="flex items-center gap-px h-8 cursor-pointer"
+          onClick={seek}
+          role="slider"
+          aria-label="Seek"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(duration)}
+          aria-valuenow={Math.round(currentTime)}
+          tabIndex={-1}
+        >
+          {waveform.map((value, i) => (
+            <span
+              key={i}
+              className={`flex-1 rounded-full ${i / waveform.length < progress ? "bg-label" : "bg-wa-info/50"}`}
+              style={{ height: `${Math.max(10, value)}%` }}
+            />
+          ))}
+        </div>
+        <div className="flex items-center gap-2 text-[11px] text-wa-info">
+          {isUnplayed && <span className="size-2 rounded-full bg-label" aria-label="Not played" />}
+          <span className="tabular-nums">
+            {formatDuration(isPlaying || currentTime ? currentTime : duration)}
+          </span>
+        </div>
+      </div>
+      <button
+        type="button"
+        onClick={cycleRate}
+        className="rounded-full bg-black/20 px-1.5 text-[11px] text-white cursor-pointer"
+        aria-label="Playback speed"
+      >
+        {rate}x
+      </button>
+    </div>
+  );
+};
+
+export default VoiceMessage;
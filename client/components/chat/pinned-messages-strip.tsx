@@ -0,0 +1,86 @@
+import { useEffect, useMemo, useState } from "react";
+import { Pin, PinOff } from "lucide-react";
+import { usePinnedMessages, useUnpinMessage } from "@/hooks/useConversations";
+import { useMessageJumpStore } from "@/store/message-jump-store";
+import { PinnedMessage } from "@/types";
+
+const PIN_TYPE_LABELS: Partial<Record<PinnedMessage["type"], string>> = {
+  image: "Photo",
+  video: "Video",
+  audio: "Voice message",
+  document: "Document",
+};
+
+type PinnedMessagesStripProps = {
+  conversationId: string;
+};
+
+/**
+ * Strip below the chat header showing one pinned message at a time.
+ * Clicking it jumps to that message and moves on to the next pin, like WhatsApp.
+ */
+const PinnedMessagesStrip = ({ conversationId }: PinnedMessagesStripProps) => {
+  const pinnedMessages = usePinnedMessages(conversationId);
+  // Newest pin first
+  const pins = useMemo(() => [...pinnedMessages].reverse(), [pinnedMessages]);
+  const jumpToMessage = useMessageJumpStore((state) => state.jumpToMessage);
+  const { mutate: unpinMessage, isPending: isUnpinning } = useUnpinMessage();
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => {
+    setIndex(0);
+  }, [conversationId]);
+
+  if (!pins.length) return null;
+
+  const current = Math.min(index, pins.length - 1);
+  const pin = pins[current];
+
+  const handleClick = () => {
+    jumpToMessage(conversationId, pin.messageId);
+    setIndex((current + 1) % pins.length);
+  };
+
+  return (
+    <div className="flex items-center gap-2 w-full px-4 py-1.5 border-t bg-background shadow-sm z-10">
+      <div className="flex flex-col gap-0.5 self-stretch" aria-hidden>
+        {pins.map(({ messageId }, i) => (
+          <span
+            key={messageId}
+            className={`w-0.5 flex-1 rounded-full ${i === current ? "bg-label" : "bg-muted"}`}
+          />
+        ))}
+      </div>
+      <button
+        type="button"
+        className="flex flex-1 items-center gap-2 min-w-0 text-left text-sm cursor-pointer"
+        onClick={handleClick}
+        aria-label="Go to pinned message"
+      >
+        <Pin className="size-4 shrink-0 text-muted-foreground" />
+        <span className="flex flex-col min-w-0">
+          {pins.length > 1 && (
+            <span className="text-[11px] text-label">
+              Pinned message {current + 1} of {pins.length}
+            </span>
+          )}
+          <span className="truncate text-primary">
+            {pin.text || PIN_TYPE_LABELS[pin.type] || "Message"}
+          </span>
+        </span>
+      </button>
+      <button
+        type="button"
+        className="p-1 rounded text-muted-foreground hover:bg-muted disabled:opacity-50"
+        onClick={() => unpinMessage({ conversationId, messageId: pin.messageId })}
+        disabled={isUnpinning}
+        aria-label="Unpin message"
+        title="Unpin"
+      >
+        <PinOff className="size-4" />
+      </button>
+    </div>
+  );
+};
+
+export default PinnedMessagesStrip;
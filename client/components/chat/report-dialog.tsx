@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useReportContent } from "@/hooks/useReports";
+import { ReportReason } from "@/types";
+
+const REPORT_REASONS: { value: ReportReason; label: string }[] = [
+  { value: "spam", label: "Spam" },
+  { value: "scam", label: "Scam or fraud" },
+  { value: "harassment", label: "Harassment or bullying" },
+  { value: "hate_speech", label: "Hate speech" },
+  { value: "violence", label: "Violence or threats" },
+  { value: "sexual_content", label: "Sexual content" },
+  { value: "other", label: "Something else" },
+];
+
+type ReportDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** What is reported: a message (by `clientMessageId ?? id`) or a user */
+  target: { messageId: string } | { waId: string };
+  /** Who the report is about, for the title */
+  name: string;
+  /** Offer to block the user as well (hidden if they are already blocked) */
+  canBlock?: boolean;
+};
+
+/**
+ * Picks the reason for reporting a message or a user.
+ * The server keeps the surrounding messages as evidence.
+ */
+const ReportDialog = ({ open, onOpenChange, target, name, canBlock = true }: ReportDialogProps) => {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState("");
+  const [block, setBlock] = useState(false);
+  const report = useReportContent();
+  const isMessage = "messageId" in target;
+
+  // Start from scratch each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setReason(null);
+    setDetails("");
+    setBlock(false);
+  }, [open]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason) return;
+    report.mutate(
+      { ...target, reason, details: details.trim() || undefined, block: canBlock && block },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isMessage ? `Report message from ${name}?` : `Report ${name}?`}</DialogTitle>
+          <DialogDescription>
+            {isMessage
+              ? "The reported message and the messages around it are sent to the moderators."
+              : "The most recent messages with this user are sent to the moderators."}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4 mt-2">
+          <fieldset className="flex flex-col gap-2">
+            <legend className="text-sm font-medium mb-1">Reason</legend>
+            {REPORT_REASONS.map(({ value, label }) => (
+              <label key={value} className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="radio"
+                  name="report-reason"
+                  value={value}
+                  checked={reason === value}
+                  onChange={() => setReason(value)}
+                />
+                {label}
+              </label>
+            ))}
+          </fieldset>
+          <div>
+            <label className="block text-sm font-medium mb-1" htmlFor="report-details">
+              Details (optional)
+            </label>
+            <textarea
+              id="report-details"
+              className="w-full border rounded px-3 py-2 text-sm focus:outline-none resize-none"
+              rows={3}
+              maxLength={1000}
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+            />
+          </div>
+          {canBlock && (
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <input type="checkbox" checked={block} onChange={(e) => setBlock(e.target.checked)} />
+              Also block {name}
+            </label>
+          )}
+          <div className="flex justify-end gap-2 mt-2">
+            <button
+              type="button"
+              className="px-4 py-2 rounded bg-muted text-primary"
+              onClick={() => onOpenChange(false)}
+              disabled={report.isPending}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded bg-red-600 text-white disabled:opacity-50"
+              disabled={!reason || report.isPending}
+            >
+              {report.isPending ? "Reporting..." : "Report"}
+            </button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportDialog;
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+// Messages must be scheduled at least a minute ahead
+const MIN_LEAD_MS = 60 * 1000;
+
+// <input type="datetime-local"> works in local time without a zone
+function toLocalInputValue(timestamp: number) {
+  const date = new Date(timestamp);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 16);
+}
+
+type ScheduleMessageDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Pre-filled text (the draft, or the scheduled message being edited) */
+  initialText: string;
+  /** Pre-filled time (epoch ms); defaults to an hour from now */
+  initialTime?: number;
+  title: string;
+  submitLabel?: string;
+  isPending?: boolean;
+  onSubmit: (text: string, scheduledFor: number) => void;
+};
+
+/**
+ * Picks the text and time of a scheduled message.
+ */
+const ScheduleMessageDialog = ({
+  open,
+  onOpenChange,
+  initialText,
+  initialTime,
+  title,
+  submitLabel = "Schedule",
+  isPending,
+  onSubmit,
+}: ScheduleMessageDialogProps) => {
+  const [text, setText] = useState(initialText);
+  const [time, setTime] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the given values each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setText(initialText);
+    setTime(toLocalInputValue(initialTime ?? Date.now() + 60 * 60 * 1000));
+    setError(null);
+  }, [open, initialText, initialTime]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const scheduledFor = new Date(time).getTime();
+    if (!text.trim()) {
+      setError("Message text is required.");
+      return;
+    }
+    if (Number.isNaN(scheduledFor) || scheduledFor - Date.now() < MIN_LEAD_MS) {
+      setError("Pick a time at least a minute from now.");
+      return;
+    }
+    onSubmit(text.trim(), scheduledFor);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>The message is sent automatically at the chosen time.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4 mt-2">
+          <div>
+            <label className="block text-sm font-medium mb-1" htmlFor="scheduled-text">
+              Message
+            </label>
+            <textarea
+              id="scheduled-text"
+              className="w-full border rounded px-3 py-2 text-sm focus:outline-none resize-none"
+              rows={3}
+              maxLength={4000}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1" htmlFor="scheduled-time">
+              Send at
+            </label>
+            <input
+              id="scheduled-time"
+              type="datetime-local"
+              className="w-full border rounded px-3 py-2 text-sm focus:outline-none"
+              min={toLocalInputValue(Date.now() + MIN_LEAD_MS)}
+              value={time}
+              onChange={(e) => setTime(e.target.value)}
+              required
+            />
+          </div>
+          {error && <div className="text-red-500 text-sm">{error}</div>}
+          <div className="flex justify-end gap-2 mt-2">
+            <button
+              type="button"
+              className="px-4 py-2 rounded bg-muted text-primary"
+              onClick={() => onOpenChange(false)}
+              disabled={isPending}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded bg-primary text-white"
+              disabled={isPending}
+            >
+              {isPending ? "Saving..." : submitLabel}
+            </button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScheduleMessageDialog;
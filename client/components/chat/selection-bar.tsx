@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+import { Forward, X } from "lucide-react";
+import { useChatParams } from "@/hooks/use-chat-params";
+import { useSelectionStore } from "@/store/selection-store";
+import ForwardDialog from "./forward-dialog";
+
+/**
+ * Replaces the message bar while messages are selected: shows the count and forwards them.
+ */
+function SelectionBar() {
+  const { conversationId } = useChatParams();
+  const selectedMessages = useSelectionStore((state) => state.selectedMessages);
+  const clearSelection = useSelectionStore((state) => state.clearSelection);
+  const [isForwarding, setIsForwarding] = useState(false);
+
+  // A selection belongs to the chat it was made in
+  useEffect(() => {
+    if (selectedMessages.some((m) => m.conversationId !== conversationId)) {
+      clearSelection();
+    }
+  }, [conversationId, selectedMessages, clearSelection]);
+
+  return (
+    <div className="dark:bg-message-bar shadow-sm rounded-full h-message-bar mx-3 mb-3 px-4 flex items-center gap-4">
+      <button
+        type="button"
+        onClick={clearSelection}
+        className="cursor-pointer text-panel-header-icon"
+        aria-label="Cancel selection"
+      >
+        <X />
+      </button>
+      <span className="flex-1 text-sm text-primary">{selectedMessages.length} selected</span>
+      <button
+        type="button"
+        onClick={() => setIsForwarding(true)}
+        disabled={!selectedMessages.length}
+        className="cursor-pointer text-panel-header-icon disabled:opacity-50"
+        aria-label="Forward selected messages"
+      >
+        <Forward />
+      </button>
+      <ForwardDialog
+        open={isForwarding}
+        onOpenChange={setIsForwarding}
+        messages={selectedMessages}
+        onForwarded={clearSelection}
+      />
+    </div>
+  );
+}
+
+export default SelectionBar;
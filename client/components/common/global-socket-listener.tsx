@@ -5,11 +5,20 @@ import { SocketEvents } from "@/types/socket-events";
 import useAuth from "@/hooks/useAuth";
 import { Message } from "@/types";
 import { usePushNotifications } from "@/hooks/usePushNotifications";
+import { useMessageSync } from "@/hooks/useMessageSync";
+import { messageDexieService } from "@/services/message.dexie.service";
 import {
     handleIncomingMessage,
     handleStatusUpdate,
+    handleMessageUpdated,
+    handleMessageDeleted,
+    handleMessagesExpired,
+    handleReactionUpdated,
+    handleStarUpdated,
+    handleActivity,
     handleBulkRead,
     handleUserOnline,
+    handleScheduledMessageUpdated,
     handleForcedLogout,
 } from "@/logic/socket-event-handlers";
 
@@ -17,6 +26,9 @@ export default function GlobalSocketListener() {
     const { user } = useAuth();
     const { subscribeToPush } = usePushNotifications();
 
+    // Catch up on messages missed while offline, on reconnect
+    useMessageSync(Boolean(user?.waId));
+
     // Initialize socket connection when user is authenticated
     useEffect(() => {
         if (!user?.waId) return;
@@ -24,38 +36,57 @@ export default function GlobalSocketListener() {
         // Auto-subscribe to push notifications
         subscribeToPush();
 
-        const socket = socketService.getSocket();
+        // Disappearing messages that expired while this device was offline
+        messageDexieService.purgeExpiredMessages().catch(console.error);
 
         // Listener for incoming messages
         const onMessageCreated = (payload: { message: Message; conversationId: string }) =>
-            handleIncomingMessage(socket, user?.waId, payload);
+            handleIncomingMessage(user?.waId, payload);
+
+        const unsubscribers = [
+            socketService.on(SocketEvents.MESSAGE_CREATED, onMessageCreated),
+
+            // Listener for edits and other server-side message changes
+            socketService.on(SocketEvents.MESSAGE_UPDATED, handleMessageUpdated),
+
+            // Listener for deletions (for me / for everyone)
+            socketService.on(SocketEvents.MESSAGE_DELETED, handleMessageDeleted),
+
+            // Listener for disappearing messages purged by the server
+            socketService.on(SocketEvents.MESSAGES_EXPIRED, handleMessagesExpired),
+
+            // Listener for reactions
+            socketService.on(SocketEvents.MESSAGE_REACTION_UPDATED, handleReactionUpdated),
 
-        socket.on(SocketEvents.MESSAGE_CREATED, onMessageCreated);
+            // Listener for stars set on the user's other devices
+            socketService.on(SocketEvents.MESSAGE_STAR_UPDATED, handleStarUpdated),
 
-        // Listener for status updates
-        socket.on(SocketEvents.MESSAGE_STATUS_UPDATED, handleStatusUpdate);
+            // Listeners for typing/recording indicators
+            socketService.on(SocketEvents.TYPING_START, (payload) => handleActivity("typing", true, payload)),
+            socketService.on(SocketEvents.TYPING_STOP, (payload) => handleActivity("typing", false, payload)),
+            socketService.on(SocketEvents.RECORDING_START, (payload) => handleActivity("recording", true, payload)),
+            socketService.on(SocketEvents.RECORDING_STOP, (payload) => handleActivity("recording", false, payload)),
 
-        // Listener for bulk read receipt
-        socket.on(SocketEvents.MESSAGES_MARKED_AS_READ, handleBulkRead);
+            // Listener for status updates
+            socketService.on(SocketEvents.MESSAGE_STATUS_UPDATED, handleStatusUpdate),
 
-        // Listener for User Online -> Resend pending messages
-        const onUserOnline = ({ waId }: { waId: string }) =>
-            handleUserOnline(socket, { waId });
+            // Listener for bulk read receipt
+            socketService.on(SocketEvents.MESSAGES_MARKED_AS_READ, handleBulkRead),
 
-        socket.on(SocketEvents.USER_ONLINE, onUserOnline);
+            // Listener for scheduled messages that failed to send
+            socketService.on(SocketEvents.SCHEDULED_MESSAGE_UPDATED, handleScheduledMessageUpdated),
 
-        // Single-device login: Handle forced logout when user logs in from another device
-        const onForcedLogout = (payload: { reason: string; message: string }) =>
-            handleForcedLogout(payload, logoutApi);
+            // Listener for User Online -> Resend pending messages
+            socketService.on(SocketEvents.USER_ONLINE, handleUserOnline),
 
-        socket.on(SocketEvents.AUTH_FORCED_LOGOUT, onForcedLogout);
+            // Single-device login: Handle forced logout when user logs in from another device
+            socketService.on(SocketEvents.AUTH_FORCED_LOGOUT, (payload) =>
+                handleForcedLogout(payload, logoutApi)
+            ),
+        ];
 
         return () => {
-            socket.off(SocketEvents.MESSAGE_CREATED, onMessageCreated);
-            socket.off(SocketEvents.MESSAGE_STATUS_UPDATED, handleStatusUpdate);
-            socket.off(SocketEvents.MESSAGES_MARKED_AS_READ, handleBulkRead);
-            socket.off(SocketEvents.USER_ONLINE, onUserOnline);
-            socket.off(SocketEvents.AUTH_FORCED_LOGOUT, onForcedLogout);
+            unsubscribers.forEach((unsubscribe) => unsubscribe());
         };
     }, [user?.waId, subscribeToPush]);
 
@@ -1,13 +1,16 @@
-import { Check, CheckCheck, Clock } from "lucide-react";
+import { CalendarClock, Check, CheckCheck, Clock } from "lucide-react";
 import React from "react";
 
 function MessageStatus({
   messageStatus,
 }: {
-  messageStatus: "pending" | "sent" | "delivered" | "read" | "failed" | "sending";
+  messageStatus: "pending" | "sent" | "delivered" | "read" | "failed" | "sending" | "scheduled";
 }) {
   return (
     <>
+      {messageStatus === "scheduled" && (
+        <CalendarClock className="p-0.5 text-muted-foreground" size={16} aria-label="Scheduled" />
+      )}
       {messageStatus === "pending" && <Clock className="p-0.5 text-muted-foreground" size={16} />}
       {messageStatus === "sent" && <Check className="p-0.5" />}
       {messageStatus === "delivered" && <CheckCheck className="p-0.5" />}
@@ -0,0 +1,43 @@
+"use client";
+
+import { useUIStore } from "@/store/ui-store";
+import { ConversationFilter } from "@/types";
+
+const FILTERS: { value: ConversationFilter; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "unread", label: "Unread" },
+  { value: "groups", label: "Groups" },
+];
+
+/**
+ * Filter chips above the conversation list; hidden in the Archived view.
+ */
+const ConversationFilters = () => {
+  const conversationFilter = useUIStore((state) => state.conversationFilter);
+  const setConversationFilter = useUIStore((state) => state.setConversationFilter);
+
+  if (conversationFilter === "archived") return null;
+
+  return (
+    <div className="flex gap-2 px-4 pb-2" role="tablist" aria-label="Filter chats">
+      {FILTERS.map(({ value, label }) => (
+        <button
+          key={value}
+          type="button"
+          role="tab"
+          aria-selected={conversationFilter === value}
+          onClick={() => setConversationFilter(value)}
+          className={`rounded-full px-3 py-1 text-sm cursor-pointer transition-colors ${
+            conversationFilter === value
+              ? "bg-label/20 text-label"
+              : "bg-searchbar text-muted-foreground hover:bg-searchbar/70"
+          }`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ConversationFilters;
@@ -1,7 +1,11 @@
 import {
+  Archive,
+  ArrowLeft,
   MessageSquarePlus,
   Moon,
   MoreVertical,
+  Search,
+  Star,
   Sun,
   LogOut,
 } from "lucide-react";
@@ -27,6 +31,10 @@ const AccountSwitcher = dynamic(() => import("../common/account-switcher"), {
 const ContactHeader = () => {
   const { theme, setTheme } = useTheme();
   const toggleContactList = useUIStore((state) => state.toggleContactList);
+  const conversationFilter = useUIStore((state) => state.conversationFilter);
+  const setConversationFilter = useUIStore((state) => state.setConversationFilter);
+  const setStarredOpen = useUIStore((state) => state.setStarredOpen);
+  const setMessageSearchOpen = useUIStore((state) => state.setMessageSearchOpen);
   const router = useRouter();
   const logoutMutation = useLogout();
 
@@ -39,6 +47,22 @@ const ContactHeader = () => {
     });
   }, [logoutMutation, router]);
 
+  if (conversationFilter === "archived") {
+    return (
+      <header className="h-16 sticky px-4 py-3 flex items-center gap-4">
+        <Button
+          size="icon"
+          variant="ghost"
+          onClick={() => setConversationFilter("all")}
+          aria-label="Back to chats"
+        >
+          <ArrowLeft className="size-6" />
+        </Button>
+        <span className="text-xl font-semibold">Archived</span>
+      </header>
+    );
+  }
+
   return (
     <header className="h-16 sticky px-4 py-3 md:grid md:grid-cols-2 items-center justify-around">
       <div className="cursor-pointer pl-2.5 hidden md:block text-2xl font-semibold">
@@ -47,6 +71,15 @@ const ContactHeader = () => {
       <div className="flex justify-end-safe md:gap-1 items-center">
         <AccountSwitcher />
         <div className="flex flex-row items-center gap-2">
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => setMessageSearchOpen(true)}
+            aria-label="Search messages"
+            title="Search messages"
+          >
+            <Search className="cursor-pointer size-5" />
+          </Button>
           <Button
             size="icon"
             variant="ghost"
@@ -64,6 +97,20 @@ const ContactHeader = () => {
             <DropdownMenuContent>
               <DropdownMenuLabel>Settings</DropdownMenuLabel>
               <DropdownMenuSeparator />
+              <DropdownMenuItem
+                className="min-h-full"
+                title="Archived chats"
+                onClick={() => setConversationFilter("archived")}
+              >
+                <Archive /> Archived
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                className="min-h-full"
+                title="Starred messages"
+                onClick={() => setStarredOpen(true)}
+              >
+                <Star /> Starred messages
+              </DropdownMenuItem>
               <DropdownMenuItem
                 className="min-h-full"
                 title="change theme"
@@ -6,20 +6,58 @@ import { useUserStore } from "@/store/user-store";
 import { Conversation } from "@/types";
 import { useRouter } from "next/navigation";
 import { calculateTime } from "@/utils/calculateTime";
-import { useDeleteConversation } from "@/hooks/useConversations";
-import { Trash2, Archive } from "lucide-react";
+import {
+  useDeleteConversation,
+  useMarkAsRead,
+  useUpdateConversationSettings,
+} from "@/hooks/useConversations";
+import type { ConversationSettings } from "@/services/conversations.service";
+import {
+  Archive,
+  ArchiveRestore,
+  BellOff,
+  ChevronDown,
+  MessageCircle,
+  Pin,
+  PinOff,
+  Trash2,
+} from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import useAuth from "@/hooks/useAuth";
+import { useConversationActivity } from "@/hooks/useConversationActivity";
+import { formatActivity } from "@/utils";
 
 interface ConversationListItemProps {
   data: Conversation;
 }
 
+const HOUR_MS = 60 * 60 * 1000;
+
+// "Always" is a mute far enough in the future to never run out
+const MUTE_OPTIONS = [
+  { label: "8 hours", duration: 8 * HOUR_MS },
+  { label: "1 week", duration: 7 * 24 * HOUR_MS },
+  { label: "Always", duration: 100 * 365 * 24 * HOUR_MS },
+];
+
 export const ConversationListItem = React.memo<ConversationListItemProps>(
   ({ data }) => {
     const router = useRouter();
     const setActiveChatUser = useUserStore((state) => state.setActiveChatUser);
     const deleteConversation = useDeleteConversation();
+    const updateSettings = useUpdateConversationSettings();
+    const markAsRead = useMarkAsRead(data.id);
     const { user } = useAuth();
+    const activity = useConversationActivity(data.id);
 
     // Get the other participant (not the current user)
     const otherParticipant = useMemo(() => {
@@ -31,6 +69,11 @@ export const ConversationListItem = React.memo<ConversationListItemProps>(
       );
     }, [data.participants, user?.waId]);
 
+    const isGroup = data.type === "group";
+
+    // Groups are shown under their own name; messages are addressed to the conversation
+    const displayName = isGroup ? data.name : otherParticipant?.name;
+
     // Check if the last message is from the current user
     const isOwnMessage = useMemo(() => {
       const currentWaId = user?.waId;
@@ -49,11 +92,36 @@ export const ConversationListItem = React.memo<ConversationListItemProps>(
       return data.lastMessage || { text: "", status: "", from: "" };
     }, [data.lastMessage]);
 
+    // A reaction newer than the last message replaces it in the preview
+    const reactionPreview = useMemo(() => {
+      const reaction = data.lastReaction;
+      if (!reaction || reaction.timestamp < (data.lastMessage?.timestamp ?? 0)) return null;
+
+      const who =
+        reaction.from === user?.waId
+          ? "You"
+          : data.participants.find((p) => p.waId === reaction.from)?.name || reaction.from;
+      return `${who} reacted ${reaction.emoji} to “${reaction.text}”`;
+    }, [data.lastReaction, data.lastMessage?.timestamp, data.participants, user?.waId]);
+
+    // Typing/recording replaces the last message while it lasts
+    const activityPreview = useMemo(() => {
+      if (!activity) return null;
+      const who = isGroup
+        ? data.participants.find((p) => p.waId === activity.waId)?.name || activity.waId
+        : null;
+      return formatActivity(activity.activity, who);
+    }, [activity, isGroup, data.participants]);
+
     // Get unread count
     const unreadCount = useMemo(() => {
       return data.unreadCount || 0;
     }, [data.unreadCount]);
 
+    const isPinned = !!data.pinnedAt;
+    const isMuted = !!data.mutedUntil && new Date(data.mutedUntil).getTime() > Date.now();
+    const isUnread = (unreadCount > 0 && !isOwnMessage) || !!data.markedUnread;
+
     // Check if this is the contacts page
     const isContactsPage = useMemo(() => {
       return data.participants.length === 1;
@@ -64,34 +132,42 @@ export const ConversationListItem = React.memo<ConversationListItemProps>(
       (e: React.MouseEvent) => {
         e.stopPropagation();
 
+        if (isGroup) {
+          setActiveChatUser({
+            waId: data.id,
+            name: data.name ?? undefined,
+            profilePicture: data.avatar ?? undefined,
+            isOnline: false,
+          });
+          router.push(`/conversation/${data.id}/${data.id}`);
+          return;
+        }
+
         if (otherParticipant) {
           setActiveChatUser({ ...otherParticipant, isOnline: true });
         }
 
         router.push(`/conversation/${data.id}/${otherParticipant?.waId}`);
       },
-      [router, data.id, otherParticipant, setActiveChatUser]
+      [router, data.id, data.name, data.avatar, isGroup, otherParticipant, setActiveChatUser]
     );
 
     // Handle delete conversation
-    const handleDeleteConversation = useCallback(
-      (e: React.MouseEvent, deleteType: "soft" | "hard" = "soft") => {
-        e.stopPropagation();
-        e.preventDefault();
-
-        if (
-          confirm(
-            `Are you sure you want to ${deleteType === "soft" ? "archive" : "permanently delete"
-            } this conversation?`
-          )
-        ) {
-          deleteConversation.mutate({
-            conversationId: data.id,
-            deleteType,
-          });
-        }
+    const handleDeleteConversation = useCallback(() => {
+      if (confirm("Are you sure you want to permanently delete this conversation?")) {
+        deleteConversation.mutate({
+          conversationId: data.id,
+          deleteType: "hard",
+        });
+      }
+    }, [deleteConversation, data.id]);
+
+    // Archive, pin, mute and unread only change the current user's copy
+    const handleSettings = useCallback(
+      (settings: ConversationSettings) => {
+        updateSettings.mutate({ conversationId: data.id, settings });
       },
-      [deleteConversation, data.id]
+      [updateSettings, data.id]
     );
 
     // Render message preview
@@ -107,15 +183,23 @@ export const ConversationListItem = React.memo<ConversationListItemProps>(
             sm:max-w-[250px] md:max-w-[300px] lg:max-w-[200px] xl:max-w-[300px]
           "
         >
-          {isOwnMessage && <MessageStatus messageStatus={lastMessage.status} />}
-          {lastMessage?.text && (
-            <span className="truncate">{lastMessage.text}</span>
+          {activityPreview ? (
+            <span className="truncate text-label">{activityPreview}</span>
+          ) : reactionPreview ? (
+            <span className="truncate">{reactionPreview}</span>
+          ) : (
+            <>
+              {isOwnMessage && <MessageStatus messageStatus={lastMessage.status} />}
+              {lastMessage?.text && (
+                <span className="truncate">{lastMessage.text}</span>
+              )}
+            </>
           )}
         </div>
       );
-    }, [isContactsPage, lastMessage, isOwnMessage]);
+    }, [isContactsPage, lastMessage, isOwnMessage, reactionPreview, activityPreview]);
 
-    // Render unread badge
+    // Render unread badge (an empty dot when only marked unread)
     const renderUnreadBadge = useMemo(() => {
       if (unreadCount > 0 && !isOwnMessage) {
         return (
@@ -124,8 +208,11 @@ export const ConversationListItem = React.memo<ConversationListItemProps>(
           </span>
         );
       }
+      if (data.markedUnread) {
+        return <span className="block size-3 rounded-full bg-label" aria-label="Marked unread" />;
+      }
       return null;
-    }, [unreadCount, isOwnMessage]);
+    }, [unreadCount, isOwnMessage, data.markedUnread]);
 
     return (
       <div className="cursor-pointer my-2 group relative">
@@ -136,7 +223,7 @@ export const ConversationListItem = React.memo<ConversationListItemProps>(
           <div className="min-w-fit px-2 md:px-4 pb-1 flex items-center">
             <Avatar className="size-11">
               <AvatarFallback>
-                {otherParticipant?.name?.[0] || "?"}
+                {displayName?.[0] || "?"}
               </AvatarFallback>
             </Avatar>
           </div>
@@ -144,11 +231,11 @@ export const ConversationListItem = React.memo<ConversationListItemProps>(
           <div className="min-h-full border-b -mb-1.5 pb-1 flex flex-col justify-center mt-3 pr-2 w-full">
             <div className="flex justify-between">
               <span className="text-primary">
-                {otherParticipant?.name || lastMessage?.from}
+                {displayName || lastMessage?.from}
               </span>
               {!isContactsPage && (
                 <span
-                  className={`${unreadCount > 0 && !isOwnMessage
+                  className={`${isUnread
                     ? "text-label"
                     : "text-muted-foreground"
                     } text-sm`}
@@ -162,30 +249,82 @@ export const ConversationListItem = React.memo<ConversationListItemProps>(
                 <span className="text-muted-foreground line-clamp-1 text-sm">
                   {renderMessagePreview}
                 </span>
-                <span>{renderUnreadBadge}</span>
+                <span className="flex items-center gap-1.5 text-muted-foreground">
+                  {isMuted && <BellOff className="size-4" aria-label="Muted" />}
+                  {isPinned && <Pin className="size-4" aria-label="Pinned" />}
+                  {renderUnreadBadge}
+                </span>
               </div>
             </div>
           </div>
         </div>
 
-        {/* Delete buttons - only show on hover */}
-        <div className="absolute right-2 top-1/2 transform -translate-y-1/2 opacity-0 group-hover:opacity-100 transition-opacity flex gap-1">
-          <button
-            onClick={(e) => handleDeleteConversation(e, "soft")}
-            className="p-1 rounded-full hover:bg-red-100 text-gray-500 hover:text-orange-600 transition-colors"
-            title="Archive conversation"
-            aria-label="Archive conversation"
-          >
-            <Archive className="w-4 h-4" />
-          </button>
-          <button
-            onClick={(e) => handleDeleteConversation(e, "hard")}
-            className="p-1 rounded-full hover:bg-red-100 text-gray-500 hover:text-red-600 transition-colors"
-            title="Delete conversation permanently"
-            aria-label="Delete conversation permanently"
-          >
-            <Trash2 className="w-4 h-4" />
-          </button>
+        {/* Conversation menu - only show on hover */}
+        <div className="absolute right-4 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 has-[[data-state=open]]:opacity-100 transition-opacity">
+          <DropdownMenu>
+            <DropdownMenuTrigger
+              className="p-1 rounded-full bg-background/80 text-muted-foreground cursor-pointer"
+              aria-label="Conversation options"
+            >
+              <ChevronDown className="size-4" />
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+              {data.isArchived ? (
+                <DropdownMenuItem onClick={() => handleSettings({ archived: false })}>
+                  <ArchiveRestore /> Unarchive chat
+                </DropdownMenuItem>
+              ) : (
+                <>
+                  <DropdownMenuItem onClick={() => handleSettings({ archived: true })}>
+                    <Archive /> Archive chat
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleSettings({ pinned: !isPinned })}>
+                    {isPinned ? <PinOff /> : <Pin />} {isPinned ? "Unpin chat" : "Pin chat"}
+                  </DropdownMenuItem>
+                </>
+              )}
+              {isMuted ? (
+                <DropdownMenuItem onClick={() => handleSettings({ mutedUntil: null })}>
+                  <BellOff /> Unmute notifications
+                </DropdownMenuItem>
+              ) : (
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>
+                    <BellOff /> Mute notifications
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent>
+                    {MUTE_OPTIONS.map(({ label, duration }) => (
+                      <DropdownMenuItem
+                        key={label}
+                        onClick={() =>
+                          handleSettings({ mutedUntil: new Date(Date.now() + duration).toISOString() })
+                        }
+                      >
+                        {label}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              )}
+              {isUnread ? (
+                <DropdownMenuItem
+                  onClick={() =>
+                    user?.waId && markAsRead.mutate({ conversationId: data.id, waId: user.waId })
+                  }
+                >
+                  <MessageCircle /> Mark as read
+                </DropdownMenuItem>
+              ) : (
+                <DropdownMenuItem onClick={() => handleSettings({ markedUnread: true })}>
+                  <MessageCircle /> Mark as unread
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem variant="destructive" onClick={handleDeleteConversation}>
+                <Trash2 /> Delete chat
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </div>
     );
@@ -4,8 +4,10 @@ import { ConversationListItem } from "./conversation-list-item";
 import { useConversations } from "@/hooks/useConversations";
 import { useUIStore } from "@/store/ui-store";
 import ContactList from "@/components/contacts-list";
+import { ConversationFilter } from "@/types";
 
 const ConversationList = () => {
+  const conversationFilter = useUIStore((state) => state.conversationFilter);
   const {
     data,
     isLoading,
@@ -13,7 +15,7 @@ const ConversationList = () => {
     fetchNextPage,
     hasNextPage,
     isFetchingNextPage,
-  } = useConversations();
+  } = useConversations(conversationFilter);
   const isContactListOpen = useUIStore((state) => state.isContactListOpen);
   const observerTarget = React.useRef<HTMLDivElement>(null);
 
@@ -63,7 +65,7 @@ const ConversationList = () => {
           </div>
         </>
       ) : (
-        <NoConversations />
+        <NoConversations filter={conversationFilter} />
       )}
     </div>
   );
@@ -96,7 +98,14 @@ const ConversationListSkeleton = () => {
   );
 };
 
-const NoConversations = () => (
+const EMPTY_HINTS: Record<ConversationFilter, { title: string; hint: string }> = {
+  all: { title: "No conversations", hint: "Start a new chat to see it here." },
+  unread: { title: "No unread chats", hint: "You're all caught up." },
+  groups: { title: "No groups", hint: "Groups you're in will show up here." },
+  archived: { title: "No archived chats", hint: "Archived chats stay here until you unarchive them." },
+};
+
+const NoConversations = ({ filter }: { filter: ConversationFilter }) => (
   <div className="flex flex-col items-center justify-center h-full py-10 text-gray-400">
     <svg
       className="w-12 h-12 mb-2 text-gray-300"
@@ -111,7 +120,7 @@ const NoConversations = () => (
         d="M7 8h10M7 12h4m-4 4h6m5 4v-2a2 2 0 00-2-2H6a2 2 0 00-2 2v2m16-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12"
       />
     </svg>
-    <span className="text-lg font-medium">No conversations</span>
-    <span className="text-sm">Start a new chat to see it here.</span>
+    <span className="text-lg font-medium">{EMPTY_HINTS[filter].title}</span>
+    <span className="text-sm">{EMPTY_HINTS[filter].hint}</span>
   </div>
 );
@@ -2,16 +2,46 @@ import React from "react";
 import dynamic from "next/dynamic";
 import ContactHeader from "./conversation-list-header";
 import SearchBar from "./search-bar";
+import ConversationFilters from "./conversation-filters";
+import { useUIStore } from "@/store/ui-store";
 
 const ConversationList = dynamic(() => import("./conversation-list"), {
   ssr: false,
 });
 
+const StarredMessages = dynamic(() => import("../starred-messages"), {
+  ssr: false,
+});
+
+const MessageSearch = dynamic(() => import("../message-search"), {
+  ssr: false,
+});
+
 const Conversations = () => {
+  const isStarredOpen = useUIStore((state) => state.isStarredOpen);
+  const isMessageSearchOpen = useUIStore((state) => state.isMessageSearchOpen);
+
+  if (isMessageSearchOpen) {
+    return (
+      <div className="border-r overflow-auto flex flex-col z-20">
+        <MessageSearch />
+      </div>
+    );
+  }
+
+  if (isStarredOpen) {
+    return (
+      <div className="border-r overflow-auto flex flex-col z-20">
+        <StarredMessages />
+      </div>
+    );
+  }
+
   return (
     <div className="border-r overflow-auto flex flex-col z-20">
       <ContactHeader />
       <SearchBar />
+      <ConversationFilters />
       <ConversationList />
     </div>
   );
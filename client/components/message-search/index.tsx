@@ -0,0 +1,295 @@
+import React, { useCallback, useEffect, useMemo, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Search, Users, X } from "lucide-react";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { useMessageSearch } from "@/hooks/useMessageSearch";
+import { useOpenConversation } from "@/hooks/use-open-conversation";
+import useAuth from "@/hooks/useAuth";
+import { useNetworkStatus } from "@/hooks/useNetworkStatus";
+import { fetchAllConversations } from "@/services/conversations.service";
+import { useUIStore } from "@/store/ui-store";
+import { ConversationContext, MessageSearchFilters, MessageSearchHit } from "@/types";
+import { calculateTime } from "@/utils/calculateTime";
+import { formatWaIdToPhone, toHighlightSegments } from "@/utils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MESSAGE_TYPES: { value: NonNullable<MessageSearchFilters["type"]>; label: string }[] = [
+  { value: "text", label: "Text" },
+  { value: "image", label: "Photos" },
+  { value: "video", label: "Videos" },
+  { value: "audio", label: "Voice messages" },
+  { value: "document", label: "Documents" },
+];
+
+// <input type="date"> values are local dates; the range covers whole days
+const toDateInput = (ms?: number) => {
+  if (ms === undefined) return "";
+  const date = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+const fromDateInput = (value: string, endOfDay = false) =>
+  value ? new Date(`${value}T00:00`).getTime() + (endOfDay ? DAY_MS - 1 : 0) : undefined;
+
+/**
+ * Searches messages across all chats, with filters for chat, sender, type and dates.
+ * Hits are grouped by chat; clicking one opens the chat scrolled to the message.
+ * Offline, only the messages stored on this device are searched.
+ */
+const MessageSearch = () => {
+  const { user } = useAuth();
+  const { isOnline } = useNetworkStatus();
+  const setMessageSearchOpen = useUIStore((state) => state.setMessageSearchOpen);
+  const {
+    query,
+    setQuery,
+    filters,
+    setFilters,
+    groups,
+    totalMessages,
+    isLoading,
+    isError,
+    isEmpty,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useMessageSearch();
+  const openConversation = useOpenConversation();
+  const observerTarget = useRef<HTMLDivElement>(null);
+
+  const { data: chats } = useQuery({
+    queryKey: ["search-chats", user?.waId],
+    queryFn: () => fetchAllConversations(100),
+    enabled: Boolean(user?.waId),
+  });
+
+  // Infinite scroll observer
+  useEffect(() => {
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && hasNextPage && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { threshold: 1.0 }
+    );
+
+    if (observerTarget.current) {
+      observer.observe(observerTarget.current);
+    }
+
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const chatName = useCallback(
+    (conversation: ConversationContext) => {
+      if (conversation.type === "group") return conversation.name || "Group";
+      const other = conversation.participants.find((p) => p.waId !== user?.waId);
+      return other?.name || formatWaIdToPhone(other?.waId) || "Unknown";
+    },
+    [user?.waId]
+  );
+
+  const senderName = (hit: MessageSearchHit) =>
+    hit.message.from === user?.waId
+      ? "You"
+      : hit.message.contact?.name || formatWaIdToPhone(hit.message.from) || hit.message.from;
+
+  // Without a chat only "You" can be picked; a chat offers its participants
+  const senders = useMemo(() => {
+    const chat = chats?.conversations.find((c) => c.id === filters.conversationId);
+    return (chat?.participants ?? []).filter((p) => p.waId !== user?.waId);
+  }, [chats, filters.conversationId, user?.waId]);
+
+  const updateFilters = (update: Partial<MessageSearchFilters>) =>
+    setFilters((current) => ({ ...current, ...update }));
+
+  const hasFilters = Object.values(filters).some((value) => value !== undefined);
+
+  return (
+    <div className="flex-auto flex flex-col min-h-0">
+      <header className="h-16 sticky px-4 py-3 flex items-center gap-4">
+        <Button
+          size="icon"
+          variant="ghost"
+          onClick={() => setMessageSearchOpen(false)}
+          aria-label="Back to chats"
+        >
+          <ArrowLeft className="size-6" />
+        </Button>
+        <span className="text-xl font-semibold">Search messages</span>
+      </header>
+      <div className="px-3 pb-2 flex flex-col gap-2">
+        <div className="flex items-center gap-2 rounded-lg bg-searchbar px-3 py-1.5">
+          <Search className="size-4 shrink-0 text-muted-foreground" />
+          <input
+            type="search"
+            autoFocus
+            className="w-full bg-transparent text-sm focus:outline-none"
+            placeholder='Search messages, "a phrase" or -exclude'
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            aria-label="Search messages"
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2 text-xs" aria-label="Search filters">
+          <select
+            className="border rounded px-2 py-1 bg-transparent"
+            value={filters.conversationId ?? ""}
+            onChange={(e) =>
+              // Senders other than "You" belong to the chat, so they are reset with it
+              updateFilters({
+                conversationId: e.target.value || undefined,
+                from: filters.from === user?.waId ? filters.from : undefined,
+              })
+            }
+            aria-label="Chat"
+          >
+            <option value="">All chats</option>
+            {chats?.conversations.map((chat) => (
+              <option key={chat.id} value={chat.id}>
+                {chatName(chat)}
+              </option>
+            ))}
+          </select>
+          <select
+            className="border rounded px-2 py-1 bg-transparent"
+            value={filters.from ?? ""}
+            onChange={(e) => updateFilters({ from: e.target.value || undefined })}
+            aria-label="Sender"
+          >
+            <option value="">Anyone</option>
+            {user?.waId && <option value={user.waId}>You</option>}
+            {senders.map((participant) => (
+              <option key={participant.waId} value={participant.waId}>
+                {participant.name || formatWaIdToPhone(participant.waId) || participant.waId}
+              </option>
+            ))}
+          </select>
+          <select
+            className="border rounded px-2 py-1 bg-transparent"
+            value={filters.type ?? ""}
+            onChange={(e) =>
+              updateFilters({ type: (e.target.value || undefined) as MessageSearchFilters["type"] })
+            }
+            aria-label="Message type"
+          >
+            <option value="">All types</option>
+            {MESSAGE_TYPES.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {hasFilters ? (
+            <button
+              type="button"
+              className="flex items-center justify-center gap-1 rounded px-2 py-1 text-primary hover:bg-muted"
+              onClick={() => setFilters({})}
+            >
+              <X className="size-3" /> Clear filters
+            </button>
+          ) : (
+            <span />
+          )}
+          <label className="flex flex-col gap-0.5 text-muted-foreground">
+            From date
+            <input
+              type="date"
+              className="border rounded px-2 py-1 bg-transparent text-foreground"
+              value={toDateInput(filters.after)}
+              max={toDateInput(filters.before)}
+              onChange={(e) => updateFilters({ after: fromDateInput(e.target.value) })}
+            />
+          </label>
+          <label className="flex flex-col gap-0.5 text-muted-foreground">
+            To date
+            <input
+              type="date"
+              className="border rounded px-2 py-1 bg-transparent text-foreground"
+              value={toDateInput(filters.before)}
+              min={toDateInput(filters.after)}
+              onChange={(e) => updateFilters({ before: fromDateInput(e.target.value, true) })}
+            />
+          </label>
+        </div>
+      </div>
+      <div className="flex-auto overflow-auto px-1.5 max-h-full custom-scrollbar">
+        {!query.trim() ? (
+          <div className="flex flex-col items-center gap-2 text-center text-muted-foreground py-8 px-6 text-sm">
+            <Search className="size-8" />
+            <span>Search for words in your messages across all chats.</span>
+          </div>
+        ) : isError ? (
+          <p className="text-center text-red-600 py-8 text-sm">Search failed. Please try again.</p>
+        ) : isEmpty ? (
+          <p className="text-center text-muted-foreground py-8 text-sm">No messages found</p>
+        ) : isLoading && !groups.length ? (
+          <p className="text-center text-muted-foreground py-8 text-sm">Searching…</p>
+        ) : (
+          <>
+            <p className="px-3 md:px-4 py-1 text-xs text-muted-foreground">
+              {totalMessages === 1 ? "1 message" : `${totalMessages} messages`}
+              {!isOnline && " on this device (offline)"}
+            </p>
+            {groups.map(({ conversation, hits }) => (
+              <section key={conversation.id} aria-label={chatName(conversation)} className="md:mx-3 my-1">
+                <h3 className="flex items-center gap-2 px-2 py-1.5 text-sm font-medium text-primary">
+                  <Avatar className="size-6">
+                    <AvatarFallback className="text-xs">
+                      {conversation.type === "group" ? (
+                        <Users className="size-3" />
+                      ) : (
+                        chatName(conversation)[0]
+                      )}
+                    </AvatarFallback>
+                  </Avatar>
+                  <span className="truncate">{chatName(conversation)}</span>
+                </h3>
+                <ul>
+                  {hits.map((hit) => (
+                    <li key={hit.message.id}>
+                      <button
+                        type="button"
+                        className="flex w-full flex-col gap-0.5 rounded-md px-2 py-2 pl-10 text-left hover:bg-searchbar/50 transition-all cursor-pointer"
+                        onClick={() =>
+                          openConversation(conversation, hit.message.clientMessageId ?? hit.message.id)
+                        }
+                      >
+                        <span className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                          <span className="truncate">{senderName(hit)}</span>
+                          <span className="shrink-0">{calculateTime(hit.message.createdAt)}</span>
+                        </span>
+                        <span className="text-sm line-clamp-2 break-all">
+                          {toHighlightSegments(hit.message.text, hit.highlights).map((segment, i) =>
+                            segment.highlighted ? (
+                              <mark key={i} className="bg-yellow-200 dark:bg-yellow-700 text-inherit rounded-sm">
+                                {segment.text}
+                              </mark>
+                            ) : (
+                              <React.Fragment key={i}>{segment.text}</React.Fragment>
+                            )
+                          )}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+          </>
+        )}
+        {/* Sentinel for infinite scroll */}
+        <div ref={observerTarget} className="h-4 w-full flex justify-center py-2">
+          {isFetchingNextPage && (
+            <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MessageSearch;
@@ -0,0 +1,145 @@
+import React, { useCallback, useEffect, useRef } from "react";
+import { ArrowLeft, ChevronRight, Star, StarOff, Users } from "lucide-react";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { useStarredMessages, useToggleStar } from "@/hooks/useStarredMessages";
+import { useOpenConversation } from "@/hooks/use-open-conversation";
+import useAuth from "@/hooks/useAuth";
+import { useUIStore } from "@/store/ui-store";
+import { ConversationContext, StarredMessageRecord } from "@/types";
+import { calculateTime } from "@/utils/calculateTime";
+import { formatWaIdToPhone } from "@/utils";
+
+const ATTACHMENT_LABELS: Record<string, string> = {
+  image: "📷 Photo",
+  audio: "🎤 Voice message",
+  video: "🎥 Video",
+  document: "📄 Document",
+};
+
+/**
+ * The current user's starred messages across all chats, newest star first.
+ * Shown in place of the conversation list; works offline from the Dexie copy.
+ */
+const StarredMessages = () => {
+  const { user } = useAuth();
+  const setStarredOpen = useUIStore((state) => state.setStarredOpen);
+  const { starred, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    useStarredMessages();
+  const toggleStar = useToggleStar();
+  const openConversation = useOpenConversation();
+  const observerTarget = useRef<HTMLDivElement>(null);
+
+  // Infinite scroll observer
+  useEffect(() => {
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && hasNextPage && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { threshold: 1.0 }
+    );
+
+    if (observerTarget.current) {
+      observer.observe(observerTarget.current);
+    }
+
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const chatName = useCallback(
+    (conversation: ConversationContext) => {
+      if (conversation.type === "group") return conversation.name || "Group";
+      const other = conversation.participants.find((p) => p.waId !== user?.waId);
+      return other?.name || formatWaIdToPhone(other?.waId) || "Unknown";
+    },
+    [user?.waId]
+  );
+
+  const senderName = (star: StarredMessageRecord) =>
+    star.message.from === user?.waId
+      ? "You"
+      : star.message.contact?.name || formatWaIdToPhone(star.message.from) || star.message.from;
+
+  return (
+    <div className="flex-auto flex flex-col min-h-0">
+      <header className="h-16 sticky px-4 py-3 flex items-center gap-4">
+        <Button
+          size="icon"
+          variant="ghost"
+          onClick={() => setStarredOpen(false)}
+          aria-label="Back to chats"
+        >
+          <ArrowLeft className="size-6" />
+        </Button>
+        <span className="text-xl font-semibold">Starred messages</span>
+      </header>
+      <div className="flex-auto overflow-auto px-1.5 max-h-full custom-scrollbar">
+        {isLoading ? (
+          <p className="text-center text-muted-foreground py-8 text-sm">Loading starred messages…</p>
+        ) : !starred.length ? (
+          <div className="flex flex-col items-center gap-2 text-center text-muted-foreground py-8 px-6 text-sm">
+            <Star className="size-8" />
+            <span>Star messages from their menu in any chat to find them here later.</span>
+          </div>
+        ) : (
+          <ul aria-label="Starred messages">
+            {starred.map((star) => (
+              <li key={star.messageId} className="group relative md:mx-3 my-1">
+                <button
+                  type="button"
+                  className="flex w-full gap-3 rounded-md px-2 py-2 text-left hover:bg-searchbar/50 transition-all cursor-pointer"
+                  onClick={() => openConversation(star.conversation, star.messageId)}
+                >
+                  <Avatar className="size-9">
+                    <AvatarFallback>
+                      {star.conversation.type === "group" ? (
+                        <Users className="size-4" />
+                      ) : (
+                        chatName(star.conversation)[0]
+                      )}
+                    </AvatarFallback>
+                  </Avatar>
+                  <span className="flex flex-col min-w-0 flex-1 border-b pb-2">
+                    <span className="flex items-center justify-between gap-2 text-sm">
+                      <span className="flex items-center gap-1 min-w-0 text-primary">
+                        <span className="truncate">{senderName(star)}</span>
+                        <ChevronRight className="size-3 shrink-0 text-muted-foreground" />
+                        <span className="truncate">{chatName(star.conversation)}</span>
+                      </span>
+                      <span className="shrink-0 text-xs text-muted-foreground">
+                        {calculateTime(star.message.createdAt)}
+                      </span>
+                    </span>
+                    <span className="text-sm text-muted-foreground line-clamp-2 break-all">
+                      {star.message.text || ATTACHMENT_LABELS[star.message.type] || ""}
+                    </span>
+                  </span>
+                </button>
+                <button
+                  type="button"
+                  className="absolute right-2 bottom-3 hidden group-hover:block p-1 rounded text-muted-foreground hover:bg-muted disabled:opacity-50"
+                  onClick={() => toggleStar.mutate({ message: star.message, starred: false })}
+                  disabled={toggleStar.isPending}
+                  aria-label="Unstar message"
+                  title="Unstar"
+                >
+                  <StarOff className="size-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {/* Sentinel for infinite scroll */}
+        <div ref={observerTarget} className="h-4 w-full flex justify-center py-2">
+          {isFetchingNextPage && (
+            <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StarredMessages;
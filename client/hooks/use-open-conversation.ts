@@ -0,0 +1,46 @@
+import { useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { useUserStore } from "@/store/user-store";
+import { useMessageJumpStore } from "@/store/message-jump-store";
+import { ConversationContext } from "@/types";
+import useAuth from "./useAuth";
+
+/**
+ * Opens a conversation from outside the conversation list, optionally scrolled to a message.
+ *
+ * @returns A function taking the conversation and the message to show (`clientMessageId ?? id`).
+ */
+export const useOpenConversation = () => {
+    const router = useRouter();
+    const { user } = useAuth();
+    const setActiveChatUser = useUserStore((state) => state.setActiveChatUser);
+    const jumpToMessage = useMessageJumpStore((state) => state.jumpToMessage);
+
+    return useCallback(
+        (conversation: ConversationContext, messageId?: string) => {
+            if (messageId) {
+                jumpToMessage(conversation.id, messageId);
+            }
+
+            // Group chats use the conversation itself as the active "user"
+            if (conversation.type === "group") {
+                setActiveChatUser({
+                    waId: conversation.id,
+                    name: conversation.name ?? undefined,
+                    profilePicture: conversation.avatar ?? undefined,
+                    isOnline: false,
+                });
+                router.push(`/conversation/${conversation.id}/${conversation.id}`);
+                return;
+            }
+
+            const other =
+                conversation.participants.find((p) => p.waId !== user?.waId) ?? conversation.participants[0];
+            if (other) {
+                setActiveChatUser({ ...other, isOnline: false });
+            }
+            router.push(`/conversation/${conversation.id}/${other?.waId}`);
+        },
+        [router, user?.waId, setActiveChatUser, jumpToMessage]
+    );
+};
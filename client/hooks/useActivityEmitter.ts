@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { socketService } from '@/services/socket.service';
+import { SocketEvents } from '@/types/socket-events';
+
+// Start events are repeated at this interval while the activity goes on (server expiry is 6s)
+const ACTIVITY_REFRESH_MS = 3000;
+// Typing stops after this long without a keystroke
+const TYPING_IDLE_MS = 4000;
+
+/**
+ * Hook to tell the other participants that the user is typing or recording a voice note.
+ *
+ * Keystrokes are throttled to one `typing:start` per refresh interval. Both
+ * indicators are stopped when the conversation changes or the component unmounts.
+ *
+ * @param conversationId - Conversation the indicators are shown in
+ */
+export function useActivityEmitter(conversationId: string | undefined) {
+    const lastTypingSentRef = useRef(0);
+    const typingIdleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const recordingIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+    const stopTyping = useCallback(() => {
+        if (typingIdleTimerRef.current) clearTimeout(typingIdleTimerRef.current);
+        typingIdleTimerRef.current = null;
+
+        if (!conversationId || !lastTypingSentRef.current) return;
+        lastTypingSentRef.current = 0;
+        socketService.emit(SocketEvents.TYPING_STOP, { conversationId });
+    }, [conversationId]);
+
+    const notifyTyping = useCallback(() => {
+        if (!conversationId) return;
+
+        if (typingIdleTimerRef.current) clearTimeout(typingIdleTimerRef.current);
+        typingIdleTimerRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+
+        const now = Date.now();
+        if (now - lastTypingSentRef.current < ACTIVITY_REFRESH_MS) return;
+        lastTypingSentRef.current = now;
+        socketService.emit(SocketEvents.TYPING_START, { conversationId });
+    }, [conversationId, stopTyping]);
+
+    const setRecording = useCallback((isRecording: boolean) => {
+        if (!conversationId) return;
+
+        if (recordingIntervalRef.current) {
+            clearInterval(recordingIntervalRef.current);
+            recordingIntervalRef.current = null;
+            if (!isRecording) socketService.emit(SocketEvents.RECORDING_STOP, { conversationId });
+        }
+        if (!isRecording) return;
+
+        // Recording replaces typing
+        lastTypingSentRef.current = 0;
+        if (typingIdleTimerRef.current) clearTimeout(typingIdleTimerRef.current);
+
+        const emitStart = () => socketService.emit(SocketEvents.RECORDING_START, { conversationId });
+        emitStart();
+        recordingIntervalRef.current = setInterval(emitStart, ACTIVITY_REFRESH_MS);
+    }, [conversationId]);
+
+    // Leaving the conversation ends both indicators
+    useEffect(() => {
+        return () => {
+            stopTyping();
+            setRecording(false);
+        };
+    }, [stopTyping, setRecording]);
+
+    return { notifyTyping, stopTyping, setRecording };
+}
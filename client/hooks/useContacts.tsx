@@ -5,6 +5,9 @@ import {
   getContacts,
   addContact,
   searchUsers,
+  getBlockedUsers,
+  blockUser,
+  unblockUser,
 } from "@/services/contacts.service";
 
 /**
@@ -55,3 +58,53 @@ export const useSearchUsers = (query: string, enabled: boolean = true) => {
     staleTime: 1000 * 30, // 30 seconds
   });
 };
+
+/**
+ * Custom hook to fetch the users the current user has blocked.
+ * 
+ * @returns The query result containing the blocked users.
+ */
+export const useBlockedUsers = () => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: ["blocked-users", user?.waId],
+    queryFn: getBlockedUsers,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    enabled: !!user?.waId,
+  });
+};
+
+/**
+ * Custom hook to block a user by waId.
+ * Blocked users drop out of the contact list, so both lists are refetched.
+ * 
+ * @returns The mutation object for blocking a user.
+ */
+export const useBlockUser = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: blockUser,
+    onSuccess: () => {
+      toast.success("Contact blocked");
+      queryClient.invalidateQueries({ queryKey: ["blocked-users"] });
+      queryClient.invalidateQueries({ queryKey: ["contacts"] });
+    },
+  });
+};
+
+/**
+ * Custom hook to unblock a user by waId.
+ * 
+ * @returns The mutation object for unblocking a user.
+ */
+export const useUnblockUser = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: unblockUser,
+    onSuccess: () => {
+      toast.success("Contact unblocked");
+      queryClient.invalidateQueries({ queryKey: ["blocked-users"] });
+      queryClient.invalidateQueries({ queryKey: ["contacts"] });
+    },
+  });
+};
@@ -0,0 +1,26 @@
+import { useMemo } from 'react';
+import { useActivityStore, type ChatActivity } from '@/store/activity-store';
+import useAuth from './useAuth';
+
+/**
+ * Hook returning what another participant is doing in a conversation (typing or
+ * recording a voice note), or null. Recording wins over typing when several
+ * participants are active.
+ *
+ * @param conversationId - Conversation to watch
+ */
+export function useConversationActivity(
+    conversationId: string | undefined
+): { waId: string; activity: ChatActivity } | null {
+    const { user } = useAuth();
+    const byUser = useActivityStore((state) =>
+        conversationId ? state.activities[conversationId] : undefined
+    );
+
+    return useMemo(() => {
+        const entries = Object.entries(byUser ?? {}).filter(([waId]) => waId !== user?.waId);
+        const [waId, activity] =
+            entries.find(([, activity]) => activity === 'recording') ?? entries[0] ?? [];
+        return waId && activity ? { waId, activity } : null;
+    }, [byUser, user?.waId]);
+}
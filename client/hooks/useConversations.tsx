@@ -3,6 +3,11 @@ import {
   markMessagesAsRead,
   getConversationId,
   deleteConversation,
+  updateConversationSettings,
+  setMessageTimer,
+  pinMessage,
+  unpinMessage,
+  type ConversationSettings,
 } from "@/services/conversations.service";
 import {
   InfiniteData,
@@ -10,14 +15,14 @@ import {
   useMutation,
   useQueryClient,
 } from "@tanstack/react-query";
-import { useEffect, useRef, useCallback } from "react";
+import { useEffect, useRef, useCallback, useMemo, useState, useSyncExternalStore } from "react";
 import { io, type Socket } from "socket.io-client";
 import api from "@/lib/api";
-import { Conversation, Message } from "@/types";
+import { Conversation, ConversationFilter, Message, MessageTimer, PinDuration } from "@/types";
 import useAuth from "@/hooks/useAuth";
 import { SocketEvents } from "@/types/socket-events";
 
-import { socketService } from "@/services/socket.service";
+import { socketService, type ServerEvents } from "@/services/socket.service";
 
 import {
   updateConversationCache,
@@ -26,38 +31,21 @@ import {
   removeConversationFromCache,
   markMessagesAsReadInCache,
   resetConversationUnreadCountInCache,
+  invalidateFilteredConversations,
+  setPinnedMessagesInCache,
 } from "@/utils/query-cache-updates";
 
-// Global socket (via service)
-const getSocket = () => socketService.getSocket();
-
 // Fetch all conversations, cache for 1 minute, do not refetch if cached
-export function useConversations() {
+// The "all" view is kept live by socket events; the other views are refetched when settings change
+export function useConversations(filter: ConversationFilter = "all") {
   const { user, isAuthenticated } = useAuth();
   const qc = useQueryClient();
-  const listenerRef = useRef<((conversation: Conversation) => void) | null>(
-    null
-  );
-  const markAsReadListenerRef = useRef<
-    | ((payload: {
-      conversationId: string;
-      waId: string;
-      updatedMessages: number;
-      conversation: Conversation;
-    }) => void)
-    | null
-  >(null);
-  const messageCreatedListenerRef = useRef<
-    ((payload: { message: Message; conversationId: string }) => void) | null
-  >(null);
   const processedMessageIdsRef = useRef<Set<string>>(new Set());
 
   useEffect(() => {
     // Only run in browser and when user is authenticated and available
     if (!isAuthenticated || !user?.waId) return;
 
-    const socket = getSocket();
-
     // Create a unique listener for conversation updates
     const onConversationUpdated = (conversation: Conversation) => {
       // Update the infinite query data
@@ -65,24 +53,24 @@ export function useConversations() {
     };
 
     // Create a listener for messages marked as read
-    const onMessagesMarkedAsRead = (payload: {
-      conversationId: string;
-      waId: string;
-      updatedMessages: number;
-      conversation: Conversation;
-    }) => {
+    const onMessagesMarkedAsRead = (
+      payload: ServerEvents[SocketEvents.MESSAGES_MARKED_AS_READ]
+    ) => {
 
       // Only update if this is for the current user
-      if (payload.waId !== user.waId) {
+      if (payload.waId !== user.waId || !payload.conversation) {
         return;
       }
 
       // Update the conversations cache with the updated conversation
-      markConversationAsReadInCache(qc, user.waId, payload);
+      markConversationAsReadInCache(qc, user.waId, {
+        conversationId: payload.conversationId,
+        conversation: payload.conversation,
+      });
     };
 
     // Create a listener for new messages to update conversation list
-    const onMessageReceived = (payload: { message: any; conversationId: string }) => {
+    const onMessageReceived = (payload: { message: Message; conversationId: string }) => {
       const { message } = payload;
       if (processedMessageIdsRef.current.has(message.id)) {
         return;
@@ -96,36 +84,31 @@ export function useConversations() {
       updateConversationOnNewMessage(qc, user.waId, payload);
     };
 
-    // Store the listener references for cleanup
-    listenerRef.current = onConversationUpdated;
-    markAsReadListenerRef.current = onMessagesMarkedAsRead;
-    messageCreatedListenerRef.current = onMessageReceived;
+    // Pins changed (by anyone, including this user on another device)
+    const onPinsUpdated = ({
+      conversationId,
+      pinnedMessages,
+    }: ServerEvents[SocketEvents.MESSAGE_PINS_UPDATED]) => {
+      setPinnedMessagesInCache(qc, user.waId, conversationId, pinnedMessages);
+    };
 
     // Add listeners to socket
-    socket.on(SocketEvents.CONVERSATION_UPDATED, onConversationUpdated);
-    socket.on(SocketEvents.MESSAGES_MARKED_AS_READ, onMessagesMarkedAsRead);
-    socket.on(SocketEvents.MESSAGE_CREATED, onMessageReceived);
+    const unsubscribers = [
+      socketService.on(SocketEvents.CONVERSATION_UPDATED, onConversationUpdated),
+      socketService.on(SocketEvents.MESSAGES_MARKED_AS_READ, onMessagesMarkedAsRead),
+      socketService.on(SocketEvents.MESSAGE_CREATED, onMessageReceived),
+      socketService.on(SocketEvents.MESSAGE_PINS_UPDATED, onPinsUpdated),
+    ];
 
     // Cleanup function
     return () => {
-      if (listenerRef.current) {
-        socket.off(SocketEvents.CONVERSATION_UPDATED, listenerRef.current);
-        listenerRef.current = null;
-      }
-      if (markAsReadListenerRef.current) {
-        socket.off(SocketEvents.MESSAGES_MARKED_AS_READ, markAsReadListenerRef.current);
-        markAsReadListenerRef.current = null;
-      }
-      if (messageCreatedListenerRef.current) {
-        socket.off(SocketEvents.MESSAGE_CREATED, messageCreatedListenerRef.current);
-        messageCreatedListenerRef.current = null;
-      }
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
     };
   }, [user?.waId, isAuthenticated, qc]);
 
   return useInfiniteQuery({
-    queryKey: ["conversations", user?.waId],
-    queryFn: ({ pageParam }) => fetchAllConversations(20, pageParam as string | undefined),
+    queryKey: filter === "all" ? ["conversations", user?.waId] : ["conversations", user?.waId, filter],
+    queryFn: ({ pageParam }) => fetchAllConversations(20, pageParam as string | undefined, filter),
     initialPageParam: undefined as string | undefined,
     getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
     retry: 2,
@@ -137,6 +120,47 @@ export function useConversations() {
   });
 }
 
+// A conversation from whichever cached list view holds it (undefined until a list is loaded)
+export function useConversation(conversationId: string) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useSyncExternalStore(
+    (onChange) => queryClient.getQueryCache().subscribe(onChange),
+    () =>
+      queryClient
+        .getQueriesData<InfiniteData<{ conversations: Conversation[] }>>({
+          queryKey: ["conversations", user?.waId],
+        })
+        .flatMap(([, data]) => data?.pages.flatMap((page) => page.conversations) ?? [])
+        .find((conversation) => conversation.id === conversationId),
+    () => undefined
+  );
+}
+
+// Pinned messages of a conversation that have not expired, oldest pin first
+// Expired pins are only dropped by the server on the next change, so they are filtered here too
+export function usePinnedMessages(conversationId: string) {
+  const conversation = useConversation(conversationId);
+  const pinnedMessages = conversation?.pinnedMessages;
+  const [now, setNow] = useState(() => Date.now());
+
+  // Re-render when the next pin expires
+  useEffect(() => {
+    const nextExpiry = Math.min(
+      ...(pinnedMessages ?? []).map((pin) => pin.expiresAt ?? Infinity).filter((at) => at > now)
+    );
+    if (!Number.isFinite(nextExpiry)) return;
+    const timeout = setTimeout(() => setNow(Date.now()), Math.min(nextExpiry - now, 2 ** 31 - 1));
+    return () => clearTimeout(timeout);
+  }, [pinnedMessages, now]);
+
+  return useMemo(
+    () => (pinnedMessages ?? []).filter((pin) => pin.expiresAt == null || pin.expiresAt > now),
+    [pinnedMessages, now]
+  );
+}
+
 // Hook to mark all messages as read in a conversation
 export function useMarkAsRead(id: string) {
   const queryClient = useQueryClient();
@@ -267,9 +291,84 @@ export function useGetConversationId() {
   });
 }
 
+// Hook to archive, pin, mute or mark a conversation unread for the current user
+export function useUpdateConversationSettings() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: ({
+      conversationId,
+      settings,
+    }: {
+      conversationId: string;
+      settings: ConversationSettings;
+    }) => updateConversationSettings(conversationId, settings),
+    onSuccess: (conversation) => {
+      if (!user?.waId) return;
+      updateConversationCache(queryClient, user.waId, conversation);
+      invalidateFilteredConversations(queryClient, user.waId);
+    },
+  });
+}
+
+// Hook to set the disappearing messages timer of a conversation (the announcement arrives over the socket)
+export function useSetMessageTimer() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: ({ conversationId, timer }: { conversationId: string; timer: MessageTimer }) =>
+      setMessageTimer(conversationId, timer),
+    onSuccess: ({ conversation }) => {
+      if (!user?.waId) return;
+      updateConversationCache(queryClient, user.waId, conversation);
+      invalidateFilteredConversations(queryClient, user.waId);
+    },
+  });
+}
+
+// Hook to pin a message for everyone in a conversation
+export function usePinMessage() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: ({
+      conversationId,
+      messageId,
+      duration,
+    }: {
+      conversationId: string;
+      messageId: string;
+      duration?: PinDuration;
+    }) => pinMessage(conversationId, messageId, duration),
+    onSuccess: (pinnedMessages, { conversationId }) => {
+      if (!user?.waId) return;
+      setPinnedMessagesInCache(queryClient, user.waId, conversationId, pinnedMessages);
+    },
+  });
+}
+
+// Hook to unpin a message
+export function useUnpinMessage() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: ({ conversationId, messageId }: { conversationId: string; messageId: string }) =>
+      unpinMessage(conversationId, messageId),
+    onSuccess: (pinnedMessages, { conversationId }) => {
+      if (!user?.waId) return;
+      setPinnedMessagesInCache(queryClient, user.waId, conversationId, pinnedMessages);
+    },
+  });
+}
+
 // Hook to delete a conversation
 export function useDeleteConversation() {
   const queryClient = useQueryClient();
+  const { user } = useAuth();
 
   return useMutation({
     mutationFn: ({
@@ -280,8 +379,8 @@ export function useDeleteConversation() {
       deleteType?: "soft" | "hard";
     }) => deleteConversation(conversationId, deleteType),
     onSuccess: (data, { conversationId, deleteType }) => {
-      if (data.success) {
-        removeConversationFromCache(queryClient, data.data.waId, conversationId, deleteType || "soft");
+      if (data.success && user?.waId) {
+        removeConversationFromCache(queryClient, user.waId, conversationId, deleteType || "soft");
 
         // Invalidate related queries
         queryClient.invalidateQueries({ queryKey: ["conversations"] });
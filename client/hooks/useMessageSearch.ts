@@ -0,0 +1,119 @@
+import { useMemo, useState } from 'react';
+import { InfiniteData, QueryClient, useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useDebouncedValue } from '@tanstack/react-pacer';
+import { searchMessages } from '@/services/message.service';
+import { searchIndexDexieService } from '@/services/search-index.dexie.service';
+import { Conversation, ConversationContext, MessageSearchFilters, MessageSearchHit } from '@/types';
+import useAuth from './useAuth';
+
+const PAGE_SIZE = 25;
+
+export type MessageSearchGroup = {
+    conversation: ConversationContext;
+    /** Most relevant first */
+    hits: MessageSearchHit[];
+};
+
+type ConversationList = { conversations: Conversation[] };
+
+// Chats loaded anywhere in the app (lists and filters), to label hits found offline
+function cachedConversations(queryClient: QueryClient, waId?: string) {
+    const conversations = new Map<string, ConversationContext>();
+    const lists = [
+        ...queryClient.getQueriesData<InfiniteData<ConversationList> | ConversationList>({
+            queryKey: ['conversations', waId],
+        }),
+        ...queryClient.getQueriesData<ConversationList>({ queryKey: ['search-chats', waId] }),
+    ];
+    for (const [, data] of lists) {
+        const pages = data && 'pages' in data ? data.pages : data ? [data] : [];
+        for (const conversation of pages.flatMap((page) => page.conversations ?? [])) {
+            conversations.set(conversation.id, conversation);
+        }
+    }
+    return conversations;
+}
+
+/**
+ * Hook to search messages across the current user's chats.
+ * The query is debounced by 350ms. The offline index answers first; when online the server
+ * hits follow, and stored messages the server did not return are kept after them.
+ * Results are grouped by conversation, the conversation with the best hit first.
+ *
+ * @returns The query and filters with their setters, the grouped hits and the paging state.
+ */
+export function useMessageSearch() {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+    const [query, setQuery] = useState('');
+    const [filters, setFilters] = useState<MessageSearchFilters>({});
+
+    const [debouncedQuery] = useDebouncedValue(query.trim(), { wait: 350 });
+
+    const local = useQuery({
+        queryKey: ['message-search-local', user?.waId, debouncedQuery, filters],
+        queryFn: () => searchIndexDexieService.search(debouncedQuery, filters),
+        enabled: !!user?.waId && debouncedQuery.length > 0,
+        networkMode: 'always', // The index is on this device
+        placeholderData: (prev) => prev, // keep previous results visible while searching
+    });
+
+    const result = useInfiniteQuery({
+        queryKey: ['message-search', user?.waId, debouncedQuery, filters],
+        queryFn: ({ pageParam }) =>
+            searchMessages({ ...filters, query: debouncedQuery, page: pageParam, limit: PAGE_SIZE }),
+        initialPageParam: 1,
+        getNextPageParam: (lastPage) =>
+            lastPage.pagination.hasMore ? lastPage.pagination.currentPage + 1 : undefined,
+        enabled: !!user?.waId && debouncedQuery.length > 0,
+        staleTime: 1000 * 30,
+    });
+
+    const hits = useMemo(() => {
+        const serverHits = result.data?.pages.flatMap((page) => page.hits) ?? [];
+        const seen = new Set(serverHits.map((hit) => hit.message.clientMessageId ?? hit.message.id));
+        const conversations = cachedConversations(queryClient, user?.waId);
+        serverHits.forEach((hit) => conversations.set(hit.conversation.id, hit.conversation));
+
+        const localHits: MessageSearchHit[] = [];
+        for (const hit of local.data ?? []) {
+            const conversation = conversations.get(hit.message.conversationId);
+            if (!conversation || seen.has(hit.message.clientMessageId ?? hit.message.id)) continue;
+            localHits.push({ ...hit, conversation });
+        }
+        return [...serverHits, ...localHits];
+    }, [result.data, local.data, queryClient, user?.waId]);
+
+    const groups = useMemo(() => {
+        const byConversation = new Map<string, MessageSearchGroup>();
+        for (const hit of hits) {
+            const group = byConversation.get(hit.conversation.id);
+            if (group) {
+                group.hits.push(hit);
+            } else {
+                byConversation.set(hit.conversation.id, { conversation: hit.conversation, hits: [hit] });
+            }
+        }
+        return [...byConversation.values()];
+    }, [hits]);
+
+    const isSearching = local.isFetching || (result.isFetching && !result.isFetchingNextPage);
+
+    return {
+        query,
+        setQuery,
+        filters,
+        setFilters,
+        groups,
+        // Server hits beyond the loaded pages are counted; local-only ones may repeat them
+        totalMessages: Math.max(result.data?.pages[0]?.pagination.totalMessages ?? 0, hits.length),
+        isLoading: isSearching,
+        /** The server search failed and nothing was found offline */
+        isError: result.isError && !hits.length,
+        /** True only when a search ran and found nothing */
+        isEmpty: debouncedQuery.length > 0 && !isSearching && !result.isError && !hits.length,
+        fetchNextPage: result.fetchNextPage,
+        hasNextPage: result.hasNextPage,
+        isFetchingNextPage: result.isFetchingNextPage,
+    };
+}
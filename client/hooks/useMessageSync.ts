@@ -0,0 +1,47 @@
+import { useCallback, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { socketService } from '@/services/socket.service';
+import { messageSyncService } from '@/services/message-sync.service';
+import { useNetworkStatus } from './useNetworkStatus';
+
+/**
+ * Hook to catch stored messages up with the server whenever the connection comes back.
+ *
+ * Runs a delta sync on every socket (re)connect and when the browser comes back
+ * online, so messages, status changes, edits and deletions missed while offline
+ * reach Dexie (and every `useMessages` live query).
+ *
+ * @param enabled - Only sync for a signed-in user
+ */
+export function useMessageSync(enabled: boolean) {
+    const queryClient = useQueryClient();
+    const { wasOffline } = useNetworkStatus();
+
+    const sync = useCallback(async () => {
+        try {
+            const applied = await messageSyncService.sync();
+            // Previews and unread counts moved with the missed messages
+            if (applied > 0) {
+                queryClient.invalidateQueries({ queryKey: ['conversations'] });
+            }
+        } catch (error) {
+            console.error('[useMessageSync] Sync failed:', error);
+        }
+    }, [queryClient]);
+
+    useEffect(() => {
+        if (!enabled) return;
+        const socket = socketService.getSocket();
+
+        socket.on('connect', sync);
+        if (socket.connected) sync();
+
+        return () => {
+            socket.off('connect', sync);
+        };
+    }, [enabled, sync]);
+
+    useEffect(() => {
+        if (enabled && wasOffline) sync();
+    }, [enabled, wasOffline, sync]);
+}
@@ -1,5 +1,7 @@
 import {
   IAddMessageRequest,
+  forwardMessages,
+  getMessages,
 } from "@/services/message.service";
 import { Message, MessageWithQueue } from "@/types";
 import { useEffect, useState, useCallback, useMemo } from "react";
@@ -7,8 +9,11 @@ import { SocketEvents } from "@/types/socket-events";
 import { socketService } from "@/services/socket.service";
 import { liveQuery } from "dexie";
 import { messageDexieService } from "@/services/message.dexie.service";
+import { MessageOrder, messageOrder } from "@/services/db";
 import useAuth from "./useAuth";
-import { createOutboundMessage } from "@/utils/message-factory";
+import { createOutboundMessage, toLocalMessage, toRelayedMessage } from "@/utils/message-factory";
+import { toast } from "sonner";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 
 /**
  * Retrieves the current socket instance from the socket service.
@@ -17,14 +22,24 @@ import { createOutboundMessage } from "@/utils/message-factory";
 // Global socket (via service)
 const getSocket = () => socketService.getSocket();
 
+// Messages that may not have reached the server yet, so cannot be used as a cursor
+const isUnsynced = (message: Message) =>
+  message.status === "pending" || message.status === "sending" || message.status === "failed";
+
 /**
  * Hook to manage and observe messages for a specific conversation.
  * Uses Dexie for local persistence and real-time updates via sockets.
+ * History missing locally is pulled from the server with cursors and stored in Dexie.
  * 
  * @param conversationId - The ID of the conversation to fetch messages for.
+ * @param options.aroundMessageId - Show a window of history around this message
+ *   (reply jumps, search results) instead of the newest messages.
  * @returns An object containing messages, loading state, and pagination controls.
  */
-export function useMessages(conversationId: string) {
+export function useMessages(
+  conversationId: string,
+  { aroundMessageId }: { aroundMessageId?: string | null } = {}
+) {
   const [pageSize] = useState(50);
   const { user } = useAuth();
 
@@ -105,10 +120,15 @@ export function useMessages(conversationId: string) {
     };
   }, [liveQueries]); // limiting dependencies to avoid re-subscription loops
 
+  // Whether the server has history older than what is stored locally (unknown until asked)
+  const [serverHasOlder, setServerHasOlder] = useState(true);
+  const [isFetchingFromServer, setIsFetchingFromServer] = useState(false);
+
   // Re-initialize when conversationId changes
   useEffect(() => {
     setLiveQueries([createLiveQuery(0)]);
     setResultArrays([]);
+    setServerHasOlder(true);
   }, [conversationId, createLiveQuery]);
 
   const fetchNextPage = useCallback(() => {
@@ -133,9 +153,122 @@ export function useMessages(conversationId: string) {
     return [...resultArrays].reverse().flat();
   }, [resultArrays]);
 
-  const totalLoaded = messages.length;
-  // If the last page (highest offset) returns fewer items than pageSize, we reached the end
-  const hasNextPage = resultArrays.length > 0 && resultArrays[resultArrays.length - 1]?.length === pageSize;
+  // The last page (highest offset) returned fewer items than pageSize: local history ran out
+  const isLocalExhausted =
+    resultArrays.length === liveQueries.length &&
+    (resultArrays[resultArrays.length - 1]?.length ?? pageSize) < pageSize;
+  const hasNextPage =
+    (resultArrays.length > 0 && resultArrays[resultArrays.length - 1]?.length === pageSize) ||
+    serverHasOlder;
+
+  // Backfill from the server when local history runs out (e.g. on a new device); the short
+  // page's live query picks the stored messages up
+  useEffect(() => {
+    if (!conversationId || aroundMessageId || !isLocalExhausted || !serverHasOlder) return;
+
+    let cancelled = false;
+    const oldest = messages.find((m) => !isUnsynced(m));
+
+    setIsFetchingFromServer(true);
+    getMessages(conversationId, { before: oldest?.id, limit: pageSize })
+      .then(async (page) => {
+        await messageDexieService.addMissingMessages(page.messages.map(toLocalMessage));
+        // An empty page cannot move the cursor on, so stop there
+        if (!cancelled) setServerHasOlder(page.hasOlder && page.messages.length > 0);
+      })
+      .catch((error) => {
+        console.error("[useMessages] Could not load older messages:", error);
+        if (!cancelled) setServerHasOlder(false);
+      })
+      .finally(() => setIsFetchingFromServer(false));
+
+    return () => {
+      cancelled = true;
+    };
+    // `messages` is read for the cursor only; the fetch is driven by the page running out
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [conversationId, aroundMessageId, isLocalExhausted, serverHasOlder, pageSize]);
+
+  // --- Window mode: history around one message, extended in either direction ---
+
+  const [windowRange, setWindowRange] = useState<{ from: MessageOrder; to: MessageOrder | null } | null>(null);
+  const [windowHas, setWindowHas] = useState({ older: false, newer: false });
+  const [windowMessages, setWindowMessages] = useState<Message[]>([]);
+  const [windowFailed, setWindowFailed] = useState(false);
+
+  useEffect(() => {
+    setWindowRange(null);
+    setWindowMessages([]);
+    setWindowFailed(false);
+    if (!conversationId || !aroundMessageId) return;
+
+    let cancelled = false;
+    getMessages(conversationId, { around: aroundMessageId, limit: pageSize })
+      .then(async (page) => {
+        await messageDexieService.addMissingMessages(page.messages.map(toLocalMessage));
+        if (cancelled) return;
+        if (page.messages.length === 0) {
+          setWindowFailed(true);
+          return;
+        }
+        setWindowHas({ older: page.hasOlder, newer: page.hasNewer });
+        setWindowRange({
+          from: messageOrder(page.messages[0]),
+          // A window that reaches the newest message stays open for new ones
+          to: page.hasNewer ? messageOrder(page.messages[page.messages.length - 1]) : null,
+        });
+      })
+      .catch((error) => {
+        console.error("[useMessages] Could not load messages around", aroundMessageId, error);
+        if (!cancelled) setWindowFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId, aroundMessageId, pageSize]);
+
+  useEffect(() => {
+    if (!windowRange) return;
+
+    const subscription = liveQuery(() =>
+      messageDexieService.getMessagesBetween(conversationId, windowRange.from, windowRange.to)
+    ).subscribe(setWindowMessages, (error: unknown) => console.error("Error in window liveQuery:", error));
+
+    return () => subscription.unsubscribe();
+  }, [conversationId, windowRange]);
+
+  const extendWindow = useCallback(async (direction: "older" | "newer") => {
+    const edge = direction === "older" ? windowMessages[0] : windowMessages[windowMessages.length - 1];
+    if (!edge || isFetchingFromServer) return;
+
+    setIsFetchingFromServer(true);
+    try {
+      const page = await getMessages(
+        conversationId,
+        direction === "older" ? { before: edge.id, limit: pageSize } : { after: edge.id, limit: pageSize }
+      );
+      await messageDexieService.addMissingMessages(page.messages.map(toLocalMessage));
+
+      const first = page.messages[0];
+      const last = page.messages[page.messages.length - 1];
+      if (direction === "older") {
+        setWindowHas((prev) => ({ ...prev, older: page.hasOlder && Boolean(first) }));
+        if (first) setWindowRange((prev) => prev && { ...prev, from: messageOrder(first) });
+      } else {
+        const hasNewer = page.hasNewer && Boolean(last);
+        setWindowHas((prev) => ({ ...prev, newer: hasNewer }));
+        setWindowRange((prev) => prev && { ...prev, to: hasNewer ? messageOrder(last) : null });
+      }
+    } catch (error) {
+      console.error(`[useMessages] Could not load ${direction} messages:`, error);
+    } finally {
+      setIsFetchingFromServer(false);
+    }
+  }, [conversationId, pageSize, windowMessages, isFetchingFromServer]);
+
+  const isWindowed = Boolean(aroundMessageId) && !windowFailed;
+  const visibleMessages = isWindowed ? windowMessages : messages;
 
 
   // --- Real-time & Socket Logic ---
@@ -145,7 +278,11 @@ export function useMessages(conversationId: string) {
     if (!conversationId || !user?.waId) return;
     const socket = getSocket();
 
-    socket.emit(SocketEvents.CONVERSATION_JOIN, conversationId);
+    socketService.emit(SocketEvents.CONVERSATION_JOIN, conversationId, (ack) => {
+      if (ack.status === "error") {
+        console.error(`Could not join conversation ${conversationId}:`, ack.error);
+      }
+    });
 
     const onConnect = () => {
       console.log("Socket connected, checking for pending messages...");
@@ -174,7 +311,10 @@ export function useMessages(conversationId: string) {
         console.log(`Resending ${pending.length} pending messages...`);
         pending.forEach(msg => {
           // Re-emit message:send
-          socket.emit(SocketEvents.MESSAGE_SEND, msg);
+          socketService.emit(SocketEvents.MESSAGE_SEND, {
+            message: toRelayedMessage(msg),
+            conversationId: msg.conversationId,
+          });
         });
       }
     }
@@ -182,32 +322,49 @@ export function useMessages(conversationId: string) {
 
   // Mark as read logic (kept similar to before)
   useEffect(() => {
-    if (!conversationId || !messages || messages.length === 0 || !user?.waId) return;
+    if (!conversationId || !visibleMessages || visibleMessages.length === 0 || !user?.waId) return;
 
-    const unreadMessages = messages.filter(
+    const unreadMessages = visibleMessages.filter(
       m => m.to === user.waId && m.status !== 'read'
     );
 
     if (unreadMessages.length > 0) {
       // Update local status immediately
-      const socket = getSocket();
       unreadMessages.forEach(msg => {
         messageDexieService.updateMessageStatus(msg.id, 'read');
       });
 
-      socket.emit(SocketEvents.MESSAGES_MARKED_AS_READ, {
+      socketService.emit(SocketEvents.MESSAGES_MARKED_AS_READ, {
         conversationId,
         waId: user.waId,
         updatedMessages: unreadMessages.length
       });
     }
-  }, [conversationId, messages, user?.waId]);
+  }, [conversationId, visibleMessages, user?.waId]);
+
+  if (isWindowed) {
+    return {
+      messages: windowMessages,
+      isLoading: !windowRange,
+      fetchNextPage: () => extendWindow("older"),
+      hasNextPage: windowHas.older,
+      isFetchingNextPage: isFetchingFromServer,
+      fetchNewerPage: () => extendWindow("newer"),
+      hasNewerPage: windowHas.newer,
+      isWindowed,
+    };
+  }
 
   return {
     messages,
     isLoading: resultArrays.length === 0 && liveQueries.length > 0 && messages.length === 0, // Initial loading
     fetchNextPage,
     hasNextPage,
+    // A page was requested but its first result has not arrived yet, or history is being fetched
+    isFetchingNextPage: liveQueries.length > resultArrays.length || isFetchingFromServer,
+    fetchNewerPage: () => {},
+    hasNewerPage: false,
+    isWindowed,
   };
 }
 
@@ -245,6 +402,8 @@ export function useSendMessage() {
         from: user.waId,
         to: data.to,
         type: data.type,
+        replyTo: data.replyTo,
+        attachment: data.attachment,
       });
 
       // 1. Save to Dexie immediately with queue metadata
@@ -263,3 +422,128 @@ export function useSendMessage() {
 
   return { mutate: sendMessage };
 }
+
+/**
+ * Hook to provide a function for editing a sent message.
+ * Applies the edit locally first and rolls it back if the server rejects it.
+ *
+ * @returns An object containing the mutate function to edit messages.
+ */
+export function useEditMessage() {
+  const editMessage = useCallback(async (message: Message, text: string, options?: { onSuccess?: () => void; onError?: (err: unknown) => void }) => {
+    const previous = { text: message.text, editedAt: message.editedAt };
+
+    await messageDexieService.updateMessage(message.id, { text, editedAt: new Date() });
+
+    socketService.emit(
+      SocketEvents.MESSAGE_EDIT,
+      { messageId: message.id, text },
+      (ack) => {
+        if (ack.status === "error") {
+          messageDexieService.updateMessage(message.id, previous).catch(console.error);
+          toast.error(ack.error || "Could not edit message");
+          options?.onError?.(new Error(ack.error));
+          return;
+        }
+        options?.onSuccess?.();
+      }
+    );
+  }, []);
+
+  return { mutate: editMessage };
+}
+
+/**
+ * Hook to provide a function for deleting a message for me or for everyone.
+ * The local copy changes immediately and is restored if the server rejects the deletion.
+ *
+ * @returns An object containing the mutate function to delete messages.
+ */
+export function useDeleteMessage() {
+  const deleteMessage = useCallback(async (message: Message, deleteFor: "me" | "everyone") => {
+    if (deleteFor === "me") {
+      await messageDexieService.deleteMessage(message.id);
+    } else {
+      await messageDexieService.updateMessage(message.id, {
+        text: "",
+        editedAt: null,
+        editHistory: [],
+        attachment: null,
+        deletedAt: new Date(),
+      });
+    }
+
+    socketService.emit(
+      SocketEvents.MESSAGE_DELETE,
+      { messageId: message.id, deleteFor },
+      (ack) => {
+        // A message that never reached the server only existed locally
+        if (ack.status === "ok" || (deleteFor === "me" && ack.code === "NOT_FOUND")) return;
+
+        messageDexieService.addMessage(message).catch(console.error);
+        toast.error(ack.error || "Could not delete message");
+      }
+    );
+  }, []);
+
+  return { mutate: deleteMessage };
+}
+
+/**
+ * Hook to provide a function for setting (or with `null`, removing) the current user's reaction.
+ * The local copy changes immediately and is restored if the server rejects the reaction.
+ *
+ * @returns An object containing the mutate function to react to messages.
+ */
+export function useReactToMessage() {
+  const { user } = useAuth();
+
+  const reactToMessage = useCallback(async (message: Message, emoji: string | null) => {
+    if (!user?.waId) return;
+
+    const previous = message.reactions ?? [];
+    const reactions = previous.filter((r) => r.waId !== user.waId);
+    if (emoji) {
+      reactions.push({ waId: user.waId, emoji, reactedAt: new Date() });
+    }
+
+    await messageDexieService.updateMessage(message.id, { reactions });
+
+    socketService.emit(
+      SocketEvents.MESSAGE_REACT,
+      { messageId: message.id, emoji },
+      (ack) => {
+        if (ack.status === "ok") return;
+
+        messageDexieService.updateMessage(message.id, { reactions: previous }).catch(console.error);
+        toast.error(ack.error || "Could not save reaction");
+      }
+    );
+  }, [user?.waId]);
+
+  return { mutate: reactToMessage };
+}
+
+/**
+ * Hook to forward messages to other conversations (at most `MAX_FORWARD_TARGETS`).
+ * The copies also arrive over the socket; they are stored here too in case it is disconnected.
+ *
+ * @returns The mutation object for forwarding messages.
+ */
+export function useForwardMessages() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ messages, conversationIds }: { messages: Message[]; conversationIds: string[] }) =>
+      forwardMessages(
+        messages.map((m) => m.clientMessageId ?? m.id),
+        conversationIds
+      ),
+    onSuccess: async ({ conversations }) => {
+      await messageDexieService.addMissingMessages(conversations.flatMap((c) => c.messages));
+      toast.success(
+        conversations.length === 1 ? "Forwarded" : `Forwarded to ${conversations.length} chats`
+      );
+      queryClient.invalidateQueries({ queryKey: ["conversations"] });
+    },
+  });
+}
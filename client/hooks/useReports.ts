@@ -0,0 +1,23 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { reportContent } from '@/services/reports.service';
+
+/**
+ * Hook to report a message or a user to the moderators.
+ * Reporting with `block` also blocks the user, so the blocked list is refreshed.
+ *
+ * @returns The mutation object for filing a report.
+ */
+export function useReportContent() {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: reportContent,
+        onSuccess: (_report, { block }) => {
+            toast.success(block ? 'Reported and blocked' : 'Report sent');
+            if (block) {
+                queryClient.invalidateQueries({ queryKey: ['blocked-users'] });
+                queryClient.invalidateQueries({ queryKey: ['contacts'] });
+            }
+        },
+    });
+}
@@ -0,0 +1,115 @@
+import { useEffect, useMemo } from 'react';
+import { QueryClient, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+    cancelScheduledMessage,
+    fetchScheduledMessages,
+    scheduleMessage,
+    updateScheduledMessage,
+} from '@/services/scheduled-messages.service';
+import { socketService } from '@/services/socket.service';
+import { SocketEvents } from '@/types/socket-events';
+import { Message, ScheduledMessage } from '@/types';
+import useAuth from './useAuth';
+
+const scheduledMessagesKey = (conversationId: string) => ['scheduled-messages', conversationId];
+
+/**
+ * Shows a pending schedule as a chat bubble in the "scheduled" state
+ */
+function toScheduledBubble(schedule: ScheduledMessage, from: { waId: string; name: string }): Message {
+    const scheduledAt = new Date(schedule.scheduledFor);
+    return {
+        id: schedule.id,
+        conversationId: schedule.conversationId,
+        from: from.waId,
+        to: schedule.to,
+        text: schedule.text,
+        timestamp: schedule.scheduledFor,
+        status: 'scheduled',
+        type: 'text',
+        waId: from.waId,
+        direction: 'outgoing',
+        contact: from,
+        scheduledFor: schedule.scheduledFor,
+        createdAt: scheduledAt,
+        updatedAt: scheduledAt,
+    };
+}
+
+/**
+ * Hook to list the current user's pending scheduled messages in a conversation.
+ * Kept in sync with `scheduled-message:updated`: sent, failed and cancelled ones drop out.
+ *
+ * @returns The schedules and the same schedules as chat bubbles, soonest first.
+ */
+export function useScheduledMessages(conversationId: string) {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+
+    const query = useQuery({
+        queryKey: scheduledMessagesKey(conversationId),
+        queryFn: () => fetchScheduledMessages(conversationId),
+        enabled: !!conversationId && !!user?.waId,
+        refetchOnWindowFocus: false,
+    });
+
+    useEffect(() => {
+        return socketService.on(SocketEvents.SCHEDULED_MESSAGE_UPDATED, (schedule) => {
+            if (schedule.conversationId === conversationId) upsertSchedule(queryClient, schedule);
+        });
+    }, [conversationId, queryClient]);
+
+    const bubbles = useMemo(() => {
+        if (!user?.waId) return [];
+        const from = { waId: user.waId, name: user.name ?? user.waId };
+        return (query.data ?? []).map((schedule) => toScheduledBubble(schedule, from));
+    }, [query.data, user?.waId, user?.name]);
+
+    return { schedules: query.data ?? [], bubbles, isLoading: query.isLoading };
+}
+
+/**
+ * Hook to schedule a message; the new schedule is added to its conversation's list
+ */
+export function useScheduleMessage() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: scheduleMessage,
+        onSuccess: (schedule) => upsertSchedule(queryClient, schedule),
+    });
+}
+
+/**
+ * Hook to change the text or time of a pending scheduled message
+ */
+export function useUpdateScheduledMessage() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ scheduleId, ...data }: { scheduleId: string; text?: string; scheduledFor?: number }) =>
+            updateScheduledMessage(scheduleId, data),
+        onSuccess: (schedule) => upsertSchedule(queryClient, schedule),
+    });
+}
+
+/**
+ * Hook to cancel a pending scheduled message
+ */
+export function useCancelScheduledMessage() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: cancelScheduledMessage,
+        onSuccess: (schedule) => upsertSchedule(queryClient, schedule),
+    });
+}
+
+// Keeps pending schedules sorted by time; any other status removes the schedule
+function upsertSchedule(queryClient: QueryClient, schedule: ScheduledMessage) {
+    queryClient.setQueryData<ScheduledMessage[]>(scheduledMessagesKey(schedule.conversationId), (old = []) => {
+        const others = old.filter((s) => s.id !== schedule.id);
+        if (schedule.status !== 'pending') return others;
+        return [...others, schedule].sort((a, b) => a.scheduledFor - b.scheduledFor);
+    });
+}
@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { liveQuery } from 'dexie';
+import { useInfiniteQuery, useMutation } from '@tanstack/react-query';
+import { fetchStarredMessages, starMessage, unstarMessage } from '@/services/message.service';
+import { starredDexieService } from '@/services/starred.dexie.service';
+import { Message, StarredMessageRecord } from '@/types';
+import useAuth from './useAuth';
+
+/**
+ * Hook to list the current user's starred messages across conversations.
+ * Reads the offline copy in Dexie; each page fetched from the server refreshes it.
+ *
+ * @returns The starred messages, newest star first, and the paging state of the server list.
+ */
+export function useStarredMessages() {
+    const { user } = useAuth();
+    const [starred, setStarred] = useState<StarredMessageRecord[] | null>(null);
+
+    useEffect(() => {
+        const subscription = liveQuery(() => starredDexieService.getStarred()).subscribe(
+            setStarred,
+            (error: unknown) => console.error('Error in starred messages liveQuery:', error)
+        );
+        return () => subscription.unsubscribe();
+    }, []);
+
+    const query = useInfiniteQuery({
+        queryKey: ['starred-messages', user?.waId],
+        queryFn: async ({ pageParam }) => {
+            const page = await fetchStarredMessages({ cursor: pageParam });
+            await starredDexieService.savePage(page.starred, !pageParam, !page.nextCursor);
+            return page;
+        },
+        initialPageParam: undefined as string | undefined,
+        getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+        enabled: !!user?.waId,
+        refetchOnWindowFocus: false,
+    });
+
+    return {
+        starred: starred ?? [],
+        // Offline copies show right away; only an empty copy waits for the server
+        isLoading: starred === null || (!starred.length && query.isLoading),
+        fetchNextPage: query.fetchNextPage,
+        hasNextPage: query.hasNextPage,
+        isFetchingNextPage: query.isFetchingNextPage,
+    };
+}
+
+/**
+ * Hook to know which messages of a conversation the current user starred.
+ *
+ * @returns The ids (`clientMessageId ?? id`) of the starred messages.
+ */
+export function useStarredMessageIds(conversationId: string) {
+    const [ids, setIds] = useState<Set<string>>(() => new Set());
+
+    useEffect(() => {
+        if (!conversationId) return;
+        const subscription = liveQuery(() => starredDexieService.getStarredIds(conversationId)).subscribe(
+            (starredIds) => setIds(new Set(starredIds)),
+            (error: unknown) => console.error('Error in starred ids liveQuery:', error)
+        );
+        return () => subscription.unsubscribe();
+    }, [conversationId]);
+
+    return ids;
+}
+
+/**
+ * Hook to star or unstar a message for the current user.
+ *
+ * @returns The mutation object; the offline copy is updated once the server accepted it.
+ */
+export function useToggleStar() {
+    return useMutation({
+        mutationFn: async ({ message, starred }: { message: Message; starred: boolean }) => {
+            const messageId = message.clientMessageId ?? message.id;
+            if (starred) {
+                await starredDexieService.saveStars([await starMessage(messageId)]);
+            } else {
+                await unstarMessage(messageId);
+                await starredDexieService.removeStars([messageId]);
+            }
+        },
+    });
+}
@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * Voice recorder state and controls
+ */
+interface VoiceRecorder {
+    isRecording: boolean;
+    /** Seconds since recording started */
+    elapsed: number;
+    /** Asks for the microphone and starts recording; resolves false if access is denied */
+    start: () => Promise<boolean>;
+    /** Stops recording and resolves with the clip (null if nothing was recorded) */
+    stop: () => Promise<{ blob: Blob; duration: number } | null>;
+    /** Stops recording and discards the clip */
+    cancel: () => void;
+}
+
+/**
+ * Hook to record voice notes with the browser's MediaRecorder.
+ *
+ * The microphone is released as soon as recording stops, is cancelled
+ * or the component unmounts.
+ */
+export function useVoiceRecorder(): VoiceRecorder {
+    const [isRecording, setIsRecording] = useState(false);
+    const [elapsed, setElapsed] = useState(0);
+    const recorderRef = useRef<MediaRecorder | null>(null);
+    const chunksRef = useRef<Blob[]>([]);
+    const startedAtRef = useRef(0);
+
+    const release = useCallback(() => {
+        recorderRef.current?.stream.getTracks().forEach((track) => track.stop());
+        recorderRef.current = null;
+        setIsRecording(false);
+        setElapsed(0);
+    }, []);
+
+    // Tick the timer while recording
+    useEffect(() => {
+        if (!isRecording) return;
+        const interval = setInterval(() => {
+            setElapsed(Math.floor((Date.now() - startedAtRef.current) / 1000));
+        }, 250);
+        return () => clearInterval(interval);
+    }, [isRecording]);
+
+    // Never leave the microphone open
+    useEffect(() => release, [release]);
+
+    const start = useCallback(async () => {
+        if (recorderRef.current) return true;
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            const recorder = new MediaRecorder(stream);
+            chunksRef.current = [];
+            recorder.ondataavailable = (event) => {
+                if (event.data.size > 0) chunksRef.current.push(event.data);
+            };
+            recorder.start();
+            recorderRef.current = recorder;
+            startedAtRef.current = Date.now();
+            setIsRecording(true);
+            return true;
+        } catch (error) {
+            console.error('[useVoiceRecorder] Microphone unavailable:', error);
+            return false;
+        }
+    }, []);
+
+    const stop = useCallback(() => {
+        const recorder = recorderRef.current;
+        if (!recorder) return Promise.resolve(null);
+
+        return new Promise<{ blob: Blob; duration: number } | null>((resolve) => {
+            recorder.onstop = () => {
+                const duration = (Date.now() - startedAtRef.current) / 1000;
+                const blob = new Blob(chunksRef.current, { type: recorder.mimeType || 'audio/webm' });
+                chunksRef.current = [];
+                resolve(blob.size > 0 ? { blob, duration } : null);
+            };
+            recorder.stop();
+            release();
+        });
+    }, [release]);
+
+    const cancel = useCallback(() => {
+        const recorder = recorderRef.current;
+        if (recorder) {
+            recorder.onstop = null;
+            if (recorder.state !== 'inactive') recorder.stop();
+        }
+        chunksRef.current = [];
+        release();
+    }, [release]);
+
+    return { isRecording, elapsed, start, stop, cancel };
+}
@@ -0,0 +1,14 @@
+import nextJest from "next/jest.js";
+
+// Loads next.config and .env files, and compiles TypeScript with SWC using the tsconfig paths
+const createJestConfig = nextJest({ dir: "./" });
+
+/** @type {import('jest').Config} */
+const config = {
+  testEnvironment: "node",
+  testRegex: "(\\.|/)(test|spec)\\.tsx?$",
+  // Dexie runs against an in-memory IndexedDB
+  setupFiles: ["fake-indexeddb/auto"],
+};
+
+export default createJestConfig(config);
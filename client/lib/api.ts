@@ -121,13 +121,17 @@ api.interceptors.response.use(
     }
 
     // For other authentication errors (missing tokens, user not found, etc.), redirect immediately
+    // A suspended account gets a 403; on the login form itself it is shown as an error instead
+    const isSuspendedSession =
+      errorCode === "ACCOUNT_SUSPENDED" && !requestUrl?.endsWith("/auth/login");
     if (
-      response?.status === 401 &&
-      (errorCode === "REFRESH_TOKEN_MISSING" ||
-        errorCode === "REFRESH_TOKEN_EXPIRED" ||
-        errorCode === "REFRESH_TOKEN_INVALID" ||
-        errorCode === "REFRESH_TOKEN_REVOKED" ||
-        errorCode === "USER_NOT_FOUND")
+      (response?.status === 401 &&
+        (errorCode === "REFRESH_TOKEN_MISSING" ||
+          errorCode === "REFRESH_TOKEN_EXPIRED" ||
+          errorCode === "REFRESH_TOKEN_INVALID" ||
+          errorCode === "REFRESH_TOKEN_REVOKED" ||
+          errorCode === "USER_NOT_FOUND")) ||
+      isSuspendedSession
     ) {
       // Clear all cached data
       queryClient?.clear();
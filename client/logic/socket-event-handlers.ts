@@ -1,14 +1,18 @@
-import { Socket } from "socket.io-client";
+import { toast } from "sonner";
 import { Message } from "@/types";
+import { toRelayedMessage } from "@/utils/message-factory";
 import { messageDexieService } from "@/services/message.dexie.service";
+import { starredDexieService } from "@/services/starred.dexie.service";
+import { fetchStarredMessages } from "@/services/message.service";
+import { socketService, type ServerEvents } from "@/services/socket.service";
 import { SocketEvents } from "@/types/socket-events";
+import { useActivityStore, type ChatActivity } from "@/store/activity-store";
 
 /**
  * Handles incoming `MESSAGE_CREATED` events.
  * Saves message to Dexie and emits delivered status if acceptable.
  */
 export const handleIncomingMessage = (
-    socket: Socket,
     userWaId: string | undefined,
     payload: { message: Message; conversationId: string }
 ) => {
@@ -18,8 +22,8 @@ export const handleIncomingMessage = (
             .then(() => {
                 // Ack delivery
                 // Only ack if it wasn't sent by me
-                if (payload.message.from !== userWaId) {
-                    socket.emit(SocketEvents.MESSAGE_STATUS_UPDATED, {
+                if (userWaId && payload.message.from !== userWaId) {
+                    socketService.emit(SocketEvents.MESSAGE_STATUS_UPDATED, {
                         id: payload.message.id,
                         status: "delivered",
                         conversationId: payload.conversationId,
@@ -48,14 +52,132 @@ export const handleStatusUpdate = (payload: { id: string; status: string }) => {
     }
 };
 
+/**
+ * Handles `MESSAGE_UPDATED` events.
+ * Applies server-side changes (edits) to the local copy of the message.
+ */
+export const handleMessageUpdated = (payload: { message: Message; conversationId: string }) => {
+    const { message } = payload ?? {};
+    if (!message) return;
+
+    // Socket-relayed messages are stored locally under their client-generated id
+    messageDexieService
+        .updateMessage(message.clientMessageId ?? message.id, {
+            text: message.text,
+            editedAt: message.editedAt,
+            editHistory: message.editHistory,
+        })
+        .catch(console.error);
+    starredDexieService
+        .updateMessage(message.clientMessageId ?? message.id, message)
+        .catch(console.error);
+};
+
+/**
+ * Handles `MESSAGE_DELETED` events.
+ * "Delete for me" removes the local copy; "delete for everyone" turns it into a tombstone.
+ */
+export const handleMessageDeleted = (
+    payload: ServerEvents[SocketEvents.MESSAGE_DELETED]
+) => {
+    const { message, deleteFor } = payload ?? {};
+    if (!message) return;
+
+    const localId = message.clientMessageId ?? message.id;
+
+    const operation =
+        deleteFor === "me"
+            ? messageDexieService.deleteMessage(localId)
+            : messageDexieService.updateMessage(localId, {
+                text: message.text,
+                editedAt: null,
+                editHistory: [],
+                attachment: null,
+                deletedAt: message.deletedAt,
+            });
+
+    operation.catch(console.error);
+    // The server drops stars on messages the user can no longer read
+    starredDexieService.removeStars([localId]).catch(console.error);
+};
+
+/**
+ * Handles `MESSAGES_EXPIRED` events.
+ * Removes the local copies of disappearing messages the server purged.
+ */
+export const handleMessagesExpired = (
+    payload: ServerEvents[SocketEvents.MESSAGES_EXPIRED]
+) => {
+    if (!payload?.messageIds?.length) return;
+
+    messageDexieService
+        .deleteMessages(payload.messageIds)
+        .catch(console.error);
+    starredDexieService.removeStars(payload.messageIds).catch(console.error);
+};
+
+/**
+ * Handles `MESSAGE_STAR_UPDATED` events (the current user starred or unstarred on another device).
+ * New stars are fetched with their conversation context; removed ones are dropped.
+ */
+export const handleStarUpdated = (
+    payload: ServerEvents[SocketEvents.MESSAGE_STAR_UPDATED]
+) => {
+    if (!payload?.messageId) return;
+
+    if (!payload.starred) {
+        starredDexieService.removeStars([payload.messageId]).catch(console.error);
+        return;
+    }
+
+    fetchStarredMessages({ conversationId: payload.conversationId })
+        .then(({ starred }) => starredDexieService.saveStars(starred))
+        .catch(console.error);
+};
+
+/**
+ * Handles `MESSAGE_REACTION_UPDATED` events.
+ * Replaces the local reactions with the server's copy.
+ */
+export const handleReactionUpdated = (
+    payload: ServerEvents[SocketEvents.MESSAGE_REACTION_UPDATED]
+) => {
+    const { message } = payload ?? {};
+    if (!message) return;
+
+    messageDexieService
+        .updateMessage(message.clientMessageId ?? message.id, {
+            reactions: message.reactions ?? [],
+        })
+        .catch(console.error);
+};
+
+/**
+ * Handles `TYPING_*` and `RECORDING_*` events.
+ * Shows or clears the sender's indicator in that conversation.
+ */
+export const handleActivity = (
+    activity: ChatActivity,
+    isActive: boolean,
+    payload: ServerEvents[SocketEvents.TYPING_START]
+) => {
+    if (!payload?.conversationId || !payload?.waId) return;
+
+    const { startActivity, stopActivity } = useActivityStore.getState();
+    if (isActive) {
+        startActivity(payload.conversationId, payload.waId, activity);
+    } else {
+        stopActivity(payload.conversationId, payload.waId, activity);
+    }
+};
+
 /**
  * Handles `MESSAGES_MARKED_AS_READ` events.
  * Marks messages as read in Dexie.
  */
-export const handleBulkRead = (payload: {
-    conversationId: string;
-    readBy: string;
-}) => {
+export const handleBulkRead = (
+    payload: ServerEvents[SocketEvents.MESSAGES_MARKED_AS_READ]
+) => {
     if (payload?.conversationId && payload?.readBy) {
         messageDexieService
             .markMessagesAsRead(payload.conversationId, payload.readBy)
@@ -63,14 +185,25 @@ export const handleBulkRead = (payload: {
     }
 };
 
+/**
+ * Handles `SCHEDULED_MESSAGE_UPDATED` events.
+ * The open chat refreshes itself; this only reports failed deliveries.
+ */
+export const handleScheduledMessageUpdated = (
+    payload: ServerEvents[SocketEvents.SCHEDULED_MESSAGE_UPDATED]
+) => {
+    if (payload.status === "failed") {
+        toast.error(
+            `Scheduled message could not be sent${payload.failureReason ? `: ${payload.failureReason}` : ""}`
+        );
+    }
+};
+
 /**
  * Handles `USER_ONLINE` events.
  * Resends any pending messages for that user.
  */
-export const handleUserOnline = (
-    socket: Socket,
-    { waId }: { waId: string }
-) => {
+export const handleUserOnline = ({ waId }: { waId: string }) => {
     if (!waId) return;
 
     messageDexieService
@@ -79,8 +212,8 @@ export const handleUserOnline = (
             if (pendingMessages.length > 0) {
                 pendingMessages.forEach((msg) => {
                     // Re-emit message:send
-                    socket.emit(SocketEvents.MESSAGE_SEND, {
-                        message: msg,
+                    socketService.emit(SocketEvents.MESSAGE_SEND, {
+                        message: toRelayedMessage(msg),
                         conversationId: msg.conversationId,
                     });
                 });
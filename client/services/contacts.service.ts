@@ -1,4 +1,5 @@
 import api from "@/lib/api";
+import { BlockedUser } from "@/types";
 
 const API_BASE = "/contacts";
 
@@ -18,3 +19,17 @@ export const searchUsers = async (query: string) => {
   });
   return response.data;
 };
+
+export const getBlockedUsers = async () => {
+  const response = await api.get(`${API_BASE}/blocked`);
+  return response.data.data as BlockedUser[];
+};
+
+export const blockUser = async (waId: string) => {
+  const response = await api.put(`${API_BASE}/${waId}/block`);
+  return response.data.data as BlockedUser;
+};
+
+export const unblockUser = async (waId: string) => {
+  await api.delete(`${API_BASE}/${waId}/block`);
+};
@@ -1,17 +1,27 @@
 import api from "@/lib/api";
-import { Conversation, User } from "@/types";
+import {
+  Conversation,
+  ConversationFilter,
+  Message,
+  MessageTimer,
+  PinDuration,
+  PinnedMessage,
+  User,
+} from "@/types";
 
 const API_BASE = "/conversations";
 
-// Get all conversations with pagination
+// Get all conversations with pagination (pinned conversations come first)
 export async function fetchAllConversations(
   limit: number = 20,
-  cursor?: string
+  cursor?: string,
+  filter: ConversationFilter = "all"
 ): Promise<{ conversations: Conversation[]; nextCursor: string | null }> {
   const response = await api.get(API_BASE, {
     params: {
       limit,
       cursor,
+      filter,
     },
   });
   return response.data.data || { conversations: [], nextCursor: null };
@@ -47,3 +57,104 @@ export async function deleteConversation(
   });
   return res.data;
 }
+
+export type ConversationSettings = {
+  archived?: boolean;
+  pinned?: boolean;
+  /** ISO date; null unmutes */
+  mutedUntil?: string | null;
+  markedUnread?: boolean;
+};
+
+// Update the current user's own settings of a conversation
+export async function updateConversationSettings(
+  conversationId: string,
+  settings: ConversationSettings
+): Promise<Conversation> {
+  const res = await api.patch(`${API_BASE}/${conversationId}/settings`, settings);
+  return res.data.data;
+}
+
+// Set the disappearing messages timer; `message` is the announcement (null when unchanged)
+export async function setMessageTimer(
+  conversationId: string,
+  timer: MessageTimer
+): Promise<{ conversation: Conversation; message: Message | null }> {
+  const res = await api.put(`${API_BASE}/${conversationId}/message-timer`, { timer });
+  return res.data.data;
+}
+
+// Get the pinned messages of a conversation
+export async function getPinnedMessages(conversationId: string): Promise<PinnedMessage[]> {
+  const res = await api.get(`${API_BASE}/${conversationId}/pins`);
+  return res.data.data ?? [];
+}
+
+// Pin a message for everyone (at most 3 per conversation); returns the pins afterwards
+export async function pinMessage(
+  conversationId: string,
+  messageId: string,
+  duration?: PinDuration
+): Promise<PinnedMessage[]> {
+  const res = await api.put(`${API_BASE}/${conversationId}/pins/${messageId}`, { duration });
+  return res.data.data;
+}
+
+// Unpin a message; returns the pins afterwards
+export async function unpinMessage(
+  conversationId: string,
+  messageId: string
+): Promise<PinnedMessage[]> {
+  const res = await api.delete(`${API_BASE}/${conversationId}/pins/${messageId}`);
+  return res.data.data;
+}
+
+// ============================================
+// Group conversations
+// ============================================
+
+// Create a group with the current user as admin
+export async function createGroup(data: {
+  name: string;
+  members: string[];
+  description?: string;
+  avatar?: string;
+}): Promise<Conversation> {
+  const res = await api.post(`${API_BASE}/groups`, data);
+  return res.data.data;
+}
+
+// Add members to a group (admins only)
+export async function addGroupMembers(
+  conversationId: string,
+  members: string[]
+): Promise<Conversation> {
+  const res = await api.post(`${API_BASE}/${conversationId}/members`, {
+    members,
+  });
+  return res.data.data;
+}
+
+// Remove a member from a group (admins only)
+export async function removeGroupMember(
+  conversationId: string,
+  waId: string
+): Promise<Conversation> {
+  const res = await api.delete(`${API_BASE}/${conversationId}/members/${waId}`);
+  return res.data.data;
+}
+
+// Promote a member to admin (admins only)
+export async function promoteGroupAdmin(
+  conversationId: string,
+  waId: string
+): Promise<Conversation> {
+  const res = await api.put(`${API_BASE}/${conversationId}/admins/${waId}`);
+  return res.data.data;
+}
+
+// Leave a group
+export async function leaveGroup(conversationId: string) {
+  const res = await api.post(`${API_BASE}/${conversationId}/leave`);
+  return res.data;
+}
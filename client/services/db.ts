@@ -1,8 +1,36 @@
 import Dexie, { Table } from 'dexie';
-import { Message, MessageWithQueue } from '@/types';
+import { Message, MessageWithQueue, SearchIndexEntry, StarredMessageRecord, SyncMark } from '@/types';
+import { toSearchIndexEntries } from '@/utils/search-text';
+
+// Sequence number of messages the server has not numbered yet: they keep their optimistic
+// place after every numbered message until the ack (or the server copy) brings the real one
+export const PENDING_SEQ = Number.MAX_SAFE_INTEGER;
+
+const UNSENT_STATUSES: Message['status'][] = ['pending', 'sending', 'failed'];
+
+/**
+ * Local sequence number of a message the server has not numbered
+ * (legacy messages persisted before sequence numbers come first)
+ */
+function localSeq(message: Pick<Message, 'seq' | 'status'>): number {
+    if (message.seq != null) return message.seq;
+    return UNSENT_STATUSES.includes(message.status) ? PENDING_SEQ : 0;
+}
+
+/**
+ * Position of a message in the `[conversationId+seq+timestamp]` order
+ */
+export type MessageOrder = [seq: number, timestamp: number];
+
+export function messageOrder(message: Pick<Message, 'seq' | 'status' | 'timestamp'>): MessageOrder {
+    return [localSeq(message), message.timestamp];
+}
 
 export class QuickChatDB extends Dexie {
     messages!: Table<MessageWithQueue, string>;
+    syncMarks!: Table<SyncMark, string>;
+    starredMessages!: Table<StarredMessageRecord, string>;
+    searchIndex!: Table<SearchIndexEntry, [string, string]>;
 
     constructor() {
         super('QuickChatDB');
@@ -30,6 +58,51 @@ export class QuickChatDB extends Dexie {
                 }
             });
         });
+
+        // Version 4: Index disappearing messages by expiry so expired ones can be purged
+        this.version(4).stores({
+            messages: 'id, conversationId, timestamp, [conversationId+timestamp], status, expiresAt',
+        });
+
+        // Version 5: Delta sync high-water marks, one per conversation
+        this.version(5).stores({
+            syncMarks: 'conversationId',
+        });
+
+        // Version 6: Order conversations by server-assigned sequence number, then timestamp
+        this.version(6).stores({
+            messages: 'id, conversationId, timestamp, [conversationId+timestamp], [conversationId+seq+timestamp], status, expiresAt',
+        }).upgrade(tx => {
+            return tx.table('messages').toCollection().modify((msg: MessageWithQueue) => {
+                msg.seq = localSeq(msg);
+            });
+        });
+
+        // Version 7: The current user's starred messages, kept for offline use
+        this.version(7).stores({
+            starredMessages: 'messageId, conversationId, starredAt',
+        });
+
+        // Version 8: Offline full-text search, one row per (folded word, message), built from the stored messages
+        this.version(8).stores({
+            searchIndex: '[term+messageId], term, messageId',
+        }).upgrade(async tx => {
+            const entries: SearchIndexEntry[] = [];
+            await tx.table('messages').each((msg: MessageWithQueue) => {
+                entries.push(...toSearchIndexEntries(msg));
+            });
+            await tx.table('searchIndex').bulkPut(entries);
+        });
+
+        // Every stored message needs a seq to appear in the index
+        this.messages.hook('creating', (_key, msg) => {
+            msg.seq = localSeq(msg);
+        });
+        this.messages.hook('updating', (changes: Partial<MessageWithQueue>, _key, msg) => {
+            if ('seq' in changes && changes.seq == null) {
+                return { seq: localSeq({ ...msg, ...changes, seq: null }) };
+            }
+        });
     }
 }
 
@@ -0,0 +1,65 @@
+import api from "@/lib/api";
+import { Media, MessageAttachment } from "@/types";
+
+const API_BASE = "/media";
+
+export interface IUploadMediaRequest {
+  conversationId: string;
+  width?: number;
+  height?: number;
+  duration?: number;
+  /** Smaller preview of an image */
+  thumbnail?: Blob;
+  blurhash?: string;
+  /** Voice note amplitude bars, 0-100 */
+  waveform?: number[];
+}
+
+// Upload a file to a conversation
+export async function uploadMedia(
+  file: File | Blob,
+  data: IUploadMediaRequest,
+  onProgress?: (percent: number) => void
+) {
+  const form = new FormData();
+  form.append("file", file, file instanceof File ? file.name : "upload");
+  form.append("conversationId", data.conversationId);
+  if (data.width) form.append("width", String(data.width));
+  if (data.height) form.append("height", String(data.height));
+  if (data.duration) form.append("duration", String(data.duration));
+  if (data.thumbnail) form.append("thumbnail", data.thumbnail, "thumbnail");
+  if (data.blurhash) form.append("blurhash", data.blurhash);
+  if (data.waveform?.length) form.append("waveform", data.waveform.join(","));
+
+  const res = await api.post(API_BASE, form, {
+    onUploadProgress: (event) => {
+      if (onProgress && event.total) {
+        onProgress(Math.round((event.loaded / event.total) * 100));
+      }
+    },
+  });
+  return res.data.data as Media;
+}
+
+// Authenticated download URL (the session cookie is sent by the browser)
+export function getMediaUrl(mediaId: string, variant?: "thumbnail") {
+  const url = `${api.defaults.baseURL}${API_BASE}/${mediaId}`;
+  return variant ? `${url}?variant=${variant}` : url;
+}
+
+// Attachment metadata to send with the message
+export function toAttachment(media: Media): MessageAttachment {
+  return {
+    mediaId: media.id,
+    fileName: media.fileName,
+    mimeType: media.mimeType,
+    size: media.size,
+    width: media.width,
+    height: media.height,
+    duration: media.duration,
+    checksum: media.checksum,
+    blurhash: media.blurhash,
+    waveform: media.waveform,
+    hasThumbnail: Boolean(media.thumbnailKey),
+  };
+}
@@ -1,5 +1,6 @@
 import { AsyncQueuer } from '@tanstack/pacer';
 import { MessageWithQueue, QueueConfig, QueueState } from '@/types';
+import { toRelayedMessage } from '@/utils/message-factory';
 import { messageDexieService } from './message.dexie.service';
 import { socketService } from './socket.service';
 import { SocketEvents } from '@/types/socket-events';
@@ -91,8 +92,9 @@ class MessageQueueService {
             {
                 concurrency: this.config.concurrency,
                 started: true,
-                onSuccess: async (result, message) => {
-                    await messageDexieService.updateMessageStatus(message.id, 'sent');
+                onSuccess: async (seq, message) => {
+                    // The server numbered the message, which moves it to its final place
+                    await messageDexieService.updateMessage(message.id, { status: 'sent', seq });
                     await messageDexieService.clearQueueMetadata(message.id);
                     this.emitStatusChange(message.id, 'sent');
                     this.emitStateChange();
@@ -113,7 +115,7 @@ class MessageQueueService {
     /**
      * Process a single message with retry logic
      */
-    private async processMessage(message: MessageWithQueue): Promise<void> {
+    private async processMessage(message: MessageWithQueue): Promise<number> {
         console.log('[MessageQueueService] Processing message:', message.id);
 
         // Update status to sending
@@ -132,11 +134,11 @@ class MessageQueueService {
                 }
 
                 // Attempt to send via socket
-                await this.sendViaSocket(message);
+                const seq = await this.sendViaSocket(message);
 
                 // Success!
                 console.log(`[MessageQueueService] Message sent on attempt ${attempt + 1}:`, message.id);
-                return;
+                return seq;
 
             } catch (error) {
                 lastError = error as Error;
@@ -164,8 +166,9 @@ class MessageQueueService {
 
     /**
      * Send message via Socket.io
+     * @returns The sequence number the server assigned
      */
-    private async sendViaSocket(message: MessageWithQueue): Promise<void> {
+    private async sendViaSocket(message: MessageWithQueue): Promise<number> {
         return new Promise((resolve, reject) => {
             const socket = socketService.getSocket();
 
@@ -181,16 +184,16 @@ class MessageQueueService {
             }, this.config.sendTimeoutMs);
 
             // Emit message
-            socket.emit(SocketEvents.MESSAGE_SEND, {
-                message,
+            socketService.emit(SocketEvents.MESSAGE_SEND, {
+                message: toRelayedMessage(message),
                 conversationId: message.conversationId
-            }, (ack: any) => {
+            }, (ack) => {
                 clearTimeout(timeoutId);
 
-                if (ack?.error) {
+                if (ack.status === 'error') {
                     reject(new Error(ack.error));
                 } else {
-                    resolve();
+                    resolve(ack.seq);
                 }
             });
         });
@@ -0,0 +1,75 @@
+import { SyncMark } from '@/types';
+import { syncMessages } from './message.service';
+import { messageDexieService } from './message.dexie.service';
+import { toLocalMessage } from '@/utils/message-factory';
+
+// Conversations per request (the server accepts up to 100)
+const CONVERSATIONS_PER_REQUEST = 50;
+// Requests per sync; anything left is picked up by the next one
+const MAX_ROUNDS = 20;
+
+/**
+ * Message Sync Service
+ *
+ * Catches the local database up with what happened while this device was offline:
+ * each conversation with stored messages sends its high-water mark and gets back the
+ * messages created or changed since then, in bounded batches.
+ */
+class MessageSyncService {
+    private inFlight: Promise<number> | null = null;
+
+    /**
+     * Sync every conversation stored locally; concurrent calls share one run
+     * @returns How many messages were created, changed or removed locally
+     */
+    sync(): Promise<number> {
+        if (!this.inFlight) {
+            this.inFlight = this.run().finally(() => {
+                this.inFlight = null;
+            });
+        }
+        return this.inFlight;
+    }
+
+    private async run(): Promise<number> {
+        const conversationIds = await messageDexieService.getConversationIds();
+        let pending = await Promise.all(conversationIds.map((id) => this.getMark(id)));
+        let applied = 0;
+
+        for (let round = 0; round < MAX_ROUNDS && pending.length > 0; round++) {
+            const batch = pending.slice(0, CONVERSATIONS_PER_REQUEST);
+            const { conversations } = await syncMessages(batch);
+
+            const next: SyncMark[] = [];
+            for (const change of conversations) {
+                await messageDexieService.applySyncedChanges(
+                    change.messages.map(toLocalMessage),
+                    change.removedMessageIds,
+                    change.mark
+                );
+                applied += change.messages.length + change.removedMessageIds.length;
+                if (change.hasMore) next.push(change.mark);
+            }
+
+            pending = [...pending.slice(CONVERSATIONS_PER_REQUEST), ...next];
+        }
+
+        // The server deletes expired disappearing messages outright, so they never show up as changes
+        await messageDexieService.purgeExpiredMessages();
+
+        return applied;
+    }
+
+    /**
+     * Stored mark, or one starting at the newest local message for conversations never synced
+     */
+    private async getMark(conversationId: string): Promise<SyncMark> {
+        const mark = await messageDexieService.getSyncMark(conversationId);
+        if (mark) return mark;
+
+        const [newest] = await messageDexieService.getMessages(conversationId, 1);
+        return { conversationId, since: newest?.timestamp ?? 0 };
+    }
+}
+
+export const messageSyncService = new MessageSyncService();
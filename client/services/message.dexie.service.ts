@@ -1,20 +1,78 @@
 
-import { getDb } from './db';
-import { Message, MessageWithQueue, QueueMetadata } from '@/types';
+import Dexie from 'dexie';
+import { getDb, MessageOrder } from './db';
+import { searchIndexDexieService } from './search-index.dexie.service';
+import { Message, MessageWithQueue, QueueMetadata, SyncMark } from '@/types';
 
 class MessageDexieService {
     /**
-     * Add or update a message in the local database
+     * Add or update a message in the local database, keeping the offline search index current
      */
     async addMessage(message: Message | MessageWithQueue) {
-        return await getDb().messages.put(message);
+        const db = getDb();
+        return await db.transaction('rw', db.messages, db.searchIndex, async () => {
+            const key = await db.messages.put(message);
+            await searchIndexDexieService.indexMessages([message]);
+            return key;
+        });
     }
 
     /**
-     * Bulk add messages (e.g. from sync or initial load)
+     * Bulk add messages (e.g. from sync or initial load), keeping the offline search index current
      */
     async addMessages(messages: Message[]) {
-        return await getDb().messages.bulkPut(messages);
+        const db = getDb();
+        return await db.transaction('rw', db.messages, db.searchIndex, async () => {
+            const key = await db.messages.bulkPut(messages);
+            await searchIndexDexieService.indexMessages(messages);
+            return key;
+        });
+    }
+
+    /**
+     * Add messages fetched from the server that are not stored yet
+     * (stored ones are already kept current by socket events and hold local-only fields)
+     */
+    async addMissingMessages(messages: Message[]) {
+        const db = getDb();
+        return await db.transaction('rw', db.messages, db.searchIndex, async () => {
+            const stored = await db.messages.bulkGet(messages.map((m) => m.id));
+            const missing = messages.filter((_, i) => !stored[i]);
+            await searchIndexDexieService.indexMessages(missing);
+            return await db.messages.bulkAdd(missing);
+        });
+    }
+
+    /**
+     * Reconcile server changes from a delta sync: changed messages are merged over the stored
+     * ones (keeping local-only fields), removed ones are deleted, and the mark is saved
+     */
+    async applySyncedChanges(messages: Message[], removedIds: string[], mark: SyncMark) {
+        const db = getDb();
+        return await db.transaction('rw', db.messages, db.syncMarks, db.searchIndex, async () => {
+            const stored = await db.messages.bulkGet(messages.map((m) => m.id));
+            // The server has the message, so it no longer waits in the send queue
+            const merged = messages.map((m, i) => ({ ...stored[i], ...m, queueMetadata: undefined }));
+            await db.messages.bulkPut(merged);
+            await searchIndexDexieService.indexMessages(merged);
+            await db.messages.bulkDelete(removedIds);
+            await searchIndexDexieService.removeMessages(removedIds);
+            await db.syncMarks.put(mark);
+        });
+    }
+
+    /**
+     * Ids of the conversations that have messages stored locally
+     */
+    async getConversationIds() {
+        return (await getDb().messages.orderBy('conversationId').uniqueKeys()) as string[];
+    }
+
+    /**
+     * Get the delta sync high-water mark of a conversation
+     */
+    async getSyncMark(conversationId: string) {
+        return await getDb().syncMarks.get(conversationId);
     }
 
     /**
@@ -22,9 +80,9 @@ class MessageDexieService {
      */
     async getMessages(conversationId: string, limit = 50, offset = 0) {
         const messages = await getDb().messages
-            .where('[conversationId+timestamp]')
-            .between([conversationId, -Infinity], [conversationId, Infinity])
-            .reverse() // Start from newest (largest timestamp)
+            .where('[conversationId+seq+timestamp]')
+            .between([conversationId, Dexie.minKey, Dexie.minKey], [conversationId, Dexie.maxKey, Dexie.maxKey])
+            .reverse() // Start from newest (largest seq)
             .offset(offset)
             .limit(limit)
             .toArray();
@@ -33,6 +91,34 @@ class MessageDexieService {
         return messages.reverse();
     }
 
+    /**
+     * Get a conversation's messages between two positions (inclusive), oldest first
+     * Without `to`, every message from `from` on, including unsent ones
+     */
+    async getMessagesBetween(conversationId: string, from: MessageOrder, to: MessageOrder | null) {
+        return await getDb().messages
+            .where('[conversationId+seq+timestamp]')
+            .between(
+                [conversationId, ...from],
+                to ? [conversationId, ...to] : [conversationId, Dexie.maxKey, Dexie.maxKey],
+                true,
+                true
+            )
+            .toArray();
+    }
+
+    /**
+     * Get a conversation's messages with an attachment of the given type, oldest first
+     * (deleted-for-everyone messages are skipped)
+     */
+    async getMediaMessages(conversationId: string, type: Message['type']) {
+        return await getDb().messages
+            .where('[conversationId+seq+timestamp]')
+            .between([conversationId, Dexie.minKey, Dexie.minKey], [conversationId, Dexie.maxKey, Dexie.maxKey])
+            .filter((message) => message.type === type && Boolean(message.attachment) && !message.deletedAt)
+            .toArray();
+    }
+
     /**
      * Get most recent message for a conversation
      */
@@ -51,6 +137,58 @@ class MessageDexieService {
         return await getDb().messages.update(id, { status: status as any });
     }
 
+    /**
+     * Apply changes to a stored message (edits and other server-side updates)
+     */
+    async updateMessage(id: string, changes: Partial<Message>) {
+        if (!('text' in changes) && !('deletedAt' in changes)) {
+            return await getDb().messages.update(id, changes);
+        }
+        // Edits and deletions for everyone change what the message can be found by
+        const db = getDb();
+        return await db.transaction('rw', db.messages, db.searchIndex, async () => {
+            const updated = await db.messages.update(id, changes);
+            const message = await db.messages.get(id);
+            if (message) await searchIndexDexieService.indexMessages([message]);
+            return updated;
+        });
+    }
+
+    /**
+     * Remove a message from the local database ("delete for me")
+     */
+    async deleteMessage(id: string) {
+        const db = getDb();
+        return await db.transaction('rw', db.messages, db.searchIndex, async () => {
+            await db.messages.delete(id);
+            await searchIndexDexieService.removeMessages([id]);
+        });
+    }
+
+    /**
+     * Remove several messages (disappearing messages the server purged)
+     */
+    async deleteMessages(ids: string[]) {
+        const db = getDb();
+        return await db.transaction('rw', db.messages, db.searchIndex, async () => {
+            await db.messages.bulkDelete(ids);
+            await searchIndexDexieService.removeMessages(ids);
+        });
+    }
+
+    /**
+     * Remove disappearing messages whose expiry has passed, even if the purge event was missed
+     */
+    async purgeExpiredMessages(now = Date.now()) {
+        const db = getDb();
+        return await db.transaction('rw', db.messages, db.searchIndex, async () => {
+            const ids = await db.messages.where('expiresAt').belowOrEqual(now).primaryKeys();
+            await db.messages.bulkDelete(ids);
+            await searchIndexDexieService.removeMessages(ids);
+            return ids.length;
+        });
+    }
+
     /**
      * Mark all messages in a conversation as read for a specific recipient
      */
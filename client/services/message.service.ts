@@ -1,18 +1,40 @@
 import api from "@/lib/api";
-import { Message } from "@/types";
+import {
+  Message,
+  MessageAttachment,
+  MessageReply,
+  MessageSearchFilters,
+  MessageSearchHit,
+  StarredMessage,
+  SyncMark,
+} from "@/types";
 
 const API_BASE = "/messages";
 
-export interface IMessagePagination {
-  currentPage: number;
-  totalPages: number;
-  totalMessages: number;
-  hasMore: boolean;
+export interface IMessageWindow {
+  /** Oldest first */
+  messages: Message[];
+  hasOlder: boolean;
+  hasNewer: boolean;
+}
+
+/** At most one cursor; each is a message id. Without one the newest messages are returned */
+export interface IMessageWindowQuery {
+  limit?: number;
+  before?: string;
+  after?: string;
+  around?: string;
 }
 
-export interface IMessageResponse {
+export interface IConversationSync {
+  conversationId: string;
+  /** Created or changed since the mark, oldest change first */
   messages: Message[];
-  pagination: IMessagePagination;
+  /** Deleted for the current user; ids are the ones stored locally */
+  removedMessageIds: string[];
+  /** Mark to send on the next sync */
+  mark: SyncMark;
+  hasMore: boolean;
 }
 
 export interface IAddMessageRequest {
@@ -21,6 +43,8 @@ export interface IAddMessageRequest {
   text: string;
   type?: string;
   conversationId?: string; // Optional for optimistic updates
+  replyTo?: MessageReply;
+  attachment?: MessageAttachment;
 }
 
 export interface IAddMessageResponse {
@@ -28,17 +52,15 @@ export interface IAddMessageResponse {
   conversationId: string;
 }
 
-// Fetch messages by conversation ID
-
+// Fetch a window of a conversation's messages
 export async function getMessages(
   conversationId: string,
-  queries?: { page?: number; limit?: number }
+  queries?: IMessageWindowQuery
 ) {
   const res = await api.get(`${API_BASE}/${conversationId}`, {
     params: queries,
   });
-  console.log("msgs", res.data);
-  return res.data.data as IMessageResponse;
+  return res.data.data as IMessageWindow;
 }
 
 // Add (send) a new message
@@ -46,3 +68,62 @@ export async function sendMessage(data: IAddMessageRequest) {
   const res = await api.post(API_BASE, data);
   return res.data.data as IAddMessageResponse;
 }
+
+// Fetch message changes since per-conversation high-water marks
+export async function syncMessages(conversations: SyncMark[], limit?: number) {
+  const res = await api.post(`${API_BASE}/sync`, { conversations, limit });
+  return res.data.data as { conversations: IConversationSync[] };
+}
+
+// Forward messages to other conversations; returns the copies per conversation
+export async function forwardMessages(messageIds: string[], conversationIds: string[]) {
+  const res = await api.post(`${API_BASE}/forward`, { messageIds, conversationIds });
+  return res.data.data as { conversations: { conversationId: string; messages: Message[] }[] };
+}
+
+export interface IMessageSearchResult {
+  /** Most relevant first */
+  hits: MessageSearchHit[];
+  searchQuery: string;
+  pagination: {
+    currentPage: number;
+    totalPages: number;
+    totalMessages: number;
+    hasMore: boolean;
+  };
+}
+
+// Full-text search across the current user's chats; quoted phrases and -excluded words work
+export async function searchMessages(
+  params: MessageSearchFilters & { query: string; page?: number; limit?: number }
+) {
+  const res = await api.get(`${API_BASE}/search`, { params });
+  return res.data.data as IMessageSearchResult;
+}
+
+export interface IStarredMessagePage {
+  /** Newest star first */
+  starred: StarredMessage[];
+  nextCursor: string | null;
+}
+
+// List the current user's starred messages, across conversations or in one
+export async function fetchStarredMessages(params: {
+  cursor?: string;
+  limit?: number;
+  conversationId?: string;
+} = {}) {
+  const res = await api.get(`${API_BASE}/starred`, { params });
+  return res.data.data as IStarredMessagePage;
+}
+
+// Star a message for the current user only (`clientMessageId ?? id`)
+export async function starMessage(messageId: string) {
+  const res = await api.put(`${API_BASE}/${messageId}/star`);
+  return res.data.data as StarredMessage;
+}
+
+// Remove the current user's star from a message
+export async function unstarMessage(messageId: string) {
+  await api.delete(`${API_BASE}/${messageId}/star`);
+}
@@ -0,0 +1,21 @@
+import api from "@/lib/api";
+import { Report, ReportReason } from "@/types";
+
+const API_BASE = "/reports";
+
+export interface IReportRequest {
+  /** Message to report (its `clientMessageId ?? id`); omit to report the user */
+  messageId?: string;
+  /** User to report when no message is given */
+  waId?: string;
+  reason: ReportReason;
+  details?: string;
+  /** Also block the reported user */
+  block?: boolean;
+}
+
+// Report a message or a user to the moderators
+export async function reportContent(data: IReportRequest): Promise<Report> {
+  const res = await api.post(API_BASE, data);
+  return res.data.data;
+}
@@ -0,0 +1,40 @@
+import api from "@/lib/api";
+import { ScheduledMessage } from "@/types";
+
+const API_BASE = "/scheduled-messages";
+
+export interface IScheduleMessageRequest {
+  conversationId: string;
+  text: string;
+  /** Epoch ms, at least a minute ahead */
+  scheduledFor: number;
+  attachmentId?: string;
+  replyTo?: { messageId: string };
+}
+
+// Schedule a message to be sent later
+export async function scheduleMessage(data: IScheduleMessageRequest): Promise<ScheduledMessage> {
+  const res = await api.post(API_BASE, data);
+  return res.data.data;
+}
+
+// List the current user's pending scheduled messages in a conversation, soonest first
+export async function fetchScheduledMessages(conversationId: string): Promise<ScheduledMessage[]> {
+  const res = await api.get(API_BASE, { params: { conversationId } });
+  return res.data.data ?? [];
+}
+
+// Change the text or time of a pending scheduled message
+export async function updateScheduledMessage(
+  scheduleId: string,
+  data: { text?: string; scheduledFor?: number }
+): Promise<ScheduledMessage> {
+  const res = await api.patch(`${API_BASE}/${scheduleId}`, data);
+  return res.data.data;
+}
+
+// Cancel a pending scheduled message
+export async function cancelScheduledMessage(scheduleId: string): Promise<ScheduledMessage> {
+  const res = await api.delete(`${API_BASE}/${scheduleId}`);
+  return res.data.data;
+}
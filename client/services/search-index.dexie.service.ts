@@ -0,0 +1,74 @@
+import { getDb } from './db';
+import { Message, MessageSearchFilters, MessageSearchHit, MessageWithQueue } from '@/types';
+import { findHighlights, parseSearchQuery, searchWords, toSearchIndexEntries } from '@/utils/search-text';
+
+/** A message found in the offline index; the caller knows which chat it belongs to */
+export type LocalSearchHit = Omit<MessageSearchHit, 'conversation'>;
+
+const matchesFilters = (message: Message, filters: MessageSearchFilters, now: number) =>
+    !message.deletedAt &&
+    !(message.expiresAt && message.expiresAt <= now) &&
+    (!filters.conversationId || message.conversationId === filters.conversationId) &&
+    (!filters.from || message.from === filters.from) &&
+    (filters.type ? message.type === filters.type : message.type !== 'system') &&
+    (filters.after === undefined || message.timestamp >= filters.after) &&
+    (filters.before === undefined || message.timestamp <= filters.before);
+
+class SearchIndexDexieService {
+    /**
+     * Replace the index rows of stored messages; call inside a transaction that writes the messages
+     */
+    async indexMessages(messages: Message[]) {
+        const db = getDb();
+        await db.searchIndex.where('messageId').anyOf(messages.map((m) => m.id)).delete();
+        await db.searchIndex.bulkPut(messages.flatMap(toSearchIndexEntries));
+    }
+
+    /**
+     * Drop the index rows of removed messages; call inside a transaction that deletes the messages
+     */
+    async removeMessages(ids: string[]) {
+        await getDb().searchIndex.where('messageId').anyOf(ids).delete();
+    }
+
+    /**
+     * Search the stored messages: every term must start a word of the message (diacritics and case
+     * are ignored), and none of the "-excluded" words may appear.
+     * Whole-word matches rank above prefix matches, then newer messages first
+     */
+    async search(query: string, filters: MessageSearchFilters = {}, limit = 50): Promise<LocalSearchHit[]> {
+        const { terms, excluded } = parseSearchQuery(query);
+        if (!terms.length) return [];
+
+        const db = getDb();
+        const idsPerTerm = await Promise.all(
+            terms.map(async (term) => {
+                const keys = await db.searchIndex.where('term').startsWith(term).primaryKeys();
+                return new Set(keys.map(([, messageId]) => messageId));
+            })
+        );
+
+        // Intersect from the rarest term
+        const [rarest, ...others] = idsPerTerm.sort((a, b) => a.size - b.size);
+        const ids = [...rarest].filter((id) => others.every((set) => set.has(id)));
+
+        const now = Date.now();
+        const messages = (await db.messages.bulkGet(ids)).filter(
+            (message): message is MessageWithQueue =>
+                message !== undefined && matchesFilters(message, filters, now)
+        );
+
+        return messages
+            .map((message) => {
+                const words = searchWords(message.text);
+                if (excluded.some((word) => words.includes(word))) return null;
+                const score = terms.reduce((sum, term) => sum + (words.includes(term) ? 1 : 0.5), 0);
+                return { message, score, highlights: findHighlights(message.text, terms) };
+            })
+            .filter((hit): hit is LocalSearchHit => hit !== null)
+            .sort((a, b) => b.score - a.score || b.message.timestamp - a.message.timestamp)
+            .slice(0, limit);
+    }
+}
+
+export const searchIndexDexieService = new SearchIndexDexieService();
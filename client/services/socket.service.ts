@@ -1,5 +1,15 @@
 import type { Socket } from "socket.io-client";
 import api from "@/lib/api";
+import type { Conversation, Message } from "@/types";
+import type {
+    ClientEventAcks,
+    ClientEventName,
+    ClientEventPayloads,
+    ServerEventPayloads,
+} from "@/types/socket-contract";
+
+export type ServerEvents = ServerEventPayloads<Message, Conversation>;
+export type ServerEventName = keyof ServerEvents;
 
 class SocketService {
     private socket: Socket | null = null;
@@ -69,6 +79,37 @@ class SocketService {
         return this.socket!;
     }
 
+    /**
+     * Emits a client event with a payload checked against the shared contract.
+     * The server answers every event with an ack; malformed payloads get a VALIDATION_ERROR ack.
+     */
+    public emit<E extends ClientEventName>(
+        event: E,
+        payload: ClientEventPayloads[E],
+        ack?: (response: ClientEventAcks[E]) => void
+    ) {
+        const socket = this.getSocket();
+        if (ack) {
+            socket.emit(event, payload, ack);
+        } else {
+            socket.emit(event, payload);
+        }
+    }
+
+    /**
+     * Subscribes to a server event. Returns the unsubscribe function.
+     */
+    public on<E extends ServerEventName>(
+        event: E,
+        handler: (payload: ServerEvents[E]) => void
+    ): () => void {
+        const socket = this.getSocket();
+        socket.on(event as string, handler);
+        return () => {
+            socket.off(event as string, handler);
+        };
+    }
+
     public disconnect() {
         if (this.socket) {
             this.socket.disconnect();
@@ -91,6 +132,15 @@ export function getSocketService(): SocketService {
 // Backward-compatible export using a getter
 export const socketService = {
     getSocket: () => getSocketService().getSocket(),
+    emit: <E extends ClientEventName>(
+        event: E,
+        payload: ClientEventPayloads[E],
+        ack?: (response: ClientEventAcks[E]) => void
+    ) => getSocketService().emit(event, payload, ack),
+    on: <E extends ServerEventName>(
+        event: E,
+        handler: (payload: ServerEvents[E]) => void
+    ) => getSocketService().on(event, handler),
     disconnect: () => getSocketService().disconnect(),
 };
 
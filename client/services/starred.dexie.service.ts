@@ -0,0 +1,73 @@
+import Dexie from 'dexie';
+import { getDb } from './db';
+import { Message, StarredMessage, StarredMessageRecord } from '@/types';
+
+const toRecord = (star: StarredMessage): StarredMessageRecord => ({
+    ...star,
+    messageId: star.message.clientMessageId ?? star.message.id,
+    conversationId: star.conversation.id,
+});
+
+class StarredDexieService {
+    /**
+     * Store stars the server returned (new ones or fresher copies)
+     */
+    async saveStars(stars: StarredMessage[]) {
+        return await getDb().starredMessages.bulkPut(stars.map(toRecord));
+    }
+
+    /**
+     * Store a page of GET /messages/starred (unfiltered, newest first) and drop the stored
+     * stars it should have contained but did not: they were removed on another device
+     */
+    async savePage(stars: StarredMessage[], isFirstPage: boolean, isLastPage: boolean) {
+        const db = getDb();
+        const records = stars.map(toRecord);
+        const newest = isFirstPage ? null : records[0]?.starredAt;
+        const oldest = isLastPage ? null : records[records.length - 1]?.starredAt;
+        if (!isLastPage && !oldest) return;
+
+        return await db.transaction('rw', db.starredMessages, async () => {
+            const keep = new Set(records.map((r) => r.messageId));
+            await db.starredMessages
+                .where('starredAt')
+                .between(oldest ?? Dexie.minKey, newest ?? Dexie.maxKey, true, true)
+                .and((r) => !keep.has(r.messageId))
+                .delete();
+            await db.starredMessages.bulkPut(records);
+        });
+    }
+
+    /**
+     * All stored stars, newest first
+     */
+    async getStarred() {
+        return await getDb().starredMessages.orderBy('starredAt').reverse().toArray();
+    }
+
+    /**
+     * Ids (`clientMessageId ?? id`) of the starred messages of a conversation
+     */
+    async getStarredIds(conversationId: string) {
+        return (await getDb().starredMessages
+            .where('conversationId')
+            .equals(conversationId)
+            .primaryKeys()) as string[];
+    }
+
+    /**
+     * Keep the copy of a starred message current (edits); no-op if it is not starred
+     */
+    async updateMessage(messageId: string, message: Message) {
+        return await getDb().starredMessages.update(messageId, { message });
+    }
+
+    /**
+     * Remove stars (unstarred, or the messages were deleted)
+     */
+    async removeStars(messageIds: string[]) {
+        return await getDb().starredMessages.bulkDelete(messageIds);
+    }
+}
+
+export const starredDexieService = new StarredDexieService();
@@ -0,0 +1,53 @@
+import { create } from "zustand";
+
+export type ChatActivity = "typing" | "recording";
+
+// A little longer than the server's expiry, in case its stop event never arrives
+const ACTIVITY_EXPIRY_MS = 8000;
+
+const expiryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+/**
+ * Typing/recording indicators of other users, as relayed by the server.
+ */
+type ActivityState = {
+    /** conversationId -> waId -> what that user is doing */
+    activities: Record<string, Record<string, ChatActivity>>;
+    /** Records (or refreshes) an activity; it expires unless refreshed. */
+    startActivity: (conversationId: string, waId: string, activity: ChatActivity) => void;
+    /** Clears an activity if it is still the current one. */
+    stopActivity: (conversationId: string, waId: string, activity: ChatActivity) => void;
+};
+
+export const useActivityStore = create<ActivityState>()((set, get) => ({
+    activities: {},
+    startActivity: (conversationId, waId, activity) => {
+        const key = `${conversationId}:${waId}`;
+        clearTimeout(expiryTimers.get(key));
+        expiryTimers.set(
+            key,
+            setTimeout(() => get().stopActivity(conversationId, waId, activity), ACTIVITY_EXPIRY_MS)
+        );
+
+        if (get().activities[conversationId]?.[waId] === activity) return;
+        set((state) => ({
+            activities: {
+                ...state.activities,
+                [conversationId]: { ...state.activities[conversationId], [waId]: activity },
+            },
+        }));
+    },
+    stopActivity: (conversationId, waId, activity) => {
+        if (get().activities[conversationId]?.[waId] !== activity) return;
+
+        const key = `${conversationId}:${waId}`;
+        clearTimeout(expiryTimers.get(key));
+        expiryTimers.delete(key);
+
+        set((state) => {
+            const others = { ...state.activities[conversationId] };
+            delete others[waId];
+            return { activities: { ...state.activities, [conversationId]: others } };
+        });
+    },
+}));
@@ -0,0 +1,26 @@
+import { Message } from "@/types";
+import { create } from "zustand";
+
+/**
+ * State of the message bar beyond the text being typed.
+ */
+type ComposerState = {
+    /** Sent message currently being edited in the message bar. */
+    editingMessage: Message | null;
+    /** Starts (or with `null`, cancels) editing a message. */
+    setEditingMessage: (message: Message | null) => void;
+    /** Message the next sent message quotes. */
+    replyingTo: Message | null;
+    /** Starts (or with `null`, cancels) replying to a message. */
+    setReplyingTo: (message: Message | null) => void;
+};
+
+// Editing and replying are mutually exclusive
+export const useComposerStore = create<ComposerState>()((set) => ({
+    editingMessage: null,
+    setEditingMessage: (message) =>
+        set(message ? { editingMessage: message, replyingTo: null } : { editingMessage: null }),
+    replyingTo: null,
+    setReplyingTo: (message) =>
+        set(message ? { replyingTo: message, editingMessage: null } : { replyingTo: null }),
+}));
@@ -0,0 +1,20 @@
+import { create } from "zustand";
+
+/**
+ * Requests to scroll the open chat to a message from outside the message list
+ * (e.g. the pinned strip in the chat header).
+ */
+type MessageJumpState = {
+    /** Message to jump to once its conversation is open; cleared when handled. */
+    pendingJump: { conversationId: string; messageId: string } | null;
+    /** Asks the chat to scroll to a message (by `clientMessageId ?? id`), loading history around it if needed. */
+    jumpToMessage: (conversationId: string, messageId: string) => void;
+    /** Marks the pending jump as handled. */
+    clearPendingJump: () => void;
+};
+
+export const useMessageJumpStore = create<MessageJumpState>()((set) => ({
+    pendingJump: null,
+    jumpToMessage: (conversationId, messageId) => set({ pendingJump: { conversationId, messageId } }),
+    clearPendingJump: () => set({ pendingJump: null }),
+}));
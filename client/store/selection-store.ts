@@ -0,0 +1,29 @@
+import { Message } from "@/types";
+import { create } from "zustand";
+
+/**
+ * Messages picked in the open chat (e.g. to forward several at once).
+ */
+type SelectionState = {
+    /** Picked messages, in the order they were picked. */
+    selectedMessages: Message[];
+    /** Whether the chat is in selection mode (set while anything is picked). */
+    isSelecting: boolean;
+    /** Picks a message, or unpicks it if it already is. */
+    toggleSelected: (message: Message) => void;
+    /** Leaves selection mode. */
+    clearSelection: () => void;
+};
+
+export const useSelectionStore = create<SelectionState>()((set) => ({
+    selectedMessages: [],
+    isSelecting: false,
+    toggleSelected: (message) =>
+        set((state) => {
+            const selectedMessages = state.selectedMessages.some((m) => m.id === message.id)
+                ? state.selectedMessages.filter((m) => m.id !== message.id)
+                : [...state.selectedMessages, message];
+            return { selectedMessages, isSelecting: selectedMessages.length > 0 };
+        }),
+    clearSelection: () => set({ selectedMessages: [], isSelecting: false }),
+}));
@@ -1,5 +1,6 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
+import { ConversationFilter } from "@/types";
 
 /**
  * Represents the UI state and actions for the application.
@@ -11,6 +12,18 @@ type UIState = {
     toggleContactList: () => void;
     /** Sets the open/closed state of the contact list to a specific value. */
     setContactListOpen: (open: boolean) => void;
+    /** Which conversations the list shows; "archived" is the Archived view. */
+    conversationFilter: ConversationFilter;
+    /** Sets the conversation list filter. */
+    setConversationFilter: (filter: ConversationFilter) => void;
+    /** Whether the sidebar shows the starred messages instead of the conversations. */
+    isStarredOpen: boolean;
+    /** Opens or closes the starred messages. */
+    setStarredOpen: (open: boolean) => void;
+    /** Whether the sidebar shows the message search instead of the conversations. */
+    isMessageSearchOpen: boolean;
+    /** Opens or closes the message search. */
+    setMessageSearchOpen: (open: boolean) => void;
 };
 
 /**
@@ -23,6 +36,12 @@ export const useUIStore = create<UIState>()(
             toggleContactList: () =>
                 set((state) => ({ isContactListOpen: !state.isContactListOpen })),
             setContactListOpen: (open: boolean) => set({ isContactListOpen: open }),
+            conversationFilter: "all",
+            setConversationFilter: (filter: ConversationFilter) => set({ conversationFilter: filter }),
+            isStarredOpen: false,
+            setStarredOpen: (open: boolean) => set({ isStarredOpen: open }),
+            isMessageSearchOpen: false,
+            setMessageSearchOpen: (open: boolean) => set({ isMessageSearchOpen: open }),
         }),
         {
             name: "ui-storage",
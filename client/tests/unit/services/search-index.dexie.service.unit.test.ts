@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { getDb } from "@/services/db";
+import { searchIndexDexieService } from "@/services/search-index.dexie.service";
+import { Message } from "@/types";
+
+const conversationId = "65f1a2b3c4d5e6f7a8b9c0d1";
+
+let timestamp = 1700000000000;
+
+const message = (id: string, text: string, overrides: Partial<Message> = {}): Message => ({
+    id,
+    conversationId,
+    from: "919000000001",
+    to: "919000000002",
+    text,
+    timestamp: timestamp++,
+    status: "sent",
+    type: "text",
+    waId: "919000000001",
+    direction: "outgoing",
+    contact: { name: "Asha", waId: "919000000001" },
+    createdAt: new Date(1700000000000),
+    updatedAt: new Date(1700000000000),
+    ...overrides,
+});
+
+/**
+ * Stores messages and their index rows, the way the messages service does
+ */
+const store = async (...messages: Message[]) => {
+    const db = getDb();
+    await db.transaction("rw", db.messages, db.searchIndex, async () => {
+        await db.messages.bulkPut(messages);
+        await searchIndexDexieService.indexMessages(messages);
+    });
+};
+
+const search = async (query: string, filters = {}) =>
+    (await searchIndexDexieService.search(query, filters)).map((hit) => hit.message.id);
+
+describe("[Unit] - SearchIndexDexieService", () => {
+    beforeEach(async () => {
+        const db = getDb();
+        await Promise.all([db.messages.clear(), db.searchIndex.clear()]);
+    });
+
+    it("should find messages regardless of case and diacritics", async () => {
+        await store(message("m1", "Crème brûlée tonight?"), message("m2", "See you"));
+
+        const [hit] = await searchIndexDexieService.search("CREME");
+
+        expect(hit.message.id).toBe("m1");
+        expect(hit.highlights).toEqual([{ start: 0, length: 5 }]);
+        expect(await search("brulee")).toEqual(["m1"]);
+    });
+
+    it("should match terms that start a word", async () => {
+        await store(message("m1", "Crème brûlée tonight"), message("m2", "Embrun"));
+
+        expect(await search("bru")).toEqual(["m1"]);
+    });
+
+    it("should require every term and leave out excluded words", async () => {
+        await store(
+            message("m1", "Crème brûlée tonight"),
+            message("m2", "Crème caramel"),
+            message("m3", "Brûlée for lunch")
+        );
+
+        expect(await search("creme brulee")).toEqual(["m1"]);
+        expect(await search('"creme brulee"')).toEqual(["m1"]);
+        expect(await search("creme -tonight")).toEqual(["m2"]);
+    });
+
+    it("should rank whole words above prefixes, then newer messages first", async () => {
+        await store(
+            message("m1", "Café au lait"),
+            message("m2", "The cafeteria is closed"),
+            message("m3", "Another café")
+        );
+
+        expect(await search("cafe")).toEqual(["m3", "m1", "m2"]);
+    });
+
+    it("should re-index edited messages and drop removed ones", async () => {
+        await store(message("m1", "Crème brûlée"), message("m2", "Crème caramel"));
+
+        await store(message("m1", "Chocolate mousse"));
+        await searchIndexDexieService.removeMessages(["m2"]);
+
+        expect(await search("creme")).toEqual([]);
+        expect(await search("mousse")).toEqual(["m1"]);
+    });
+
+    it("should apply the filters and skip deleted and expired messages", async () => {
+        await store(
+            message("m1", "Lunch at noon"),
+            message("m2", "Lunch at one", { conversationId: "65f1a2b3c4d5e6f7a8b9c0d2" }),
+            message("m3", "Lunch tomorrow", { from: "919000000002" }),
+            message("m4", "Lunch expired", { expiresAt: Date.now() - 1000 })
+        );
+        await getDb().messages.update("m1", { deletedAt: new Date().toISOString() });
+
+        expect(await search("lunch", { conversationId })).toEqual(["m3"]);
+        expect(await search("lunch", { from: "919000000001" })).toEqual(["m2"]);
+    });
+});
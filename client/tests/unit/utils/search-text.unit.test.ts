@@ -0,0 +1,72 @@
+import { describe, expect, it } from "@jest/globals";
+import { findHighlights, foldText, parseSearchQuery, searchWords } from "@/utils/search-text";
+
+describe("[Unit] - search-text", () => {
+    describe("foldText", () => {
+        it("should lowercase and strip diacritics", () => {
+            expect(foldText("Crème Brûlée").folded).toBe("creme brulee");
+            expect(foldText("ÅNGSTRÖM Ça").folded).toBe("angstrom ca");
+        });
+
+        it("should map folded characters back to the original text", () => {
+            // "e" followed by a combining acute accent folds to a single "e"
+            expect(foldText("Cafe\u0301!")).toEqual({ folded: "cafe!", offsets: [0, 1, 2, 3, 5, 6] });
+        });
+
+        it("should count characters outside the BMP as two code units", () => {
+            expect(foldText("😀a")).toEqual({ folded: "😀a", offsets: [0, 0, 2, 3] });
+        });
+    });
+
+    describe("searchWords", () => {
+        it("should return distinct folded words without punctuation", () => {
+            expect(searchWords("Café, CAFE! café-au-lait 42")).toEqual(["cafe", "au", "lait", "42"]);
+        });
+    });
+
+    describe("parseSearchQuery", () => {
+        it("should require the words of quoted phrases and leave out negated words", () => {
+            expect(parseSearchQuery('Café "crème brûlée" -menu')).toEqual({
+                terms: ["creme", "brulee", "cafe"],
+                excluded: ["menu"],
+            });
+        });
+
+        it("should treat a lone dash as punctuation", () => {
+            expect(parseSearchQuery("tea - coffee")).toEqual({ terms: ["tea", "coffee"], excluded: [] });
+        });
+
+        it("should return no terms for a query without words", () => {
+            expect(parseSearchQuery(' "" -- ')).toEqual({ terms: [], excluded: [] });
+        });
+    });
+
+    describe("findHighlights", () => {
+        it("should highlight whole words and prefixes regardless of case and accents", () => {
+            expect(findHighlights("Un café crème, CAFÉS", ["cafe"])).toEqual([
+                { start: 3, length: 4 },
+                { start: 15, length: 5 },
+            ]);
+        });
+
+        it("should only match at the start of a word", () => {
+            expect(findHighlights("decaf cafe", ["caf"])).toEqual([{ start: 6, length: 4 }]);
+        });
+
+        it("should give offsets into the original text when it has combining marks", () => {
+            expect(findHighlights("Cafe\u0301 ok", ["cafe", "ok"])).toEqual([
+                { start: 0, length: 5 },
+                { start: 6, length: 2 },
+            ]);
+        });
+
+        it("should prefer the longest term starting at the same place", () => {
+            expect(findHighlights("crème", ["c", "creme"])).toEqual([{ start: 0, length: 5 }]);
+        });
+
+        it("should return nothing for an empty text or no terms", () => {
+            expect(findHighlights("", ["cafe"])).toEqual([]);
+            expect(findHighlights("café", [])).toEqual([]);
+        });
+    });
+});
@@ -1,3 +1,5 @@
+import type { PinnedMessagePayload } from "./socket-contract";
+
 export type MessagePage = {
   messages: Message[];
   pagination: {
@@ -11,6 +13,8 @@ export type Participant = {
   waId: string;
   name: string;
   profilePicture?: string;
+  role?: "member" | "admin" | null;
+  joinedAt?: string | Date | null;
 };
 
 export type LastMessage = {
@@ -20,17 +24,60 @@ export type LastMessage = {
   status: "pending" | "sent" | "delivered" | "read" | "failed";
 };
 
+/** Latest reaction, previewed in the list instead of the last message text */
+export type LastReaction = {
+  /** Id the reacted-to message is stored under locally */
+  messageId: string;
+  from: string;
+  emoji: string;
+  /** Snippet of the reacted-to message */
+  text: string;
+  timestamp: number;
+};
+
 export type Conversation = {
   id: string;
   conversationId: string;
+  /** Missing on legacy conversations, which are always direct */
+  type?: "direct" | "group" | null;
   participants: Participant[];
   lastMessage: LastMessage;
+  lastReaction?: LastReaction | null;
+  /** Disappearing messages: seconds new messages are kept; null/missing = off */
+  messageTimer?: number | null;
+  /** Messages pinned for everyone, oldest pin first (may include expired pins) */
+  pinnedMessages?: PinnedMessagePayload[] | null;
+  // The current user's own counters (only in GET /conversations; socket updates omit them)
   unreadCount: number;
+  /** Newest message the current user has read */
+  lastReadMessageId?: string | null;
+  /** Read watermark (message timestamp) */
+  lastReadAt?: number | null;
+  /** Delivery watermark (message timestamp) */
+  lastDeliveredAt?: number | null;
+  // The current user's own list settings
   isArchived: boolean;
+  /** Set while pinned; pinned conversations are listed first, newest pin on top */
+  pinnedAt?: string | null;
+  /** No push notifications until then */
+  mutedUntil?: string | null;
+  /** Shown as unread until the conversation is opened */
+  markedUnread?: boolean;
+  // Group metadata (only set for group conversations)
+  name?: string | null;
+  avatar?: string | null;
+  description?: string | null;
+  createdBy?: string | null;
   createdAt: string | Date;
   updatedAt: string | Date;
 };
 
+/** Disappearing messages timer choices */
+export type MessageTimer = "off" | "24h" | "7d" | "90d";
+
+/** Conversation list views; every view except archived hides archived conversations */
+export type ConversationFilter = "all" | "unread" | "groups" | "archived";
+
 export type Message = {
   id: string;
   conversationId: string;
@@ -38,18 +85,110 @@ export type Message = {
   to: string;
   text: string;
   timestamp: number;
-  status: "pending" | "sent" | "delivered" | "read" | "failed" | "sending";
-  type: "text" | "image" | "document" | "audio" | "video";
+  /**
+   * Server-assigned position in the conversation (increasing). Locally, messages the server
+   * has not numbered yet hold `PENDING_SEQ` and legacy ones 0 (see services/db.ts)
+   */
+  seq?: number | null;
+  /** "scheduled" is only used for pending scheduled messages shown in the chat */
+  status: "pending" | "sent" | "delivered" | "read" | "failed" | "sending" | "scheduled";
+  /** "system" messages announce conversation events, e.g. the message timer changing */
+  type: "text" | "image" | "document" | "audio" | "video" | "system";
   waId: string;
   direction: "incoming" | "outgoing";
   contact: {
     name: string;
     waId: string;
   };
+  /** Client-generated id of socket-relayed messages (the Dexie key for those) */
+  clientMessageId?: string | null;
+  editedAt?: string | Date | null;
+  /** Previous versions, oldest first */
+  editHistory?: MessageEdit[];
+  /** waIds that deleted the message for themselves */
+  deletedFor?: string[];
+  /** Set when deleted for everyone; the text is cleared */
+  deletedAt?: string | Date | null;
+  /** Quoted message this one replies to */
+  replyTo?: MessageReply | null;
+  /** At most one per participant */
+  reactions?: MessageReaction[];
+  /** Uploaded file; `text` is its caption */
+  attachment?: MessageAttachment | null;
+  /** Local only: when the current user first played this voice note */
+  playedAt?: number;
+  /** Disappearing messages: when the server deletes it (epoch ms) */
+  expiresAt?: number | null;
+  /** Copied from another message by forwarding */
+  forwarded?: boolean | null;
+  /** How many times the content was forwarded to get here (1 = forwarded once) */
+  forwardCount?: number | null;
+  /** Scheduled messages only: when it will be sent (epoch ms) */
+  scheduledFor?: number;
   createdAt: string | Date;
   updatedAt: string | Date;
 };
 
+/** A message waiting to be sent at a set time (see POST /scheduled-messages) */
+export type { ScheduledMessagePayload as ScheduledMessage } from "./socket-contract";
+/** A message pinned for everyone in a conversation (see PUT /conversations/:id/pins/:messageId) */
+export type { PinnedMessagePayload as PinnedMessage } from "./socket-contract";
+
+/** How long a message stays pinned; unset = until unpinned */
+export type PinDuration = "24h" | "7d" | "30d";
+
+export type MessageReply = {
+  /** Id the quoted message is stored under locally (`clientMessageId ?? id`) */
+  messageId: string;
+  from: string;
+  /** Truncated text of the quoted message */
+  text: string;
+  type?: Message["type"];
+};
+
+export type MessageAttachment = {
+  mediaId: string;
+  fileName: string;
+  mimeType: string;
+  /** Bytes */
+  size: number;
+  width?: number | null;
+  height?: number | null;
+  /** Seconds, for audio and video */
+  duration?: number | null;
+  /** SHA-256, hex */
+  checksum: string;
+  /** Placeholder shown while an image loads */
+  blurhash?: string | null;
+  /** Voice note amplitude bars, 0-100 */
+  waveform?: number[];
+  /** Whether `?variant=thumbnail` serves a smaller preview */
+  hasThumbnail?: boolean;
+};
+
+/** Upload response of `POST /media` */
+export type Media = Omit<MessageAttachment, "mediaId" | "hasThumbnail"> & {
+  id: string;
+  thumbnailKey?: string | null;
+  conversationId: string;
+  uploadedBy: string;
+  /** Download path, relative to the API base */
+  url: string;
+  createdAt: string;
+};
+
+export type MessageReaction = {
+  waId: string;
+  emoji: string;
+  reactedAt: string | Date;
+};
+
+export type MessageEdit = {
+  text: string;
+  /** When this version was replaced */
+  editedAt: string | Date;
+};
+
 // ============================================
 // Queue System Types
 // ============================================
@@ -124,6 +263,107 @@ export interface QueueConfig {
   persistQueueState: boolean;
 }
 
+/**
+ * Delta sync high-water mark: the last server change seen in a conversation
+ */
+export interface SyncMark {
+  conversationId: string;
+  /** updatedAt of the last change seen (epoch ms) */
+  since: number;
+  /** Server id of the last change seen */
+  afterId?: string;
+}
+
+/**
+ * Offline search index row: one per distinct folded word of a stored message
+ */
+export interface SearchIndexEntry {
+  term: string;
+  /** Key the message is stored under in the messages table */
+  messageId: string;
+}
+
+/** Conversation a starred message or search hit belongs to, enough to label and open it */
+export type ConversationContext = Pick<
+  Conversation,
+  "id" | "conversationId" | "type" | "name" | "avatar" | "participants"
+>;
+
+/** A message the current user starred; stars are never shown to other participants */
+export type StarredMessage = {
+  /** Star ID */
+  id: string;
+  starredAt: string;
+  message: Message;
+  conversation: ConversationContext;
+};
+
+/** Offline copy of a star, stored under the id the message is stored under (`clientMessageId ?? id`) */
+export type StarredMessageRecord = StarredMessage & {
+  messageId: string;
+  conversationId: string;
+};
+
+/** Matched span of a search hit's text, in UTF-16 code units */
+export type SearchHighlight = {
+  start: number;
+  length: number;
+};
+
+/** Narrows a message search; dates are epoch ms */
+export type MessageSearchFilters = {
+  conversationId?: string;
+  /** Sender waId */
+  from?: string;
+  type?: Message["type"];
+  after?: number;
+  before?: number;
+};
+
+/** A message matching a search, with the chat it belongs to */
+export type MessageSearchHit = {
+  message: Message;
+  conversation: ConversationContext;
+  /** Text relevance, higher is better */
+  score: number;
+  highlights: SearchHighlight[];
+};
+
+/**
+ * User the current user has blocked
+ */
+export type BlockedUser = {
+  waId: string;
+  name: string | null;
+  profilePicture: string | null;
+  blockedAt: string | null;
+};
+
+/**
+ * Why a message or user is reported
+ */
+export type ReportReason =
+  | "spam"
+  | "harassment"
+  | "hate_speech"
+  | "violence"
+  | "sexual_content"
+  | "scam"
+  | "other";
+
+/**
+ * Report filed by the current user, waiting for or closed by a moderator
+ */
+export type Report = {
+  id: string;
+  reportedWaId: string;
+  messageId: string | null;
+  reason: ReportReason;
+  details: string | null;
+  status: "open" | "reviewed" | "actioned";
+  createdAt: string;
+};
+
 // Contact type based on the provided array of objects
 export type Contact = {
   id: string;
@@ -184,7 +424,8 @@ export type AuthErrorCode =
   | "REFRESH_TOKEN_EXPIRED"
   | "REFRESH_TOKEN_INVALID"
   | "REFRESH_TOKEN_REVOKED"
-  | "USER_NOT_FOUND";
+  | "USER_NOT_FOUND"
+  | "ACCOUNT_SUSPENDED";
 
 /**
  * Auth response with user data (login, register, refresh)
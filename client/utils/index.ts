@@ -1,6 +1,6 @@
 // Helper to map messageStatus to allowed values for MessageStatus component
 
-import { Participant } from "@/types";
+import { Message, MessageReply, Participant, SearchHighlight } from "@/types";
 
 // Function to get the participant who is not the active user
 export function getOtherParticipant(
@@ -29,3 +29,102 @@ export function formatWaIdToPhone(waId: string | undefined): string | null {
 
   return `+${countryCode} ${firstGroup} ${secondGroup}`;
 }
+
+/** How long after sending a message can still be edited (mirrors the server default) */
+export const MESSAGE_EDIT_WINDOW_MS =
+  (Number(process.env.NEXT_PUBLIC_MESSAGE_EDIT_WINDOW_MINUTES) || 15) * 60 * 1000;
+
+/** How long after sending a message can be deleted for everyone (mirrors the server default) */
+export const MESSAGE_DELETE_WINDOW_MS =
+  (Number(process.env.NEXT_PUBLIC_MESSAGE_DELETE_WINDOW_MINUTES) || 60) * 60 * 1000;
+
+/**
+ * Whether the current user may still edit this message.
+ */
+export function canEditMessage(message: Message, isSender: boolean): boolean {
+  return (
+    isSender &&
+    !message.deletedAt &&
+    message.type === "text" &&
+    Date.now() - message.timestamp < MESSAGE_EDIT_WINDOW_MS
+  );
+}
+
+/**
+ * Whether the current user may still delete this message for everyone.
+ */
+export function canDeleteForEveryone(message: Message, isSender: boolean): boolean {
+  return (
+    isSender &&
+    !message.deletedAt &&
+    Date.now() - message.timestamp < MESSAGE_DELETE_WINDOW_MS
+  );
+}
+
+/** Most conversations one forward can go to (mirrors the server limit) */
+export const MAX_FORWARD_TARGETS = 5;
+
+/** Forward count from which a message is badged "Forwarded many times" */
+export const FORWARDED_MANY_TIMES = 5;
+
+/**
+ * Whether this message can be forwarded: it must have reached the server and not be deleted.
+ */
+export function canForwardMessage(message: Message): boolean {
+  return (
+    !message.deletedAt &&
+    message.type !== "system" &&
+    !["pending", "sending", "failed", "scheduled"].includes(message.status)
+  );
+}
+
+/**
+ * Whether this message can be pinned: like forwarding, it must have reached the server and not be deleted.
+ */
+export function canPinMessage(message: Message): boolean {
+  return canForwardMessage(message);
+}
+
+/**
+ * Builds the quoted snippet sent along with a reply.
+ */
+export function toReplySnippet(message: Message): MessageReply {
+  return {
+    messageId: message.clientMessageId ?? message.id,
+    from: message.from,
+    text: (message.text || message.attachment?.fileName || "").slice(0, 200),
+    type: message.type,
+  };
+}
+
+/**
+ * Indicator text for a participant's activity, e.g. "typing…" or, in groups, "Ana is recording audio…".
+ */
+export function formatActivity(activity: "typing" | "recording", name?: string | null): string {
+  const label = activity === "typing" ? "typing…" : "recording audio…";
+  return name ? `${name} is ${label}` : label;
+}
+
+/**
+ * Splits a search hit's text into plain and highlighted parts.
+ * Text more than `context` characters before the first highlight is cut and replaced by "…".
+ */
+export function toHighlightSegments(
+  text: string,
+  highlights: SearchHighlight[],
+  context = 40
+): { text: string; highlighted: boolean }[] {
+  const sorted = [...highlights].sort((a, b) => a.start - b.start);
+  const segments: { text: string; highlighted: boolean }[] = [];
+  let cursor = sorted.length ? Math.max(0, sorted[0].start - context) : 0;
+  if (cursor > 0) segments.push({ text: "…", highlighted: false });
+
+  for (const { start, length } of sorted) {
+    if (start < cursor) continue; // Overlaps the previous highlight
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), highlighted: false });
+    segments.push({ text: text.slice(start, start + length), highlighted: true });
+    cursor = start + length;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), highlighted: false });
+  return segments;
+}
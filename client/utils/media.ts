@@ -0,0 +1,145 @@
+import { encode } from "blurhash";
+import { Message } from "@/types";
+
+export type MediaMetadata = {
+  width?: number;
+  height?: number;
+  duration?: number;
+};
+
+/**
+ * Message type implied by an attachment's mime type (mirrors the server).
+ */
+export function messageTypeForMime(mimeType: string): Message["type"] {
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType.startsWith("audio/")) return "audio";
+  if (mimeType.startsWith("video/")) return "video";
+  return "document";
+}
+
+/**
+ * Formats a byte count as e.g. "1.4 MB".
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Reads dimensions (images, video) and duration (audio, video) in the browser before upload.
+ * Resolves with whatever could be read; unreadable files give an empty object.
+ */
+export function readMediaMetadata(file: Blob): Promise<MediaMetadata> {
+  const type = messageTypeForMime(file.type);
+  if (type === "document") return Promise.resolve({});
+
+  const url = URL.createObjectURL(file);
+
+  return new Promise<MediaMetadata>((resolve) => {
+    if (type === "image") {
+      const img = new Image();
+      img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+      img.onerror = () => resolve({});
+      img.src = url;
+      return;
+    }
+
+    const media = document.createElement(type === "video" ? "video" : "audio");
+    media.preload = "metadata";
+    media.onloadedmetadata = () => {
+      const duration = Number.isFinite(media.duration) ? media.duration : undefined;
+      if (media instanceof HTMLVideoElement) {
+        resolve({ width: media.videoWidth || undefined, height: media.videoHeight || undefined, duration });
+      } else {
+        resolve({ duration });
+      }
+    };
+    media.onerror = () => resolve({});
+    media.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+}
+
+/**
+ * Formats seconds as m:ss (voice notes, recording timer).
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
+function loadImage(file: Blob): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(file);
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+}
+
+function drawScaled(img: HTMLImageElement, maxSize: number): HTMLCanvasElement {
+  const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  canvas.getContext("2d")?.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/**
+ * Small JPEG preview of an image, shown in the bubble instead of the full file.
+ * Resolves with undefined when the image cannot be decoded.
+ */
+export async function createImageThumbnail(file: Blob, maxSize = 320): Promise<Blob | undefined> {
+  try {
+    const canvas = drawScaled(await loadImage(file), maxSize);
+    return await new Promise<Blob | undefined>((resolve) =>
+      canvas.toBlob((blob) => resolve(blob ?? undefined), "image/jpeg", 0.7)
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Blurhash placeholder of an image, decoded by the recipient while the thumbnail loads.
+ */
+export async function encodeImageBlurhash(file: Blob): Promise<string | undefined> {
+  try {
+    const canvas = drawScaled(await loadImage(file), 32);
+    const pixels = canvas.getContext("2d")?.getImageData(0, 0, canvas.width, canvas.height);
+    if (!pixels) return undefined;
+    return encode(pixels.data, pixels.width, pixels.height, 4, 3);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Peak amplitude of an audio clip in `bars` buckets, scaled to 0-100.
+ * Resolves with an empty array when the audio cannot be decoded.
+ */
+export async function computeWaveform(blob: Blob, bars = 48): Promise<number[]> {
+  const context = new AudioContext();
+  try {
+    const audio = await context.decodeAudioData(await blob.arrayBuffer());
+    const samples = audio.getChannelData(0);
+    const bucketSize = Math.max(1, Math.floor(samples.length / bars));
+
+    const peaks = Array.from({ length: bars }, (_, i) => {
+      let peak = 0;
+      for (let j = i * bucketSize; j < Math.min((i + 1) * bucketSize, samples.length); j++) {
+        peak = Math.max(peak, Math.abs(samples[j]));
+      }
+      return peak;
+    });
+
+    const max = Math.max(...peaks) || 1;
+    return peaks.map((peak) => Math.round((peak / max) * 100));
+  } catch {
+    return [];
+  } finally {
+    void context.close();
+  }
+}
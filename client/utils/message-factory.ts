@@ -1,4 +1,5 @@
-import { MessageWithQueue } from "@/types";
+import { Message, MessageAttachment, MessageReply, MessageWithQueue } from "@/types";
+import type { RelayedMessage } from "@/types/socket-contract";
 import { v4 as uuidv4 } from "uuid";
 
 interface CreateMessageParams {
@@ -7,6 +8,8 @@ interface CreateMessageParams {
     from: string;
     to: string;
     type?: string;
+    replyTo?: MessageReply;
+    attachment?: MessageAttachment;
 }
 
 /**
@@ -18,6 +21,8 @@ export function createOutboundMessage({
     from,
     to,
     type = "text",
+    replyTo,
+    attachment,
 }: CreateMessageParams): MessageWithQueue {
     const messageId = uuidv4();
     const now = Date.now();
@@ -34,6 +39,8 @@ export function createOutboundMessage({
         waId: from,
         direction: "outgoing",
         contact: { name: "", waId: from },
+        replyTo,
+        attachment,
         createdAt: new Date(),
         updatedAt: new Date(),
         queueMetadata: {
@@ -43,3 +50,19 @@ export function createOutboundMessage({
         },
     };
 }
+
+/**
+ * Narrows a queued message to what `message:send` accepts.
+ * Only the user's own messages are queued, so it is never a system message.
+ */
+export function toRelayedMessage(message: MessageWithQueue): RelayedMessage {
+    return message as RelayedMessage;
+}
+
+/**
+ * Keys a message fetched from the API the way it is stored locally:
+ * socket-relayed messages live under the id their sender generated.
+ */
+export function toLocalMessage(message: Message): Message {
+    return { ...message, id: message.clientMessageId ?? message.id };
+}
@@ -1,31 +1,86 @@
-import { Conversation } from "@/types";
+import { Conversation, PinnedMessage } from "@/types";
 import { InfiniteData, QueryClient } from "@tanstack/react-query";
 
+type ConversationPages = InfiniteData<{ conversations: Conversation[]; nextCursor: string | null }>;
+
+// The current user's counters and settings; only GET /conversations and the user's own
+// settings updates send them, so other socket payloads leave them undefined
+const PARTICIPANT_STATE_DEFAULTS = {
+    unreadCount: 0,
+    lastReadMessageId: null,
+    lastReadAt: null,
+    lastDeliveredAt: null,
+    isArchived: false,
+    pinnedAt: null,
+    mutedUntil: null,
+    markedUnread: false,
+} satisfies Partial<Conversation>;
+
+function withParticipantState(conversation: Conversation, previous: Conversation | undefined): Conversation {
+    const state = Object.fromEntries(
+        Object.entries(PARTICIPANT_STATE_DEFAULTS).map(([key, fallback]) => {
+            const field = key as keyof typeof PARTICIPANT_STATE_DEFAULTS;
+            return [field, conversation[field] !== undefined ? conversation[field] : previous?.[field] ?? fallback];
+        })
+    );
+    return { ...conversation, ...state };
+}
+
+// Pinned conversations stay on top (newest pin first); the rest follow by recency
+function insertConversation(conversations: Conversation[], conversation: Conversation) {
+    const pinnedAt = conversation.pinnedAt ? new Date(conversation.pinnedAt).getTime() : null;
+    const index = conversations.findIndex((c) => {
+        if (!c.pinnedAt) return true;
+        return pinnedAt !== null && new Date(c.pinnedAt).getTime() < pinnedAt;
+    });
+    conversations.splice(index === -1 ? conversations.length : index, 0, conversation);
+}
+
+/**
+ * Refetches the filtered list views (unread, groups, archived); only the main list is updated in place.
+ */
+export function invalidateFilteredConversations(queryClient: QueryClient, waId: string) {
+    queryClient.invalidateQueries({
+        predicate: ({ queryKey }) =>
+            queryKey[0] === "conversations" && queryKey[1] === waId && queryKey.length === 3,
+    });
+}
+
 /**
  * Updates the conversation cache when a conversation is updated or added.
- * Moves the conversation to the top of the list.
+ * Moves the conversation to the top of the list (below pinned ones), keeping the current user's counters.
+ * Conversations the current user archived leave the list.
  */
 export function updateConversationCache(
     queryClient: QueryClient,
     waId: string,
     conversation: Conversation
 ) {
-    queryClient.setQueryData<InfiniteData<{ conversations: Conversation[]; nextCursor: string | null }>>(
+    queryClient.setQueryData<ConversationPages>(
         ["conversations", waId],
         (oldData) => {
             if (!oldData) return oldData;
 
+            const previous = oldData.pages
+                .flatMap((page) => page.conversations)
+                .find((c) => c.id === conversation.id);
+            const updated = withParticipantState(conversation, previous);
+
             // 1. Remove conversation if it exists in any page
             const newPages = oldData.pages.map((page) => ({
                 ...page,
                 conversations: page.conversations.filter((c) => c.id !== conversation.id),
             }));
 
+            if (updated.isArchived) {
+                return { ...oldData, pages: newPages };
+            }
+
             // 2. Add the updated/new conversation to the top of the first page
             if (newPages.length > 0) {
-                newPages[0].conversations.unshift(conversation);
+                insertConversation(newPages[0].conversations, updated);
             } else {
-                newPages.push({ conversations: [conversation], nextCursor: null });
+                newPages.push({ conversations: [updated], nextCursor: null });
             }
 
             return {
@@ -37,7 +92,8 @@ export function updateConversationCache(
 }
 
 /**
- * Updates the conversation cache when messages are marked as read.
+ * Updates the conversation cache when the current user marked messages as read.
+ * Only the current user's counters are reset; the read watermark moves to the last message.
  */
 export function markConversationAsReadInCache(
     queryClient: QueryClient,
@@ -47,7 +103,7 @@ export function markConversationAsReadInCache(
         conversation: Conversation;
     }
 ) {
-    queryClient.setQueryData<InfiniteData<{ conversations: Conversation[]; nextCursor: string | null }>>(
+    queryClient.setQueryData<ConversationPages>(
         ["conversations", waId],
         (oldData) => {
             if (!oldData) return oldData;
@@ -58,10 +114,13 @@ export function markConversationAsReadInCache(
                     ...page,
                     conversations: page.conversations.map((convo) => {
                         if (convo.id === payload.conversationId) {
+                            const updated = withParticipantState(payload.conversation, convo);
                             return {
                                 ...convo,
-                                ...payload.conversation,
-                                unreadCount: payload.conversation.unreadCount
+                                ...updated,
+                                unreadCount: 0,
+                                markedUnread: false,
+                                lastReadAt: updated.lastMessage?.timestamp ?? updated.lastReadAt,
                             };
                         }
                         return convo;
@@ -74,14 +133,14 @@ export function markConversationAsReadInCache(
 
 /**
  * Updates the conversation cache when a new message is received.
- * Updates the last message and unread count, and moves the conversation to the top.
+ * Updates the last message and unread count, and moves the conversation to the top (below pinned ones).
  */
 export function updateConversationOnNewMessage(
     queryClient: QueryClient,
     waId: string,
     payload: { message: any; conversationId: string }
 ) {
-    queryClient.setQueryData<InfiniteData<{ conversations: Conversation[]; nextCursor: string | null }>>(
+    queryClient.setQueryData<ConversationPages>(
         ["conversations", waId],
         (oldData) => {
             if (!oldData) return oldData;
@@ -120,7 +179,7 @@ export function updateConversationOnNewMessage(
                 };
 
                 if (newPages.length > 0) {
-                    newPages[0].conversations.unshift(updatedConversation);
+                    insertConversation(newPages[0].conversations, updatedConversation);
                 } else {
                     newPages.push({ conversations: [updatedConversation], nextCursor: null });
                 }
@@ -135,7 +194,8 @@ export function updateConversationOnNewMessage(
 }
 
 /**
- * Updates the conversation cache when a conversation is deleted (soft or hard).
+ * Updates the conversation cache when a conversation is deleted or archived for the current user.
+ * Either way it leaves the main list; archived conversations show up in the archived view.
  */
 export function removeConversationFromCache(
     queryClient: QueryClient,
@@ -143,37 +203,20 @@ export function removeConversationFromCache(
     conversationId: string,
     deleteType: "soft" | "hard"
 ) {
-    // Global cache
-    queryClient.setQueryData(
-        ["conversations"],
-        (oldData: Conversation[] | undefined) => {
-            if (!oldData) return oldData;
-            if (deleteType === "soft") {
-                return oldData.map((conv) =>
-                    conv.id === conversationId
-                        ? { ...conv, isArchived: true }
-                        : conv
-                );
-            }
-            return oldData.filter((conv) => conv.id !== conversationId);
-        }
-    );
+    queryClient.setQueryData<ConversationPages>(["conversations", waId], (oldData) => {
+        if (!oldData) return oldData;
+        return {
+            ...oldData,
+            pages: oldData.pages.map((page) => ({
+                ...page,
+                conversations: page.conversations.filter((conv) => conv.id !== conversationId),
+            })),
+        };
+    });
 
-    // User specific cache
-    queryClient.setQueryData(
-        ["conversations", waId],
-        (oldData: Conversation[] | undefined) => {
-            if (!oldData) return oldData;
-            if (deleteType === "soft") {
-                return oldData.map((conv) =>
-                    conv.id === conversationId
-                        ? { ...conv, isArchived: true }
-                        : conv
-                );
-            }
-            return oldData.filter((conv) => conv.id !== conversationId);
-        }
-    );
+    if (deleteType === "soft") {
+        invalidateFilteredConversations(queryClient, waId);
+    }
 }
 
 /**
@@ -205,27 +248,52 @@ export function markMessagesAsReadInCache(
 }
 
 /**
- * Resets the unread count for a conversation in the cache.
+ * Resets the unread count (and marked-unread flag) for a conversation in the cache.
  */
 export function resetConversationUnreadCountInCache(
     queryClient: QueryClient,
     conversationId: string,
     waId: string
 ) {
-    queryClient.setQueryData(
-        ["conversations", waId],
-        (oldConvo: Conversation[] | undefined) => {
-            if (!oldConvo) return oldConvo;
+    queryClient.setQueryData<ConversationPages>(["conversations", waId], (oldData) => {
+        if (!oldData) return oldData;
 
-            return oldConvo.map((convo) => {
-                if (convo.id === conversationId) {
-                    return {
-                        ...convo,
-                        unreadCount: 0,
-                    };
-                }
-                return convo;
-            });
-        }
-    );
+        return {
+            ...oldData,
+            pages: oldData.pages.map((page) => ({
+                ...page,
+                conversations: page.conversations.map((convo) =>
+                    convo.id === conversationId
+                        ? { ...convo, unreadCount: 0, markedUnread: false }
+                        : convo
+                ),
+            })),
+        };
+    });
+    invalidateFilteredConversations(queryClient, waId);
+}
+
+/**
+ * Replaces the pinned messages of a conversation in every cached list view.
+ * Pins do not change the order of the list.
+ */
+export function setPinnedMessagesInCache(
+    queryClient: QueryClient,
+    waId: string,
+    conversationId: string,
+    pinnedMessages: PinnedMessage[]
+) {
+    queryClient.setQueriesData<ConversationPages>({ queryKey: ["conversations", waId] }, (oldData) => {
+        if (!oldData) return oldData;
+
+        return {
+            ...oldData,
+            pages: oldData.pages.map((page) => ({
+                ...page,
+                conversations: page.conversations.map((convo) =>
+                    convo.id === conversationId ? { ...convo, pinnedMessages } : convo
+                ),
+            })),
+        };
+    });
 }
@@ -0,0 +1,76 @@
+import { Message, SearchHighlight, SearchIndexEntry } from "@/types";
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Lowercases a text and strips its diacritics ("Crème" -> "creme").
+ * `offsets[i]` is where folded character i comes from in the original text,
+ * with one extra entry for the end, so matches on the folded text map back to it.
+ */
+export function foldText(text: string): { folded: string; offsets: number[] } {
+    let folded = "";
+    const offsets: number[] = [];
+    let index = 0;
+    for (const char of text) {
+        const foldedChar = char.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+        for (let i = 0; i < foldedChar.length; i++) offsets.push(index);
+        folded += foldedChar;
+        index += char.length;
+    }
+    offsets.push(index);
+    return { folded, offsets };
+}
+
+/**
+ * Distinct folded words of a text
+ */
+export function searchWords(text: string): string[] {
+    return [...new Set(foldText(text).folded.match(WORD) ?? [])];
+}
+
+/**
+ * Whether a message belongs in the offline search index; mirrors what the server search skips
+ */
+export function isSearchable(message: Pick<Message, "type" | "text" | "deletedAt">): boolean {
+    return message.type !== "system" && !message.deletedAt && Boolean(message.text);
+}
+
+/**
+ * Offline search index rows of a stored message (none if it is not searchable)
+ */
+export function toSearchIndexEntries(message: Message): SearchIndexEntry[] {
+    if (!isSearchable(message)) return [];
+    return searchWords(message.text).map((term) => ({ term, messageId: message.id }));
+}
+
+/**
+ * Splits a search query like the server does: words of quoted phrases are required like
+ * any other word, and "-word" leaves out messages containing that word
+ */
+export function parseSearchQuery(query: string): { terms: string[]; excluded: string[] } {
+    const phrases = [...query.matchAll(/"([^"]+)"/g)].map((m) => m[1]);
+    const words = query.replace(/"[^"]*"/g, " ").split(/\s+/);
+    const isNegated = (word: string) => word.length > 1 && word.startsWith("-");
+    return {
+        terms: searchWords([...phrases, ...words.filter((word) => !isNegated(word))].join(" ")),
+        excluded: searchWords(words.filter(isNegated).map((word) => word.slice(1)).join(" ")),
+    };
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Where words starting with one of the folded terms appear in a text, as offsets into the original text
+ */
+export function findHighlights(text: string, terms: string[]): SearchHighlight[] {
+    if (!text || terms.length === 0) return [];
+
+    const { folded, offsets } = foldText(text);
+    const alternatives = [...terms].sort((a, b) => b.length - a.length).map(escapeRegExp);
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join("|")})[\\p{L}\\p{N}]*`, "gu");
+
+    return [...folded.matchAll(pattern)].map((m) => {
+        const start = offsets[m.index ?? 0];
+        return { start, length: offsets[(m.index ?? 0) + m[0].length] - start };
+    });
+}
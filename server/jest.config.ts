@@ -10,6 +10,25 @@ const config: Config = {
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
   },
+  transform: {
+    // Tests run as CommonJS, so jest.mock() calls are hoisted above the imports they replace
+    '^.+\\.ts$': [
+      'ts-jest',
+      {
+        tsconfig: {
+          module: 'commonjs',
+          target: 'ES2022',
+          esModuleInterop: true,
+          experimentalDecorators: true,
+          emitDecoratorMetadata: true,
+          resolveJsonModule: true,
+          isolatedModules: true,
+          baseUrl: '.',
+          paths: { '@/*': ['src/*'] },
+        },
+      },
+    ],
+  },
 };
 
 export default config;
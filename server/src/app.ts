@@ -12,6 +12,7 @@ import appConfig from './config/app.config';
 import errorHandler from '@/middlewares/error-handler';
 import routes from '@/modules/index';
 import prismaClient from '@/lib/prisma';
+import messageRepository from '@/modules/message/message.repository';
 import { apiLimiter } from '@/middlewares/rate-limiter';
 
 class App {
@@ -75,6 +76,7 @@ class App {
 
   public async connectPrisma(): Promise<void> {
     await prismaClient.$connect();
+    await messageRepository.ensureTextIndex();
   }
 }
 
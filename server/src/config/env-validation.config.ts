@@ -17,6 +17,11 @@ const envValidationConfig = {
   JWT_REFRESH_EXPIRY: str({ default: '7d' }),
   UPSTASH_REDIS_REST_URL: str({ desc: 'Upstash Redis REST URL' }),
   UPSTASH_REDIS_REST_TOKEN: str({ desc: 'Upstash Redis REST Token' }),
+  MESSAGE_EDIT_WINDOW_MINUTES: num({ default: 15, desc: 'How long after sending a message can be edited' }),
+  MESSAGE_DELETE_WINDOW_MINUTES: num({ default: 60, desc: 'How long after sending a message can be deleted for everyone' }),
+  STORAGE_DRIVER: str({ default: 'local', choices: ['local'], desc: 'Where uploaded media is stored' }),
+  STORAGE_LOCAL_DIR: str({ default: 'uploads', desc: 'Directory used by the local storage driver' }),
+  MEDIA_MAX_FILE_SIZE_MB: num({ default: 16, desc: 'Largest accepted media upload' }),
 };
 
 export default envValidationConfig;
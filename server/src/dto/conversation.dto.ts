@@ -0,0 +1,96 @@
+import {
+    ArrayMaxSize,
+    ArrayMinSize,
+    IsArray,
+    IsBoolean,
+    IsDateString,
+    IsIn,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    Matches,
+    MaxLength,
+    ValidateIf,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+
+const WA_ID_PATTERN = /^(91)?\d{10}$/;
+const WA_ID_MESSAGE =
+    'Each member must be a valid phone number (10 digits, optionally prefixed with 91)';
+
+/**
+ * DTO for creating a group conversation
+ */
+export class CreateGroupDto {
+    @IsString({ message: 'Group name must be a string' })
+    @IsNotEmpty({ message: 'Group name is required' })
+    @MaxLength(100, { message: 'Group name cannot exceed 100 characters' })
+    @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+    name: string;
+
+    @IsOptional()
+    @IsString({ message: 'Description must be a string' })
+    @MaxLength(512, { message: 'Description cannot exceed 512 characters' })
+    description?: string;
+
+    @IsOptional()
+    @IsString({ message: 'Avatar must be a string' })
+    @MaxLength(2048, { message: 'Avatar URL cannot exceed 2048 characters' })
+    avatar?: string;
+
+    @IsArray({ message: 'Members must be an array of waIds' })
+    @ArrayMinSize(1, { message: 'A group needs at least one other member' })
+    @ArrayMaxSize(255, { message: 'A group can have at most 256 members' })
+    @Matches(WA_ID_PATTERN, { each: true, message: WA_ID_MESSAGE })
+    members: string[];
+}
+
+/**
+ * DTO for adding members to a group conversation
+ */
+export class AddGroupMembersDto {
+    @IsArray({ message: 'Members must be an array of waIds' })
+    @ArrayMinSize(1, { message: 'At least one member is required' })
+    @ArrayMaxSize(255, { message: 'A group can have at most 256 members' })
+    @Matches(WA_ID_PATTERN, { each: true, message: WA_ID_MESSAGE })
+    members: string[];
+}
+
+/**
+ * DTO for updating the caller's own settings of a conversation
+ */
+export class UpdateConversationSettingsDto {
+    @IsOptional()
+    @IsBoolean({ message: 'Archived must be a boolean' })
+    archived?: boolean;
+
+    @IsOptional()
+    @IsBoolean({ message: 'Pinned must be a boolean' })
+    pinned?: boolean;
+
+    // ISO timestamp to mute until; null unmutes
+    @ValidateIf((_, value) => value !== undefined && value !== null)
+    @IsDateString({}, { message: 'Muted until must be an ISO date' })
+    mutedUntil?: string | null;
+
+    @IsOptional()
+    @IsBoolean({ message: 'Marked unread must be a boolean' })
+    markedUnread?: boolean;
+}
+
+/**
+ * DTO for setting the disappearing messages timer of a conversation
+ */
+export class SetMessageTimerDto {
+    @IsIn(['off', '24h', '7d', '90d'], { message: 'Timer must be one of off, 24h, 7d or 90d' })
+    timer: 'off' | '24h' | '7d' | '90d';
+}
+
+/**
+ * DTO for pinning a message
+ */
+export class PinMessageDto {
+    @IsOptional()
+    @IsIn(['24h', '7d', '30d'], { message: 'Duration must be one of 24h, 7d or 30d' })
+    duration?: '24h' | '7d' | '30d';
+}
@@ -0,0 +1,49 @@
+import { IsMongoId, IsNotEmpty, IsOptional, IsInt, IsNumber, IsString, Matches, MaxLength, Min, Max } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+// Multipart fields arrive as strings
+const toNumber = ({ value }: { value: unknown }) =>
+    value === undefined || value === '' ? undefined : Number(value);
+
+/**
+ * DTO for the text fields sent alongside an uploaded file
+ * Dimensions and duration are measured by the client before uploading
+ */
+export class UploadMediaDto {
+    @IsNotEmpty({ message: 'Conversation ID is required' })
+    @IsMongoId({ message: 'Conversation ID must be a valid id' })
+    conversationId: string;
+
+    @IsOptional()
+    @Transform(toNumber)
+    @IsInt({ message: 'Width must be an integer' })
+    @Min(1, { message: 'Width must be positive' })
+    @Max(20000, { message: 'Width is too large' })
+    width?: number;
+
+    @IsOptional()
+    @Transform(toNumber)
+    @IsInt({ message: 'Height must be an integer' })
+    @Min(1, { message: 'Height must be positive' })
+    @Max(20000, { message: 'Height is too large' })
+    height?: number;
+
+    @IsOptional()
+    @Transform(toNumber)
+    @IsNumber({}, { message: 'Duration must be a number of seconds' })
+    @Min(0, { message: 'Duration cannot be negative' })
+    @Max(24 * 60 * 60, { message: 'Duration is too long' })
+    duration?: number;
+
+    @IsOptional()
+    @IsString({ message: 'Blurhash must be a string' })
+    @MaxLength(100, { message: 'Blurhash cannot exceed 100 characters' })
+    blurhash?: string;
+
+    // Comma-separated amplitude bars of a voice note, 0-100
+    @IsOptional()
+    @Matches(/^\d{1,3}(,\d{1,3}){0,199}$/, {
+        message: 'Waveform must be up to 200 comma-separated values between 0 and 100',
+    })
+    waveform?: string;
+}
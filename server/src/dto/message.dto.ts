@@ -3,11 +3,21 @@ import {
     IsOptional,
     IsString,
     IsEnum,
+    IsInt,
+    IsPositive,
     MaxLength,
     MinLength,
     Matches,
+    ValidateIf,
+    IsMongoId,
+    ValidateNested,
+    IsArray,
+    ArrayMinSize,
+    ArrayMaxSize,
+    Min,
+    Max,
 } from 'class-validator';
-import { Transform } from 'class-transformer';
+import { Transform, Type } from 'class-transformer';
 
 /**
  * Enum for message types
@@ -46,17 +56,35 @@ function sanitizeText(value: string): string {
         .trim();
 }
 
+/**
+ * Reference to the message being replied to
+ * The quoted snippet is built server-side from the original message
+ */
+export class ReplyToDto {
+    @IsString({ message: 'Reply message ID must be a string' })
+    @IsNotEmpty({ message: 'Reply message ID is required' })
+    @MaxLength(128, { message: 'Reply message ID cannot exceed 128 characters' })
+    messageId: string;
+}
+
 /**
  * DTO for sending a new message
  */
 export class SendMessageDto {
+    @ValidateIf((o) => !o.conversationId)
     @IsString({ message: 'Recipient (to) must be a string' })
     @IsNotEmpty({ message: 'Recipient (to) is required' })
     @Matches(/^(91)?\d{10}$/, {
         message: 'Recipient must be a valid phone number (10 digits, optionally prefixed with 91)',
     })
-    to: string;
+    to?: string;
+
+    @IsOptional()
+    @IsMongoId({ message: 'Conversation ID must be a valid id' })
+    conversationId?: string;
 
+    // Optional caption when an attachment is sent
+    @ValidateIf((o) => !o.attachmentId || o.text)
     @IsString({ message: 'Message text must be a string' })
     @IsNotEmpty({ message: 'Message text is required' })
     @MinLength(1, { message: 'Message cannot be empty' })
@@ -64,18 +92,48 @@ export class SendMessageDto {
     @Transform(({ value }) => sanitizeText(value))
     text: string;
 
+    @IsOptional()
+    @IsMongoId({ message: 'Attachment ID must be a valid media id' })
+    attachmentId?: string;
+
     @IsOptional()
     @IsEnum(MessageTypeEnum, {
         message: 'Type must be one of: text, image, document, audio, video',
     })
     type?: MessageTypeEnum = MessageTypeEnum.TEXT;
 
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => ReplyToDto)
+    replyTo?: ReplyToDto;
+
     @IsOptional()
     @IsString()
     @MaxLength(64, { message: 'Correlation ID cannot exceed 64 characters' })
     correlationId?: string;
 }
 
+/**
+ * DTO for editing a sent message
+ */
+export class EditMessageDto {
+    @IsString({ message: 'Message text must be a string' })
+    @IsNotEmpty({ message: 'Message text is required' })
+    @MaxLength(4000, { message: 'Message cannot exceed 4000 characters' })
+    @Transform(({ value }) => sanitizeText(value))
+    text: string;
+}
+
+/**
+ * DTO for reacting to a message
+ */
+export class ReactToMessageDto {
+    @IsString({ message: 'Emoji must be a string' })
+    @IsNotEmpty({ message: 'Emoji is required' })
+    @MaxLength(16, { message: 'Reaction must be a single emoji' })
+    emoji: string;
+}
+
 /**
  * DTO for updating message status
  */
@@ -103,6 +161,27 @@ export class SearchMessagesDto {
     @IsString()
     conversationId?: string;
 
+    // Sender waId
+    @IsOptional()
+    @IsString()
+    from?: string;
+
+    @IsOptional()
+    @IsEnum(MessageTypeEnum, { message: 'Invalid message type' })
+    type?: MessageTypeEnum;
+
+    // Sent at or after, epoch milliseconds
+    @IsOptional()
+    @Transform(({ value }) => Number(value))
+    @IsInt({ message: 'after must be a timestamp in milliseconds' })
+    after?: number;
+
+    // Sent at or before, epoch milliseconds
+    @IsOptional()
+    @Transform(({ value }) => Number(value))
+    @IsInt({ message: 'before must be a timestamp in milliseconds' })
+    before?: number;
+
     @IsOptional()
     @Transform(({ value }) => parseInt(value, 10) || 1)
     page?: number = 1;
@@ -112,6 +191,61 @@ export class SearchMessagesDto {
     limit?: number = 25;
 }
 
+/**
+ * Last change a client has seen in one conversation
+ */
+export class SyncMarkDto {
+    @IsMongoId({ message: 'Conversation ID must be a valid id' })
+    conversationId: string;
+
+    // updatedAt of the last change seen, epoch milliseconds
+    @IsInt({ message: 'Since must be a timestamp in milliseconds' })
+    @Min(0, { message: 'Since must be a timestamp in milliseconds' })
+    since: number;
+
+    @IsOptional()
+    @IsMongoId({ message: 'After ID must be a valid message id' })
+    afterId?: string;
+}
+
+/**
+ * DTO for fetching message changes since per-conversation high-water marks
+ */
+export class SyncMessagesDto {
+    @IsArray({ message: 'Conversations must be an array of sync marks' })
+    @ArrayMinSize(1, { message: 'At least one conversation is required' })
+    @ArrayMaxSize(100, { message: 'At most 100 conversations can be synced at once' })
+    @ValidateNested({ each: true })
+    @Type(() => SyncMarkDto)
+    conversations: SyncMarkDto[];
+
+    // Changes returned per conversation
+    @IsOptional()
+    @IsInt({ message: 'Limit must be an integer' })
+    @Min(1, { message: 'Limit must be at least 1' })
+    @Max(500, { message: 'Limit cannot exceed 500' })
+    limit?: number;
+}
+
+/**
+ * DTO for forwarding messages to other conversations
+ */
+export class ForwardMessagesDto {
+    @IsArray({ message: 'Message IDs must be an array' })
+    @ArrayMinSize(1, { message: 'At least one message is required' })
+    @ArrayMaxSize(30, { message: 'At most 30 messages can be forwarded at once' })
+    @IsString({ each: true, message: 'Each message ID must be a string' })
+    @IsNotEmpty({ each: true, message: 'Message IDs cannot be empty' })
+    messageIds: string[];
+
+    @IsArray({ message: 'Conversation IDs must be an array' })
+    @ArrayMinSize(1, { message: 'At least one conversation is required' })
+    @ArrayMaxSize(5, { message: 'Messages can be forwarded to at most 5 chats at once' })
+    @IsString({ each: true, message: 'Each conversation ID must be a string' })
+    @IsNotEmpty({ each: true, message: 'Conversation IDs cannot be empty' })
+    conversationIds: string[];
+}
+
 /**
  * DTO for pagination query parameters
  */
@@ -124,3 +258,49 @@ export class PaginationQueryDto {
     @Transform(({ value }) => Math.min(parseInt(value, 10) || 25, 100))
     limit?: number = 25;
 }
+
+/**
+ * DTO for scheduling a message to a conversation
+ */
+export class ScheduleMessageDto {
+    @IsMongoId({ message: 'Conversation ID must be a valid id' })
+    conversationId: string;
+
+    // Optional caption when an attachment is sent
+    @ValidateIf((o) => !o.attachmentId || o.text)
+    @IsString({ message: 'Message text must be a string' })
+    @IsNotEmpty({ message: 'Message text is required' })
+    @MaxLength(4000, { message: 'Message cannot exceed 4000 characters' })
+    @Transform(({ value }) => sanitizeText(value))
+    text: string;
+
+    // Epoch milliseconds
+    @IsInt({ message: 'Scheduled time must be a timestamp in milliseconds' })
+    @IsPositive({ message: 'Scheduled time must be a timestamp in milliseconds' })
+    scheduledFor: number;
+
+    @IsOptional()
+    @IsMongoId({ message: 'Attachment ID must be a valid media id' })
+    attachmentId?: string;
+
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => ReplyToDto)
+    replyTo?: ReplyToDto;
+}
+
+/**
+ * DTO for changing a pending scheduled message
+ */
+export class UpdateScheduledMessageDto {
+    @IsOptional()
+    @IsString({ message: 'Message text must be a string' })
+    @MaxLength(4000, { message: 'Message cannot exceed 4000 characters' })
+    @Transform(({ value }) => sanitizeText(value))
+    text?: string;
+
+    @IsOptional()
+    @IsInt({ message: 'Scheduled time must be a timestamp in milliseconds' })
+    @IsPositive({ message: 'Scheduled time must be a timestamp in milliseconds' })
+    scheduledFor?: number;
+}
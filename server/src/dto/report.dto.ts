@@ -0,0 +1,64 @@
+import { IsBoolean, IsIn, IsNotEmpty, IsOptional, IsString, MaxLength, ValidateIf } from 'class-validator';
+import { type ReportReason } from '@prisma/client';
+
+export const REPORT_REASONS: ReportReason[] = [
+    'spam',
+    'harassment',
+    'hate_speech',
+    'violence',
+    'sexual_content',
+    'scam',
+    'other',
+];
+
+/**
+ * DTO for reporting a message or a user
+ * Exactly one of messageId and waId is required
+ */
+export class CreateReportDto {
+    @ValidateIf((o) => !o.waId)
+    @IsString({ message: 'Message ID must be a string' })
+    @IsNotEmpty({ message: 'Either messageId or waId is required' })
+    messageId?: string;
+
+    @ValidateIf((o) => !o.messageId)
+    @IsString({ message: 'WhatsApp ID must be a string' })
+    @IsNotEmpty({ message: 'Either messageId or waId is required' })
+    waId?: string;
+
+    @IsIn(REPORT_REASONS, { message: `Reason must be one of ${REPORT_REASONS.join(', ')}` })
+    reason: ReportReason;
+
+    @IsOptional()
+    @IsString({ message: 'Details must be a string' })
+    @MaxLength(1000, { message: 'Details cannot exceed 1000 characters' })
+    details?: string;
+
+    // Also block the reported user
+    @IsOptional()
+    @IsBoolean({ message: 'Block must be a boolean' })
+    block?: boolean;
+}
+
+/**
+ * DTO for a moderator closing a report
+ */
+export class ResolveReportDto {
+    @IsIn(['reviewed', 'actioned'], { message: 'Status must be reviewed or actioned' })
+    status: 'reviewed' | 'actioned';
+
+    @IsOptional()
+    @IsString({ message: 'Note must be a string' })
+    @MaxLength(1000, { message: 'Note cannot exceed 1000 characters' })
+    note?: string;
+}
+
+/**
+ * DTO for suspending an account
+ */
+export class SuspendUserDto {
+    @IsOptional()
+    @IsString({ message: 'Reason must be a string' })
+    @MaxLength(500, { message: 'Reason cannot exceed 500 characters' })
+    reason?: string;
+}
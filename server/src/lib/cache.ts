@@ -22,6 +22,10 @@ export const CacheKeys = {
 
     /** Message idempotency key: cache:message:idempotency:{correlationId} */
     MESSAGE_IDEMPOTENCY: (correlationId: string) => `cache:message:idempotency:${correlationId}`,
+
+    /** Seq reserved for a relayed message: cache:message:seq:{conversationId}:{clientMessageId} */
+    RELAYED_MESSAGE_SEQ: (conversationId: string, clientMessageId: string) =>
+        `cache:message:seq:${conversationId}:${clientMessageId}`,
 } as const;
 
 /**
@@ -42,6 +46,9 @@ export const CacheTTL = {
 
     /** 5 minutes for idempotency keys (prevent duplicates) */
     MESSAGE_IDEMPOTENCY: 5 * 60,
+
+    /** 1 hour for relayed message seqs (the persisted message takes over once the worker ran) */
+    RELAYED_MESSAGE_SEQ: 60 * 60,
 } as const;
 
 /**
@@ -98,6 +105,21 @@ class CacheService {
         }
     }
 
+    /**
+     * Set a value only if the key does not exist yet
+     * Returns true if this call stored the value
+     */
+    async setIfAbsent(key: string, value: unknown, ttlSeconds: number): Promise<boolean> {
+        try {
+            const serialized = typeof value === 'string' ? value : JSON.stringify(value);
+            const result = await redis.set(key, serialized, { nx: true, ex: ttlSeconds });
+            return result === 'OK';
+        } catch (error) {
+            logger.error(`Cache SET NX error for key ${key}:`, error);
+            return false;
+        }
+    }
+
     /**
      * Delete a key from cache
      */
@@ -281,6 +303,15 @@ class CacheService {
         }
     }
 
+    /**
+     * Drop the cached recent messages and count of a conversation when messages are removed from it
+     * The next first-page read warms them again
+     */
+    async invalidateMessageCaches(conversationId: string): Promise<void> {
+        await this.del(CacheKeys.MESSAGES_RECENT(conversationId));
+        await this.del(CacheKeys.MESSAGES_COUNT(conversationId));
+    }
+
     /**
      * Set user online status
      */
@@ -355,6 +386,35 @@ class CacheService {
             return false;
         }
     }
+
+    /**
+     * Replaces a cached message with its updated version (edits, deletions, reactions)
+     * Messages that are no longer in the recent window are left alone
+     */
+    async updateMessageInCache<T extends { id: string }>(
+        conversationId: string,
+        message: T
+    ): Promise<boolean> {
+        const key = CacheKeys.MESSAGES_RECENT(conversationId);
+
+        try {
+            const messages = await this.lrange<T>(key, 0, -1);
+            const index = messages.findIndex((msg) => msg.id === message.id);
+
+            if (index === -1) {
+                logger.debug(`[Cache] Message ${message.id} not in recent cache, skipping update`);
+                return false;
+            }
+
+            await redis.lset(key, index, JSON.stringify(message));
+            await this.expire(key, CacheTTL.MESSAGES_RECENT);
+
+            return true;
+        } catch (error) {
+            logger.error(`Failed to update message in cache for ${message.id}:`, error);
+            return false;
+        }
+    }
 }
 
 
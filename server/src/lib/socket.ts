@@ -4,6 +4,7 @@ import { createAdapter } from '@socket.io/redis-adapter';
 import { Redis } from 'ioredis';
 import jwtService from '@/lib/jwt';
 import authRepository from '@/modules/auth/auth.repository';
+import conversationRepository from '@/modules/conversation/conversation.repository';
 import logger from '@/lib/logger';
 import cacheService from '@/lib/cache';
 import {
@@ -11,8 +12,29 @@ import {
     type AuthenticatedSocket,
     type TaskEventPayload,
     type NotificationPayload,
+    type RelayedMessage,
+    type ClientEventName,
+    type ClientEventPayloads,
+    type ClientEventAcks,
+    type SocketAckError,
+    type SocketErrorCode,
 } from '@/types/socket.type';
-import { Conversation, Message } from '@prisma/client';
+import { clientEventSchemas, toAckIssues } from '@/types/socket.contract';
+import { Conversation, Message, PinnedMessage, ScheduledMessage } from '@prisma/client';
+import { HttpStatusCode } from 'axios';
+import { ApiError } from '@/lib/errors';
+import MessageService from '@/modules/message/message.service';
+import ContactService from '@/modules/contact/contact.service';
+
+type ChatActivity = 'typing' | 'recording';
+
+const ACTIVITY_EVENTS = {
+    typing: { start: SocketEvents.TYPING_START, stop: SocketEvents.TYPING_STOP },
+    recording: { start: SocketEvents.RECORDING_START, stop: SocketEvents.RECORDING_STOP },
+} as const;
+
+// Indicators expire when start events stop arriving (lost stop event, closed tab)
+const ACTIVITY_TTL_MS = 6000;
 
 class SocketService {
     private io: Server | null = null;
@@ -20,6 +42,13 @@ class SocketService {
     private pubClient: Redis | null = null;
     private subClient: Redis | null = null;
     private heartbeatInterval: NodeJS.Timeout | null = null;
+    private readonly messageService = new MessageService();
+    private readonly contactService = new ContactService();
+    // Current activity per `${conversationId}:${waId}`
+    private readonly activities = new Map<
+        string,
+        { activity: ChatActivity; recipients: string[]; timer: NodeJS.Timeout }
+    >();
 
     /**
      * Gets the singleton instance of SocketService
@@ -78,6 +107,9 @@ class SocketService {
                 if (!user) {
                     return next(new Error('User not found'));
                 }
+                if (user.suspendedAt) {
+                    return next(new Error('Account suspended'));
+                }
 
                 socket.user = user;
                 next();
@@ -201,94 +233,167 @@ class SocketService {
             socket.join(`user:${userWaId}`);
         }
 
-        // Handle room joining
-        socket.on(SocketEvents.JOIN_ROOM, (room: string) => {
-            socket.join(room);
-            logger.info(`User ${userId} joined room: ${room}`);
+        // Handle room joining - only allowlisted room kinds, e.g. `conversation:<id>`
+        this.onClientEvent(socket, SocketEvents.JOIN_ROOM, async (room, ack) => {
+            const separator = room.indexOf(':');
+            const kind = separator > 0 ? room.slice(0, separator) : null;
+            const target = separator > 0 ? room.slice(separator + 1) : null;
+            let joined: string | null = null;
+
+            if (kind === 'conversation' && target) {
+                if (await this.canJoinConversation(socket, target)) joined = target;
+            } else if (kind === 'user' && target && (target === userId || target === userWaId)) {
+                joined = room;
+            }
+
+            if (!joined) {
+                logger.warn(`User ${userId} was refused room: ${room}`);
+                ack({ status: 'error', code: 'UNAUTHORIZED', error: 'Unauthorized: cannot join this room' });
+                return;
+            }
+
+            await socket.join(joined);
+            logger.info(`User ${userId} joined room: ${joined}`);
+            ack({ status: 'ok', room: joined });
         });
 
         // Handle conversation joining (specific event from client)
-        socket.on('conversation:join', (conversationId: string) => {
-            socket.join(conversationId);
+        this.onClientEvent(socket, SocketEvents.CONVERSATION_JOIN, async (conversationId, ack) => {
+            if (!(await this.canJoinConversation(socket, conversationId))) {
+                logger.warn(`User ${userId} was refused conversation room: ${conversationId}`);
+                ack({ status: 'error', code: 'UNAUTHORIZED', error: 'Unauthorized: not a participant of this conversation' });
+                return;
+            }
+
+            await socket.join(conversationId);
             logger.info(`User ${userId} joined conversation room: ${conversationId}`);
+            ack({ status: 'ok', room: conversationId });
         });
 
         // Handle room leaving
-        socket.on(SocketEvents.LEAVE_ROOM, (room: string) => {
-            socket.leave(room);
+        this.onClientEvent(socket, SocketEvents.LEAVE_ROOM, async (room, ack) => {
+            await socket.leave(room);
             logger.info(`User ${userId} left room: ${room}`);
+            ack({ status: 'ok' });
         });
 
+        // Participants to notify of this socket's typing/recording, per conversation
+        const activityRecipients = new Map<string, string[]>();
+
+        // Handle typing/recording indicators - only for conversation rooms this socket has joined
+        for (const activity of ['typing', 'recording'] as const) {
+            this.onClientEvent(socket, ACTIVITY_EVENTS[activity].start, async ({ conversationId }, ack) => {
+                const recipients = await this.getActivityRecipients(socket, conversationId, activityRecipients);
+                if (!recipients) {
+                    ack({ status: 'error', code: 'UNAUTHORIZED', error: 'Unauthorized: join the conversation first' });
+                    return;
+                }
+
+                this.startActivity(conversationId, userWaId!, activity, recipients);
+                ack({ status: 'ok' });
+            });
+
+            this.onClientEvent(socket, ACTIVITY_EVENTS[activity].stop, ({ conversationId }, ack) => {
+                this.stopActivity(conversationId, userWaId!, activity);
+                ack({ status: 'ok' });
+            });
+        }
+
         // Handle disconnection
         socket.on(SocketEvents.DISCONNECT, async () => {
             logger.info(`User disconnected: ${userId}`);
+            if (userWaId) {
+                for (const conversationId of activityRecipients.keys()) {
+                    this.stopActivity(conversationId, userWaId, 'typing');
+                    this.stopActivity(conversationId, userWaId, 'recording');
+                }
+            }
             if (userWaId) {
                 await cacheService.setUserOnline(userWaId, false);
-                this.io?.emit('user:offline', { waId: userWaId, lastSeen: Date.now() });
+                this.io?.emit(SocketEvents.USER_OFFLINE, { waId: userWaId, lastSeen: Date.now() });
             }
         });
 
         // Handle online status check
-        socket.on('user:get-status', async (payload: { waId: string }) => {
-            if (!payload?.waId) return;
-            const isOnline = await cacheService.getUserOnlineStatus(payload.waId);
-            socket.emit('user:status', {
+        this.onClientEvent(socket, SocketEvents.USER_GET_STATUS, async (payload, ack) => {
+            // Presence is hidden between users when either has blocked the other
+            const isHidden = await this.contactService.isBlockedBetween(userWaId!, payload.waId);
+            const isOnline = !isHidden && await cacheService.getUserOnlineStatus(payload.waId);
+            socket.emit(SocketEvents.USER_STATUS, {
                 waId: payload.waId,
                 isOnline,
                 lastSeen: isOnline ? Date.now() : undefined
             });
+            ack({ status: 'ok' });
         });
 
-        // Handle message sending (Direct Socket Relay - No DB)
-        socket.on(SocketEvents.MESSAGE_SEND, async (payload: { message: Message; conversationId: string }, callback?: (ack: any) => void) => {
-            try {
-                const { message, conversationId } = payload;
-
-                // 1. Validation
-                if (!message || !conversationId) {
-                    throw new Error('Invalid payload: message and conversationId are required');
-                }
-
-                // Verify sender identity (Security)
-                if (socket.user?.waId !== message.from) {
-                    logger.warn(`Potential spoofing attempt: User ${socket.user?.waId} tried to send as ${message.from}`);
-                    throw new Error('Unauthorized: Sender identity mismatch');
-                }
+        // Handle message sending (Direct Socket Relay - persisted asynchronously by the chat worker)
+        this.onClientEvent(socket, SocketEvents.MESSAGE_SEND, async (payload, ack) => {
+            const { message, conversationId } = payload;
 
-                logger.info(`Relaying message ${message.id} for conversation ${conversationId}`);
+            // Verify sender identity (Security)
+            if (socket.user?.waId !== message.from) {
+                logger.warn(`Potential spoofing attempt: User ${socket.user?.waId} tried to send as ${message.from}`);
+                ack({ status: 'error', code: 'UNAUTHORIZED', error: 'Unauthorized: Sender identity mismatch' });
+                return;
+            }
 
-                // Broadcast to conversation room (including sender if they have multiple tabs)
-                // AND participants specifically
-                const participants = [message.from, message.to];
+            logger.info(`Relaying message ${message.id} for conversation ${conversationId}`);
 
-                this.emitMessageCreated(conversationId, { message, conversationId }, participants);
+            // Broadcast to conversation room (including sender if they have multiple tabs)
+            // AND participants specifically
+            const participants = await this.getRelayParticipants(conversationId, message);
+            if (!participants) {
+                ack({ status: 'error', code: 'UNAUTHORIZED', error: 'Unauthorized: Not a participant of this conversation' });
+                return;
+            }
 
-                // 2. Offload to Queue (Scalability)
-                // Late bind queue to avoid circular dependencies if possible, or just import
-                const { chatQueue } = await import('@/lib/queue');
-                chatQueue.add('new_message', {
-                    type: 'new_message',
-                    payload: payload
-                }, {
-                    removeOnComplete: true
-                });
+            // Same rule as POST /messages: nothing is relayed between blocked users
+            if (message.to !== conversationId) {
+                await this.contactService.assertNotBlocked(message.from, message.to);
+            }
 
-                // 3. Acknowledgement (Reliability)
-                if (callback) {
-                    callback({ status: 'ok', messageId: message.id });
-                }
-            } catch (error) {
-                logger.error(`Message send error: ${error.message}`);
-                if (callback) {
-                    callback({ error: error.message });
-                }
+            // The position is fixed now, so every participant orders the message the same way
+            // (kept across retries and resends of the same client message id)
+            const seq = await this.messageService.reserveSeq(conversationId, message.id);
+            if (seq === null) {
+                ack({ status: 'error', code: 'NOT_FOUND', error: 'Conversation not found' });
+                return;
             }
+            const now = new Date();
+            const relayed = { ...message, seq, status: 'sent' as const, createdAt: now, updatedAt: now };
+
+            this.emitMessageCreated(conversationId, { message: relayed, conversationId }, participants);
+            this.stopActivity(conversationId, message.from, 'typing');
+
+            // Offload to Queue (Scalability) - the worker writes the message to the DB,
+            // updates Conversation.lastMessage and warms the recent-messages cache
+            // Late bind queue to avoid circular dependencies if possible, or just import
+            const { chatQueue } = await import('@/lib/queue');
+            await chatQueue.add('new_message', {
+                type: 'new_message',
+                payload: { message: relayed, conversationId }
+            }, {
+                // One job per client message id: a retry or resend while the first job is still
+                // queued is dropped, so the worker cannot persist the message twice in parallel
+                jobId: `relayed-message-${encodeURIComponent(message.id)}`,
+                removeOnComplete: true
+            });
+
+            // Acknowledgement (Reliability)
+            ack({ status: 'ok', messageId: message.id, seq });
         });
 
         // Handle messages marked as read
-        socket.on(SocketEvents.MESSAGES_MARKED_AS_READ, (payload: { conversationId: string, waId: string, updatedMessages: number }) => {
-            const { conversationId, waId } = payload;
-            if (!conversationId || !waId) return;
+        this.onClientEvent(socket, SocketEvents.MESSAGES_MARKED_AS_READ, (payload, ack) => {
+            const { conversationId } = payload;
+            // The reader is always the socket's user, whatever the payload claims
+            const waId = userWaId!;
+
+            if (!socket.rooms.has(conversationId)) {
+                ack({ status: 'error', code: 'UNAUTHORIZED', error: 'Unauthorized: join the conversation first' });
+                return;
+            }
 
             // Broadcast status update to the conversation
             // In a real persistence scenario, we would update DB here.
@@ -311,29 +416,245 @@ class SocketService {
             });
 
             logger.info(`User ${waId} marked messages as read in ${conversationId}`);
+            ack({ status: 'ok' });
         });
 
         // Handle message status updates (Delivered/Read) from client
-        socket.on(SocketEvents.MESSAGE_STATUS_UPDATED, (payload: { id: string; status: string; conversationId: string; updatedBy: string }) => {
+        this.onClientEvent(socket, SocketEvents.MESSAGE_STATUS_UPDATED, (payload, ack) => {
             const { id, status, conversationId } = payload;
-            if (!id || !status || !conversationId) return;
 
-            // Relay to conversation
+            if (!socket.rooms.has(conversationId)) {
+                ack({ status: 'error', code: 'UNAUTHORIZED', error: 'Unauthorized: join the conversation first' });
+                return;
+            }
+
+            // Relay to conversation, attributed to the socket's user
             socket.to(conversationId).emit(SocketEvents.MESSAGE_STATUS_UPDATED, {
                 id,
                 status,
                 conversationId,
-                updatedBy: payload.updatedBy
+                updatedBy: userWaId!
             });
 
             logger.info(`Relayed message status ${status} for ${id}`);
+            ack({ status: 'ok' });
+        });
+
+        // Handle message edits (same rules as PATCH /messages/:messageId)
+        this.onClientEvent(socket, SocketEvents.MESSAGE_EDIT, async (payload, ack) => {
+            const message = await this.messageService.editMessage(payload.messageId, payload.text, {
+                userWaId: userWaId!,
+            });
+            ack({ status: 'ok', messageId: message.id, editedAt: (message.editedAt ?? new Date()).toISOString() });
+        });
+
+        // Handle message deletion (same rules as DELETE /messages/:messageId)
+        this.onClientEvent(socket, SocketEvents.MESSAGE_DELETE, async (payload, ack) => {
+            const message = await this.messageService.deleteMessage(payload.messageId, payload.deleteFor, {
+                userWaId: userWaId!,
+            });
+            ack({ status: 'ok', messageId: message.id });
+        });
+
+        // Handle reactions (same rules as PUT/DELETE /messages/:messageId/reaction)
+        this.onClientEvent(socket, SocketEvents.MESSAGE_REACT, async (payload, ack) => {
+            const message = await this.messageService.reactToMessage(payload.messageId, payload.emoji, {
+                userWaId: userWaId!,
+            });
+            ack({ status: 'ok', messageId: message.id });
         });
 
         // Set initial online status
         if (userWaId) {
             cacheService.setUserOnline(userWaId, true);
-            this.io?.emit('user:online', { waId: userWaId });
+            this.io?.emit(SocketEvents.USER_ONLINE, { waId: userWaId });
+        }
+    }
+
+    /**
+     * Registers a handler for a client event whose payload is validated against the shared contract
+     * Malformed payloads and handler failures are answered with a structured error ack
+     */
+    private onClientEvent<E extends ClientEventName>(
+        socket: AuthenticatedSocket,
+        event: E,
+        handler: (
+            payload: ClientEventPayloads[E],
+            ack: (response: ClientEventAcks[E] | SocketAckError) => void
+        ) => Promise<void> | void
+    ): void {
+        socket.on(event as string, async (raw: unknown, callback?: unknown) => {
+            const ack = (response: ClientEventAcks[E] | SocketAckError) => {
+                if (typeof callback === 'function') callback(response);
+            };
+
+            const parsed = clientEventSchemas[event].safeParse(raw);
+            if (!parsed.success) {
+                logger.warn(`Rejected malformed ${event} payload from user ${socket.user?.id}`);
+                ack({
+                    status: 'error',
+                    code: 'VALIDATION_ERROR',
+                    error: `Invalid ${event} payload`,
+                    issues: toAckIssues(parsed.error),
+                });
+                return;
+            }
+
+            try {
+                await handler(parsed.data as ClientEventPayloads[E], ack);
+            } catch (error) {
+                if (error instanceof ApiError) {
+                    ack({
+                        status: 'error',
+                        code: this.toAckErrorCode(error.statusCode),
+                        error: error.rawErrors?.[0] ?? error.message,
+                    });
+                    return;
+                }
+
+                logger.error(`Socket ${event} handler error: ${error instanceof Error ? error.message : error}`);
+                ack({ status: 'error', code: 'INTERNAL_ERROR', error: 'Internal server error' });
+            }
+        });
+    }
+
+    /**
+     * Maps service-layer HTTP errors onto socket ack error codes
+     */
+    private toAckErrorCode(statusCode: number): SocketErrorCode {
+        switch (statusCode) {
+            case HttpStatusCode.Unauthorized:
+            case HttpStatusCode.Forbidden:
+                return 'UNAUTHORIZED';
+            case HttpStatusCode.NotFound:
+                return 'NOT_FOUND';
+            case HttpStatusCode.BadRequest:
+            case HttpStatusCode.Conflict:
+                return 'REJECTED';
+            default:
+                return 'INTERNAL_ERROR';
+        }
+    }
+
+    /**
+     * Checks that the socket's user is a participant before it may join a conversation room
+     */
+    private async canJoinConversation(socket: AuthenticatedSocket, conversationId: string): Promise<boolean> {
+        const waId = socket.user?.waId;
+        if (!waId || !/^[a-f\d]{24}$/i.test(conversationId)) {
+            return false;
+        }
+
+        try {
+            return await conversationRepository.isParticipant(conversationId, waId);
+        } catch (error) {
+            logger.error(`Conversation join check failed for ${conversationId}: ${error instanceof Error ? error.message : error}`);
+            return false;
+        }
+    }
+
+    /**
+     * Resolves (once per socket and conversation) who sees this socket's activity indicators
+     * Returns null unless the socket has joined the conversation room, which requires membership
+     */
+    private async getActivityRecipients(
+        socket: AuthenticatedSocket,
+        conversationId: string,
+        cache: Map<string, string[]>
+    ): Promise<string[] | null> {
+        if (!socket.rooms.has(conversationId)) {
+            return null;
+        }
+
+        const cached = cache.get(conversationId);
+        if (cached) return cached;
+
+        const conversation = await conversationRepository.findById(conversationId);
+        if (!conversation) {
+            return null;
+        }
+
+        const recipients = conversation.participants
+            .map((p) => p.waId)
+            .filter((waId) => waId !== socket.user?.waId);
+        cache.set(conversationId, recipients);
+        return recipients;
+    }
+
+    /**
+     * Starts or refreshes a user's activity in a conversation
+     * Only changes are broadcast; repeated start events just push the expiry back
+     */
+    private startActivity(conversationId: string, waId: string, activity: ChatActivity, recipients: string[]): void {
+        const key = `${conversationId}:${waId}`;
+        const current = this.activities.get(key);
+
+        if (current) {
+            clearTimeout(current.timer);
+            if (current.activity !== activity) {
+                this.emitActivity(ACTIVITY_EVENTS[current.activity].stop, conversationId, waId, current.recipients);
+            }
+        }
+        if (current?.activity !== activity) {
+            this.emitActivity(ACTIVITY_EVENTS[activity].start, conversationId, waId, recipients);
+        }
+
+        this.activities.set(key, {
+            activity,
+            recipients,
+            timer: setTimeout(() => this.stopActivity(conversationId, waId, activity), ACTIVITY_TTL_MS),
+        });
+    }
+
+    /**
+     * Ends a user's activity in a conversation, if that is what they are doing
+     */
+    private stopActivity(conversationId: string, waId: string, activity: ChatActivity): void {
+        const key = `${conversationId}:${waId}`;
+        const current = this.activities.get(key);
+        if (!current || current.activity !== activity) return;
+
+        clearTimeout(current.timer);
+        this.activities.delete(key);
+        this.emitActivity(ACTIVITY_EVENTS[activity].stop, conversationId, waId, current.recipients);
+    }
+
+    /**
+     * Broadcasts an activity indicator change to the conversation room and the other participants
+     */
+    private emitActivity(
+        event: (typeof ACTIVITY_EVENTS)[ChatActivity]['start' | 'stop'],
+        conversationId: string,
+        waId: string,
+        recipients: string[]
+    ): void {
+        if (!this.io) return;
+
+        this.io
+            .to(conversationId)
+            .to(recipients.map((recipient) => `user:${recipient}`))
+            .emit(event, { conversationId, waId });
+    }
+
+    /**
+     * Resolves who should receive a relayed message
+     * Group messages are addressed to the conversation itself, so fan out to its members
+     * Returns null unless the sender, and the recipient of a direct message, are members
+     */
+    private async getRelayParticipants(conversationId: string, message: RelayedMessage): Promise<string[] | null> {
+        if (!/^[a-f\d]{24}$/i.test(conversationId)) {
+            return null;
         }
+
+        const conversation = await conversationRepository.findById(conversationId);
+        const participants = conversation?.participants.map((p) => p.waId) ?? [];
+        const isGroup = conversation?.type === 'group';
+        const recipientOk = isGroup ? message.to === conversationId : participants.includes(message.to);
+        if (!participants.includes(message.from) || !recipientOk) {
+            return null;
+        }
+
+        return participants;
     }
 
     /**
@@ -408,17 +729,17 @@ class SocketService {
     /**
      * Broadcasts a message created event to conversation room and participants
      */
-    public emitMessageCreated(conversationId: string, payload: { message: Message; conversationId: string }, participants?: string[]): void {
+    public emitMessageCreated(conversationId: string, payload: { message: Message | RelayedMessage; conversationId: string }, participants?: string[]): void {
         if (!this.io) return;
 
         // 1. Emit to conversation room (for active chat users)
-        this.io.to(conversationId).emit('message:created', payload);
+        this.io.to(conversationId).emit(SocketEvents.MESSAGE_CREATED, payload);
 
         // 2. Emit to specific user rooms (for conversation list updates)
         // If participants are provided, emit to their specific rooms
         if (participants && participants.length > 0) {
             participants.forEach(waId => {
-                this.io?.to(`user:${waId}`).emit('message:created', payload);
+                this.io?.to(`user:${waId}`).emit(SocketEvents.MESSAGE_CREATED, payload);
             });
             logger.info(`Emitted message:created for conversation ${conversationId} to ${participants.length} participants`);
         } else {
@@ -428,10 +749,19 @@ class SocketService {
             // Better to just Log warning and NOT emit globally to force migration
             logger.warn(`emitMessageCreated called without participants for ${conversationId} - skipping targeted emit`);
             // Legacy global emit (remove this once verified)
-            // this.io.emit('message:created', payload); 
+            // this.io.emit(SocketEvents.MESSAGE_CREATED, payload); 
         }
     }
 
+    /**
+     * Takes every socket of the given users out of a conversation room (on all server instances)
+     */
+    public leaveConversationRoom(conversationId: string, waIds: string[]): void {
+        if (!this.io || waIds.length === 0) return;
+        this.io.in(waIds.map((waId) => `user:${waId}`)).socketsLeave(conversationId);
+        logger.info(`Removed ${waIds.length} user(s) from conversation room ${conversationId}`);
+    }
+
     /**
      * Broadcasts a conversation updated event
      * Client expectation: Conversation object
@@ -444,13 +774,13 @@ class SocketService {
 
         if (participants && participants.length > 0) {
             participants.forEach(waId => {
-                this.io?.to(`user:${waId}`).emit('conversation:updated', conversation);
+                this.io?.to(`user:${waId}`).emit(SocketEvents.CONVERSATION_UPDATED, conversation);
             });
             logger.info(`Emitted conversation:updated for conversation ${conversationId} to ${participants.length} participants`);
         } else {
             logger.warn(`emitConversationUpdated called without participants for ${conversationId}`);
             // Fallback to global emit only if necessary during migration
-            // this.io.emit('conversation:updated', conversation);
+            // this.io.emit(SocketEvents.CONVERSATION_UPDATED, conversation);
         }
     }
 
@@ -462,18 +792,99 @@ class SocketService {
         if (!this.io) return;
 
         // Always emit to conversation room (active chat)
-        this.io.to(conversationId).emit('message:status-updated', payload);
+        this.io.to(conversationId).emit(SocketEvents.MESSAGE_STATUS_UPDATED, payload);
 
         // Also emit to participants (specifically sender needs to know)
         if (participants && participants.length > 0) {
             participants.forEach(waId => {
-                this.io?.to(`user:${waId}`).emit('message:status-updated', payload);
+                this.io?.to(`user:${waId}`).emit(SocketEvents.MESSAGE_STATUS_UPDATED, payload);
             });
         }
 
         logger.info(`Emitted message:status-updated for message ${payload.id}`);
     }
 
+    /**
+     * Broadcasts a changed message (edit, deletion, reaction) to the conversation room and participants
+     * Client expectation: { message, conversationId }
+     */
+    public emitMessageUpdated(conversationId: string, payload: { message: Message; conversationId: string }, participants: string[]): void {
+        if (!this.io) return;
+
+        // Chained rooms are de-duplicated, so each socket receives the update once
+        this.io
+            .to(conversationId)
+            .to(participants.map((waId) => `user:${waId}`))
+            .emit(SocketEvents.MESSAGE_UPDATED, payload);
+
+        logger.info(`Emitted message:updated for message ${payload.message.id}`);
+    }
+
+    /**
+     * Broadcasts a message deletion
+     * "Delete for me" only reaches the requester's own devices, never the conversation room
+     */
+    public emitMessageDeleted(conversationId: string, payload: { message: Message; conversationId: string; deleteFor: 'me' | 'everyone' }, participants: string[]): void {
+        if (!this.io) return;
+
+        const rooms = participants.map((waId) => `user:${waId}`);
+        if (payload.deleteFor === 'everyone') {
+            rooms.push(conversationId);
+        }
+
+        this.io.to(rooms).emit(SocketEvents.MESSAGE_DELETED, payload);
+
+        logger.info(`Emitted message:deleted (${payload.deleteFor}) for message ${payload.message.id}`);
+    }
+
+    /**
+     * Tells participants which disappearing messages were purged
+     */
+    public emitMessagesExpired(conversationId: string, payload: { conversationId: string; messageIds: string[] }, participants: string[]): void {
+        if (!this.io) return;
+
+        this.io.to(participants.map((waId) => `user:${waId}`)).emit(SocketEvents.MESSAGES_EXPIRED, payload);
+
+        logger.info(`Emitted messages:expired for ${payload.messageIds.length} messages in ${conversationId}`);
+    }
+
+    /**
+     * Broadcasts the pinned messages of a conversation to all participants
+     */
+    public emitMessagePinsUpdated(conversationId: string, pinnedMessages: PinnedMessage[], participants: string[]): void {
+        if (!this.io) return;
+
+        this.io.to(participants.map((waId) => `user:${waId}`)).emit(SocketEvents.MESSAGE_PINS_UPDATED, { conversationId, pinnedMessages });
+
+        logger.info(`Emitted message:pins-updated (${pinnedMessages.length} pins) for ${conversationId}`);
+    }
+
+    /**
+     * Tells the other devices of a user that they starred or unstarred a message
+     * `messageId` is the id clients store the message under
+     */
+    public emitMessageStarUpdated(waId: string, conversationId: string, messageId: string, starred: boolean): void {
+        if (!this.io) return;
+
+        this.io.to(`user:${waId}`).emit(SocketEvents.MESSAGE_STAR_UPDATED, { conversationId, messageId, starred });
+
+        logger.info(`Emitted message:star-updated (${starred ? 'starred' : 'unstarred'}) to ${waId}`);
+    }
+
+    /**
+     * Broadcasts a reaction change on a message
+     */
+    public emitMessageReactionUpdated(conversationId: string, payload: { message: Message; conversationId: string; waId: string; emoji: string | null }, participants: string[]): void {
+        if (!this.io) return;
+
+        this.io
+            .to(conversationId)
+            .to(participants.map((waId) => `user:${waId}`))
+            .emit(SocketEvents.MESSAGE_REACTION_UPDATED, payload);
+
+        logger.info(`Emitted message:reaction-updated for message ${payload.message.id}`);
+    }
+
     /**
      * Broadcasts when messages are marked as read
      */
@@ -482,7 +893,7 @@ class SocketService {
 
         if (participants && participants.length > 0) {
             participants.forEach(waId => {
-                this.io?.to(`user:${waId}`).emit('messages:marked-as-read', payload);
+                this.io?.to(`user:${waId}`).emit(SocketEvents.MESSAGES_MARKED_AS_READ, payload);
             });
         }
 
@@ -497,7 +908,7 @@ class SocketService {
 
         if (participants && participants.length > 0) {
             participants.forEach(waId => {
-                this.io?.to(`user:${waId}`).emit('conversation:deleted', payload);
+                this.io?.to(`user:${waId}`).emit(SocketEvents.CONVERSATION_DELETED, payload);
             });
             logger.info(`Emitted conversation:deleted for conversation ${conversationId} to ${participants.length} participants`);
         } else {
@@ -505,19 +916,44 @@ class SocketService {
         }
     }
 
+    /**
+     * Sends a scheduled message change to the devices of the user who scheduled it
+     */
+    public emitScheduledMessageUpdated(schedule: ScheduledMessage): void {
+        if (!this.io) return;
+
+        this.io.to(`user:${schedule.from}`).emit(SocketEvents.SCHEDULED_MESSAGE_UPDATED, schedule);
+
+        logger.info(`Emitted scheduled-message:updated (${schedule.status}) for ${schedule.id}`);
+    }
+
     /**
      * Emits a forced logout event to a specific user (single-device login)
      * Called when user logs in from a new device
      */
     public emitForcedLogout(userId: string): void {
         if (!this.io) return;
-        this.io.to(`user:${userId}`).emit('auth:forced-logout', {
+        this.io.to(`user:${userId}`).emit(SocketEvents.AUTH_FORCED_LOGOUT, {
             reason: 'logged_in_elsewhere',
             message: 'You have been logged out because your account was accessed from another device.',
             timestamp: Date.now()
         });
         logger.info(`Emitted forced logout to user ${userId}`);
     }
+
+    /**
+     * Tells a suspended user's clients to log out, then drops their connections
+     */
+    public emitAccountSuspended(userId: string): void {
+        if (!this.io) return;
+        this.io.to(`user:${userId}`).emit(SocketEvents.AUTH_FORCED_LOGOUT, {
+            reason: 'account_suspended',
+            message: 'Your account has been suspended.',
+            timestamp: Date.now()
+        });
+        this.io.in(`user:${userId}`).disconnectSockets(true);
+        logger.info(`Disconnected suspended user ${userId}`);
+    }
 }
 
 export default SocketService.getInstance();
@@ -0,0 +1,68 @@
+import fs from 'fs';
+import path from 'path';
+import { type Readable } from 'stream';
+import logger from '@/lib/logger';
+
+/**
+ * Storage backend for uploaded media
+ * Keys are generated by the server and are never taken from user input
+ */
+export interface StorageDriver {
+    readonly name: string;
+    put: (key: string, data: Buffer, mimeType: string) => Promise<void>;
+    createReadStream: (key: string) => Promise<Readable>;
+    delete: (key: string) => Promise<void>;
+}
+
+/**
+ * Stores files on the local filesystem under a single root directory
+ */
+export class LocalStorageDriver implements StorageDriver {
+    public readonly name = 'local';
+    private readonly root: string;
+
+    constructor(root: string) {
+        this.root = path.resolve(root);
+    }
+
+    public async put(key: string, data: Buffer): Promise<void> {
+        const filePath = this.resolve(key);
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, data);
+    }
+
+    public async createReadStream(key: string): Promise<Readable> {
+        const filePath = this.resolve(key);
+        // Fail before headers are sent if the file is gone
+        await fs.promises.access(filePath, fs.constants.R_OK);
+        return fs.createReadStream(filePath);
+    }
+
+    public async delete(key: string): Promise<void> {
+        await fs.promises.rm(this.resolve(key), { force: true });
+    }
+
+    private resolve(key: string): string {
+        const filePath = path.resolve(this.root, key);
+        if (!filePath.startsWith(this.root + path.sep)) {
+            throw new Error(`Storage key escapes the storage root: ${key}`);
+        }
+        return filePath;
+    }
+}
+
+const createStorageDriver = (): StorageDriver => {
+    const driver = process.env.STORAGE_DRIVER || 'local';
+
+    switch (driver) {
+        case 'local':
+            return new LocalStorageDriver(process.env.STORAGE_LOCAL_DIR || 'uploads');
+        default:
+            logger.warn(`[Storage] Unknown STORAGE_DRIVER "${driver}", falling back to local`);
+            return new LocalStorageDriver(process.env.STORAGE_LOCAL_DIR || 'uploads');
+    }
+};
+
+const storage = createStorageDriver();
+
+export default storage;
@@ -2,7 +2,7 @@ import { type NextFunction, type Response } from 'express';
 import { type AuthRequest } from '@/types/auth.type';
 import jwtService from '@/lib/jwt';
 import authRepository from '@/modules/auth/auth.repository';
-import { HttpUnAuthorizedError } from '@/lib/errors';
+import { HttpForbiddenError, HttpUnAuthorizedError } from '@/lib/errors';
 
 export const verifyAuthToken = async (
   req: AuthRequest,
@@ -32,6 +32,9 @@ export const verifyAuthToken = async (
     if (!user) {
       throw new HttpUnAuthorizedError('User not found', 'USER_NOT_FOUND');
     }
+    if (user.suspendedAt) {
+      throw new HttpForbiddenError('Account suspended', [user.suspensionReason ?? 'Your account has been suspended'], 'ACCOUNT_SUSPENDED');
+    }
 
     // Attach user to request
     req.user = user;
@@ -41,3 +44,17 @@ export const verifyAuthToken = async (
     next(error);
   }
 };
+
+/**
+ * Allows only moderators through; use after verifyAuthToken
+ */
+export const requireModerator = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (req.user?.role !== 'moderator') {
+    return next(new HttpForbiddenError('Moderator access required'));
+  }
+  next();
+};
@@ -0,0 +1,35 @@
+import multer from 'multer';
+import { type NextFunction, type Request, type Response } from 'express';
+import { HttpBadRequestError } from '@/lib/errors';
+
+const MEDIA_MAX_FILE_SIZE_MB = Number(process.env.MEDIA_MAX_FILE_SIZE_MB) || 16;
+
+const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+        fileSize: MEDIA_MAX_FILE_SIZE_MB * 1024 * 1024,
+        files: 2,
+    },
+});
+
+/**
+ * Parses multipart file fields (one file each) into `req.files`
+ * Multer errors (size limit, unexpected field, ...) become 400 responses
+ */
+export const fileUpload = (fields: string[]) => {
+    const handler = upload.fields(fields.map((name) => ({ name, maxCount: 1 })));
+
+    return (req: Request, res: Response, next: NextFunction) => {
+        handler(req, res, (err: unknown) => {
+            if (err instanceof multer.MulterError) {
+                const message =
+                    err.code === 'LIMIT_FILE_SIZE'
+                        ? `File cannot exceed ${MEDIA_MAX_FILE_SIZE_MB} MB`
+                        : err.message;
+                next(new HttpBadRequestError('Upload failed', [message]));
+                return;
+            }
+            next(err);
+        });
+    };
+};
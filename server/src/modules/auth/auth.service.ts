@@ -2,7 +2,7 @@ import { type User } from '@prisma/client';
 import authRepository from './auth.repository';
 import jwtService from '@/lib/jwt';
 import { redis } from '@/lib/redis';
-import { HttpUnAuthorizedError, HttpBadRequestError, HttpNotFoundError } from '@/lib/errors';
+import { HttpUnAuthorizedError, HttpBadRequestError, HttpNotFoundError, HttpForbiddenError } from '@/lib/errors';
 import logger from '@/lib/logger';
 
 export interface RegisterInput {
@@ -112,6 +112,10 @@ export default class AuthService {
       }
     }
 
+    if (user.suspendedAt) {
+      throw new HttpForbiddenError('Account suspended', [user.suspensionReason ?? 'Your account has been suspended'], 'ACCOUNT_SUSPENDED');
+    }
+
     // Generate tokens
     const accessToken = jwtService.generateAccessToken({ userId: user.id });
     const refreshToken = jwtService.generateRefreshToken({ userId: user.id });
@@ -193,6 +197,9 @@ export default class AuthService {
     if (!user) {
       throw new HttpUnAuthorizedError('User not found', 'USER_NOT_FOUND');
     }
+    if (user.suspendedAt) {
+      throw new HttpForbiddenError('Account suspended', [user.suspensionReason ?? 'Your account has been suspended'], 'ACCOUNT_SUSPENDED');
+    }
 
     // Match checks out. Rotate tokens.
 
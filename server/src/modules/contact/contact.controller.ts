@@ -4,7 +4,7 @@ import ContactService from './contact.service';
 import { type CustomResponse } from '@/types/common.type';
 import { type AuthRequest } from '@/types/auth.type';
 import Api from '@/lib/api';
-import { type PopulatedContact, type UserSearchResult } from './contact.repository';
+import { type BlockedUser, type PopulatedContact, type UserSearchResult } from './contact.repository';
 
 export default class ContactController extends Api {
     private readonly contactService = new ContactService();
@@ -97,4 +97,76 @@ export default class ContactController extends Api {
             next(e);
         }
     };
+
+    /**
+     * GET /contacts/blocked - Get blocked users
+     */
+    public getBlockedUsers = async (
+        req: AuthRequest,
+        res: CustomResponse<BlockedUser[] | null>,
+        next: NextFunction
+    ) => {
+        try {
+            if (!req.user) {
+                return res.status(HttpStatusCode.Unauthorized).json({
+                    message: 'User not authenticated',
+                    data: null,
+                });
+            }
+
+            const blocked = await this.contactService.getBlockedUsers(req.user.id);
+
+            this.send(res, blocked, HttpStatusCode.Ok, 'Blocked users retrieved successfully');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * PUT /contacts/:waId/block - Block a user
+     */
+    public blockUser = async (
+        req: AuthRequest,
+        res: CustomResponse<BlockedUser | null>,
+        next: NextFunction
+    ) => {
+        try {
+            if (!req.user) {
+                return res.status(HttpStatusCode.Unauthorized).json({
+                    message: 'User not authenticated',
+                    data: null,
+                });
+            }
+
+            const blocked = await this.contactService.blockUser(req.user.id, req.params.waId);
+
+            this.send(res, blocked, HttpStatusCode.Ok, 'User blocked successfully');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * DELETE /contacts/:waId/block - Unblock a user
+     */
+    public unblockUser = async (
+        req: AuthRequest,
+        res: CustomResponse<null>,
+        next: NextFunction
+    ) => {
+        try {
+            if (!req.user) {
+                return res.status(HttpStatusCode.Unauthorized).json({
+                    message: 'User not authenticated',
+                    data: null,
+                });
+            }
+
+            await this.contactService.unblockUser(req.user.id, req.params.waId);
+
+            this.send(res, null, HttpStatusCode.Ok, 'User unblocked successfully');
+        } catch (e) {
+            next(e);
+        }
+    };
 }
@@ -15,6 +15,16 @@ export interface PopulatedContact {
     nickname: string | null;
 }
 
+/**
+ * User blocked by the current user
+ */
+export interface BlockedUser {
+    waId: string;
+    name: string | null;
+    profilePicture: string | null;
+    blockedAt: Date | null;
+}
+
 /**
  * User search result
  */
@@ -44,6 +54,80 @@ export class ContactRepository {
         });
     }
 
+    /**
+     * Find the users a user has blocked, most recently blocked first
+     */
+    public async findBlockedByUserId(userId: string): Promise<BlockedUser[]> {
+        const contacts = await prisma.contact.findMany({
+            where: { userId, isBlocked: true },
+            include: {
+                contactUser: { select: { waId: true, name: true, profilePicture: true } },
+            },
+            orderBy: { blockedAt: 'desc' },
+        });
+
+        return contacts.map((contact) => ({
+            waId: contact.contactUser.waId,
+            name: contact.nickname || contact.contactUser.name,
+            profilePicture: contact.contactUser.profilePicture,
+            blockedAt: contact.blockedAt,
+        }));
+    }
+
+    /**
+     * Find a block between two users, in either direction
+     * Returns the waId of the user who blocked the other, or null
+     */
+    public async findBlockBetween(waId: string, otherWaId: string): Promise<string | null> {
+        const users = await prisma.user.findMany({
+            where: { waId: { in: [waId, otherWaId] } },
+            select: { id: true, waId: true },
+        });
+        const user = users.find((u) => u.waId === waId);
+        const other = users.find((u) => u.waId === otherWaId);
+        if (!user || !other) return null;
+
+        const block = await prisma.contact.findFirst({
+            where: {
+                isBlocked: true,
+                OR: [
+                    { userId: user.id, contactUserId: other.id },
+                    { userId: other.id, contactUserId: user.id },
+                ],
+            },
+            select: { userId: true },
+        });
+        if (!block) return null;
+
+        return block.userId === user.id ? user.waId : other.waId;
+    }
+
+    /**
+     * Block a user; users who are not saved contacts get a block-only contact entry
+     */
+    public async block(userId: string, contactUserId: string): Promise<Contact> {
+        return prisma.contact.upsert({
+            where: { userId_contactUserId: { userId, contactUserId } },
+            create: { userId, contactUserId, isBlocked: true, blockedAt: new Date(), blockOnly: true },
+            update: { isBlocked: true, blockedAt: new Date() },
+        });
+    }
+
+    /**
+     * Unblock a user; block-only entries are removed so the user does not become a contact
+     */
+    public async unblock(contact: Contact): Promise<void> {
+        if (contact.blockOnly) {
+            await prisma.contact.delete({ where: { id: contact.id } });
+            return;
+        }
+
+        await prisma.contact.update({
+            where: { id: contact.id },
+            data: { isBlocked: false, blockedAt: null },
+        });
+    }
+
     /**
      * Find contact user by ID
      */
@@ -95,6 +179,16 @@ export class ContactRepository {
         });
     }
 
+    /**
+     * Turn a block-only entry into a saved contact
+     */
+    public async save(contactId: string, nickname?: string): Promise<Contact> {
+        return prisma.contact.update({
+            where: { id: contactId },
+            data: { blockOnly: false, nickname },
+        });
+    }
+
     /**
      * Create a new contact
      */
@@ -148,6 +242,7 @@ export class ContactRepository {
             where: {
                 userId,
                 contactUserId: { in: contactUserIds },
+                NOT: { blockOnly: true },
             },
         });
     }
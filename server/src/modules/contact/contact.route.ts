@@ -36,4 +36,44 @@ contact.get('/search', verifyAuthToken, controller.searchUsers);
  */
 contact.post('/', verifyAuthToken, controller.addContact);
 
+/**
+ * Blocked user
+ * @typedef {object} BlockedUser
+ * @property {string} waId - WhatsApp ID
+ * @property {string} name - Nickname or profile name
+ * @property {string} profilePicture - Profile picture URL
+ * @property {string} blockedAt - When the user was blocked
+ */
+
+/**
+ * GET /contacts/blocked
+ * @summary Get the users you have blocked, most recently blocked first
+ * @tags contacts
+ * @security bearerAuth
+ * @return {array<BlockedUser>} 200 - Blocked users
+ */
+contact.get('/blocked', verifyAuthToken, controller.getBlockedUsers);
+
+/**
+ * PUT /contacts/:waId/block
+ * @summary Block a user (neither side can message the other; your presence is hidden from them)
+ * @tags contacts
+ * @security bearerAuth
+ * @param {string} waId.path.required - WhatsApp ID of the user to block
+ * @return {BlockedUser} 200 - User blocked successfully
+ * @return {object} 404 - User not found
+ */
+contact.put('/:waId/block', verifyAuthToken, controller.blockUser);
+
+/**
+ * DELETE /contacts/:waId/block
+ * @summary Unblock a user
+ * @tags contacts
+ * @security bearerAuth
+ * @param {string} waId.path.required - WhatsApp ID of the user to unblock
+ * @return {object} 200 - User unblocked successfully
+ * @return {object} 404 - User not found or not blocked
+ */
+contact.delete('/:waId/block', verifyAuthToken, controller.unblockUser);
+
 export default contact;
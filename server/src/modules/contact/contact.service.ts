@@ -1,8 +1,9 @@
 import contactRepository, {
+    type BlockedUser,
     type PopulatedContact,
     type UserSearchResult,
 } from './contact.repository';
-import { HttpBadRequestError, HttpNotFoundError } from '@/lib/errors';
+import { HttpBadRequestError, HttpForbiddenError, HttpNotFoundError } from '@/lib/errors';
 import logger from '@/lib/logger';
 
 /**
@@ -127,18 +128,20 @@ export default class ContactService {
             contactUser.id
         );
 
-        if (existingContact) {
+        if (existingContact && !existingContact.blockOnly) {
             throw new HttpBadRequestError('Contact already exists', [
                 'Contact already exists',
             ]);
         }
 
-        // Create new contact
-        const newContact = await contactRepository.create({
-            userId,
-            contactUserId: contactUser.id,
-            nickname,
-        });
+        // Saving a blocked user keeps the block
+        const newContact = existingContact
+            ? await contactRepository.save(existingContact.id, nickname)
+            : await contactRepository.create({
+                userId,
+                contactUserId: contactUser.id,
+                nickname,
+            });
 
         logger.info(
             `[addContact] User ${userId} added contact ${contactUser.waId} (${contactUser.id})`
@@ -161,6 +164,67 @@ export default class ContactService {
         };
     }
 
+    /**
+     * Get the users the current user has blocked
+     */
+    public async getBlockedUsers(userId: string): Promise<BlockedUser[]> {
+        return contactRepository.findBlockedByUserId(userId);
+    }
+
+    /**
+     * Block a user: neither side can message the other and the blocked user
+     * no longer sees the blocker's presence
+     */
+    public async blockUser(userId: string, waId: string): Promise<BlockedUser> {
+        const contactUser = await this.findOtherUser(userId, waId);
+        const contact = await contactRepository.block(userId, contactUser.id);
+
+        logger.info(`[blockUser] User ${userId} blocked ${contactUser.waId}`);
+
+        return {
+            waId: contactUser.waId,
+            name: contact.nickname || contactUser.name,
+            profilePicture: contactUser.profilePicture,
+            blockedAt: contact.blockedAt,
+        };
+    }
+
+    /**
+     * Unblock a user
+     */
+    public async unblockUser(userId: string, waId: string): Promise<void> {
+        const contactUser = await this.findOtherUser(userId, waId);
+        const contact = await contactRepository.findExistingContact(userId, contactUser.id);
+        if (!contact?.isBlocked) {
+            throw new HttpNotFoundError('User is not blocked');
+        }
+
+        await contactRepository.unblock(contact);
+
+        logger.info(`[unblockUser] User ${userId} unblocked ${contactUser.waId}`);
+    }
+
+    /**
+     * Throws if either user has blocked the other
+     */
+    public async assertNotBlocked(fromWaId: string, toWaId: string): Promise<void> {
+        const blocker = await contactRepository.findBlockBetween(fromWaId, toWaId);
+        if (!blocker) return;
+
+        throw new HttpForbiddenError('Message blocked', [
+            blocker === fromWaId
+                ? 'You blocked this contact. Unblock them to send a message'
+                : 'You cannot send messages to this contact',
+        ]);
+    }
+
+    /**
+     * Whether either user has blocked the other
+     */
+    public async isBlockedBetween(waId: string, otherWaId: string): Promise<boolean> {
+        return (await contactRepository.findBlockBetween(waId, otherWaId)) !== null;
+    }
+
     /**
      * Search users by waId or name
      */
@@ -205,4 +269,22 @@ export default class ContactService {
 
         return searchResults;
     }
+
+    /**
+     * Finds the user with `waId`, who must not be the current user
+     */
+    private async findOtherUser(userId: string, waId: string) {
+        const contactUser = await contactRepository.findUserByWaId(normalizeWaId(waId));
+        if (!contactUser) {
+            throw new HttpNotFoundError('User not found');
+        }
+
+        if (contactUser.id === userId) {
+            throw new HttpBadRequestError('Cannot block yourself', [
+                'Cannot block yourself',
+            ]);
+        }
+
+        return contactUser;
+    }
 }
@@ -1,10 +1,11 @@
 import { type NextFunction, type Request } from 'express';
 import { HttpStatusCode } from 'axios';
-import ConversationService from './conversation.service';
+import ConversationService, { type ConversationWithState } from './conversation.service';
+import { type ConversationFilter } from './conversation.repository';
 import { type CustomResponse } from '@/types/common.type';
 import { type AuthRequest } from '@/types/auth.type';
 import Api from '@/lib/api';
-import { type Conversation } from '@prisma/client';
+import { type Conversation, type Message, type PinnedMessage } from '@prisma/client';
 
 /**
  * Response type for getConversationId
@@ -25,6 +26,8 @@ interface MarkAsReadResponse {
     affectedMessagesCount: number;
 }
 
+const CONVERSATION_FILTERS: ConversationFilter[] = ['all', 'unread', 'groups', 'archived'];
+
 /**
  * Response type for deleteConversation
  */
@@ -88,11 +91,11 @@ export default class ConversationController extends Api {
 
     /**
      * GET /conversations - Get all conversations for authenticated user
-     * Supports cursor-based pagination
+     * Supports cursor-based pagination and list filters
      */
     public getConversations = async (
         req: AuthRequest,
-        res: CustomResponse<{ conversations: Conversation[]; nextCursor: string | null } | null>,
+        res: CustomResponse<{ conversations: ConversationWithState[]; nextCursor: string | null } | null>,
         next: NextFunction
     ) => {
         try {
@@ -103,7 +106,14 @@ export default class ConversationController extends Api {
                 });
             }
 
-            const { limit, cursor } = req.query;
+            const { limit, cursor, filter } = req.query;
+
+            if (filter && !CONVERSATION_FILTERS.includes(filter as ConversationFilter)) {
+                return res.status(HttpStatusCode.BadRequest).json({
+                    message: `Invalid filter. Must be one of: ${CONVERSATION_FILTERS.join(', ')}`,
+                    data: null,
+                });
+            }
 
             const parsedLimit = limit ? parseInt(limit as string, 10) : 20;
             const parsedCursor = cursor ? (cursor as string) : undefined;
@@ -111,7 +121,8 @@ export default class ConversationController extends Api {
             const result = await this.conversationService.getConversations(
                 req.user.waId,
                 parsedLimit,
-                parsedCursor
+                parsedCursor,
+                (filter as ConversationFilter) || 'all'
             );
 
             this.send(
@@ -166,6 +177,153 @@ export default class ConversationController extends Api {
         }
     };
 
+    /**
+     * PATCH /conversations/:conversationId/settings - Update the caller's own settings
+     */
+    public updateSettings = async (
+        req: AuthRequest,
+        res: CustomResponse<ConversationWithState | null>,
+        next: NextFunction
+    ) => {
+        try {
+            if (!req.user) {
+                return res.status(HttpStatusCode.Unauthorized).json({
+                    message: 'User not authenticated',
+                    data: null,
+                });
+            }
+
+            const { archived, pinned, mutedUntil, markedUnread } = req.body;
+
+            const conversation = await this.conversationService.updateSettings(
+                req.params.conversationId,
+                req.user.waId,
+                {
+                    archived,
+                    pinned,
+                    mutedUntil: mutedUntil === undefined ? undefined : mutedUntil && new Date(mutedUntil),
+                    markedUnread,
+                }
+            );
+
+            this.send(res, conversation, HttpStatusCode.Ok, 'Conversation settings updated');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * PUT /conversations/:conversationId/message-timer - Set the disappearing messages timer
+     */
+    public setMessageTimer = async (
+        req: AuthRequest,
+        res: CustomResponse<{ conversation: Conversation; message: Message | null } | null>,
+        next: NextFunction
+    ) => {
+        try {
+            if (!req.user) {
+                return res.status(HttpStatusCode.Unauthorized).json({
+                    message: 'User not authenticated',
+                    data: null,
+                });
+            }
+
+            const result = await this.conversationService.setMessageTimer(
+                req.params.conversationId,
+                req.user.waId,
+                req.body.timer
+            );
+
+            this.send(res, result, HttpStatusCode.Ok, 'Message timer updated');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * GET /conversations/:conversationId/pins - List pinned messages
+     */
+    public getPinnedMessages = async (
+        req: AuthRequest,
+        res: CustomResponse<PinnedMessage[] | null>,
+        next: NextFunction
+    ) => {
+        try {
+            if (!req.user) {
+                return res.status(HttpStatusCode.Unauthorized).json({
+                    message: 'User not authenticated',
+                    data: null,
+                });
+            }
+
+            const pins = await this.conversationService.getPinnedMessages(
+                req.params.conversationId,
+                req.user.waId
+            );
+
+            this.send(res, pins, HttpStatusCode.Ok, 'Pinned messages retrieved');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * PUT /conversations/:conversationId/pins/:messageId - Pin a message
+     */
+    public pinMessage = async (
+        req: AuthRequest,
+        res: CustomResponse<PinnedMessage[] | null>,
+        next: NextFunction
+    ) => {
+        try {
+            if (!req.user) {
+                return res.status(HttpStatusCode.Unauthorized).json({
+                    message: 'User not authenticated',
+                    data: null,
+                });
+            }
+
+            const pins = await this.conversationService.pinMessage(
+                req.params.conversationId,
+                req.params.messageId,
+                req.user.waId,
+                req.body.duration
+            );
+
+            this.send(res, pins, HttpStatusCode.Ok, 'Message pinned');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * DELETE /conversations/:conversationId/pins/:messageId - Unpin a message
+     */
+    public unpinMessage = async (
+        req: AuthRequest,
+        res: CustomResponse<PinnedMessage[] | null>,
+        next: NextFunction
+    ) => {
+        try {
+            if (!req.user) {
+                return res.status(HttpStatusCode.Unauthorized).json({
+                    message: 'User not authenticated',
+                    data: null,
+                });
+            }
+
+            const pins = await this.conversationService.unpinMessage(
+                req.params.conversationId,
+                req.params.messageId,
+                req.user.waId
+            );
+
+            this.send(res, pins, HttpStatusCode.Ok, 'Message unpinned');
+        } catch (e) {
+            next(e);
+        }
+    };
+
     /**
      * DELETE /conversations/:conversationId - Delete conversation
      */
@@ -208,7 +366,7 @@ export default class ConversationController extends Api {
 
             const message =
                 result.deleteType === 'soft'
-                    ? 'Conversation archived successfully'
+                    ? 'Conversation archived for you'
                     : 'Conversation and all messages deleted permanently';
 
             this.send(res, result, HttpStatusCode.Ok, message);
@@ -216,4 +374,146 @@ export default class ConversationController extends Api {
             next(e);
         }
     };
+
+    /**
+     * POST /conversations/groups - Create a group conversation
+     */
+    public createGroup = async (
+        req: AuthRequest,
+        res: CustomResponse<Conversation | null>,
+        next: NextFunction
+    ) => {
+        try {
+            if (!req.user) {
+                return res.status(HttpStatusCode.Unauthorized).json({
+                    message: 'User not authenticated',
+                    data: null,
+                });
+            }
+
+            const { name, description, avatar, members } = req.body;
+
+            const group = await this.conversationService.createGroup(req.user.waId, {
+                name: name.trim(),
+                description,
+                avatar,
+                members,
+            });
+
+            this.send(res, group, HttpStatusCode.Created, 'Group created');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * POST /conversations/:conversationId/members - Add members to a group
+     */
+    public addGroupMembers = async (
+        req: AuthRequest,
+        res: CustomResponse<Conversation | null>,
+        next: NextFunction
+    ) => {
+        try {
+            if (!req.user) {
+                return res.status(HttpStatusCode.Unauthorized).json({
+                    message: 'User not authenticated',
+                    data: null,
+                });
+            }
+
+            const group = await this.conversationService.addGroupMembers(
+                req.params.conversationId,
+                req.user.waId,
+                req.body.members
+            );
+
+            this.send(res, group, HttpStatusCode.Ok, 'Members added');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * DELETE /conversations/:conversationId/members/:waId - Remove a member from a group
+     */
+    public removeGroupMember = async (
+        req: AuthRequest,
+        res: CustomResponse<Conversation | null>,
+        next: NextFunction
+    ) => {
+        try {
+            if (!req.user) {
+                return res.status(HttpStatusCode.Unauthorized).json({
+                    message: 'User not authenticated',
+                    data: null,
+                });
+            }
+
+            const group = await this.conversationService.removeGroupMember(
+                req.params.conversationId,
+                req.user.waId,
+                req.params.waId
+            );
+
+            this.send(res, group, HttpStatusCode.Ok, 'Member removed');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * PUT /conversations/:conversationId/admins/:waId - Promote a member to admin
+     */
+    public promoteGroupAdmin = async (
+        req: AuthRequest,
+        res: CustomResponse<Conversation | null>,
+        next: NextFunction
+    ) => {
+        try {
+            if (!req.user) {
+                return res.status(HttpStatusCode.Unauthorized).json({
+                    message: 'User not authenticated',
+                    data: null,
+                });
+            }
+
+            const group = await this.conversationService.promoteGroupAdmin(
+                req.params.conversationId,
+                req.user.waId,
+                req.params.waId
+            );
+
+            this.send(res, group, HttpStatusCode.Ok, 'Member promoted to admin');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * POST /conversations/:conversationId/leave - Leave a group
+     */
+    public leaveGroup = async (
+        req: AuthRequest,
+        res: CustomResponse<Conversation | null>,
+        next: NextFunction
+    ) => {
+        try {
+            if (!req.user) {
+                return res.status(HttpStatusCode.Unauthorized).json({
+                    message: 'User not authenticated',
+                    data: null,
+                });
+            }
+
+            const group = await this.conversationService.leaveGroup(
+                req.params.conversationId,
+                req.user.waId
+            );
+
+            this.send(res, group, HttpStatusCode.Ok, 'Left group');
+        } catch (e) {
+            next(e);
+        }
+    };
 }
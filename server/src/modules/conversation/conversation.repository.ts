@@ -1,6 +1,18 @@
-import { type Conversation, type User } from '@prisma/client';
+import { type Conversation, type ConversationParticipant, type Message, type ParticipantState, type PinnedMessage, Prisma, type User } from '@prisma/client';
 import prisma from '@/lib/prisma';
 
+/**
+ * Conversation list views; every view except `archived` hides the caller's archived chats
+ */
+export type ConversationFilter = 'all' | 'unread' | 'groups' | 'archived';
+
+/**
+ * Per-user settings of a conversation
+ */
+export type ParticipantSettings = Partial<
+    Pick<ParticipantState, 'isArchived' | 'pinnedAt' | 'mutedUntil' | 'markedUnread'>
+>;
+
 /**
  * Repository for conversation operations using Prisma
  */
@@ -29,8 +41,8 @@ export class ConversationRepository {
             },
         });
 
-        // Filter to ensure exactly 2 participants
-        return conversations.find((c) => c.participants.length === 2) || null;
+        // Filter to ensure exactly 2 participants (a 2-member group is not a direct chat)
+        return conversations.find((c) => c.type !== 'group' && c.participants.length === 2) || null;
     }
 
     /**
@@ -45,8 +57,6 @@ export class ConversationRepository {
             data: {
                 participants: participants,
                 conversationId: '', // Temporary value
-                unreadCount: 0,
-                isArchived: false,
             },
         });
 
@@ -57,6 +67,105 @@ export class ConversationRepository {
         });
     }
 
+    /**
+     * Create a new group conversation
+     */
+    public async createGroup(data: {
+        name: string;
+        description?: string;
+        avatar?: string;
+        createdBy: string;
+        participants: ConversationParticipant[];
+    }): Promise<Conversation> {
+        const conversation = await prisma.conversation.create({
+            data: {
+                type: 'group',
+                name: data.name,
+                description: data.description,
+                avatar: data.avatar,
+                createdBy: data.createdBy,
+                participants: data.participants,
+                conversationId: '', // Temporary value
+            },
+        });
+
+        return prisma.conversation.update({
+            where: { id: conversation.id },
+            data: { conversationId: conversation.id },
+        });
+    }
+
+    /**
+     * Replace the embedded participants list (group membership changes), provided it is still `previous`
+     * Returns null when another change got in first
+     */
+    public async replaceParticipants(
+        id: string,
+        previous: ConversationParticipant[],
+        participants: ConversationParticipant[]
+    ): Promise<Conversation | null> {
+        const { count } = await prisma.conversation.updateMany({
+            where: { id, participants: { equals: previous } },
+            data: { participants: { set: participants } },
+        });
+        return count > 0 ? this.findById(id) : null;
+    }
+
+    /**
+     * Set the disappearing messages timer (seconds); null turns it off
+     */
+    public async updateMessageTimer(id: string, messageTimer: number | null): Promise<Conversation> {
+        return prisma.conversation.update({
+            where: { id },
+            data: { messageTimer },
+        });
+    }
+
+    /**
+     * Replace the pinned messages (oldest pin first), provided they are still `previous`
+     * Returns null when another change got in first
+     */
+    public async replacePinnedMessages(
+        id: string,
+        previous: PinnedMessage[],
+        pinnedMessages: PinnedMessage[]
+    ): Promise<Conversation | null> {
+        const { count } = await prisma.conversation.updateMany({
+            where: { id, pinnedMessages: { equals: previous } },
+            data: { pinnedMessages: { set: pinnedMessages } },
+        });
+        return count > 0 ? this.findById(id) : null;
+    }
+
+    /**
+     * Remove the given pins, and any expired ones, in a single update
+     */
+    public async removePinnedMessages(id: string, messageIds: string[]): Promise<Conversation> {
+        return prisma.conversation.update({
+            where: { id },
+            data: {
+                pinnedMessages: {
+                    deleteMany: {
+                        where: { OR: [{ messageId: { in: messageIds } }, { expiresAt: { lte: Date.now() } }] },
+                    },
+                },
+            },
+        });
+    }
+
+    /**
+     * Hands out the conversation's next message sequence number
+     * The increment is a single atomic update, so concurrent senders never get the same number
+     */
+    public async nextSeq(id: string): Promise<number> {
+        const { lastSeq } = await prisma.conversation.update({
+            where: { id },
+            data: { lastSeq: { increment: 1 } },
+            select: { lastSeq: true },
+        });
+        return lastSeq!;
+    }
+
     /**
      * Find conversation by ID
      */
@@ -67,35 +176,55 @@ export class ConversationRepository {
     }
 
     /**
-     * Get all conversations for a user
-     */
-    /**
-     * Get all conversations for a user with cursor-based pagination
+     * Get a user's conversations with cursor-based pagination
+     * Pinned conversations matching the filter come first, on the first page only
      */
     public async findByUserWaId(
         waId: string,
         limit: number = 20,
-        cursor?: string
+        cursor?: string,
+        filter: ConversationFilter = 'all'
     ): Promise<{ conversations: Conversation[]; nextCursor: string | null }> {
-        // Fetch conversations where user is participant
+        // The user's own settings decide which conversations each view shows
+        const states = await prisma.participantState.findMany({
+            where: { waId },
+            select: { conversationId: true, isArchived: true, pinnedAt: true, unreadCount: true, markedUnread: true },
+        });
+        const archivedIds = states.filter((s) => s.isArchived).map((s) => s.conversationId);
+        const pinnedIds = states
+            .filter((s) => s.pinnedAt && !s.isArchived)
+            .sort((a, b) => b.pinnedAt!.getTime() - a.pinnedAt!.getTime())
+            .map((s) => s.conversationId);
+
+        const filters: Prisma.ConversationWhereInput[] = [
+            { participants: { some: { waId } } },
+            { id: filter === 'archived' ? { in: archivedIds } : { notIn: archivedIds } },
+        ];
+        if (filter === 'unread') {
+            const unreadIds = states
+                .filter((s) => s.unreadCount > 0 || s.markedUnread)
+                .map((s) => s.conversationId);
+            filters.push({ id: { in: unreadIds } });
+        }
+        if (filter === 'groups') {
+            filters.push({ type: 'group' });
+        }
+
+        // Pinned conversations are listed ahead of the pages, so the pages leave them out
+        const showPinned = filter !== 'archived';
+        const pinned = showPinned && !cursor
+            ? await prisma.conversation.findMany({
+                where: { AND: [...filters, { id: { in: pinnedIds } }] },
+            })
+            : [];
+        pinned.sort((a, b) => pinnedIds.indexOf(a.id) - pinnedIds.indexOf(b.id));
+
         // Ordered by updatedAt desc, id desc (stable sort)
         const conversations = await prisma.conversation.findMany({
             take: limit + 1, // Fetch one extra to determine if there's a next page
             skip: cursor ? 1 : 0,
             cursor: cursor ? { id: cursor } : undefined,
-            where: {
-                isArchived: false,
-                participants: {
-                    some: { waId },
-                },
-                // Ensure we only get conversations with messages if needed,
-                // but usually empty conversations might exist.
-                // The previous logic filtered by lastMessage validation.
-                // We should keep that if possible, but we can't easily filter strictly by
-                // embedded fields in top-level query for 'lastMessage.timestamp' existence
-                // efficiently without a compound index validation.
-                // For now, valid conversations usually have messages.
-            },
+            where: { AND: showPinned ? [...filters, { id: { notIn: pinnedIds } }] : filters },
             orderBy: [
                 { updatedAt: 'desc' },
                 { id: 'desc' }, // Tie-breaker
@@ -110,18 +239,17 @@ export class ConversationRepository {
         }
 
         return {
-            conversations,
+            conversations: [...pinned, ...conversations],
             nextCursor,
         };
     }
 
     /**
-     * Update conversation's lastMessage and unreadCount
+     * Update conversation's lastMessage snapshot
      */
     public async updateLastMessage(
         id: string,
-        lastMessage,
-        unreadCount?: number
+        lastMessage
     ): Promise<Conversation> {
         // Sanitize lastMessage to match schema type
         const sanitizedLastMessage = {
@@ -133,30 +261,131 @@ export class ConversationRepository {
             status: lastMessage.status,
         };
 
-        const updateData: Partial<Conversation> = { lastMessage: sanitizedLastMessage };
-
-        if (unreadCount !== undefined) {
-            updateData.unreadCount = unreadCount;
-        }
-
         return prisma.conversation.update({
             where: { id },
-            data: updateData,
+            data: { lastMessage: sanitizedLastMessage },
         });
     }
 
     /**
-     * Mark conversation as read (only reset unreadCount)
+     * Mark conversation as read for one participant: resets their unread count and
+     * moves their read (and delivery) watermark to the given message
      */
-    public async markAsRead(id: string): Promise<Conversation> {
-        return prisma.conversation.update({
-            where: { id },
+    public async markAsRead(
+        id: string,
+        waId: string,
+        lastMessage: Pick<Message, 'id' | 'timestamp'> | null
+    ): Promise<ParticipantState> {
+        const watermark = lastMessage
+            ? {
+                lastReadMessageId: lastMessage.id,
+                lastReadAt: lastMessage.timestamp,
+                lastDeliveredMessageId: lastMessage.id,
+                lastDeliveredAt: lastMessage.timestamp,
+            }
+            : {};
+
+        return this.upsertParticipantState(
+            id,
+            waId,
+            { unreadCount: 0, ...watermark },
+            { unreadCount: 0, markedUnread: false, ...watermark }
+        );
+    }
+
+    /**
+     * Move a participant's delivery watermark forward (never back) to the given message
+     */
+    public async markDelivered(
+        id: string,
+        waId: string,
+        message: Pick<Message, 'id' | 'timestamp'>
+    ): Promise<void> {
+        await prisma.participantState.updateMany({
+            where: {
+                conversationId: id,
+                waId,
+                OR: [{ lastDeliveredAt: null }, { lastDeliveredAt: { lt: message.timestamp } }],
+            },
             data: {
-                unreadCount: 0,
+                lastDeliveredMessageId: message.id,
+                lastDeliveredAt: message.timestamp,
+            },
+        });
+    }
+
+    /**
+     * Update one participant's settings of a conversation
+     */
+    public async updateParticipantSettings(
+        id: string,
+        waId: string,
+        settings: ParticipantSettings
+    ): Promise<ParticipantState> {
+        return this.upsertParticipantState(id, waId, settings, settings);
+    }
+
+    /**
+     * Create or update one participant's state of a conversation
+     * Two first writes for a participant can both miss the row; the create that loses on the
+     * unique (conversationId, waId) index is retried as an update of the row the other one made
+     */
+    public async upsertParticipantState(
+        id: string,
+        waId: string,
+        create: Omit<Prisma.ParticipantStateUncheckedCreateInput, 'conversationId' | 'waId'>,
+        update: Prisma.ParticipantStateUpdateInput
+    ): Promise<ParticipantState> {
+        const where = { conversationId_waId: { conversationId: id, waId } };
+        try {
+            return await prisma.participantState.upsert({
+                where,
+                create: { conversationId: id, waId, ...create },
+                update,
+            });
+        } catch (error) {
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                return prisma.participantState.update({ where, data: update });
             }
+            throw error;
+        }
+    }
+
+    /**
+     * Count the conversations a user has pinned (archived chats are never pinned)
+     */
+    public async countPinned(waId: string): Promise<number> {
+        return prisma.participantState.count({
+            where: { waId, isArchived: false, pinnedAt: { not: null } },
         });
     }
 
+    /**
+     * Which of the given participants have muted a conversation right now
+     */
+    public async findMutedWaIds(id: string, waIds: string[]): Promise<Set<string>> {
+        const muted = await prisma.participantState.findMany({
+            where: { conversationId: id, waId: { in: waIds }, mutedUntil: { gt: new Date() } },
+            select: { waId: true },
+        });
+        return new Set(muted.map((state) => state.waId));
+    }
+
+    /**
+     * Get one participant's counters for a set of conversations, keyed by conversation id
+     */
+    public async findParticipantStates(
+        conversationIds: string[],
+        waId: string
+    ): Promise<Map<string, ParticipantState>> {
+        if (conversationIds.length === 0) return new Map();
+
+        const states = await prisma.participantState.findMany({
+            where: { conversationId: { in: conversationIds }, waId },
+        });
+        return new Map(states.map((state) => [state.conversationId, state]));
+    }
+
     /**
      * Update lastMessage status
      */
@@ -181,19 +410,12 @@ export class ConversationRepository {
     }
 
     /**
-     * Archive conversation (soft delete)
-     */
-    public async archive(id: string): Promise<Conversation> {
-        return prisma.conversation.update({
-            where: { id },
-            data: { isArchived: true },
-        });
-    }
-
-    /**
-     * Delete conversation permanently
+     * Delete conversation permanently (with its participants' counters)
      */
     public async delete(id: string): Promise<Conversation> {
+        await prisma.participantState.deleteMany({
+            where: { conversationId: id },
+        });
         return prisma.conversation.delete({
             where: { id },
         });
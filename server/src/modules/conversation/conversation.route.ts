@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import Controller from './conversation.controller';
 import { verifyAuthToken } from '@/middlewares/auth';
+import RequestValidator from '@/middlewares/request-validator';
+import { CreateGroupDto, AddGroupMembersDto, UpdateConversationSettingsDto, SetMessageTimerDto, PinMessageDto } from '@/dto/conversation.dto';
 
 const conversation: Router = Router();
 const controller = new Controller();
@@ -19,16 +21,19 @@ conversation.post('/', verifyAuthToken, controller.getConversationId);
 
 /**
  * GET /conversations
- * @summary Get all conversations for authenticated user
+ * @summary Get all conversations for authenticated user (pinned conversations first)
  * @tags conversations
  * @security bearerAuth
- * @return {array<object>} 200 - List of conversations
+ * @param {number} limit.query - Page size (default 20)
+ * @param {string} cursor.query - Conversation ID to continue after
+ * @param {string} filter.query - 'all' (default), 'unread', 'groups' or 'archived'
+ * @return {array<object>} 200 - List of conversations, each with the caller's own unreadCount, lastReadMessageId, lastReadAt, lastDeliveredAt, isArchived, pinnedAt, mutedUntil and markedUnread
  */
 conversation.get('/', verifyAuthToken, controller.getConversations);
 
 /**
  * PUT /conversations/:conversationId/read
- * @summary Mark all messages in conversation as read
+ * @summary Mark all messages in conversation as read (resets only the caller's unread count)
  * @tags conversations
  * @security bearerAuth
  * @param {string} conversationId.path.required - Conversation ID
@@ -36,15 +41,203 @@ conversation.get('/', verifyAuthToken, controller.getConversations);
  */
 conversation.put('/:conversationId/read', verifyAuthToken, controller.markAsRead);
 
+/**
+ * Conversation settings body
+ * @typedef {object} ConversationSettingsBody
+ * @property {boolean} archived - Archive or unarchive (archiving also unpins)
+ * @property {boolean} pinned - Pin or unpin (at most 3 pinned conversations)
+ * @property {string} mutedUntil - ISO date to mute push notifications until; null unmutes
+ * @property {boolean} markedUnread - Mark as unread (cleared when the conversation is read)
+ */
+
+/**
+ * PATCH /conversations/:conversationId/settings
+ * @summary Update the caller's own settings of a conversation
+ * @tags conversations
+ * @security bearerAuth
+ * @param {string} conversationId.path.required - Conversation ID
+ * @param {ConversationSettingsBody} request.body.required
+ * @return {object} 200 - Conversation with the caller's updated settings
+ * @return {object} 400 - Archived conversations cannot be pinned
+ * @return {object} 409 - Pin limit reached
+ */
+conversation.patch(
+    '/:conversationId/settings',
+    verifyAuthToken,
+    RequestValidator.validate(UpdateConversationSettingsDto),
+    controller.updateSettings
+);
+
+/**
+ * Message timer body
+ * @typedef {object} MessageTimerBody
+ * @property {string} timer.required - Disappearing messages timer: off, 24h, 7d or 90d
+ */
+
+/**
+ * PUT /conversations/:conversationId/message-timer
+ * @summary Set the disappearing messages timer of a conversation (applies to messages sent afterwards)
+ * @tags conversations
+ * @security bearerAuth
+ * @param {string} conversationId.path.required - Conversation ID
+ * @param {MessageTimerBody} request.body.required
+ * @return {object} 200 - Updated conversation and the system message (null when unchanged)
+ * @return {object} 403 - Not a participant
+ */
+conversation.put(
+    '/:conversationId/message-timer',
+    verifyAuthToken,
+    RequestValidator.validate(SetMessageTimerDto),
+    controller.setMessageTimer
+);
+
+/**
+ * Pinned message
+ * @typedef {object} PinnedMessage
+ * @property {string} messageId - Id clients store the message under (client-generated when set)
+ * @property {string} from - Sender waId
+ * @property {string} text - Truncated snippet
+ * @property {string} type - Message type
+ * @property {string} pinnedBy - waId of the participant who pinned it
+ * @property {number} pinnedAt - Epoch milliseconds
+ * @property {number} expiresAt - Epoch milliseconds after which it is no longer pinned (null = until unpinned)
+ */
+
+/**
+ * Pin message body
+ * @typedef {object} PinMessageBody
+ * @property {string} duration - How long to pin it: 24h, 7d or 30d (omit to pin until unpinned)
+ */
+
+/**
+ * GET /conversations/:conversationId/pins
+ * @summary List the pinned messages of a conversation, oldest pin first
+ * @tags conversations
+ * @security bearerAuth
+ * @param {string} conversationId.path.required - Conversation ID
+ * @return {array<PinnedMessage>} 200 - Pinned messages
+ * @return {object} 403 - Not a participant
+ */
+conversation.get('/:conversationId/pins', verifyAuthToken, controller.getPinnedMessages);
+
+/**
+ * PUT /conversations/:conversationId/pins/:messageId
+ * @summary Pin a message (max 3 per conversation); pinning it again renews the expiry
+ * @tags conversations
+ * @security bearerAuth
+ * @param {string} conversationId.path.required - Conversation ID
+ * @param {string} messageId.path.required - Message ID (database or client-generated)
+ * @param {PinMessageBody} request.body
+ * @return {array<PinnedMessage>} 200 - Pinned messages after the change
+ * @return {object} 404 - Message not found in this conversation
+ * @return {object} 409 - Pin limit reached
+ */
+conversation.put(
+    '/:conversationId/pins/:messageId',
+    verifyAuthToken,
+    RequestValidator.validate(PinMessageDto),
+    controller.pinMessage
+);
+
+/**
+ * DELETE /conversations/:conversationId/pins/:messageId
+ * @summary Unpin a message
+ * @tags conversations
+ * @security bearerAuth
+ * @param {string} conversationId.path.required - Conversation ID
+ * @param {string} messageId.path.required - Message ID (database or client-generated)
+ * @return {array<PinnedMessage>} 200 - Pinned messages after the change
+ * @return {object} 404 - Message is not pinned
+ */
+conversation.delete('/:conversationId/pins/:messageId', verifyAuthToken, controller.unpinMessage);
+
 /**
  * DELETE /conversations/:conversationId
- * @summary Delete or archive conversation
+ * @summary Delete conversation, or archive it for the caller only
  * @tags conversations
  * @security bearerAuth
  * @param {string} conversationId.path.required - Conversation ID
- * @param {string} deleteType.query - Delete type: 'soft' (default) or 'hard'
+ * @param {string} deleteType.query - Delete type: 'soft' (default, archive for the caller) or 'hard' (groups: admins only, members get 'soft')
  * @return {object} 200 - Conversation deleted successfully
  */
 conversation.delete('/:conversationId', verifyAuthToken, controller.deleteConversation);
 
+/**
+ * Create group body
+ * @typedef {object} CreateGroupBody
+ * @property {string} name.required - Group name (max 100 chars)
+ * @property {string} description - Group description (max 512 chars)
+ * @property {string} avatar - Group avatar URL
+ * @property {array<string>} members.required - waIds of the initial members (creator is added as admin)
+ */
+
+/**
+ * Add members body
+ * @typedef {object} AddGroupMembersBody
+ * @property {array<string>} members.required - waIds of the members to add
+ */
+
+/**
+ * POST /conversations/groups
+ * @summary Create a group conversation
+ * @tags conversations
+ * @security bearerAuth
+ * @param {CreateGroupBody} request.body.required
+ * @return {object} 201 - Group created
+ */
+conversation.post(
+    '/groups',
+    verifyAuthToken,
+    RequestValidator.validate(CreateGroupDto),
+    controller.createGroup
+);
+
+/**
+ * POST /conversations/:conversationId/members
+ * @summary Add members to a group (admins only)
+ * @tags conversations
+ * @security bearerAuth
+ * @param {string} conversationId.path.required - Group conversation ID
+ * @param {AddGroupMembersBody} request.body.required
+ * @return {object} 200 - Members added
+ */
+conversation.post(
+    '/:conversationId/members',
+    verifyAuthToken,
+    RequestValidator.validate(AddGroupMembersDto),
+    controller.addGroupMembers
+);
+
+/**
+ * DELETE /conversations/:conversationId/members/:waId
+ * @summary Remove a member from a group (admins only)
+ * @tags conversations
+ * @security bearerAuth
+ * @param {string} conversationId.path.required - Group conversation ID
+ * @param {string} waId.path.required - WhatsApp ID of the member to remove
+ * @return {object} 200 - Member removed
+ */
+conversation.delete('/:conversationId/members/:waId', verifyAuthToken, controller.removeGroupMember);
+
+/**
+ * PUT /conversations/:conversationId/admins/:waId
+ * @summary Promote a group member to admin (admins only)
+ * @tags conversations
+ * @security bearerAuth
+ * @param {string} conversationId.path.required - Group conversation ID
+ * @param {string} waId.path.required - WhatsApp ID of the member to promote
+ * @return {object} 200 - Member promoted
+ */
+conversation.put('/:conversationId/admins/:waId', verifyAuthToken, controller.promoteGroupAdmin);
+
+/**
+ * POST /conversations/:conversationId/leave
+ * @summary Leave a group
+ * @tags conversations
+ * @security bearerAuth
+ * @param {string} conversationId.path.required - Group conversation ID
+ * @return {object} 200 - Left group
+ */
+conversation.post('/:conversationId/leave', verifyAuthToken, controller.leaveGroup);
+
 export default conversation;
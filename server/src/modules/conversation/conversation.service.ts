@@ -1,7 +1,8 @@
-import { Message, type Conversation } from '@prisma/client';
-import conversationRepository from './conversation.repository';
+import { Message, type Conversation, type ConversationParticipant, type ParticipantState, type PinnedMessage } from '@prisma/client';
+import conversationRepository, { type ConversationFilter, type ParticipantSettings } from './conversation.repository';
+import messageRepository from '@/modules/message/message.repository';
 import prisma from '@/lib/prisma';
-import { HttpBadRequestError, HttpNotFoundError, HttpForbiddenError } from '@/lib/errors';
+import { HttpBadRequestError, HttpConflictError, HttpNotFoundError, HttpForbiddenError } from '@/lib/errors';
 import logger from '@/lib/logger';
 import socketService from '@/lib/socket';
 import cacheService, { CacheKeys, CacheTTL } from '@/lib/cache';
@@ -13,6 +14,105 @@ const normalizeWaId = (waId: string): string => {
     return waId?.startsWith('91') ? waId.trim() : `91${waId?.trim()}`;
 };
 
+/**
+ * Maximum number of members in a group conversation (including the creator)
+ */
+export const MAX_GROUP_MEMBERS = 256;
+
+/**
+ * Maximum number of conversations a user can pin
+ */
+export const MAX_PINNED_CONVERSATIONS = 3;
+
+/**
+ * Disappearing messages timers a participant can choose, in seconds (null = off)
+ */
+export const MESSAGE_TIMERS = {
+    off: null,
+    '24h': 24 * 60 * 60,
+    '7d': 7 * 24 * 60 * 60,
+    '90d': 90 * 24 * 60 * 60,
+} as const;
+
+export type MessageTimerOption = keyof typeof MESSAGE_TIMERS;
+
+/**
+ * Maximum number of messages pinned in a conversation
+ */
+export const MAX_PINNED_MESSAGES = 3;
+
+/**
+ * How long a message can be pinned for, in seconds (unset = until unpinned)
+ */
+export const PIN_DURATIONS = {
+    '24h': 24 * 60 * 60,
+    '7d': 7 * 24 * 60 * 60,
+    '30d': 30 * 24 * 60 * 60,
+} as const;
+
+export type PinDurationOption = keyof typeof PIN_DURATIONS;
+
+/**
+ * How many times pinning re-reads the pins after losing to a concurrent change
+ */
+const PIN_UPDATE_ATTEMPTS = 3;
+
+/**
+ * How many times a membership change re-reads the group after losing to a concurrent change
+ */
+const MEMBERSHIP_UPDATE_ATTEMPTS = 3;
+
+// Pins that have not expired yet
+const activePins = (conversation: Conversation, now = Date.now()): PinnedMessage[] =>
+    (conversation.pinnedMessages ?? []).filter((pin) => pin.expiresAt == null || pin.expiresAt > now);
+
+const MESSAGE_TIMER_LABELS: Record<MessageTimerOption, string> = {
+    off: 'off',
+    '24h': '24 hours',
+    '7d': '7 days',
+    '90d': '90 days',
+};
+
+/**
+ * Conversation as listed for one participant, with that participant's own counters and settings
+ */
+export type ConversationWithState = Conversation & {
+    unreadCount: number;
+    lastReadMessageId: string | null;
+    lastReadAt: number | null;
+    lastDeliveredAt: number | null;
+    isArchived: boolean;
+    pinnedAt: Date | null;
+    mutedUntil: Date | null;
+    markedUnread: boolean;
+};
+
+/**
+ * Settings a participant can change on their own copy of a conversation
+ */
+export interface ConversationSettingsInput {
+    archived?: boolean;
+    pinned?: boolean;
+    /** Mute until this time; null unmutes */
+    mutedUntil?: Date | null;
+    markedUnread?: boolean;
+}
+
+/**
+ * Attach one participant's state to a conversation
+ */
+const withState = (conversation: Conversation, state?: ParticipantState): ConversationWithState => ({
+    ...conversation,
+    unreadCount: state?.unreadCount ?? 0,
+    lastReadMessageId: state?.lastReadMessageId ?? null,
+    lastReadAt: state?.lastReadAt ?? null,
+    lastDeliveredAt: state?.lastDeliveredAt ?? null,
+    isArchived: state?.isArchived ?? false,
+    pinnedAt: state?.pinnedAt ?? null,
+    mutedUntil: state?.mutedUntil ?? null,
+    markedUnread: state?.markedUnread ?? false,
+});
+
 export default class ConversationService {
     /**
      * Helper to invalidate user's conversation list cache
@@ -107,19 +207,22 @@ export default class ConversationService {
 
     /**
      * Get all conversations for a user with caching and pagination
+     * Only the first page of the default (`all`) view is cached
      */
     public async getConversations(
         waId: string,
         limit: number = 20,
-        cursor?: string
-    ): Promise<{ conversations: Conversation[]; nextCursor: string | null }> {
+        cursor?: string,
+        filter: ConversationFilter = 'all'
+    ): Promise<{ conversations: ConversationWithState[]; nextCursor: string | null }> {
         // Prepare cache key
         const cacheKey = CacheKeys.USER_CONVERSATIONS(waId);
+        const isCacheable = !cursor && filter === 'all';
 
         // Try to fetch from cache if requesting first page (no cursor)
-        if (!cursor) {
+        if (isCacheable) {
             const cached = await cacheService.get<{
-                conversations: Conversation[];
+                conversations: ConversationWithState[];
                 nextCursor: string | null;
             }>(cacheKey);
 
@@ -129,15 +232,25 @@ export default class ConversationService {
             }
         }
 
-        // Fetch from DB
-        const result = await conversationRepository.findByUserWaId(waId, limit, cursor);
+        // Fetch from DB, then attach the caller's own counters and settings
+        const page = await conversationRepository.findByUserWaId(waId, limit, cursor, filter);
+        const states = await conversationRepository.findParticipantStates(
+            page.conversations.map((c) => c.id),
+            waId
+        );
+        const result = {
+            conversations: page.conversations.map((conversation) =>
+                withState(conversation, states.get(conversation.id))
+            ),
+            nextCursor: page.nextCursor,
+        };
 
         logger.info(
-            `[getConversations] Found ${result.conversations.length} conversations for user ${waId} (DB)`
+            `[getConversations] Found ${result.conversations.length} ${filter} conversations for user ${waId} (DB)`
         );
 
         // Cache result if it's the first page
-        if (!cursor) {
+        if (isCacheable) {
             await cacheService.set(cacheKey, result, CacheTTL.USER_CONVERSATIONS);
             logger.debug(`[getConversations] Cache SET for user ${waId}`);
         }
@@ -220,14 +333,14 @@ export default class ConversationService {
             orderBy: { timestamp: 'desc' },
         });
 
-        // Reset unreadCount for the user (assuming repo method handles this)
-        await conversationRepository.markAsRead(conversationId);
+        // Reset the caller's unread count and move their read watermark (other participants keep theirs)
+        await conversationRepository.markAsRead(conversationId, waId, lastMsg);
 
         let lastMessageUpdated = false;
 
-        // If we found a last message, update the conversation's lastMessage snapshot
+        // If we found a last message, refresh the conversation's lastMessage snapshot (skips deleted messages)
         if (lastMsg) {
-            await conversationRepository.updateLastMessage(conversationId, lastMsg);
+            await messageRepository.refreshLastMessage(conversationId);
             lastMessageUpdated = true;
         }
 
@@ -275,6 +388,222 @@ export default class ConversationService {
         };
     }
 
+    /**
+     * Update the caller's own settings of a conversation (archive, pin, mute, marked unread)
+     * Other participants are not affected
+     */
+    public async updateSettings(
+        conversationId: string,
+        waId: string,
+        input: ConversationSettingsInput
+    ): Promise<ConversationWithState> {
+        const conversation = await conversationRepository.findById(conversationId);
+        if (!conversation) {
+            throw new HttpNotFoundError('Conversation not found');
+        }
+
+        const isParticipant = await conversationRepository.isParticipant(conversationId, waId);
+        if (!isParticipant) {
+            throw new HttpForbiddenError('You are not a participant in this conversation');
+        }
+
+        const [current] = (await conversationRepository.findParticipantStates([conversationId], waId)).values();
+        const settings: ParticipantSettings = {};
+
+        if (input.archived !== undefined) {
+            settings.isArchived = input.archived;
+            // Archived chats leave the pinned section
+            if (input.archived) settings.pinnedAt = null;
+        }
+
+        if (input.pinned === false) {
+            settings.pinnedAt = null;
+        } else if (input.pinned && !current?.pinnedAt) {
+            if (settings.isArchived ?? current?.isArchived) {
+                throw new HttpBadRequestError('Archived conversations cannot be pinned', [
+                    'Unarchive the conversation before pinning it',
+                ]);
+            }
+
+            const pinnedCount = await conversationRepository.countPinned(waId);
+            if (pinnedCount >= MAX_PINNED_CONVERSATIONS) {
+                throw new HttpConflictError(
+                    `You can only pin up to ${MAX_PINNED_CONVERSATIONS} conversations`
+                );
+            }
+            settings.pinnedAt = new Date();
+        }
+
+        if (input.mutedUntil !== undefined) {
+            settings.mutedUntil = input.mutedUntil;
+        }
+
+        if (input.markedUnread !== undefined) {
+            settings.markedUnread = input.markedUnread;
+        }
+
+        const state = await conversationRepository.updateParticipantSettings(conversationId, waId, settings);
+        const result = withState(conversation, state);
+
+        await this.invalidateUserCache(waId);
+
+        // Only the caller's own devices see the change
+        socketService.emitConversationUpdated(conversationId, result, [waId]);
+
+        logger.info(`[updateSettings] ${waId} updated settings of conversation ${conversationId}`);
+
+        return result;
+    }
+
+    /**
+     * Set the disappearing messages timer of a conversation (any participant can)
+     * Only messages sent afterwards disappear; a system message announces the change
+     */
+    public async setMessageTimer(
+        conversationId: string,
+        waId: string,
+        timer: MessageTimerOption
+    ): Promise<{ conversation: Conversation; message: Message | null }> {
+        const conversation = await conversationRepository.findById(conversationId);
+        if (!conversation) {
+            throw new HttpNotFoundError('Conversation not found');
+        }
+
+        const actor = conversation.participants.find((p) => p.waId === normalizeWaId(waId));
+        if (!actor) {
+            throw new HttpForbiddenError('You are not a participant in this conversation');
+        }
+
+        const messageTimer = MESSAGE_TIMERS[timer];
+        if ((conversation.messageTimer ?? null) === messageTimer) {
+            return { conversation, message: null };
+        }
+
+        await conversationRepository.updateMessageTimer(conversation.id, messageTimer);
+
+        // Addressed like any other message in the conversation
+        const to = conversation.type === 'group'
+            ? conversation.id
+            : conversation.participants.find((p) => p.waId !== actor.waId)?.waId ?? actor.waId;
+        const actorName = actor.name || `User ${actor.waId}`;
+        const { message, conversation: updated } = await messageRepository.createInConversation({
+            conversationId: conversation.id,
+            from: actor.waId,
+            to,
+            text: messageTimer
+                ? `${actorName} turned on disappearing messages. New messages will disappear from this chat ${MESSAGE_TIMER_LABELS[timer]} after they are sent.`
+                : `${actorName} turned off disappearing messages.`,
+            timestamp: Date.now(),
+            type: 'system',
+            senderName: actorName,
+        });
+
+        const participants = updated.participants.map((p) => p.waId);
+
+        await cacheService.invalidateMessageCaches(conversation.id);
+        await cacheService.invalidateConversationCaches(conversation.id, participants);
+
+        socketService.emitMessageCreated(conversation.id, { message, conversationId: conversation.id }, participants);
+        socketService.emitConversationUpdated(conversation.id, updated, participants);
+
+        logger.info(`[setMessageTimer] ${actor.waId} set the message timer of ${conversation.id} to ${timer}`);
+
+        return { conversation: updated, message };
+    }
+
+    /**
+     * Pinned messages of a conversation, oldest pin first
+     */
+    public async getPinnedMessages(conversationId: string, waId: string): Promise<PinnedMessage[]> {
+        const conversation = await this.getForParticipant(conversationId, waId);
+        return activePins(conversation);
+    }
+
+    /**
+     * Pin a message (any participant can), optionally until a duration has passed
+     * Pinning an already pinned message only renews its expiry
+     */
+    public async pinMessage(
+        conversationId: string,
+        messageId: string,
+        waId: string,
+        duration?: PinDurationOption
+    ): Promise<PinnedMessage[]> {
+        const conversation = await this.getForParticipant(conversationId, waId);
+
+        const message = await messageRepository.findByIdOrClientId(messageId);
+        if (!message || message.conversationId !== conversation.id || message.deletedAt) {
+            throw new HttpNotFoundError('Message not found');
+        }
+
+        if (message.type === 'system') {
+            throw new HttpBadRequestError('Cannot pin message', ['Conversation events cannot be pinned']);
+        }
+
+        const pinnedId = message.clientMessageId ?? message.id;
+
+        // The new list is written only over the one it was computed from, so a concurrent
+        // pin or unpin is never overwritten and the limit holds
+        let current = conversation;
+        for (let attempt = 1; attempt <= PIN_UPDATE_ATTEMPTS; attempt++) {
+            const now = Date.now();
+            const pins = activePins(current, now).filter((pin) => pin.messageId !== pinnedId);
+            if (pins.length >= MAX_PINNED_MESSAGES) {
+                throw new HttpConflictError('Pin limit reached', [
+                    `At most ${MAX_PINNED_MESSAGES} messages can be pinned; unpin one first`,
+                ]);
+            }
+
+            pins.push({
+                messageId: pinnedId,
+                from: message.from,
+                text: (message.text || message.attachment?.fileName || '').slice(0, 200),
+                type: message.type,
+                pinnedBy: normalizeWaId(waId),
+                pinnedAt: now,
+                expiresAt: duration ? now + PIN_DURATIONS[duration] * 1000 : null,
+            });
+
+            const updated = await conversationRepository.replacePinnedMessages(current.id, current.pinnedMessages, pins);
+            if (updated) {
+                await this.notifyPinsChanged(updated);
+                logger.info(`[pinMessage] ${waId} pinned ${pinnedId} in ${current.id} (${duration ?? 'no expiry'})`);
+                return pins;
+            }
+
+            current = await this.getForParticipant(conversationId, waId);
+        }
+
+        throw new HttpConflictError('Pinned messages changed', [
+            'The pinned messages were changed at the same time; try again',
+        ]);
+    }
+
+    /**
+     * Unpin a message (any participant can)
+     */
+    public async unpinMessage(conversationId: string, messageId: string, waId: string): Promise<PinnedMessage[]> {
+        const conversation = await this.getForParticipant(conversationId, waId);
+
+        // Pins are keyed by the id clients use, which may differ from the database id
+        const message = await messageRepository.findByIdOrClientId(messageId);
+        const pinnedIds = new Set(
+            [messageId, message?.id, message?.clientMessageId].filter((id): id is string => Boolean(id))
+        );
+
+        if (!activePins(conversation).some((pin) => pinnedIds.has(pin.messageId))) {
+            throw new HttpNotFoundError('Message is not pinned');
+        }
+
+        // Removed in place, so pins changed meanwhile are kept
+        const updated = await conversationRepository.removePinnedMessages(conversation.id, [...pinnedIds]);
+        await this.notifyPinsChanged(updated);
+
+        logger.info(`[unpinMessage] ${waId} unpinned ${messageId} in ${conversation.id}`);
+
+        return activePins(updated);
+    }
+
     /**
      * Delete conversation (soft or hard delete)
      */
@@ -304,26 +633,33 @@ export default class ConversationService {
             );
         }
 
-        let result: Conversation;
         const participants = conversation.participants.map(p => p.waId);
 
-        if (deleteType === 'soft') {
-            // Archive conversation
-            result = await conversationRepository.archive(conversationId);
+        // Only admins may wipe a group for everyone; a regular member just archives it for themselves
+        const canHardDelete =
+            conversation.type !== 'group' ||
+            conversation.participants.find((p) => p.waId === normalizeWaId(waId))?.role === 'admin';
+
+        if (deleteType === 'soft' || !canHardDelete) {
+            // Archive the conversation for the caller only
+            const state = await conversationRepository.updateParticipantSettings(conversationId, waId, {
+                isArchived: true,
+                pinnedAt: null,
+            });
+            const archived = withState(conversation, state);
 
             // Emit socket event
-            socketService.emitConversationUpdated(conversationId, result, participants);
+            socketService.emitConversationUpdated(conversationId, archived, [waId]);
 
-            logger.info(`[deleteConversation] Archived conversation: ${conversationId}`);
+            logger.info(`[deleteConversation] ${waId} archived conversation: ${conversationId}`);
 
-            // Invalidate cache for ALL participants (since archive is shared)
-            await Promise.all(participants.map(p => this.invalidateUserCache(p)));
+            await this.invalidateUserCache(waId);
 
             return {
                 conversationId,
                 deleteType: 'soft',
                 deletedAt: new Date(),
-                conversation: result,
+                conversation: archived,
             };
         } else {
             // Hard delete: Delete all messages first
@@ -336,7 +672,7 @@ export default class ConversationService {
             );
 
             // Delete conversation
-            result = await conversationRepository.delete(conversationId);
+            await conversationRepository.delete(conversationId);
 
             // Emit socket event
             socketService.emitConversationDeleted(conversationId, {
@@ -359,4 +695,332 @@ export default class ConversationService {
             };
         }
     }
+
+    // ============================================
+    // GROUP CONVERSATIONS
+    // ============================================
+
+    /**
+     * Create a group conversation; the creator becomes its first admin
+     */
+    public async createGroup(
+        creatorWaId: string,
+        data: {
+            name: string;
+            description?: string;
+            avatar?: string;
+            members: string[];
+        }
+    ): Promise<Conversation> {
+        const creatorId = normalizeWaId(creatorWaId);
+        const memberIds = [...new Set(data.members.map(normalizeWaId))].filter(
+            (id) => id !== creatorId
+        );
+
+        if (memberIds.length === 0) {
+            throw new HttpBadRequestError('A group needs at least one other member', [
+                'members must contain at least one waId other than your own',
+            ]);
+        }
+
+        if (memberIds.length + 1 > MAX_GROUP_MEMBERS) {
+            throw new HttpBadRequestError('Too many group members', [
+                `A group can have at most ${MAX_GROUP_MEMBERS} members`,
+            ]);
+        }
+
+        const users = await conversationRepository.findUsersByWaIds([creatorId, ...memberIds]);
+        const foundIds = users.map((u) => u.waId);
+        const missingIds = [creatorId, ...memberIds].filter((id) => !foundIds.includes(id));
+        if (missingIds.length > 0) {
+            throw new HttpNotFoundError(`User(s) not found: ${missingIds.join(', ')}`);
+        }
+
+        const joinedAt = new Date();
+        const participants: ConversationParticipant[] = users.map((user) => ({
+            waId: user.waId,
+            name: user.name || `User ${user.waId}`,
+            profilePicture: user.profilePicture,
+            role: user.waId === creatorId ? 'admin' : 'member',
+            joinedAt,
+        }));
+
+        const group = await conversationRepository.createGroup({
+            name: data.name,
+            description: data.description,
+            avatar: data.avatar,
+            createdBy: creatorId,
+            participants,
+        });
+
+        logger.info(`[createGroup] created group ${group.id} by ${creatorId} with ${participants.length} members`);
+
+        await this.notifyGroupChanged(group, []);
+
+        return group;
+    }
+
+    /**
+     * Add members to a group (admins only)
+     */
+    public async addGroupMembers(
+        conversationId: string,
+        actorWaId: string,
+        waIds: string[]
+    ): Promise<Conversation> {
+        let newIds: string[] = [];
+        const { group: updated } = await this.changeGroupMembers(
+            () => this.getGroupForAdmin(conversationId, actorWaId),
+            async (group) => {
+                const existingIds = group.participants.map((p) => p.waId);
+                newIds = [...new Set(waIds.map(normalizeWaId))].filter((id) => !existingIds.includes(id));
+
+                if (newIds.length === 0) {
+                    throw new HttpBadRequestError('No new members to add', [
+                        'All given users are already members of this group',
+                    ]);
+                }
+
+                if (existingIds.length + newIds.length > MAX_GROUP_MEMBERS) {
+                    throw new HttpBadRequestError('Too many group members', [
+                        `A group can have at most ${MAX_GROUP_MEMBERS} members`,
+                    ]);
+                }
+
+                const users = await conversationRepository.findUsersByWaIds(newIds);
+                if (users.length !== newIds.length) {
+                    const foundIds = users.map((u) => u.waId);
+                    const missingIds = newIds.filter((id) => !foundIds.includes(id));
+                    throw new HttpNotFoundError(`User(s) not found: ${missingIds.join(', ')}`);
+                }
+
+                const joinedAt = new Date();
+                return [
+                    ...group.participants,
+                    ...users.map((user) => ({
+                        waId: user.waId,
+                        name: user.name || `User ${user.waId}`,
+                        profilePicture: user.profilePicture,
+                        role: 'member' as const,
+                        joinedAt,
+                    })),
+                ];
+            }
+        );
+
+        logger.info(`[addGroupMembers] ${actorWaId} added ${newIds.join(',')} to group ${updated.id}`);
+
+        await this.notifyGroupChanged(updated, []);
+
+        return updated;
+    }
+
+    /**
+     * Remove a member from a group (admins only; the creator cannot be removed)
+     */
+    public async removeGroupMember(
+        conversationId: string,
+        actorWaId: string,
+        memberWaId: string
+    ): Promise<Conversation> {
+        const memberId = normalizeWaId(memberWaId);
+
+        const { group: updated } = await this.changeGroupMembers(
+            () => this.getGroupForAdmin(conversationId, actorWaId),
+            async (group) => {
+                if (!group.participants.some((p) => p.waId === memberId)) {
+                    throw new HttpNotFoundError('Member not found in this group');
+                }
+
+                if (memberId === group.createdBy) {
+                    throw new HttpForbiddenError('The group creator cannot be removed');
+                }
+
+                if (memberId === normalizeWaId(actorWaId)) {
+                    throw new HttpBadRequestError('Use leave to exit a group', [
+                        'Admins cannot remove themselves; leave the group instead',
+                    ]);
+                }
+
+                return group.participants.filter((p) => p.waId !== memberId);
+            }
+        );
+
+        logger.info(`[removeGroupMember] ${actorWaId} removed ${memberId} from group ${updated.id}`);
+
+        await this.notifyGroupChanged(updated, [memberId]);
+
+        return updated;
+    }
+
+    /**
+     * Promote a group member to admin (admins only)
+     */
+    public async promoteGroupAdmin(
+        conversationId: string,
+        actorWaId: string,
+        memberWaId: string
+    ): Promise<Conversation> {
+        const memberId = normalizeWaId(memberWaId);
+
+        const { group: updated, changed } = await this.changeGroupMembers(
+            () => this.getGroupForAdmin(conversationId, actorWaId),
+            async (group) => {
+                const member = group.participants.find((p) => p.waId === memberId);
+                if (!member) {
+                    throw new HttpNotFoundError('Member not found in this group');
+                }
+
+                if (member.role === 'admin') {
+                    return null;
+                }
+
+                return group.participants.map((p) => (p.waId === memberId ? { ...p, role: 'admin' as const } : p));
+            }
+        );
+
+        if (!changed) {
+            return updated;
+        }
+
+        logger.info(`[promoteGroupAdmin] ${actorWaId} promoted ${memberId} in group ${updated.id}`);
+
+        await this.notifyGroupChanged(updated, []);
+
+        return updated;
+    }
+
+    /**
+     * Leave a group. If the last admin leaves, the longest-standing member is promoted
+     */
+    public async leaveGroup(conversationId: string, waId: string): Promise<Conversation> {
+        const leaverId = normalizeWaId(waId);
+
+        const { group: updated } = await this.changeGroupMembers(
+            () => this.getGroup(conversationId, waId),
+            async (group) => {
+                const remaining = group.participants.filter((p) => p.waId !== leaverId);
+                if (remaining.length === 0 || remaining.some((p) => p.role === 'admin')) {
+                    return remaining;
+                }
+
+                const [successor] = [...remaining].sort(
+                    (a, b) => (a.joinedAt?.getTime() ?? 0) - (b.joinedAt?.getTime() ?? 0)
+                );
+                logger.info(`[leaveGroup] promoting ${successor!.waId} as the last admin leaves group ${group.id}`);
+                return remaining.map((p) => (p.waId === successor!.waId ? { ...p, role: 'admin' as const } : p));
+            }
+        );
+
+        logger.info(`[leaveGroup] ${leaverId} left group ${updated.id}`);
+
+        await this.notifyGroupChanged(updated, [leaverId]);
+
+        return updated;
+    }
+
+    /**
+     * Write the member list `change` computes from the group as `load` returns it. The list is
+     * written only over the one it was computed from, so concurrent membership changes are never
+     * lost; on a conflict the group is loaded (and permissions checked) again. A null change means
+     * there is nothing to write
+     */
+    private async changeGroupMembers(
+        load: () => Promise<Conversation>,
+        change: (group: Conversation) => Promise<ConversationParticipant[] | null>
+    ): Promise<{ group: Conversation; changed: boolean }> {
+        for (let attempt = 1; attempt <= MEMBERSHIP_UPDATE_ATTEMPTS; attempt++) {
+            const group = await load();
+            const participants = await change(group);
+            if (!participants) {
+                return { group, changed: false };
+            }
+
+            const updated = await conversationRepository.replaceParticipants(
+                group.id,
+                group.participants,
+                participants
+            );
+            if (updated) {
+                return { group: updated, changed: true };
+            }
+        }
+
+        throw new HttpConflictError('Group members changed', [
+            'The group members were changed at the same time; try again',
+        ]);
+    }
+
+    /**
+     * Load a conversation and verify the user is a participant
+     */
+    private async getForParticipant(conversationId: string, waId: string): Promise<Conversation> {
+        const conversation = await conversationRepository.findById(conversationId);
+        if (!conversation) {
+            throw new HttpNotFoundError('Conversation not found');
+        }
+
+        if (!conversation.participants.some((p) => p.waId === normalizeWaId(waId))) {
+            throw new HttpForbiddenError('You are not a participant in this conversation');
+        }
+
+        return conversation;
+    }
+
+    /**
+     * Load a group conversation and verify the user is a member
+     */
+    private async getGroup(conversationId: string, waId: string): Promise<Conversation> {
+        const group = await conversationRepository.findById(conversationId);
+        if (!group || group.type !== 'group') {
+            throw new HttpNotFoundError('Group not found');
+        }
+
+        if (!group.participants.some((p) => p.waId === normalizeWaId(waId))) {
+            throw new HttpForbiddenError('You are not a member of this group');
+        }
+
+        return group;
+    }
+
+    /**
+     * Load a group conversation and verify the user is one of its admins
+     */
+    private async getGroupForAdmin(conversationId: string, waId: string): Promise<Conversation> {
+        const group = await this.getGroup(conversationId, waId);
+
+        const actor = group.participants.find((p) => p.waId === normalizeWaId(waId));
+        if (actor?.role !== 'admin') {
+            throw new HttpForbiddenError('Only group admins can do this');
+        }
+
+        return group;
+    }
+
+    /**
+     * Invalidate caches and emit conversation:updated to current members and any removed ones
+     */
+    private async notifyGroupChanged(group: Conversation, removedWaIds: string[]): Promise<void> {
+        const recipients = [...group.participants.map((p) => p.waId), ...removedWaIds];
+
+        await cacheService.invalidateConversationCaches(group.id, recipients);
+
+        socketService.emitConversationUpdated(group.id, group, recipients);
+
+        // Former members must stop receiving the group's room broadcasts
+        if (removedWaIds.length > 0) {
+            socketService.leaveConversationRoom(group.id, removedWaIds);
+        }
+    }
+
+    /**
+     * Invalidate cached lists (they carry the pins) and emit message:pins-updated to participants
+     */
+    private async notifyPinsChanged(conversation: Conversation): Promise<void> {
+        const participants = conversation.participants.map((p) => p.waId);
+
+        await cacheService.invalidateConversationCaches(conversation.id, participants);
+
+        socketService.emitMessagePinsUpdated(conversation.id, activePins(conversation), participants);
+    }
 }
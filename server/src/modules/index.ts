@@ -5,6 +5,9 @@ import message from './message/message.route';
 import conversation from './conversation/conversation.route';
 import contact from './contact/contact.route';
 import user from './user/user.route';
+import media from './media/media.route';
+import scheduledMessage from './scheduled-message/scheduled-message.route';
+import report from './report/report.route';
 import customers from './customers/customer.route';
 
 const router: Router = Router();
@@ -14,6 +17,9 @@ router.use('/messages', message);
 router.use('/conversations', conversation);
 router.use('/contacts', contact);
 router.use('/users', user);
+router.use('/media', media);
+router.use('/scheduled-messages', scheduledMessage);
+router.use('/reports', report);
 
 // --- Assignment: Customer Search & Orders ---
 router.use('/customers', customers);
@@ -0,0 +1,104 @@
+import { type NextFunction, type Response } from 'express';
+import { HttpStatusCode } from 'axios';
+import { pipeline } from 'stream/promises';
+import MediaService from './media.service';
+import { type CustomResponse } from '@/types/common.type';
+import { type AuthRequest } from '@/types/auth.type';
+import Api from '@/lib/api';
+
+// Shown in the browser; everything else is downloaded
+const INLINE_MIME_PREFIXES = ['image/', 'audio/', 'video/'];
+
+/**
+ * Controller for media upload and download endpoints
+ */
+export default class MediaController extends Api {
+    private readonly mediaService = new MediaService();
+
+    /**
+     * POST / - Upload a file to a conversation
+     */
+    public upload = async (
+        req: AuthRequest,
+        res: CustomResponse<any>,
+        next: NextFunction
+    ) => {
+        try {
+            const { conversationId, width, height, duration, blurhash, waveform } = req.body;
+            const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+
+            const media = await this.mediaService.upload(
+                {
+                    file: files?.file?.[0],
+                    thumbnail: files?.thumbnail?.[0],
+                },
+                {
+                    conversationId,
+                    width: width ? Number(width) : undefined,
+                    height: height ? Number(height) : undefined,
+                    duration: duration ? Number(duration) : undefined,
+                    blurhash: blurhash || undefined,
+                    waveform: waveform ? String(waveform).split(',').map(Number) : undefined,
+                },
+                {
+                    userWaId: req.user!.waId,
+                }
+            );
+
+            this.send(res, media, HttpStatusCode.Created, 'Media uploaded successfully');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * GET /:mediaId - Stream a file (or with ?variant=thumbnail, its preview) to a conversation participant
+     */
+    public downloadMedia = async (
+        req: AuthRequest,
+        res: Response,
+        next: NextFunction
+    ) => {
+        try {
+            const { mediaId } = req.params;
+            const variant = req.query.variant === 'thumbnail' ? 'thumbnail' : 'original';
+
+            const { media, file, stream } = await this.mediaService.getDownload(mediaId, variant, {
+                userWaId: req.user!.waId,
+            });
+
+            // Content is immutable; the checksum doubles as the ETag
+            const etag = `"${file.checksum}"`;
+            res.setHeader('ETag', etag);
+            res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+            // The client app is served from another origin
+            res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+
+            if (req.headers['if-none-match'] === etag) {
+                stream.destroy();
+                res.status(HttpStatusCode.NotModified).end();
+                return;
+            }
+
+            const disposition = INLINE_MIME_PREFIXES.some((prefix) => file.mimeType.startsWith(prefix))
+                ? 'inline'
+                : 'attachment';
+
+            res.setHeader('Content-Type', file.mimeType);
+            res.setHeader('Content-Length', file.size);
+            res.setHeader('X-Content-Type-Options', 'nosniff');
+            res.setHeader(
+                'Content-Disposition',
+                `${disposition}; filename*=UTF-8''${encodeURIComponent(media.fileName)}`
+            );
+
+            await pipeline(stream, res);
+        } catch (e) {
+            if (res.headersSent) {
+                res.destroy(e as Error);
+                return;
+            }
+            next(e);
+        }
+    };
+}
@@ -0,0 +1,59 @@
+import { type Media, type Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+
+/**
+ * Repository for uploaded media metadata
+ */
+export class MediaRepository {
+    /**
+     * Records an uploaded file
+     */
+    public async create(data: Prisma.MediaUncheckedCreateInput): Promise<Media> {
+        return prisma.media.create({ data });
+    }
+
+    /**
+     * Finds media by id (ignores ids that are not ObjectIds)
+     */
+    public async findById(mediaId: string): Promise<Media | null> {
+        if (!/^[a-f\d]{24}$/i.test(mediaId)) return null;
+
+        return prisma.media.findUnique({
+            where: { id: mediaId },
+        });
+    }
+
+    /**
+     * Lets the participants of another conversation download the file
+     */
+    public async addSharedConversation(mediaId: string, conversationId: string): Promise<Media> {
+        return prisma.media.update({
+            where: { id: mediaId },
+            data: { sharedWith: { push: conversationId } },
+        });
+    }
+
+    /**
+     * Whether a message or a scheduled message that is yet to be sent still uses the file
+     */
+    public async isReferenced(mediaId: string): Promise<boolean> {
+        const [messages, schedules] = await Promise.all([
+            prisma.message.count({ where: { attachment: { is: { mediaId } } } }),
+            prisma.scheduledMessage.count({
+                where: { attachmentId: mediaId, status: { in: ['pending', 'sending'] } },
+            }),
+        ]);
+        return messages + schedules > 0;
+    }
+
+    /**
+     * Deletes the metadata of an uploaded file
+     */
+    public async delete(mediaId: string): Promise<void> {
+        await prisma.media.delete({
+            where: { id: mediaId },
+        });
+    }
+}
+
+export default new MediaRepository();
@@ -0,0 +1,78 @@
+import { Router } from 'express';
+import Controller from './media.controller';
+import { verifyAuthToken } from '@/middlewares/auth';
+import RequestValidator from '@/middlewares/request-validator';
+import { messageLimiter } from '@/middlewares/rate-limiter';
+import { fileUpload } from '@/middlewares/upload';
+import { UploadMediaDto } from '@/dto/media.dto';
+
+const media: Router = Router();
+const controller = new Controller();
+
+// All media routes require authentication
+media.use(verifyAuthToken);
+
+/**
+ * Uploaded media
+ * @typedef {object} Media
+ * @property {string} id - Media ID (use as attachmentId when sending the message)
+ * @property {string} conversationId - Conversation the file was uploaded to
+ * @property {string} uploadedBy - Uploader waId
+ * @property {string} fileName - Original file name
+ * @property {string} mimeType - Mime type
+ * @property {number} size - Size in bytes
+ * @property {number} width - Image/video width in pixels
+ * @property {number} height - Image/video height in pixels
+ * @property {number} duration - Audio/video duration in seconds
+ * @property {string} checksum - SHA-256 of the file (hex)
+ * @property {string} blurhash - Image placeholder
+ * @property {array<number>} waveform - Voice note amplitude bars (0-100)
+ * @property {string} thumbnailKey - Set when a thumbnail was uploaded
+ * @property {string} url - Download path, relative to the API base
+ */
+
+/**
+ * Upload body (multipart/form-data)
+ * @typedef {object} UploadMediaBody
+ * @property {string} file.required - The file - binary
+ * @property {string} conversationId.required - Conversation the file is sent to
+ * @property {number} width - Image/video width in pixels
+ * @property {number} height - Image/video height in pixels
+ * @property {number} duration - Audio/video duration in seconds
+ * @property {string} thumbnail - Preview of an image or video (JPEG, PNG or WebP) - binary
+ * @property {string} blurhash - Image placeholder
+ * @property {string} waveform - Voice note amplitude bars, comma-separated (0-100)
+ */
+
+/**
+ * POST /media
+ * @summary Upload a file to a conversation (participants only)
+ * @tags media
+ * @security bearerAuth
+ * @param {UploadMediaBody} request.body.required - multipart/form-data
+ * @return {Media} 201 - Media uploaded successfully
+ * @return {object} 400 - Missing, oversized or unsupported file
+ * @return {object} 403 - Not a participant of the conversation
+ */
+media.post(
+    '/',
+    messageLimiter,
+    fileUpload(['file', 'thumbnail']),
+    RequestValidator.validate(UploadMediaDto),
+    controller.upload
+);
+
+/**
+ * GET /media/:mediaId
+ * @summary Download a file (participants of its conversation only)
+ * @tags media
+ * @security bearerAuth
+ * @param {string} mediaId.path.required - Media ID
+ * @param {string} variant.query - thumbnail for the preview (falls back to the file)
+ * @return {string} 200 - The file
+ * @return {object} 403 - Not a participant of the conversation
+ * @return {object} 404 - Media not found
+ */
+media.get('/:mediaId', controller.downloadMedia);
+
+export default media;
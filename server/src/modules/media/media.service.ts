@@ -0,0 +1,246 @@
+import crypto from 'crypto';
+import { type Readable } from 'stream';
+import { type Media, type MessageAttachment, type MessageType } from '@prisma/client';
+import mediaRepository from './media.repository';
+import conversationRepository from '@/modules/conversation/conversation.repository';
+import storage from '@/lib/storage';
+import { HttpBadRequestError, HttpForbiddenError, HttpNotFoundError } from '@/lib/errors';
+import logger from '@/lib/logger';
+
+/**
+ * Mime types accepted for upload
+ */
+const ALLOWED_MIME_TYPES = new Set([
+    'image/jpeg',
+    'image/png',
+    'image/gif',
+    'image/webp',
+    'audio/mpeg',
+    'audio/mp4',
+    'audio/aac',
+    'audio/ogg',
+    'audio/webm',
+    'audio/wav',
+    'video/mp4',
+    'video/webm',
+    'video/quicktime',
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/zip',
+    'text/plain',
+]);
+
+// Previews uploaded next to images and videos
+const THUMBNAIL_MIME_TYPES = new Set(['image/jpeg', 'image/png', 'image/webp']);
+
+export interface MediaServiceOptions {
+    userWaId: string;
+}
+
+export type UploadedMedia = Media & { url: string };
+
+/**
+ * Message type implied by an attachment's mime type
+ */
+export function messageTypeForMime(mimeType: string): MessageType {
+    if (mimeType.startsWith('image/')) return 'image';
+    if (mimeType.startsWith('audio/')) return 'audio';
+    if (mimeType.startsWith('video/')) return 'video';
+    return 'document';
+}
+
+/**
+ * Service layer for media uploads and participant-only downloads
+ */
+export default class MediaService {
+    /**
+     * Stores an uploaded file for a conversation the uploader belongs to
+     */
+    public async upload(
+        files: { file?: Express.Multer.File; thumbnail?: Express.Multer.File },
+        data: {
+            conversationId: string;
+            width?: number;
+            height?: number;
+            duration?: number;
+            blurhash?: string;
+            waveform?: number[];
+        },
+        options: MediaServiceOptions
+    ): Promise<UploadedMedia> {
+        const { file, thumbnail } = files;
+        if (!file) {
+            throw new HttpBadRequestError('File is required', ['Send the file in the "file" field']);
+        }
+
+        // Drop parameters such as "; codecs=opus"
+        const mimeType = file.mimetype.split(';')[0].trim().toLowerCase();
+        if (!ALLOWED_MIME_TYPES.has(mimeType)) {
+            throw new HttpBadRequestError('Unsupported file type', [`${mimeType} files cannot be sent`]);
+        }
+
+        const thumbnailMimeType = thumbnail?.mimetype.split(';')[0].trim().toLowerCase();
+        if (thumbnail) {
+            const type = messageTypeForMime(mimeType);
+            if ((type !== 'image' && type !== 'video') || !THUMBNAIL_MIME_TYPES.has(thumbnailMimeType!)) {
+                throw new HttpBadRequestError('Invalid thumbnail', [
+                    'Thumbnails are JPEG, PNG or WebP images sent with an image or video',
+                ]);
+            }
+        }
+
+        await this.assertParticipant(data.conversationId, options.userWaId);
+
+        const checksum = crypto.createHash('sha256').update(file.buffer).digest('hex');
+        const storageKey = `${data.conversationId}/${crypto.randomUUID()}`;
+
+        await storage.put(storageKey, file.buffer, mimeType);
+        if (thumbnail) {
+            await storage.put(`${storageKey}-thumbnail`, thumbnail.buffer, thumbnailMimeType!);
+        }
+
+        const media = await mediaRepository.create({
+            conversationId: data.conversationId,
+            uploadedBy: options.userWaId,
+            storageDriver: storage.name,
+            storageKey,
+            fileName: file.originalname.slice(0, 255),
+            mimeType,
+            size: file.size,
+            width: data.width,
+            height: data.height,
+            duration: data.duration,
+            checksum,
+            blurhash: data.blurhash,
+            waveform: data.waveform?.map((value) => Math.min(value, 100)) ?? [],
+            thumbnailKey: thumbnail ? `${storageKey}-thumbnail` : undefined,
+            thumbnailMimeType,
+            thumbnailSize: thumbnail?.size,
+        });
+
+        logger.info(`Media ${media.id} (${mimeType}, ${file.size} bytes) uploaded by ${options.userWaId}`);
+
+        return { ...media, url: `/media/${media.id}` };
+    }
+
+    /**
+     * Opens an uploaded file (or its thumbnail, falling back to the file) for download
+     * Conversation participants only
+     */
+    public async getDownload(
+        mediaId: string,
+        variant: 'original' | 'thumbnail',
+        options: MediaServiceOptions
+    ): Promise<{ media: Media; file: { mimeType: string; size: number; checksum: string }; stream: Readable }> {
+        const media = await mediaRepository.findById(mediaId);
+        if (!media) {
+            throw new HttpNotFoundError('Media not found');
+        }
+
+        await this.assertCanDownload(media, options.userWaId);
+
+        const useThumbnail = variant === 'thumbnail' && Boolean(media.thumbnailKey);
+        const file = useThumbnail
+            ? { mimeType: media.thumbnailMimeType!, size: media.thumbnailSize!, checksum: `${media.checksum}-thumbnail` }
+            : { mimeType: media.mimeType, size: media.size, checksum: media.checksum };
+
+        try {
+            const stream = await storage.createReadStream(useThumbnail ? media.thumbnailKey! : media.storageKey);
+            return { media, file, stream };
+        } catch (error) {
+            logger.error(`Media ${media.id} is missing from ${media.storageDriver} storage:`, error);
+            throw new HttpNotFoundError('Media not found', ['The file is no longer available']);
+        }
+    }
+
+    /**
+     * Attachment metadata for a message, copied from media the sender uploaded to the same conversation
+     */
+    public async getAttachment(
+        mediaId: string,
+        conversationId: string,
+        senderWaId: string
+    ): Promise<MessageAttachment> {
+        const media = await mediaRepository.findById(mediaId);
+        if (!media || media.conversationId !== conversationId || media.uploadedBy !== senderWaId) {
+            throw new HttpBadRequestError('Invalid attachment', [
+                'The attachment was not uploaded by you to this conversation',
+            ]);
+        }
+
+        return {
+            mediaId: media.id,
+            fileName: media.fileName,
+            mimeType: media.mimeType,
+            size: media.size,
+            width: media.width,
+            height: media.height,
+            duration: media.duration,
+            checksum: media.checksum,
+            blurhash: media.blurhash,
+            waveform: media.waveform,
+            hasThumbnail: Boolean(media.thumbnailKey),
+        };
+    }
+
+    /**
+     * Makes a forwarded attachment downloadable in the conversation it is forwarded to
+     */
+    public async shareAttachment(attachment: MessageAttachment, conversationId: string): Promise<void> {
+        const media = await mediaRepository.findById(attachment.mediaId);
+        if (!media) {
+            throw new HttpBadRequestError('Invalid attachment', ['The forwarded file is no longer available']);
+        }
+
+        if (media.conversationId === conversationId || media.sharedWith?.includes(conversationId)) return;
+
+        await mediaRepository.addSharedConversation(media.id, conversationId);
+    }
+
+    /**
+     * Deletes files, and their thumbnails, that no message uses any more
+     * Called once the messages carrying them expired or were deleted for everyone
+     */
+    public async releaseAttachments(mediaIds: string[]): Promise<void> {
+        for (const mediaId of new Set(mediaIds)) {
+            const media = await mediaRepository.findById(mediaId);
+            if (!media || (await mediaRepository.isReferenced(media.id))) continue;
+
+            // The record goes first so the file can no longer be downloaded
+            await mediaRepository.delete(media.id);
+
+            const keys = media.thumbnailKey ? [media.storageKey, media.thumbnailKey] : [media.storageKey];
+            try {
+                await Promise.all(keys.map((key) => storage.delete(key)));
+            } catch (error) {
+                logger.error(`Failed to delete media ${media.id} from ${media.storageDriver} storage:`, error);
+            }
+
+            logger.info(`Deleted media ${media.id}, no message uses it any more`);
+        }
+    }
+
+    // Participants of the conversation it was uploaded to, or of one it was forwarded to
+    private async assertCanDownload(media: Media, waId: string): Promise<void> {
+        const conversationIds = [media.conversationId, ...(media.sharedWith ?? [])];
+        for (const conversationId of conversationIds) {
+            if (await conversationRepository.isParticipant(conversationId, waId)) return;
+        }
+
+        throw new HttpForbiddenError('Access denied', [
+            'You are not a participant in this conversation',
+        ]);
+    }
+
+    private async assertParticipant(conversationId: string, waId: string): Promise<void> {
+        const isParticipant = await conversationRepository.isParticipant(conversationId, waId);
+        if (!isParticipant) {
+            throw new HttpForbiddenError('Access denied', [
+                'You are not a participant in this conversation',
+            ]);
+        }
+    }
+}
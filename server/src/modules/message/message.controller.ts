@@ -4,6 +4,9 @@ import MessageService from './message.service';
 import { type CustomResponse } from '@/types/common.type';
 import { type AuthRequest } from '@/types/auth.type';
 import Api from '@/lib/api';
+import { HttpBadRequestError } from '@/lib/errors';
+import { MessageTypeEnum } from '@/dto/message.dto';
+import { type MessageType } from '@prisma/client';
 
 /**
  * Controller for message-related HTTP endpoints
@@ -12,7 +15,7 @@ export default class MessageController extends Api {
     private readonly messageService = new MessageService();
 
     /**
-     * GET /:conversationId - Get all messages in a conversation
+     * GET /:conversationId - Get a window of messages in a conversation (before/after/around a message)
      */
     public getMessages = async (
         req: AuthRequest,
@@ -21,12 +24,20 @@ export default class MessageController extends Api {
     ) => {
         try {
             const { conversationId } = req.params;
-            const page = parseInt(req.query.page as string) || 1;
-            const limit = parseInt(req.query.limit as string) || 25;
+            const limit = Math.max(parseInt(req.query.limit as string) || 25, 1);
+            const [before, after, around] = (['before', 'after', 'around'] as const).map((key) =>
+                typeof req.query[key] === 'string' && req.query[key] ? (req.query[key] as string) : undefined
+            );
+
+            if ([before, after, around].filter(Boolean).length > 1) {
+                throw new HttpBadRequestError('Invalid cursor', [
+                    'Use only one of before, after and around',
+                ]);
+            }
 
             const result = await this.messageService.getMessages(
                 conversationId,
-                { page, limit },
+                { limit, before, after, around },
                 {
                     userWaId: req.user!.waId,
                 }
@@ -47,14 +58,32 @@ export default class MessageController extends Api {
         next: NextFunction
     ) => {
         try {
-            const { query, conversationId } = req.query;
+            const { query, conversationId, from, type } = req.query;
             const page = parseInt(req.query.page as string) || 1;
             const limit = parseInt(req.query.limit as string) || 25;
+            const after = req.query.after ? Number(req.query.after) : undefined;
+            const before = req.query.before ? Number(req.query.before) : undefined;
+
+            if (type && !Object.values(MessageTypeEnum).includes(type as MessageTypeEnum)) {
+                throw new HttpBadRequestError('Invalid message type', [
+                    `type must be one of: ${Object.values(MessageTypeEnum).join(', ')}`,
+                ]);
+            }
+
+            if (Number.isNaN(after) || Number.isNaN(before)) {
+                throw new HttpBadRequestError('Invalid date range', [
+                    'after and before must be timestamps in milliseconds',
+                ]);
+            }
 
             const result = await this.messageService.searchMessages(
                 {
                     query: query as string,
                     conversationId: conversationId as string | undefined,
+                    from: from as string | undefined,
+                    type: type as MessageType | undefined,
+                    after,
+                    before,
                     page,
                     limit,
                 },
@@ -69,6 +98,27 @@ export default class MessageController extends Api {
         }
     };
 
+    /**
+     * POST /sync - Get message changes since per-conversation high-water marks
+     */
+    public syncMessages = async (
+        req: AuthRequest,
+        res: CustomResponse<any>,
+        next: NextFunction
+    ) => {
+        try {
+            const { conversations, limit } = req.body;
+
+            const result = await this.messageService.syncMessages(conversations, limit, {
+                userWaId: req.user!.waId,
+            });
+
+            this.send(res, result, HttpStatusCode.Ok, 'Messages synced successfully');
+        } catch (e) {
+            next(e);
+        }
+    };
+
     /**
      * POST / - Send a new message
      */
@@ -78,10 +128,10 @@ export default class MessageController extends Api {
         next: NextFunction
     ) => {
         try {
-            const { to, text, type } = req.body;
+            const { to, conversationId, text, type, replyTo, attachmentId } = req.body;
 
             const result = await this.messageService.sendMessage(
-                { to, text, type },
+                { to, conversationId, text: text ?? '', type, replyTo, attachmentId },
                 {
                     userWaId: req.user!.waId,
                 }
@@ -93,6 +143,30 @@ export default class MessageController extends Api {
         }
     };
 
+    /**
+     * POST /forward - Forward messages to other conversations
+     */
+    public forwardMessages = async (
+        req: AuthRequest,
+        res: CustomResponse<any>,
+        next: NextFunction
+    ) => {
+        try {
+            const { messageIds, conversationIds } = req.body;
+
+            const result = await this.messageService.forwardMessages(
+                { messageIds, conversationIds },
+                {
+                    userWaId: req.user!.waId,
+                }
+            );
+
+            this.send(res, result, HttpStatusCode.Created, 'Messages forwarded successfully');
+        } catch (e) {
+            next(e);
+        }
+    };
+
     /**
      * PUT /:messageId/status - Update message status
      */
@@ -123,4 +197,168 @@ export default class MessageController extends Api {
             next(e);
         }
     };
+
+    /**
+     * PATCH /:messageId - Edit a sent message
+     */
+    public editMessage = async (
+        req: AuthRequest,
+        res: CustomResponse<any>,
+        next: NextFunction
+    ) => {
+        try {
+            const { messageId } = req.params;
+            const { text } = req.body;
+
+            const message = await this.messageService.editMessage(messageId, text, {
+                userWaId: req.user!.waId,
+            });
+
+            this.send(res, message, HttpStatusCode.Ok, 'Message edited successfully');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * DELETE /:messageId - Delete a message for me or for everyone
+     */
+    public deleteMessage = async (
+        req: AuthRequest,
+        res: CustomResponse<any>,
+        next: NextFunction
+    ) => {
+        try {
+            const { messageId } = req.params;
+            const deleteFor = (req.query.deleteFor as string | undefined) ?? 'me';
+
+            if (deleteFor !== 'me' && deleteFor !== 'everyone') {
+                throw new HttpBadRequestError('Invalid delete scope', [
+                    "deleteFor must be 'me' or 'everyone'",
+                ]);
+            }
+
+            const message = await this.messageService.deleteMessage(messageId, deleteFor, {
+                userWaId: req.user!.waId,
+            });
+
+            this.send(res, message, HttpStatusCode.Ok, 'Message deleted successfully');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * PUT /:messageId/reaction - Set the caller's reaction on a message
+     */
+    public setReaction = async (
+        req: AuthRequest,
+        res: CustomResponse<any>,
+        next: NextFunction
+    ) => {
+        try {
+            const { messageId } = req.params;
+            const { emoji } = req.body;
+
+            const message = await this.messageService.reactToMessage(messageId, emoji, {
+                userWaId: req.user!.waId,
+            });
+
+            this.send(res, message, HttpStatusCode.Ok, 'Reaction saved successfully');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * DELETE /:messageId/reaction - Remove the caller's reaction from a message
+     */
+    public removeReaction = async (
+        req: AuthRequest,
+        res: CustomResponse<any>,
+        next: NextFunction
+    ) => {
+        try {
+            const { messageId } = req.params;
+
+            const message = await this.messageService.reactToMessage(messageId, null, {
+                userWaId: req.user!.waId,
+            });
+
+            this.send(res, message, HttpStatusCode.Ok, 'Reaction removed successfully');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * GET /starred - List the caller's starred messages
+     */
+    public getStarredMessages = async (
+        req: AuthRequest,
+        res: CustomResponse<any>,
+        next: NextFunction
+    ) => {
+        try {
+            const { conversationId, cursor } = req.query;
+            const limit = parseInt(req.query.limit as string) || 30;
+
+            const result = await this.messageService.getStarredMessages(
+                {
+                    conversationId: conversationId as string | undefined,
+                    cursor: cursor as string | undefined,
+                    limit,
+                },
+                {
+                    userWaId: req.user!.waId,
+                }
+            );
+
+            this.send(res, result, HttpStatusCode.Ok, 'Starred messages retrieved successfully');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * PUT /:messageId/star - Star a message for the caller
+     */
+    public starMessage = async (
+        req: AuthRequest,
+        res: CustomResponse<any>,
+        next: NextFunction
+    ) => {
+        try {
+            const { messageId } = req.params;
+
+            const star = await this.messageService.starMessage(messageId, {
+                userWaId: req.user!.waId,
+            });
+
+            this.send(res, star, HttpStatusCode.Ok, 'Message starred successfully');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * DELETE /:messageId/star - Remove the caller's star from a message
+     */
+    public unstarMessage = async (
+        req: AuthRequest,
+        res: CustomResponse<any>,
+        next: NextFunction
+    ) => {
+        try {
+            const { messageId } = req.params;
+
+            await this.messageService.unstarMessage(messageId, {
+                userWaId: req.user!.waId,
+            });
+
+            this.send(res, null, HttpStatusCode.Ok, 'Message unstarred successfully');
+        } catch (e) {
+            next(e);
+        }
+    };
 }
@@ -1,5 +1,23 @@
 import prisma from '@/lib/prisma';
-import type { Message, Conversation, User, MessageStatus, Prisma } from '@prisma/client';
+import conversationRepository from '@/modules/conversation/conversation.repository';
+import type { Message, MessageReply, MessageReaction, MessageAttachment, LastReaction, Conversation, User, MessageStatus, MessageType, Prisma, StarredMessage } from '@prisma/client';
+
+// List preview of attachments sent without a caption
+const ATTACHMENT_PREVIEWS: Record<string, string> = {
+    image: '📷 Photo',
+    audio: '🎤 Voice message',
+    video: '🎥 Video',
+    document: '📄 Document',
+};
+
+const previewText = (message: Pick<Message, 'text' | 'type' | 'attachment'>): string =>
+    message.text || (message.attachment ? ATTACHMENT_PREVIEWS[message.type] ?? '' : '');
+
+/**
+ * When a message sent at `timestamp` disappears, given its conversation's message timer
+ */
+export const expiresAtFor = (conversation: Pick<Conversation, 'messageTimer'> | null, timestamp: number): number | undefined =>
+    conversation?.messageTimer ? timestamp + conversation.messageTimer * 1000 : undefined;
 
 /**
  * Message with populated conversation
@@ -13,9 +31,59 @@ export interface PaginationQuery {
     limit?: number;
 }
 
+/**
+ * Position of a message in its conversation; messages are ordered by seq, then timestamp, then id
+ * Legacy messages without a seq come before all others
+ */
+export type MessagePosition = Pick<Message, 'seq' | 'timestamp' | 'id'>;
+
+// Legacy messages, persisted before sequence numbers were assigned
+const UNSEQUENCED: Prisma.MessageWhereInput = { OR: [{ seq: { isSet: false } }, { seq: null }] };
+
+/**
+ * Cursor query for a conversation's messages; at most one of before/after/around is set
+ * Cursors are message ids (database or client-generated)
+ */
+export interface MessageCursorQuery {
+    limit?: number;
+    /** Messages older than this one */
+    before?: string;
+    /** Messages newer than this one */
+    after?: string;
+    /** A window centered on this message, which is included */
+    around?: string;
+}
+
+/**
+ * Delta sync high-water mark: the last change a client has seen in a conversation
+ * Changes are ordered by updatedAt, then id
+ */
+export interface SyncMark {
+    conversationId: string;
+    /** updatedAt of the last change seen, epoch ms */
+    since: number;
+    /** Id of the last change seen; without it, changes at exactly `since` are included */
+    afterId?: string;
+}
+
 export interface SearchQuery extends PaginationQuery {
     query: string;
     conversationId?: string;
+    /** Sender waId */
+    from?: string;
+    type?: MessageType;
+    /** Sent at or after, epoch ms */
+    after?: number;
+    /** Sent at or before, epoch ms */
+    before?: number;
+}
+
+/**
+ * A search result and its text score (higher is more relevant)
+ */
+export interface SearchHit {
+    message: MessageWithConversation;
+    score: number;
 }
 
 /**
@@ -23,38 +91,118 @@ export interface SearchQuery extends PaginationQuery {
  */
 export class MessageRepository {
     /**
-     * Finds all messages for a conversation with pagination
+     * Finds up to `limit` messages on one side of a (seq, timestamp, id) position, nearest first
+     * Without a position, `older` starts from the newest message
+     * One extra message is read to tell whether more remain beyond the page
      */
-    public async findByConversation(
+    public async findPage(
         conversationId: string,
-        options: PaginationQuery = {}
-    ): Promise<{ messages: Message[]; total: number }> {
-        const page = options.page || 1;
-        const limit = Math.min(options.limit || 25, 100);
-        const skip = (page - 1) * limit;
+        position: MessagePosition | null,
+        direction: 'older' | 'newer',
+        limit: number
+    ): Promise<{ messages: Message[]; hasMore: boolean }> {
+        const older = direction === 'older';
+        const order = older ? 'desc' : 'asc';
+        const beyond = <T>(value: T) => (older ? { lt: value } : { gt: value });
+
+        let where: Prisma.MessageWhereInput = { conversationId };
+        if (position?.seq != null) {
+            where = older
+                ? { conversationId, OR: [{ seq: { lt: position.seq } }, UNSEQUENCED] }
+                : { conversationId, seq: { gt: position.seq } };
+        } else if (position) {
+            // Legacy messages sharing a timestamp are ordered by id, so none are skipped or repeated
+            const legacy: Prisma.MessageWhereInput = {
+                AND: [
+                    UNSEQUENCED,
+                    {
+                        OR: [
+                            { timestamp: beyond(position.timestamp) },
+                            { timestamp: position.timestamp, id: beyond(position.id) },
+                        ],
+                    },
+                ],
+            };
+            where = older
+                ? { conversationId, ...legacy }
+                : { conversationId, OR: [{ seq: { gt: 0 } }, legacy] };
+        }
 
-        const [messages, total] = await Promise.all([
-            prisma.message.findMany({
-                where: { conversationId },
-                orderBy: { timestamp: 'desc' }, // Newest first
-                skip,
-                take: limit,
-            }),
-            prisma.message.count({
-                where: { conversationId },
-            }),
-        ]);
+        const messages = await prisma.message.findMany({
+            where,
+            orderBy: [{ seq: order }, { timestamp: order }, { id: order }],
+            take: limit + 1,
+        });
+
+        return { messages: messages.slice(0, limit), hasMore: messages.length > limit };
+    }
+
+    /**
+     * Finds up to `limit` messages created or changed after a sync mark, oldest change first
+     * One extra message is read to tell whether more remain
+     */
+    public async findChangedSince(
+        mark: SyncMark,
+        limit: number
+    ): Promise<{ messages: Message[]; hasMore: boolean }> {
+        const since = new Date(mark.since);
 
-        return { messages, total };
+        const messages = await prisma.message.findMany({
+            where: {
+                conversationId: mark.conversationId,
+                OR: mark.afterId
+                    ? [{ updatedAt: { gt: since } }, { updatedAt: since, id: { gt: mark.afterId } }]
+                    : [{ updatedAt: { gte: since } }],
+            },
+            orderBy: [{ updatedAt: 'asc' }, { id: 'asc' }],
+            take: limit + 1,
+        });
+
+        return { messages: messages.slice(0, limit), hasMore: messages.length > limit };
+    }
+
+    /**
+     * Of the given conversations, returns the ids of those the user takes part in
+     */
+    public async filterParticipantConversations(conversationIds: string[], waId: string): Promise<string[]> {
+        const conversations = await prisma.conversation.findMany({
+            where: {
+                id: { in: conversationIds },
+                participants: { some: { waId } },
+            },
+            select: { id: true },
+        });
+        return conversations.map((c) => c.id);
+    }
+
+    /**
+     * Counts the messages of a conversation
+     */
+    public async countByConversation(conversationId: string): Promise<number> {
+        return prisma.message.count({
+            where: { conversationId },
+        });
+    }
+
+    /**
+     * Creates the text index searchMessages relies on (a no-op when it already exists)
+     */
+    public async ensureTextIndex(): Promise<void> {
+        await prisma.$runCommandRaw({
+            createIndexes: 'processed_messages',
+            indexes: [{ key: { text: 'text' }, name: 'processed_messages_text_idx' }],
+        });
     }
 
     /**
-     * Searches messages by text content
+     * Searches message text through the text index, most relevant first (newest first on ties)
+     * Only conversations the user takes part in are searched; messages they deleted, conversation
+     * events and expired disappearing messages are left out
      */
     public async searchMessages(
         userWaId: string,
         searchQuery: SearchQuery
-    ): Promise<{ messages: MessageWithConversation[]; total: number }> {
+    ): Promise<{ hits: SearchHit[]; total: number }> {
         const page = searchQuery.page || 1;
         const limit = Math.min(searchQuery.limit || 25, 100);
         const skip = (page - 1) * limit;
@@ -63,34 +211,64 @@ export class MessageRepository {
             id?.startsWith('91') ? id.trim() : `91${id.trim()}`;
         const currentWaId = normalizeWaId(userWaId);
 
-        // Build where clause
-        const where: Prisma.MessageWhereInput = {
-            OR: [{ from: currentWaId }, { to: currentWaId }],
-            text: {
-                contains: searchQuery.query.trim(),
-                mode: 'insensitive',
-            },
-        };
-
-        // Filter by specific conversation if provided
-        if (searchQuery.conversationId) {
-            where.conversationId = searchQuery.conversationId;
+        const conversationIds = searchQuery.conversationId
+            ? [searchQuery.conversationId]
+            : (
+                await prisma.conversation.findMany({
+                    where: { participants: { some: { waId: currentWaId } } },
+                    select: { id: true },
+                })
+            ).map((c) => c.id);
+
+        if (conversationIds.length === 0) {
+            return { hits: [], total: 0 };
         }
 
-        const [messages, total] = await Promise.all([
-            prisma.message.findMany({
-                where,
-                orderBy: { timestamp: 'desc' },
-                skip,
-                take: limit,
-                include: {
-                    conversation: true,
+        const timestamp: Prisma.InputJsonObject = {
+            ...(searchQuery.after !== undefined && { $gte: searchQuery.after }),
+            ...(searchQuery.before !== undefined && { $lte: searchQuery.before }),
+        };
+        // $text has to be the first stage; the filters narrow it down in the same $match
+        const match: Prisma.InputJsonObject = {
+            $text: { $search: searchQuery.query.trim() },
+            conversationId: { $in: conversationIds.map((id) => ({ $oid: id })) },
+            deletedFor: { $ne: currentWaId },
+            type: searchQuery.type ?? { $ne: 'system' },
+            $or: [{ expiresAt: null }, { expiresAt: { $gt: Date.now() } }],
+            ...(searchQuery.from ? { from: normalizeWaId(searchQuery.from) } : {}),
+            ...(Object.keys(timestamp).length > 0 && { timestamp }),
+        };
+        const pipeline: Prisma.InputJsonObject[] = [
+            { $match: match },
+            { $addFields: { score: { $meta: 'textScore' } } },
+            { $sort: { score: -1, timestamp: -1 } },
+            {
+                $facet: {
+                    hits: [{ $skip: skip }, { $limit: limit }, { $project: { _id: 1, score: 1 } }],
+                    total: [{ $count: 'count' }],
                 },
-            }),
-            prisma.message.count({ where }),
-        ]);
+            },
+        ];
+
+        const [result] = (await prisma.message.aggregateRaw({ pipeline })) as unknown as {
+            hits: { _id: { $oid: string }; score: number }[];
+            total: { count: number }[];
+        }[];
 
-        return { messages, total };
+        const ranked = result?.hits ?? [];
+        const messages = await prisma.message.findMany({
+            where: { id: { in: ranked.map((hit) => hit._id.$oid) } },
+            include: { conversation: true },
+        });
+        const messagesById = new Map(messages.map((m) => [m.id, m]));
+
+        return {
+            hits: ranked.flatMap((hit) => {
+                const message = messagesById.get(hit._id.$oid);
+                return message ? [{ message, score: hit.score }] : [];
+            }),
+            total: result?.total[0]?.count ?? 0,
+        };
     }
 
     /**
@@ -100,7 +278,9 @@ export class MessageRepository {
         from: string;
         to: string;
         text: string;
-        type?: string;
+        type?: MessageType;
+        replyTo?: MessageReply;
+        attachment?: MessageAttachment;
         senderUser: User;
         receiverUser: User;
     }): Promise<{ message: Message; conversation: Conversation }> {
@@ -110,9 +290,10 @@ export class MessageRepository {
         const fromId = normalizeWaId(data.from);
         const toId = normalizeWaId(data.to);
 
-        // Find existing conversation
+        // Find existing direct conversation (groups containing both users don't count)
         let conversation = await prisma.conversation.findFirst({
             where: {
+                NOT: { type: 'group' },
                 AND: [
                     {
                         participants: {
@@ -153,7 +334,6 @@ export class MessageRepository {
                         from: fromId,
                         status: 'sent',
                     },
-                    unreadCount: 1,
                 },
             });
         }
@@ -166,9 +346,13 @@ export class MessageRepository {
                 to: toId,
                 text: data.text,
                 timestamp,
+                seq: await conversationRepository.nextSeq(conversation.id),
                 status: 'sent',
-                type: (data.type as any) || 'text',
+                type: data.type ?? 'text',
                 waId: fromId,
+                replyTo: data.replyTo,
+                attachment: data.attachment,
+                expiresAt: expiresAtFor(conversation, timestamp),
                 direction: 'outgoing',
                 contact: {
                     name: data.senderUser.name || `User ${fromId}`,
@@ -182,18 +366,359 @@ export class MessageRepository {
             where: { id: conversation.id },
             data: {
                 lastMessage: {
-                    text: data.text,
+                    text: previewText(message),
                     timestamp: message.timestamp,
                     from: fromId,
                     status: 'sent',
                 },
-                unreadCount: { increment: 1 },
+                lastReaction: { unset: true },
+            },
+        });
+
+        await this.incrementUnread(conversation.id, message.from, conversation.participants.map((p) => p.waId));
+
+        return { message, conversation };
+    }
+
+    /**
+     * Creates a message in an existing conversation (group sends and socket-relayed messages)
+     * and refreshes the conversation's lastMessage snapshot
+     * For group conversations `to` is the conversation id
+     */
+    public async createInConversation(data: {
+        clientMessageId?: string;
+        conversationId: string;
+        from: string;
+        to: string;
+        text: string;
+        timestamp: number;
+        seq?: number; // Already reserved when the message was relayed
+        type?: MessageType;
+        replyTo?: MessageReply;
+        attachment?: MessageAttachment;
+        expiresAt?: number;
+        forwardCount?: number; // Set on forwarded copies
+        senderName: string;
+    }): Promise<{ message: Message; conversation: Conversation }> {
+        const message = await prisma.message.create({
+            data: {
+                clientMessageId: data.clientMessageId,
+                conversationId: data.conversationId,
+                from: data.from,
+                to: data.to,
+                text: data.text,
+                timestamp: data.timestamp,
+                seq: data.seq ?? await conversationRepository.nextSeq(data.conversationId),
+                status: 'sent',
+                type: data.type ?? 'text',
+                waId: data.from,
+                replyTo: data.replyTo,
+                attachment: data.attachment,
+                expiresAt: data.expiresAt,
+                ...(data.forwardCount && { forwarded: true, forwardCount: data.forwardCount }),
+                direction: 'outgoing',
+                contact: {
+                    name: data.senderName,
+                    waId: data.from,
+                },
+            },
+        });
+
+        const conversation = await prisma.conversation.update({
+            where: { id: data.conversationId },
+            data: {
+                lastMessage: {
+                    text: previewText(message),
+                    timestamp: message.timestamp,
+                    from: message.from,
+                    status: 'sent',
+                },
+                lastReaction: { unset: true },
             },
         });
 
+        await this.incrementUnread(conversation.id, message.from, conversation.participants.map((p) => p.waId));
+
         return { message, conversation };
     }
 
+    /**
+     * Counts a new message as unread for every participant except its sender
+     * Increments are atomic, and a racing first write for a participant is retried as an update,
+     * so concurrent sends never lose an increment
+     */
+    private async incrementUnread(conversationId: string, senderWaId: string, participantWaIds: string[]): Promise<void> {
+        await Promise.all(
+            participantWaIds
+                .filter((waId) => waId !== senderWaId)
+                .map((waId) =>
+                    conversationRepository.upsertParticipantState(
+                        conversationId,
+                        waId,
+                        { unreadCount: 1 },
+                        { unreadCount: { increment: 1 } }
+                    )
+                )
+        );
+    }
+
+    /**
+     * Finds a message by the id the client generated for it
+     */
+    public async findByClientMessageId(clientMessageId: string): Promise<Message | null> {
+        return prisma.message.findFirst({
+            where: { clientMessageId },
+        });
+    }
+
+    /**
+     * Finds a message by database id, falling back to the client-generated id
+     * (socket-relayed messages are known to clients by the latter)
+     */
+    public async findByIdOrClientId(messageId: string): Promise<Message | null> {
+        if (/^[a-f\d]{24}$/i.test(messageId)) {
+            const message = await prisma.message.findUnique({
+                where: { id: messageId },
+            });
+            if (message) return message;
+        }
+
+        return this.findByClientMessageId(messageId);
+    }
+
+    /**
+     * Replaces message text, appending the previous version to the edit history
+     */
+    public async updateText(
+        messageId: string,
+        text: string,
+        previousText: string
+    ): Promise<Message> {
+        const editedAt = new Date();
+
+        return prisma.message.update({
+            where: { id: messageId },
+            data: {
+                text,
+                editedAt,
+                editHistory: {
+                    push: { text: previousText, editedAt },
+                },
+            },
+        });
+    }
+
+    /**
+     * Refreshes the conversation's lastMessage text if it still points at this message
+     */
+    public async syncLastMessageText(message: Message): Promise<void> {
+        await prisma.conversation.updateMany({
+            where: {
+                id: message.conversationId,
+                lastMessage: {
+                    is: { timestamp: message.timestamp, from: message.from },
+                },
+            },
+            data: {
+                // Optional composites have no plain `update`; the filter above ensures the snapshot exists
+                lastMessage: {
+                    upsert: {
+                        set: {
+                            text: message.text,
+                            timestamp: message.timestamp,
+                            from: message.from,
+                            status: message.status,
+                        },
+                        update: { text: message.text },
+                    },
+                },
+            },
+        });
+    }
+
+    /**
+     * Replaces the reactions of a message
+     */
+    public async setReactions(messageId: string, reactions: MessageReaction[]): Promise<Message> {
+        return prisma.message.update({
+            where: { id: messageId },
+            data: { reactions },
+        });
+    }
+
+    /**
+     * Sets (or with `null`, clears) the reaction shown as the conversation's list preview
+     */
+    public async setLastReaction(
+        conversationId: string,
+        lastReaction: LastReaction | null
+    ): Promise<Conversation> {
+        return prisma.conversation.update({
+            where: { id: conversationId },
+            data: {
+                lastReaction: lastReaction ?? { unset: true },
+            },
+        });
+    }
+
+    /**
+     * Hides a message for a single participant ("delete for me")
+     */
+    public async hideForUser(messageId: string, waId: string): Promise<Message> {
+        return prisma.message.update({
+            where: { id: messageId },
+            data: {
+                deletedFor: { push: waId },
+            },
+        });
+    }
+
+    /**
+     * Replaces a message with a tombstone for everyone
+     */
+    public async tombstone(messageId: string): Promise<Message> {
+        return prisma.message.update({
+            where: { id: messageId },
+            data: {
+                text: '',
+                editedAt: null,
+                editHistory: [],
+                attachment: { unset: true },
+                deletedAt: new Date(),
+            },
+        });
+    }
+
+    /**
+     * Finds messages whose disappearing timer ran out, oldest first
+     */
+    public async findExpired(
+        now: number,
+        limit: number
+    ): Promise<Pick<Message, 'id' | 'clientMessageId' | 'conversationId' | 'attachment'>[]> {
+        return prisma.message.findMany({
+            where: { expiresAt: { lte: now } },
+            select: { id: true, clientMessageId: true, conversationId: true, attachment: true },
+            orderBy: { expiresAt: 'asc' },
+            take: limit,
+        });
+    }
+
+    /**
+     * Blanks the quoted text in replies to the given messages (ids or client ids)
+     * Returns how many replies were changed
+     */
+    public async blankReplySnippets(conversationId: string, messageIds: string[]): Promise<number> {
+        const { count } = await prisma.message.updateMany({
+            where: { conversationId, replyTo: { is: { messageId: { in: messageIds } } } },
+            // Only replies are matched, so the upsert always updates
+            data: { replyTo: { upsert: { set: null, update: { text: '' } } } },
+        });
+        return count;
+    }
+
+    /**
+     * Permanently deletes messages
+     */
+    public async deleteByIds(messageIds: string[]): Promise<number> {
+        const { count } = await prisma.message.deleteMany({
+            where: { id: { in: messageIds } },
+        });
+        return count;
+    }
+
+    /**
+     * Stars a message for one user (no-op if it already is)
+     */
+    public async star(waId: string, message: Pick<Message, 'id' | 'conversationId'>): Promise<StarredMessage> {
+        return prisma.starredMessage.upsert({
+            where: { waId_messageId: { waId, messageId: message.id } },
+            create: { waId, messageId: message.id, conversationId: message.conversationId },
+            update: {},
+        });
+    }
+
+    /**
+     * Removes stars from messages, for one user or (without `waId`) for everyone
+     * Returns the number of stars removed
+     */
+    public async unstar(messageIds: string[], waId?: string): Promise<number> {
+        const { count } = await prisma.starredMessage.deleteMany({
+            where: {
+                messageId: { in: messageIds },
+                ...(waId && { waId }),
+            },
+        });
+        return count;
+    }
+
+    /**
+     * Page of a user's stars, newest first (cursor = id of the last star of the previous page)
+     */
+    public async findStarredPage(
+        waId: string,
+        filter: { conversationId?: string },
+        cursor: string | undefined,
+        limit: number
+    ): Promise<{ stars: StarredMessage[]; hasMore: boolean }> {
+        const stars = await prisma.starredMessage.findMany({
+            where: {
+                waId,
+                ...(filter.conversationId && { conversationId: filter.conversationId }),
+                ...(cursor && { id: { lt: cursor } }),
+            },
+            orderBy: { id: 'desc' },
+            take: limit + 1,
+        });
+
+        return { stars: stars.slice(0, limit), hasMore: stars.length > limit };
+    }
+
+    /**
+     * Finds messages by database id (missing ones are left out)
+     */
+    public async findByIds(messageIds: string[]): Promise<Message[]> {
+        return prisma.message.findMany({
+            where: { id: { in: messageIds } },
+        });
+    }
+
+    /**
+     * Finds conversations by database id (missing ones are left out)
+     */
+    public async findConversationsByIds(conversationIds: string[]): Promise<Conversation[]> {
+        return prisma.conversation.findMany({
+            where: { id: { in: conversationIds } },
+        });
+    }
+
+    /**
+     * Points the conversation's lastMessage at its newest message that was not deleted for everyone
+     */
+    public async refreshLastMessage(conversationId: string): Promise<Conversation> {
+        const latest = await prisma.message.findFirst({
+            where: {
+                conversationId,
+                OR: [{ deletedAt: { isSet: false } }, { deletedAt: null }],
+            },
+            orderBy: [{ seq: 'desc' }, { timestamp: 'desc' }],
+        });
+
+        return prisma.conversation.update({
+            where: { id: conversationId },
+            data: {
+                lastMessage: latest
+                    ? {
+                        text: previewText(latest),
+                        timestamp: latest.timestamp,
+                        from: latest.from,
+                        status: latest.status,
+                    }
+                    : { unset: true },
+            },
+        });
+    }
+
     /**
      * Updates message status
      */
@@ -3,7 +3,7 @@ import Controller from './message.controller';
 import { verifyAuthToken } from '@/middlewares/auth';
 import RequestValidator from '@/middlewares/request-validator';
 import { messageLimiter, searchLimiter } from '@/middlewares/rate-limiter';
-import { SendMessageDto, UpdateMessageStatusDto, SearchMessagesDto } from '@/dto/message.dto';
+import { SendMessageDto, UpdateMessageStatusDto, SearchMessagesDto, EditMessageDto, ReactToMessageDto, SyncMessagesDto, ForwardMessagesDto } from '@/dto/message.dto';
 
 const message: Router = Router();
 const controller = new Controller();
@@ -20,11 +20,21 @@ message.use(verifyAuthToken);
  * @property {string} to - Receiver waId
  * @property {string} text - Message content
  * @property {number} timestamp - Message timestamp
+ * @property {number} seq - Server-assigned position in the conversation (increasing; absent on legacy messages)
  * @property {string} status - Message status (sent, delivered, read, failed)
  * @property {string} type - Message type (text, image, document, audio, video)
  * @property {string} waId - WhatsApp ID
  * @property {string} direction - Message direction (incoming, outgoing)
  * @property {object} contact - Contact information
+ * @property {string} editedAt - Last edit timestamp (absent if never edited)
+ * @property {array<object>} editHistory - Previous versions ({ text, editedAt }), oldest first
+ * @property {array<string>} deletedFor - waIds that deleted the message for themselves
+ * @property {string} deletedAt - Set when deleted for everyone (text is cleared)
+ * @property {object} replyTo - Quoted message snippet ({ messageId, from, text, type })
+ * @property {array<object>} reactions - Reactions ({ waId, emoji, reactedAt }), one per participant
+ * @property {object} attachment - Uploaded file ({ mediaId, fileName, mimeType, size, width, height, duration, checksum })
+ * @property {boolean} forwarded - Copied from another message by forwarding
+ * @property {number} forwardCount - How many times the content was forwarded to get here
  * @property {string} createdAt - Creation timestamp
  * @property {string} updatedAt - Update timestamp
  */
@@ -32,40 +42,172 @@ message.use(verifyAuthToken);
 /**
  * Send message body
  * @typedef {object} SendMessageBody
- * @property {string} to.required - Receiver waId
- * @property {string} text.required - Message content (max 4000 chars)
+ * @property {string} to - Receiver waId (required unless conversationId is set)
+ * @property {string} conversationId - Target conversation (required for group messages)
+ * @property {string} text - Message content (max 4000 chars), required unless attachmentId is set
+ * @property {string} attachmentId - Media ID from POST /media; the type follows its mime type
  * @property {string} type - Message type (default: text)
+ * @property {object} replyTo - Message being replied to ({ messageId }), must be in the same conversation
  * @property {string} correlationId - Idempotency key to prevent duplicates
  */
 
+/**
+ * Edit message body
+ * @typedef {object} EditMessageBody
+ * @property {string} text.required - New message content (max 4000 chars)
+ */
+
+/**
+ * Reaction body
+ * @typedef {object} ReactionBody
+ * @property {string} emoji.required - Reaction emoji (replaces the caller's previous reaction)
+ */
+
 /**
  * Update status body
  * @typedef {object} UpdateStatusBody
  * @property {string} status.required - New status (sent, delivered, read)
  */
 
+/**
+ * Conversation a starred message or search hit belongs to
+ * @typedef {object} ConversationContext
+ * @property {string} id - Conversation ID
+ * @property {string} conversationId - Unique conversation key
+ * @property {string} type - direct or group
+ * @property {string} name - Group name (unset for direct chats)
+ * @property {string} avatar - Group avatar
+ * @property {array<object>} participants - Participants ({ waId, name, profilePicture, role })
+ */
+
+/**
+ * Where a search term occurs in the message text
+ * @typedef {object} SearchHighlight
+ * @property {number} start - Offset in the text (UTF-16 code units)
+ * @property {number} length - Length of the match
+ */
+
+/**
+ * Search hit
+ * @typedef {object} MessageSearchHit
+ * @property {Message} message - The matching message
+ * @property {ConversationContext} conversation - Where it was sent
+ * @property {number} score - Text relevance, higher is better
+ * @property {array<SearchHighlight>} highlights - Matches of the search terms, in text order
+ */
+
+/**
+ * Search results
+ * @typedef {object} MessageSearchResult
+ * @property {array<MessageSearchHit>} hits - Most relevant first, newest first on ties
+ * @property {string} searchQuery - The query searched for
+ * @property {object} pagination - { currentPage, totalPages, totalMessages, hasMore }
+ */
+
 /**
  * GET /messages/search
- * @summary Search messages across conversations
+ * @summary Full-text search across your conversations, ranked by relevance ("quoted phrase", -excluded word)
  * @tags messages
  * @security bearerAuth
- * @param {string} query.query.required - Search query text (max 200 chars)
- * @param {string} conversationId.query - Filter by conversation ID (optional)
+ * @param {string} query.query.required - Search query text (max 200 chars); words are stemmed, case and diacritics are ignored
+ * @param {string} conversationId.query - Only this conversation
+ * @param {string} from.query - Only messages from this sender (waId)
+ * @param {string} type.query - Only this message type (text, image, document, audio, video)
+ * @param {number} after.query - Sent at or after (epoch ms)
+ * @param {number} before.query - Sent at or before (epoch ms)
  * @param {string} page.query - Page number (default: 1)
  * @param {string} limit.query - Results per page (default: 25, max: 100)
- * @return {object} 200 - Search results with pagination
+ * @return {MessageSearchResult} 200 - Search results with pagination
+ * @return {object} 400 - Empty query, unknown type or invalid date range
+ * @return {object} 403 - Not a participant in the conversation
  */
 message.get('/search', searchLimiter, controller.searchMessages);
 
+/**
+ * Starred message
+ * @typedef {object} StarredMessage
+ * @property {string} id - Star ID
+ * @property {string} starredAt - When it was starred
+ * @property {Message} message - The starred message
+ * @property {ConversationContext} conversation - Where it was sent
+ */
+
+/**
+ * Page of starred messages
+ * @typedef {object} StarredMessagePage
+ * @property {array<StarredMessage>} starred - Starred messages, newest star first
+ * @property {string} nextCursor - Pass as cursor for the next page (null on the last page)
+ */
+
+/**
+ * GET /messages/starred
+ * @summary List your starred messages across conversations; stars are never shown to other participants
+ * @tags messages
+ * @security bearerAuth
+ * @param {string} conversationId.query - Only stars in this conversation
+ * @param {string} cursor.query - nextCursor of the previous page
+ * @param {number} limit.query - Page size (default 30, max 100)
+ * @return {StarredMessagePage} 200 - Starred messages
+ * @return {object} 404 - Conversation not found
+ */
+message.get('/starred', controller.getStarredMessages);
+
+/**
+ * Message window
+ * @typedef {object} MessageWindow
+ * @property {array<Message>} messages - Messages, oldest first
+ * @property {boolean} hasOlder - Whether older messages remain before the window
+ * @property {boolean} hasNewer - Whether newer messages remain after the window
+ */
+
+/**
+ * Sync high-water mark
+ * @typedef {object} SyncMark
+ * @property {string} conversationId.required - Conversation ID
+ * @property {number} since.required - updatedAt of the last change seen (epoch ms)
+ * @property {string} afterId - ID of the last change seen (changes at exactly `since` are included without it)
+ */
+
+/**
+ * Sync messages body
+ * @typedef {object} SyncMessagesBody
+ * @property {array<SyncMark>} conversations.required - One mark per conversation (max 100)
+ * @property {number} limit - Changes per conversation (default: 100, max: 500)
+ */
+
+/**
+ * Conversation changes
+ * @typedef {object} ConversationSync
+ * @property {string} conversationId - Conversation ID
+ * @property {array<Message>} messages - Messages created or changed since the mark, oldest change first
+ * @property {array<string>} removedMessageIds - Messages deleted for the caller (client-generated id when set)
+ * @property {SyncMark} mark - Mark to send on the next sync
+ * @property {boolean} hasMore - Whether more changes remain after this batch
+ */
+
+/**
+ * POST /messages/sync
+ * @summary Get message changes since per-conversation high-water marks (for reconnecting clients)
+ * @tags messages
+ * @security bearerAuth
+ * @param {SyncMessagesBody} request.body.required
+ * @return {object} 200 - Changes per conversation ({ conversations: ConversationSync[] }); conversations the caller is not in are left out
+ */
+message.post('/sync', RequestValidator.validate(SyncMessagesDto), controller.syncMessages);
+
 /**
  * GET /messages/:conversationId
- * @summary Get all messages in a conversation
+ * @summary Get a window of messages in a conversation (the newest without a cursor)
  * @tags messages
  * @security bearerAuth
  * @param {string} conversationId.path.required - Conversation ID
- * @param {string} page.query - Page number (default: 1)
- * @param {string} limit.query - Messages per page (default: 25, max: 100)
- * @return {object} 200 - Messages with pagination
+ * @param {string} before.query - Message ID: return the messages just older than it
+ * @param {string} after.query - Message ID: return the messages just newer than it
+ * @param {string} around.query - Message ID: return a window centered on it (for jumping to a message)
+ * @param {string} limit.query - Messages per window (default: 25, max: 200)
+ * @return {MessageWindow} 200 - Messages with hasOlder/hasNewer
+ * @return {object} 400 - More than one cursor
+ * @return {object} 404 - Cursor message not in this conversation
  */
 message.get('/:conversationId', controller.getMessages);
 
@@ -84,6 +226,30 @@ message.post(
     controller.sendMessage
 );
 
+/**
+ * Forward messages body
+ * @typedef {object} ForwardMessagesBody
+ * @property {array<string>} messageIds.required - Messages to forward, database or client-generated ids (max 30)
+ * @property {array<string>} conversationIds.required - Conversations to forward them to (max 5)
+ */
+
+/**
+ * POST /messages/forward
+ * @summary Forward messages to up to 5 conversations; copies keep their type and attachment
+ * @tags messages
+ * @security bearerAuth
+ * @param {ForwardMessagesBody} request.body.required
+ * @return {object} 201 - Copies per conversation ({ conversations: [{ conversationId, messages }] })
+ * @return {object} 403 - Not a participant, or blocked in a target conversation
+ * @return {object} 404 - Message or conversation not found
+ */
+message.post(
+    '/forward',
+    messageLimiter,
+    RequestValidator.validate(ForwardMessagesDto),
+    controller.forwardMessages
+);
+
 /**
  * PUT /messages/:messageId/status
  * @summary Update message delivery status
@@ -99,5 +265,82 @@ message.put(
     controller.updateMessageStatus
 );
 
+/**
+ * PATCH /messages/:messageId
+ * @summary Edit a sent message (sender only, within the edit window)
+ * @tags messages
+ * @security bearerAuth
+ * @param {string} messageId.path.required - Message ID (database or client-generated)
+ * @param {EditMessageBody} request.body.required
+ * @return {Message} 200 - Message edited successfully
+ */
+message.patch(
+    '/:messageId',
+    messageLimiter,
+    RequestValidator.validate(EditMessageDto),
+    controller.editMessage
+);
+
+/**
+ * DELETE /messages/:messageId
+ * @summary Delete a message for yourself, or for everyone (sender only, within the delete window)
+ * @tags messages
+ * @security bearerAuth
+ * @param {string} messageId.path.required - Message ID (database or client-generated)
+ * @param {string} deleteFor.query - Delete scope: me or everyone (default: me)
+ * @return {Message} 200 - Message deleted successfully (tombstone when deleted for everyone)
+ */
+message.delete('/:messageId', controller.deleteMessage);
+
+/**
+ * PUT /messages/:messageId/reaction
+ * @summary React to a message (one reaction per user, replaces any previous one)
+ * @tags messages
+ * @security bearerAuth
+ * @param {string} messageId.path.required - Message ID (database or client-generated)
+ * @param {ReactionBody} request.body.required
+ * @return {Message} 200 - Reaction saved successfully
+ */
+message.put(
+    '/:messageId/reaction',
+    messageLimiter,
+    RequestValidator.validate(ReactToMessageDto),
+    controller.setReaction
+);
+
+/**
+ * DELETE /messages/:messageId/reaction
+ * @summary Remove your reaction from a message
+ * @tags messages
+ * @security bearerAuth
+ * @param {string} messageId.path.required - Message ID (database or client-generated)
+ * @return {Message} 200 - Reaction removed successfully
+ */
+message.delete('/:messageId/reaction', controller.removeReaction);
+
+/**
+ * PUT /messages/:messageId/star
+ * @summary Star a message for yourself (starring it again is a no-op)
+ * @tags messages
+ * @security bearerAuth
+ * @param {string} messageId.path.required - Message ID (database or client-generated)
+ * @return {StarredMessage} 200 - Message starred successfully
+ * @return {object} 400 - Message was deleted or is a conversation event
+ * @return {object} 403 - Not a participant in the conversation
+ * @return {object} 404 - Message not found
+ */
+message.put('/:messageId/star', messageLimiter, controller.starMessage);
+
+/**
+ * DELETE /messages/:messageId/star
+ * @summary Remove your star from a message
+ * @tags messages
+ * @security bearerAuth
+ * @param {string} messageId.path.required - Message ID (database or client-generated)
+ * @return {object} 200 - Message unstarred successfully
+ * @return {object} 404 - Message not found
+ */
+message.delete('/:messageId/star', controller.unstarMessage);
+
 export default message;
 
@@ -1,27 +1,117 @@
-import messageRepository, { type PaginationQuery, type SearchQuery } from './message.repository';
-import { MessageStatus, type Message } from '@prisma/client';
+import messageRepository, { expiresAtFor, type MessageCursorQuery, type SearchQuery, type SyncMark } from './message.repository';
+import { MessageStatus, type Message, type MessageReply, type MessageAttachment, type MessageType, type Conversation, type User } from '@prisma/client';
 import { HttpNotFoundError, HttpBadRequestError, HttpForbiddenError, HttpConflictError } from '@/lib/errors';
 import logger from '@/lib/logger';
 import cacheService, { CacheKeys, CacheTTL } from '@/lib/cache';
+import { type MessageSendPayload } from '@/types/socket.type';
+import MediaService, { messageTypeForMime } from '@/modules/media/media.service';
+import conversationRepository from '@/modules/conversation/conversation.repository';
+import ContactService from '@/modules/contact/contact.service';
+import reportRepository from '@/modules/report/report.repository';
+
+const MESSAGE_EDIT_WINDOW_MINUTES = Number(process.env.MESSAGE_EDIT_WINDOW_MINUTES) || 15;
+const MESSAGE_DELETE_WINDOW_MINUTES = Number(process.env.MESSAGE_DELETE_WINDOW_MINUTES) || 60;
+const SNIPPET_LENGTH = 200;
+// Expired messages deleted per query by the purge job
+const PURGE_BATCH_SIZE = 500;
+// How far a relayed message's client timestamp may trail the server's relay time
+const RELAY_CLOCK_SKEW_MS = 60 * 1000;
+
+// Conversation order: seq, then timestamp (legacy messages have no seq and come first)
+const compareBySeq = (a: Message, b: Message) =>
+    (a.seq ?? 0) - (b.seq ?? 0) || a.timestamp - b.timestamp || a.id.localeCompare(b.id);
+const SYNC_BATCH_SIZE = 100;
+
+export type MessageDeleteScope = 'me' | 'everyone';
 
 export interface MessageServiceOptions {
     userId?: string;
     userWaId: string;
 }
 
-export interface MessagePaginationResult {
-    messages: Message[];
-    pagination: {
-        currentPage: number;
-        totalPages: number;
-        totalMessages: number;
-        hasMore: boolean;
-    };
+export interface MessageWindowResult {
+    messages: Message[]; // Oldest first
+    hasOlder: boolean;
+    hasNewer: boolean;
     cached?: boolean; // Indicates if result came from cache
 }
 
+export interface ConversationSyncResult {
+    conversationId: string;
+    messages: Message[]; // Created or changed since the mark, oldest change first
+    removedMessageIds: string[]; // Deleted for the caller; ids are the ones clients store them under
+    mark: SyncMark; // High-water mark to send next time
+    hasMore: boolean; // More changes remain after this batch
+}
+
+/**
+ * Conversation a starred message or search hit belongs to, enough to label and open it
+ */
+export type ConversationContext = Pick<
+    Conversation,
+    'id' | 'conversationId' | 'type' | 'name' | 'avatar' | 'participants'
+>;
+
+export interface StarredMessageResult {
+    id: string; // Star ID
+    starredAt: Date;
+    message: Message;
+    conversation: ConversationContext;
+}
+
+export interface StarredMessagePage {
+    starred: StarredMessageResult[]; // Newest star first
+    nextCursor: string | null;
+}
+
+// Words and quoted phrases of a $text search, leaving out negated ones ("-word")
+const searchTerms = (query: string): string[] => {
+    const phrases = [...query.matchAll(/"([^"]+)"/g)].map((m) => m[1].trim());
+    const words = query
+        .replace(/"[^"]*"/g, ' ')
+        .split(/\s+/)
+        .filter((word) => word && !word.startsWith('-'));
+    return [...new Set([...phrases, ...words].map((term) => term.toLowerCase()).filter(Boolean))];
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Where the terms start a word in the text; the index stems words, so a hit runs to the end of the word
+const findHighlights = (text: string, terms: string[]): SearchHighlight[] => {
+    if (!text || terms.length === 0) return [];
+
+    const alternatives = [...terms].sort((a, b) => b.length - a.length).map(escapeRegExp);
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})[\\p{L}\\p{N}]*`, 'giu');
+
+    return [...text.matchAll(pattern)].map((m) => ({ start: m.index ?? 0, length: m[0].length }));
+};
+
+const toConversationContext = (conversation: Conversation): ConversationContext => ({
+    id: conversation.id,
+    conversationId: conversation.conversationId,
+    type: conversation.type,
+    name: conversation.name,
+    avatar: conversation.avatar,
+    participants: conversation.participants,
+});
+
+/**
+ * Where a search term occurs in the message text (UTF-16 offsets, as JavaScript strings count)
+ */
+export interface SearchHighlight {
+    start: number;
+    length: number;
+}
+
+export interface MessageSearchHit {
+    message: Message;
+    conversation: ConversationContext;
+    score: number; // Text relevance, higher is better
+    highlights: SearchHighlight[];
+}
+
 export interface MessageSearchResult {
-    messages: Message[];
+    hits: MessageSearchHit[]; // Most relevant first
     searchQuery: string;
     pagination: {
         currentPage: number;
@@ -35,15 +125,18 @@ export interface MessageSearchResult {
  * Service layer for message business logic with Prisma and Redis caching
  */
 export default class MessageService {
+    private readonly mediaService = new MediaService();
+    private readonly contactService = new ContactService();
+
     /**
-     * Gets all messages for a conversation with pagination
-     * Uses read-through caching for page 1 (most recent messages)
+     * Gets a window of a conversation's messages, keyed on (timestamp, id) cursors
+     * Without a cursor the newest messages are returned, read through the recent-messages cache
      */
     public async getMessages(
         conversationId: string,
-        query: PaginationQuery,
+        query: MessageCursorQuery,
         options: MessageServiceOptions
-    ): Promise<MessagePaginationResult> {
+    ): Promise<MessageWindowResult> {
         logger.info(`Getting messages for conversation: ${conversationId}`);
 
         // Resolve conversationId if it's a public ID
@@ -66,65 +159,102 @@ export default class MessageService {
             ]);
         }
 
-        const page = query.page || 1;
         const limit = Math.min(query.limit || 50, 200);
+        const cursorId = query.before ?? query.after ?? query.around;
 
-        // Try cache for page 1 (most recent messages)
-        if (page === 1) {
-            const cachedMessages = await cacheService.getRecentMessages<Message>(resolvedId, limit);
-
-            logger.debug(`Cache check for ${resolvedId}: found ${cachedMessages.length} messages (limit: ${limit})`);
-
-            // Return cached data if we have ANY messages in cache
-            // This allows partial cache hits - better UX than always hitting DB
-            if (cachedMessages.length > 0) {
-                logger.info(`Cache HIT for conversation ${resolvedId} (${cachedMessages.length} messages)`);
-
-                // Get total count from cache or DB
-                const cachedCount = await cacheService.get<number>(CacheKeys.MESSAGES_COUNT(resolvedId));
-                const total = cachedCount ?? await this.getAndCacheMessageCount(resolvedId);
-
-                return {
-                    messages: cachedMessages.slice(0, limit),
-                    pagination: {
-                        currentPage: page,
-                        totalPages: Math.ceil(total / limit),
-                        totalMessages: total,
-                        hasMore: limit < total,
-                    },
-                    cached: true,
-                };
-            }
+        if (!cursorId) {
+            return this.getLatestMessages(resolvedId, limit, options.userWaId);
         }
 
-        // Cache miss or requesting older pages - fetch from DB
-        logger.info(`Cache MISS for conversation ${resolvedId}, fetching from DB`);
+        const cursor = await messageRepository.findByIdOrClientId(cursorId);
+        if (!cursor || cursor.conversationId !== resolvedId) {
+            throw new HttpNotFoundError('Message not found', [
+                'The cursor message is not in this conversation',
+            ]);
+        }
 
-        const { messages, total } = await messageRepository.findByConversation(resolvedId, {
-            page,
-            limit,
-        });
+        if (query.before) {
+            const older = await messageRepository.findPage(resolvedId, cursor, 'older', limit);
+            return {
+                messages: this.visibleTo(older.messages.reverse(), options.userWaId),
+                hasOlder: older.hasMore,
+                hasNewer: true,
+            };
+        }
 
-        // Warm cache for page 1
-        if (page === 1 && messages.length > 0) {
-            logger.debug(`Warming cache for ${resolvedId} with ${messages.length} messages`);
-            await this.warmMessagesCache(resolvedId, messages, total);
+        if (query.after) {
+            const newer = await messageRepository.findPage(resolvedId, cursor, 'newer', limit);
+            return {
+                messages: this.visibleTo(newer.messages, options.userWaId),
+                hasOlder: true,
+                hasNewer: newer.hasMore,
+            };
         }
 
+        // Around: the cursor in the middle of the window, with the extra slot going to older messages
+        const olderLimit = Math.floor(limit / 2);
+        const [older, newer] = await Promise.all([
+            messageRepository.findPage(resolvedId, cursor, 'older', olderLimit),
+            messageRepository.findPage(resolvedId, cursor, 'newer', limit - olderLimit - 1),
+        ]);
+
         return {
-            messages,
-            pagination: {
-                currentPage: page,
-                totalPages: Math.ceil(total / limit),
-                totalMessages: total,
-                hasMore: page * limit < total,
-            },
+            messages: this.visibleTo([...older.messages.reverse(), cursor, ...newer.messages], options.userWaId),
+            hasOlder: older.hasMore,
+            hasNewer: newer.hasMore,
+        };
+    }
+
+    /**
+     * Newest messages of a conversation, read through the recent-messages cache
+     * Partial cache hits are served too (better UX than always hitting the DB); the cached
+     * count tells whether older messages remain
+     */
+    private async getLatestMessages(
+        conversationId: string,
+        limit: number,
+        waId: string
+    ): Promise<MessageWindowResult> {
+        const cachedMessages = await cacheService.getRecentMessages<Message>(conversationId, limit);
+
+        logger.debug(`Cache check for ${conversationId}: found ${cachedMessages.length} messages (limit: ${limit})`);
+
+        if (cachedMessages.length > 0) {
+            logger.info(`Cache HIT for conversation ${conversationId} (${cachedMessages.length} messages)`);
+
+            const cachedCount = await cacheService.get<number>(CacheKeys.MESSAGES_COUNT(conversationId));
+            const total = cachedCount ?? await this.getAndCacheMessageCount(conversationId);
+
+            // Relayed messages are persisted by the worker, so the list may not be in seq order
+            return {
+                messages: this.visibleTo([...cachedMessages].sort(compareBySeq), waId),
+                hasOlder: total > cachedMessages.length,
+                hasNewer: false,
+                cached: true,
+            };
+        }
+
+        logger.info(`Cache MISS for conversation ${conversationId}, fetching from DB`);
+
+        const { messages, hasMore } = await messageRepository.findPage(conversationId, null, 'older', limit);
+
+        if (messages.length > 0) {
+            logger.debug(`Warming cache for ${conversationId} with ${messages.length} messages`);
+            const total = await messageRepository.countByConversation(conversationId);
+            await this.warmMessagesCache(conversationId, [...messages], total);
+        }
+
+        return {
+            messages: this.visibleTo(messages.reverse(), waId),
+            hasOlder: hasMore,
+            hasNewer: false,
             cached: false,
         };
     }
 
     /**
-     * Searches messages across conversations
+     * Searches messages across the caller's conversations (or in one), most relevant first
+     * Each hit carries its conversation and where the search terms occur in its text
      */
     public async searchMessages(
         searchQuery: SearchQuery,
@@ -138,6 +268,16 @@ export default class MessageService {
             ]);
         }
 
+        if (
+            searchQuery.after !== undefined &&
+            searchQuery.before !== undefined &&
+            searchQuery.after > searchQuery.before
+        ) {
+            throw new HttpBadRequestError('Invalid date range', [
+                'after must not be later than before',
+            ]);
+        }
+
         // If conversationId provided, verify access
         if (searchQuery.conversationId) {
             const resolvedId = await messageRepository.resolveConversationId(
@@ -165,15 +305,26 @@ export default class MessageService {
         }
 
         const page = searchQuery.page || 1;
-        const limit = Math.min(searchQuery.limit || 50, 200);
+        const limit = Math.min(searchQuery.limit || 25, 100);
 
-        const { messages, total } = await messageRepository.searchMessages(
+        const { hits, total } = await messageRepository.searchMessages(
             options.userWaId,
             searchQuery
         );
 
+        const terms = searchTerms(searchQuery.query);
+
         return {
-            messages,
+            hits: hits.flatMap(({ message: { conversation, ...message }, score }) =>
+                conversation
+                    ? [{
+                        message,
+                        conversation: toConversationContext(conversation),
+                        score,
+                        highlights: findHighlights(message.text, terms),
+                    }]
+                    : []
+            ),
             searchQuery: searchQuery.query,
             pagination: {
                 currentPage: page,
@@ -184,24 +335,98 @@ export default class MessageService {
         };
     }
 
+    /**
+     * Reserves the next sequence number of a conversation for a message relayed over the socket,
+     * so it can be acked before the worker persists the message
+     * A retry or resend of the same client message id gets the seq it was first given
+     * Returns null if the conversation does not exist
+     */
+    public async reserveSeq(conversationId: string, clientMessageId: string): Promise<number | null> {
+        const resolvedId = await messageRepository.resolveConversationId(conversationId);
+        if (!resolvedId) return null;
+
+        const persisted = await messageRepository.findByClientMessageId(clientMessageId);
+        if (persisted?.conversationId === resolvedId && persisted.seq != null) {
+            return persisted.seq;
+        }
+
+        const key = CacheKeys.RELAYED_MESSAGE_SEQ(resolvedId, clientMessageId);
+        const reserved = await cacheService.get<number>(key);
+        if (reserved !== null) return reserved;
+
+        // When two sends of the same id race, the first reservation wins and the other number is skipped
+        const seq = await conversationRepository.nextSeq(resolvedId);
+        if (await cacheService.setIfAbsent(key, seq, CacheTTL.RELAYED_MESSAGE_SEQ)) {
+            return seq;
+        }
+        return (await cacheService.get<number>(key)) ?? seq;
+    }
+
+    /**
+     * Gets the message changes (new messages, status changes, edits, reactions and deletions)
+     * after each conversation's high-water mark, in bounded batches
+     * Conversations the caller does not take part in are left out
+     */
+    public async syncMessages(
+        marks: SyncMark[],
+        limit: number | undefined,
+        options: MessageServiceOptions
+    ): Promise<{ conversations: ConversationSyncResult[] }> {
+        const batchSize = Math.min(limit || SYNC_BATCH_SIZE, 500);
+        const allowed = new Set(
+            await messageRepository.filterParticipantConversations(
+                marks.map((m) => m.conversationId),
+                options.userWaId
+            )
+        );
+
+        const conversations = await Promise.all(
+            marks
+                .filter((mark) => allowed.has(mark.conversationId))
+                .map(async (mark): Promise<ConversationSyncResult> => {
+                    const { messages, hasMore } = await messageRepository.findChangedSince(mark, batchSize);
+                    const last = messages[messages.length - 1];
+                    const removed = messages.filter((m) => m.deletedFor?.includes(options.userWaId));
+
+                    return {
+                        conversationId: mark.conversationId,
+                        messages: this.visibleTo(messages, options.userWaId),
+                        removedMessageIds: removed.map((m) => m.clientMessageId ?? m.id),
+                        mark: last
+                            ? { conversationId: mark.conversationId, since: last.updatedAt.getTime(), afterId: last.id }
+                            : mark,
+                        hasMore,
+                    };
+                })
+        );
+
+        return { conversations };
+    }
+
     /**
      * Creates and sends a new message
+     * Direct messages are addressed by `to`; group messages by `conversationId`
      * Includes idempotency check to prevent duplicate messages
      */
     public async sendMessage(
         data: {
-            to: string;
+            to?: string;
+            conversationId?: string;
             text: string;
-            type?: string;
+            type?: MessageType;
+            replyTo?: { messageId: string };
+            attachmentId?: string; // Media uploaded through POST /media
             correlationId?: string; // Idempotency key from client
         },
         options: MessageServiceOptions
     ): Promise<{ message: Message; conversationId: string }> {
-        logger.info(`Sending message from ${options.userWaId} to ${data.to}`);
+        logger.info(`Sending message from ${options.userWaId} to ${data.conversationId ?? data.to}`);
 
         // Validate required fields
-        if (!data.to || !data.text) {
-            throw new HttpBadRequestError('Missing required fields', ['to and text are required']);
+        if ((!data.to && !data.conversationId) || (!data.text && !data.attachmentId)) {
+            throw new HttpBadRequestError('Missing required fields', [
+                'text (or attachmentId) and either to or conversationId are required',
+            ]);
         }
 
         // Check idempotency - prevent duplicate messages
@@ -220,26 +445,16 @@ export default class MessageService {
             throw new HttpNotFoundError('Sender not found');
         }
 
-        // Get receiver user
-        const receiverUser = await messageRepository.getUserByWaId(data.to);
-        if (!receiverUser) {
-            throw new HttpNotFoundError('Receiver not found');
-        }
-
-        // Create message and update/create conversation
-        const { message, conversation } = await messageRepository.create({
-            from: options.userWaId,
-            to: data.to,
-            text: data.text,
-            type: data.type,
-            senderUser,
-            receiverUser,
-        });
+        const { message, conversation } = data.conversationId
+            ? await this.createInExistingConversation(data.conversationId, data, senderUser)
+            : await this.createDirectMessage(data.to!, data, senderUser);
 
         logger.info(`Message created: ${message.id}`);
 
+        const participants = conversation.participants.map((p) => p.waId);
+
         // Update cache in background (non-blocking)
-        this.updateCacheAfterSend(conversation.id, message, [options.userWaId, data.to]).catch(
+        this.updateCacheAfterSend(conversation.id, message, participants).catch(
             (err) => logger.error('Cache update failed:', err)
         );
 
@@ -252,20 +467,19 @@ export default class MessageService {
             conversationId,
         };
 
-        // Emit message created event
-        socketService.emitMessageCreated(conversationId, payload, [options.userWaId, data.to]);
+        // Emit message created event to every participant's user room
+        socketService.emitMessageCreated(conversationId, payload, participants);
 
         // Update conversation lastMessage manually (if needed) or rely on socket to trigger client refresh
-        // But for caching, we MUST invalidate the conversation list for both users
+        // But for caching, we MUST invalidate the conversation list for every participant
         // because the "lastMessage" and order changed.
-        await Promise.all([
-            cacheService.del(CacheKeys.USER_CONVERSATIONS(options.userWaId)),
-            cacheService.del(CacheKeys.USER_CONVERSATIONS(data.to)),
-        ]);
-        logger.debug(`[sendMessage] Invalidated conversation list cache for ${options.userWaId} and ${data.to}`);
+        await Promise.all(
+            participants.map((waId) => cacheService.del(CacheKeys.USER_CONVERSATIONS(waId)))
+        );
+        logger.debug(`[sendMessage] Invalidated conversation list cache for ${participants.join(', ')}`);
 
         // Emit conversation updated event
-        socketService.emitConversationUpdated(conversationId, conversation, [options.userWaId, data.to]);
+        socketService.emitConversationUpdated(conversationId, conversation, participants);
 
         return {
             message,
@@ -273,6 +487,176 @@ export default class MessageService {
         };
     }
 
+    /**
+     * Forwards messages to other conversations
+     * Copies keep their type and attachment, are marked forwarded and count how often the
+     * content has been forwarded; each target gets the copies in their original order
+     */
+    public async forwardMessages(
+        data: { messageIds: string[]; conversationIds: string[] },
+        options: MessageServiceOptions
+    ): Promise<{ conversations: Array<{ conversationId: string; messages: Message[] }> }> {
+        const senderUser = await messageRepository.getUserByWaId(options.userWaId);
+        if (!senderUser) {
+            throw new HttpNotFoundError('Sender not found');
+        }
+
+        const sources: Message[] = [];
+        for (const messageId of new Set(data.messageIds)) {
+            const source = await messageRepository.findByIdOrClientId(messageId);
+            if (!source || source.deletedAt || source.deletedFor.includes(senderUser.waId)) {
+                throw new HttpNotFoundError('Message not found', [`Message ${messageId} not found`]);
+            }
+
+            if (!(await conversationRepository.isParticipant(source.conversationId, senderUser.waId))) {
+                throw new HttpForbiddenError('Access denied', [
+                    'You are not a participant in the conversation of a forwarded message',
+                ]);
+            }
+
+            if (source.type === 'system') {
+                throw new HttpBadRequestError('Cannot forward message', [
+                    'Conversation events cannot be forwarded',
+                ]);
+            }
+
+            sources.push(source);
+        }
+        sources.sort(compareBySeq);
+
+        // Every target is checked before anything is sent
+        const targets: Array<{ conversation: Conversation; to: string }> = [];
+        for (const conversationId of new Set(data.conversationIds)) {
+            const target = await this.resolveSendTarget(conversationId, senderUser);
+            if (!targets.some((t) => t.conversation.id === target.conversation.id)) {
+                targets.push(target);
+            }
+        }
+
+        const socketService = (await import('@/lib/socket')).default;
+        const results: Array<{ conversationId: string; messages: Message[] }> = [];
+
+        for (const { conversation: target, to } of targets) {
+            const participants = target.participants.map((p) => p.waId);
+            const messages: Message[] = [];
+            let conversation = target;
+
+            for (const source of sources) {
+                if (source.attachment) {
+                    await this.mediaService.shareAttachment(source.attachment, target.id);
+                }
+
+                const timestamp = Date.now();
+                const created = await messageRepository.createInConversation({
+                    conversationId: target.id,
+                    from: senderUser.waId,
+                    to,
+                    text: source.text,
+                    timestamp,
+                    type: source.type,
+                    attachment: source.attachment ?? undefined,
+                    expiresAt: expiresAtFor(target, timestamp),
+                    forwardCount: (source.forwardCount ?? 0) + 1,
+                    senderName: senderUser.name || `User ${senderUser.waId}`,
+                });
+                conversation = created.conversation;
+                messages.push(created.message);
+
+                await this.updateCacheAfterSend(target.id, created.message, participants);
+                socketService.emitMessageCreated(target.id, { message: created.message, conversationId: target.id }, participants);
+            }
+
+            await Promise.all(
+                participants.map((waId) => cacheService.del(CacheKeys.USER_CONVERSATIONS(waId)))
+            );
+            socketService.emitConversationUpdated(target.id, conversation, participants);
+
+            results.push({ conversationId: target.id, messages });
+        }
+
+        logger.info(
+            `[forwardMessages] ${senderUser.waId} forwarded ${sources.length} message(s) to ${targets.length} conversation(s)`
+        );
+
+        return { conversations: results };
+    }
+
+    /**
+     * Persists a message that was already relayed to recipients over the socket
+     * Called from the chat worker; safe to run more than once for the same message
+     * `relayedAt` is the server time the socket relayed it; the client's timestamp is kept only close to it
+     * Returns the persisted message, the waIds of the conversation's participants and whether
+     * this run created the message (false when an earlier run already had)
+     */
+    public async persistRelayedMessage(
+        payload: MessageSendPayload,
+        relayedAt: number = Date.now()
+    ): Promise<{ message: Message; participants: string[]; created: boolean } | null> {
+        const { message, conversationId } = payload;
+
+        const resolvedId = await messageRepository.resolveConversationId(conversationId);
+        if (!resolvedId) {
+            logger.warn(`[persistRelayedMessage] Conversation ${conversationId} not found, dropping message ${message.id}`);
+            return null;
+        }
+
+        const conversation = await messageRepository.getConversation(resolvedId);
+        const participants = conversation?.participants.map((p) => p.waId) ?? [];
+
+        // Group messages are addressed to the conversation itself
+        const isGroup = conversation?.type === 'group';
+        const recipientOk = isGroup ? message.to === resolvedId : participants.includes(message.to);
+        if (!participants.includes(message.from) || !recipientOk) {
+            logger.warn(`[persistRelayedMessage] ${message.from} -> ${message.to} does not match participants of ${resolvedId}`);
+            return null;
+        }
+
+        const existing = await messageRepository.findByClientMessageId(message.id);
+        if (existing) {
+            logger.debug(`[persistRelayedMessage] Message ${message.id} already persisted as ${existing.id}`);
+            return { message: existing, participants, created: false };
+        }
+
+        const sender = conversation?.participants.find((p) => p.waId === message.from);
+        const replyTo = message.replyTo
+            ? await this.resolveRelayedReply(message.replyTo, resolvedId)
+            : undefined;
+
+        // Attachment metadata is re-read from the upload rather than trusted from the sender
+        let attachment: MessageAttachment | undefined;
+        if (message.attachment) {
+            try {
+                attachment = await this.mediaService.getAttachment(message.attachment.mediaId, resolvedId, message.from);
+            } catch {
+                logger.warn(`[persistRelayedMessage] Attachment ${message.attachment.mediaId} of message ${message.id} is invalid, dropping message`);
+                return null;
+            }
+        }
+
+        const timestamp = Math.min(Math.max(message.timestamp || relayedAt, relayedAt - RELAY_CLOCK_SKEW_MS), relayedAt);
+        const { message: persisted } = await messageRepository.createInConversation({
+            clientMessageId: message.id,
+            conversationId: resolvedId,
+            from: message.from,
+            to: message.to,
+            text: message.text,
+            timestamp,
+            seq: message.seq,
+            type: attachment ? messageTypeForMime(attachment.mimeType) : message.type,
+            replyTo,
+            attachment,
+            expiresAt: expiresAtFor(conversation, timestamp),
+            // The name on record, not the one the sender's client put in the payload
+            senderName: sender?.name || `User ${message.from}`,
+        });
+
+        logger.info(`Relayed message ${message.id} persisted as ${persisted.id}`);
+
+        await this.updateCacheAfterSend(resolvedId, persisted, participants);
+
+        return { message: persisted, participants, created: true };
+    }
+
     /**
      * Updates message delivery status
      */
@@ -291,8 +675,25 @@ export default class MessageService {
             ]);
         }
 
+        const message = await messageRepository.findByIdOrClientId(messageId);
+        if (!message) {
+            throw new HttpNotFoundError('Message not found');
+        }
+
+        // Receipts (and the delivery watermark they move) only come from the conversation's participants
+        const isParticipant = await messageRepository.isUserParticipant(
+            options.userWaId,
+            message.conversationId
+        );
+
+        if (!isParticipant) {
+            throw new HttpForbiddenError('Access denied', [
+                'You are not a participant in this conversation',
+            ]);
+        }
+
         const updatedMessage = await messageRepository.updateStatus(
-            messageId,
+            message.id,
             status as MessageStatus
         );
 
@@ -302,6 +703,12 @@ export default class MessageService {
 
         logger.info(`Message ${messageId} status updated to ${status}`);
 
+        // A recipient's delivery receipt moves their delivery watermark
+        if ((status === 'delivered' || status === 'read') && options.userWaId !== updatedMessage.from) {
+            await conversationRepository.markDelivered(updatedMessage.conversationId, options.userWaId, updatedMessage);
+            await cacheService.del(CacheKeys.USER_CONVERSATIONS(options.userWaId));
+        }
+
         // Emit socket event for real-time status update
         const socketService = (await import('@/lib/socket')).default;
 
@@ -312,7 +719,14 @@ export default class MessageService {
             message: updatedMessage,
         };
 
-        socketService.emitMessageStatusUpdated(updatedMessage.conversationId, payload, [updatedMessage.from, updatedMessage.to]);
+        // Group messages are addressed to the conversation: notify every member instead
+        let recipients = [updatedMessage.from, updatedMessage.to];
+        if (updatedMessage.to === updatedMessage.conversationId) {
+            const conversation = await messageRepository.getConversation(updatedMessage.conversationId);
+            recipients = conversation?.participants.map((p) => p.waId) ?? [updatedMessage.from];
+        }
+
+        socketService.emitMessageStatusUpdated(updatedMessage.conversationId, payload, recipients);
 
         // Update cache in background
         cacheService.updateMessageStatusInCache(
@@ -326,6 +740,642 @@ export default class MessageService {
         return updatedMessage;
     }
 
+    /**
+     * Edits the text of a sent message
+     * Only the sender may edit, and only within the configured edit window
+     */
+    public async editMessage(
+        messageId: string,
+        text: string,
+        options: MessageServiceOptions
+    ): Promise<Message> {
+        logger.info(`Editing message ${messageId}`);
+
+        const message = await messageRepository.findByIdOrClientId(messageId);
+        if (!message) {
+            throw new HttpNotFoundError('Message not found');
+        }
+
+        if (message.from !== options.userWaId) {
+            throw new HttpForbiddenError('Access denied', [
+                'Only the sender can edit a message',
+            ]);
+        }
+
+        if (message.deletedAt) {
+            throw new HttpBadRequestError('Message was deleted', [
+                'Deleted messages cannot be edited',
+            ]);
+        }
+
+        if (Date.now() - message.createdAt.getTime() > MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000) {
+            throw new HttpBadRequestError('Edit window expired', [
+                `Messages can only be edited within ${MESSAGE_EDIT_WINDOW_MINUTES} minutes of sending`,
+            ]);
+        }
+
+        if (message.text === text) {
+            return message;
+        }
+
+        const updatedMessage = await messageRepository.updateText(message.id, text, message.text);
+        await messageRepository.syncLastMessageText(updatedMessage);
+
+        await this.notifyMessageUpdated(updatedMessage);
+
+        return updatedMessage;
+    }
+
+    /**
+     * Deletes a message for the requester only, or replaces it with a tombstone for everyone
+     * Deleting for everyone is limited to the sender and the configured delete window
+     */
+    public async deleteMessage(
+        messageId: string,
+        deleteFor: MessageDeleteScope,
+        options: MessageServiceOptions
+    ): Promise<Message> {
+        logger.info(`Deleting message ${messageId} for ${deleteFor}`);
+
+        const message = await messageRepository.findByIdOrClientId(messageId);
+        if (!message) {
+            throw new HttpNotFoundError('Message not found');
+        }
+
+        const conversation = await messageRepository.getConversation(message.conversationId);
+        const participants = conversation?.participants.map((p) => p.waId) ?? [];
+        if (!participants.includes(options.userWaId)) {
+            throw new HttpForbiddenError('Access denied', [
+                'You are not a participant in this conversation',
+            ]);
+        }
+
+        const socketService = (await import('@/lib/socket')).default;
+
+        if (deleteFor === 'me') {
+            if (message.deletedFor.includes(options.userWaId)) {
+                return message;
+            }
+
+            const hidden = await messageRepository.hideForUser(message.id, options.userWaId);
+            await messageRepository.unstar([message.id], options.userWaId);
+
+            // Only the requester's own devices drop the message
+            socketService.emitMessageDeleted(
+                message.conversationId,
+                { message: hidden, conversationId: message.conversationId, deleteFor },
+                [options.userWaId]
+            );
+            cacheService.updateMessageInCache(message.conversationId, hidden).catch((err) =>
+                logger.warn(`Failed to update message in cache: ${err.message}`)
+            );
+
+            return hidden;
+        }
+
+        if (message.from !== options.userWaId) {
+            throw new HttpForbiddenError('Access denied', [
+                'Only the sender can delete a message for everyone',
+            ]);
+        }
+
+        if (message.deletedAt) {
+            return message;
+        }
+
+        if (Date.now() - message.createdAt.getTime() > MESSAGE_DELETE_WINDOW_MINUTES * 60 * 1000) {
+            throw new HttpBadRequestError('Delete window expired', [
+                `Messages can only be deleted for everyone within ${MESSAGE_DELETE_WINDOW_MINUTES} minutes of sending`,
+            ]);
+        }
+
+        const tombstone = await messageRepository.tombstone(message.id);
+        // Stars only point at messages that can still be read
+        await messageRepository.unstar([message.id]);
+        await this.removeLeftovers(message.conversationId, [message]);
+
+        socketService.emitMessageDeleted(
+            message.conversationId,
+            { message: tombstone, conversationId: message.conversationId, deleteFor },
+            participants
+        );
+        cacheService.updateMessageInCache(message.conversationId, tombstone).catch((err) =>
+            logger.warn(`Failed to update message in cache: ${err.message}`)
+        );
+
+        // A message deleted for everyone cannot stay pinned
+        const pinnedId = message.clientMessageId ?? message.id;
+        if (conversation?.pinnedMessages?.some((pin) => pin.messageId === pinnedId)) {
+            const { pinnedMessages } = await conversationRepository.removePinnedMessages(conversation.id, [pinnedId]);
+            await cacheService.invalidateConversationCaches(conversation.id, participants);
+            socketService.emitMessagePinsUpdated(conversation.id, pinnedMessages, participants);
+        }
+
+        // The conversation preview must not keep showing the deleted text
+        const last = conversation?.lastMessage;
+        if (last && last.timestamp === message.timestamp && last.from === message.from) {
+            const updatedConversation = await messageRepository.refreshLastMessage(message.conversationId);
+            await Promise.all(
+                participants.map((waId) => cacheService.del(CacheKeys.USER_CONVERSATIONS(waId)))
+            );
+            socketService.emitConversationUpdated(message.conversationId, updatedConversation, participants);
+        }
+
+        return tombstone;
+    }
+
+    /**
+     * Sets the caller's reaction on a message, replacing any previous one
+     * `emoji: null` removes the reaction
+     */
+    public async reactToMessage(
+        messageId: string,
+        emoji: string | null,
+        options: MessageServiceOptions
+    ): Promise<Message> {
+        logger.info(`Setting reaction on message ${messageId} to ${emoji ?? 'none'}`);
+
+        const message = await messageRepository.findByIdOrClientId(messageId);
+        if (!message || message.deletedFor.includes(options.userWaId)) {
+            throw new HttpNotFoundError('Message not found');
+        }
+
+        const conversation = await messageRepository.getConversation(message.conversationId);
+        const participants = conversation?.participants.map((p) => p.waId) ?? [];
+        if (!participants.includes(options.userWaId)) {
+            throw new HttpForbiddenError('Access denied', [
+                'You are not a participant in this conversation',
+            ]);
+        }
+
+        if (message.deletedAt) {
+            throw new HttpBadRequestError('Message was deleted', [
+                'Deleted messages cannot be reacted to',
+            ]);
+        }
+
+        const current = message.reactions.find((r) => r.waId === options.userWaId);
+        if ((current?.emoji ?? null) === emoji) {
+            return message;
+        }
+
+        const reactions = message.reactions.filter((r) => r.waId !== options.userWaId);
+        if (emoji) {
+            reactions.push({ waId: options.userWaId, emoji, reactedAt: new Date() });
+        }
+
+        const updated = await messageRepository.setReactions(message.id, reactions);
+        const localId = updated.clientMessageId ?? updated.id;
+
+        const socketService = (await import('@/lib/socket')).default;
+        socketService.emitMessageReactionUpdated(
+            message.conversationId,
+            { message: updated, conversationId: message.conversationId, waId: options.userWaId, emoji },
+            participants
+        );
+        cacheService.updateMessageInCache(message.conversationId, updated).catch((err) =>
+            logger.warn(`Failed to update message in cache: ${err.message}`)
+        );
+
+        // The list preview shows the latest reaction; removing it falls back to the last message
+        const previewIsThisReaction =
+            conversation?.lastReaction?.messageId === localId &&
+            conversation.lastReaction.from === options.userWaId;
+        if (emoji || previewIsThisReaction) {
+            const updatedConversation = await messageRepository.setLastReaction(
+                message.conversationId,
+                emoji
+                    ? {
+                        messageId: localId,
+                        from: options.userWaId,
+                        emoji,
+                        text: updated.text.slice(0, SNIPPET_LENGTH),
+                        timestamp: Date.now(),
+                    }
+                    : null
+            );
+            await Promise.all(
+                participants.map((waId) => cacheService.del(CacheKeys.USER_CONVERSATIONS(waId)))
+            );
+            socketService.emitConversationUpdated(message.conversationId, updatedConversation, participants);
+        }
+
+        return updated;
+    }
+
+    /**
+     * Stars a message for the caller only; starring it again is a no-op
+     */
+    public async starMessage(messageId: string, options: MessageServiceOptions): Promise<StarredMessageResult> {
+        const message = await messageRepository.findByIdOrClientId(messageId);
+        if (!message || message.deletedFor.includes(options.userWaId)) {
+            throw new HttpNotFoundError('Message not found');
+        }
+
+        const conversation = await messageRepository.getConversation(message.conversationId);
+        if (!conversation?.participants.some((p) => p.waId === options.userWaId)) {
+            throw new HttpForbiddenError('Access denied', [
+                'You are not a participant in this conversation',
+            ]);
+        }
+
+        if (message.deletedAt || message.type === 'system') {
+            throw new HttpBadRequestError('Cannot star message', [
+                message.deletedAt ? 'Deleted messages cannot be starred' : 'Conversation events cannot be starred',
+            ]);
+        }
+
+        const star = await messageRepository.star(options.userWaId, message);
+
+        const socketService = (await import('@/lib/socket')).default;
+        socketService.emitMessageStarUpdated(
+            options.userWaId,
+            message.conversationId,
+            message.clientMessageId ?? message.id,
+            true
+        );
+
+        return {
+            id: star.id,
+            starredAt: star.createdAt,
+            message,
+            conversation: toConversationContext(conversation),
+        };
+    }
+
+    /**
+     * Removes the caller's star from a message; unstarring a message that is not starred is a no-op
+     */
+    public async unstarMessage(messageId: string, options: MessageServiceOptions): Promise<void> {
+        const message = await messageRepository.findByIdOrClientId(messageId);
+        if (!message) {
+            throw new HttpNotFoundError('Message not found');
+        }
+
+        const removed = await messageRepository.unstar([message.id], options.userWaId);
+        if (removed === 0) return;
+
+        const socketService = (await import('@/lib/socket')).default;
+        socketService.emitMessageStarUpdated(
+            options.userWaId,
+            message.conversationId,
+            message.clientMessageId ?? message.id,
+            false
+        );
+    }
+
+    /**
+     * Lists the caller's starred messages across conversations (or in one), newest star first
+     * Stars on messages the caller can no longer see are left out
+     */
+    public async getStarredMessages(
+        query: { conversationId?: string; cursor?: string; limit?: number },
+        options: MessageServiceOptions
+    ): Promise<StarredMessagePage> {
+        const limit = Math.min(Math.max(query.limit || 30, 1), 100);
+
+        let conversationId: string | undefined;
+        if (query.conversationId) {
+            const resolvedId = await messageRepository.resolveConversationId(query.conversationId);
+            if (!resolvedId) {
+                throw new HttpNotFoundError('Conversation not found');
+            }
+            conversationId = resolvedId;
+        }
+
+        const { stars, hasMore } = await messageRepository.findStarredPage(
+            options.userWaId,
+            { conversationId },
+            query.cursor,
+            limit
+        );
+
+        const [messages, conversations] = await Promise.all([
+            messageRepository.findByIds(stars.map((star) => star.messageId)),
+            messageRepository.findConversationsByIds([...new Set(stars.map((star) => star.conversationId))]),
+        ]);
+        const messagesById = new Map(messages.map((m) => [m.id, m]));
+        const conversationsById = new Map(conversations.map((c) => [c.id, c]));
+
+        const starred: StarredMessageResult[] = [];
+        for (const star of stars) {
+            const message = messagesById.get(star.messageId);
+            const conversation = conversationsById.get(star.conversationId);
+            if (
+                !message ||
+                !conversation ||
+                message.deletedAt ||
+                message.deletedFor.includes(options.userWaId) ||
+                !conversation.participants.some((p) => p.waId === options.userWaId)
+            ) {
+                continue;
+            }
+
+            starred.push({
+                id: star.id,
+                starredAt: star.createdAt,
+                message,
+                conversation: toConversationContext(conversation),
+            });
+        }
+
+        return {
+            starred,
+            nextCursor: hasMore ? stars[stars.length - 1].id : null,
+        };
+    }
+
+    /**
+     * Deletes messages whose disappearing timer ran out (run periodically by the chat worker)
+     * Each affected conversation gets its cache dropped, its lastMessage refreshed and a
+     * messages:expired event so clients remove their local copies
+     * Returns the number of messages deleted
+     */
+    public async purgeExpiredMessages(): Promise<number> {
+        const socketService = (await import('@/lib/socket')).default;
+        let purged = 0;
+
+        for (;;) {
+            const expired = await messageRepository.findExpired(Date.now(), PURGE_BATCH_SIZE);
+            if (expired.length === 0) break;
+
+            purged += await messageRepository.deleteByIds(expired.map((m) => m.id));
+            await messageRepository.unstar(expired.map((m) => m.id));
+
+            const byConversation = new Map<string, typeof expired>();
+            for (const message of expired) {
+                byConversation.set(message.conversationId, [...(byConversation.get(message.conversationId) ?? []), message]);
+            }
+
+            for (const [conversationId, messages] of byConversation) {
+                await this.removeLeftovers(conversationId, messages);
+
+                // Clients know socket-relayed messages by their client-generated id
+                const messageIds = messages.map((m) => m.clientMessageId ?? m.id);
+                let conversation = await messageRepository.refreshLastMessage(conversationId);
+                const participants = conversation.participants.map((p) => p.waId);
+
+                // Expired messages cannot stay pinned
+                const pinsExpired = conversation.pinnedMessages.some((pin) => messageIds.includes(pin.messageId));
+                if (pinsExpired) {
+                    conversation = await conversationRepository.removePinnedMessages(conversationId, messageIds);
+                }
+
+                await cacheService.invalidateMessageCaches(conversationId);
+                await cacheService.invalidateConversationCaches(conversationId, participants);
+
+                socketService.emitMessagesExpired(conversationId, { conversationId, messageIds }, participants);
+                if (pinsExpired) {
+                    socketService.emitMessagePinsUpdated(conversationId, conversation.pinnedMessages, participants);
+                }
+                socketService.emitConversationUpdated(conversationId, conversation, participants);
+            }
+
+            if (expired.length < PURGE_BATCH_SIZE) break;
+        }
+
+        if (purged > 0) {
+            logger.info(`[purgeExpiredMessages] Deleted ${purged} expired messages`);
+        }
+
+        return purged;
+    }
+
+    /**
+     * Removes what outlives messages that expired or were deleted for everyone: their text
+     * quoted in replies and copied into report evidence, and uploaded files no other message uses
+     */
+    private async removeLeftovers(
+        conversationId: string,
+        messages: Pick<Message, 'id' | 'clientMessageId' | 'attachment'>[]
+    ): Promise<void> {
+        // Replies quote socket-relayed messages by their client id
+        const quotedIds = messages.flatMap((m) => (m.clientMessageId ? [m.id, m.clientMessageId] : [m.id]));
+        if ((await messageRepository.blankReplySnippets(conversationId, quotedIds)) > 0) {
+            await cacheService.invalidateMessageCaches(conversationId);
+        }
+        await reportRepository.blankEvidence(conversationId, messages.map((m) => m.id));
+
+        const mediaIds = messages.flatMap((m) => (m.attachment ? [m.attachment.mediaId] : []));
+        if (mediaIds.length > 0) {
+            await this.mediaService.releaseAttachments(mediaIds);
+        }
+    }
+
+    /**
+     * Fans a changed message out to the conversation and refreshes the cached copies
+     */
+    private async notifyMessageUpdated(message: Message): Promise<void> {
+        const conversation = await messageRepository.getConversation(message.conversationId);
+        const participants = conversation?.participants.map((p) => p.waId) ?? [message.from];
+
+        const socketService = (await import('@/lib/socket')).default;
+        socketService.emitMessageUpdated(
+            message.conversationId,
+            { message, conversationId: message.conversationId },
+            participants
+        );
+
+        cacheService.updateMessageInCache(message.conversationId, message).catch((err) =>
+            logger.warn(`Failed to update message in cache: ${err.message}`)
+        );
+        await Promise.all(
+            participants.map((waId) => cacheService.del(CacheKeys.USER_CONVERSATIONS(waId)))
+        );
+    }
+
+    /**
+     * Drops messages the viewer deleted for themselves (the cache is shared by all participants)
+     */
+    private visibleTo(messages: Message[], waId: string): Message[] {
+        return messages.filter((m) => !m.deletedFor?.includes(waId));
+    }
+
+    /**
+     * Direct message: find or create the two-party conversation with `to`
+     */
+    private async createDirectMessage(
+        to: string,
+        data: { text: string; type?: MessageType; replyTo?: { messageId: string }; attachmentId?: string },
+        senderUser: User
+    ): Promise<{ message: Message; conversation: Conversation }> {
+        // Get receiver user
+        const receiverUser = await messageRepository.getUserByWaId(to);
+        if (!receiverUser) {
+            throw new HttpNotFoundError('Receiver not found');
+        }
+
+        await this.contactService.assertNotBlocked(senderUser.waId, receiverUser.waId);
+
+        // A quoted message must come from the direct conversation between the two users
+        const replyTo = data.replyTo
+            ? await this.getReplySnippet(data.replyTo.messageId, senderUser.waId, (conversation) =>
+                conversation.type !== 'group' &&
+                [senderUser.waId, receiverUser.waId].every((waId) =>
+                    conversation.participants.some((p) => p.waId === waId)
+                )
+            )
+            : undefined;
+
+        // Media is uploaded to a conversation, so attachments need the existing direct conversation
+        let attachment: MessageAttachment | undefined;
+        if (data.attachmentId) {
+            const existing = await conversationRepository.findByParticipants(senderUser.waId, receiverUser.waId);
+            if (!existing) {
+                throw new HttpBadRequestError('Invalid attachment', [
+                    'Attachments can only be sent in an existing conversation',
+                ]);
+            }
+            attachment = await this.mediaService.getAttachment(data.attachmentId, existing.id, senderUser.waId);
+        }
+
+        // Create message and update/create conversation
+        return messageRepository.create({
+            from: senderUser.waId,
+            to,
+            text: data.text,
+            type: attachment ? messageTypeForMime(attachment.mimeType) : data.type,
+            replyTo,
+            attachment,
+            senderUser,
+            receiverUser,
+        });
+    }
+
+    /**
+     * Message into a known conversation (required for groups, where `to` is the conversation id)
+     */
+    private async createInExistingConversation(
+        conversationId: string,
+        data: { text: string; type?: MessageType; replyTo?: { messageId: string }; attachmentId?: string },
+        senderUser: User
+    ): Promise<{ message: Message; conversation: Conversation }> {
+        const { conversation, to } = await this.resolveSendTarget(conversationId, senderUser);
+
+        const replyTo = data.replyTo
+            ? await this.getReplySnippet(
+                data.replyTo.messageId,
+                senderUser.waId,
+                (quotedConversation) => quotedConversation.id === conversation.id
+            )
+            : undefined;
+
+        const attachment = data.attachmentId
+            ? await this.mediaService.getAttachment(data.attachmentId, conversation.id, senderUser.waId)
+            : undefined;
+
+        const timestamp = Date.now();
+        return messageRepository.createInConversation({
+            conversationId: conversation.id,
+            from: senderUser.waId,
+            to,
+            text: data.text,
+            timestamp,
+            type: attachment ? messageTypeForMime(attachment.mimeType) : data.type,
+            replyTo,
+            attachment,
+            expiresAt: expiresAtFor(conversation, timestamp),
+            senderName: senderUser.name || `User ${senderUser.waId}`,
+        });
+    }
+
+    /**
+     * A conversation the sender may post to, with the recipient of its messages
+     * (the other participant of a direct conversation, the conversation itself for groups)
+     */
+    private async resolveSendTarget(
+        conversationId: string,
+        senderUser: User
+    ): Promise<{ conversation: Conversation; to: string }> {
+        const resolvedId = await messageRepository.resolveConversationId(conversationId);
+        const conversation = resolvedId ? await messageRepository.getConversation(resolvedId) : null;
+        if (!conversation) {
+            throw new HttpNotFoundError('Conversation not found');
+        }
+
+        if (!conversation.participants.some((p) => p.waId === senderUser.waId)) {
+            throw new HttpForbiddenError('Access denied', [
+                'You are not a participant in this conversation',
+            ]);
+        }
+
+        const to =
+            conversation.type === 'group'
+                ? conversation.id
+                : conversation.participants.find((p) => p.waId !== senderUser.waId)?.waId;
+        if (!to) {
+            throw new HttpBadRequestError('Conversation has no recipient', [
+                'The conversation has no other participant',
+            ]);
+        }
+
+        // Blocks apply between the two people of a direct conversation only
+        if (conversation.type !== 'group') {
+            await this.contactService.assertNotBlocked(senderUser.waId, to);
+        }
+
+        return { conversation, to };
+    }
+
+    /**
+     * Builds the quoted snippet for a reply from the original message
+     * `inConversation` decides whether the original's conversation is the one being replied in
+     */
+    private async getReplySnippet(
+        messageId: string,
+        senderWaId: string,
+        inConversation: (conversation: Conversation) => boolean
+    ): Promise<MessageReply> {
+        const original = await messageRepository.findByIdOrClientId(messageId);
+        const conversation = original
+            ? await messageRepository.getConversation(original.conversationId)
+            : null;
+
+        if (
+            !original ||
+            !conversation ||
+            !inConversation(conversation) ||
+            original.deletedFor.includes(senderWaId)
+        ) {
+            throw new HttpBadRequestError('Invalid reply', [
+                'The quoted message was not found in this conversation',
+            ]);
+        }
+
+        return this.toReplySnippet(original);
+    }
+
+    /**
+     * Quoted snippet of a relayed reply, always taken from the stored original
+     * The sender's snippet is never stored, so a quote whose original is not found is dropped
+     */
+    private async resolveRelayedReply(
+        replyTo: NonNullable<MessageSendPayload['message']['replyTo']>,
+        conversationId: string
+    ): Promise<MessageReply | undefined> {
+        const original = await messageRepository.findByIdOrClientId(replyTo.messageId);
+
+        if (!original || original.conversationId !== conversationId) {
+            logger.warn(`[persistRelayedMessage] Reply to ${replyTo.messageId} is not in ${conversationId}, dropping the quote`);
+            return undefined;
+        }
+
+        return this.toReplySnippet(original);
+    }
+
+    /**
+     * Denormalized copy of a message for `replyTo`
+     */
+    private toReplySnippet(message: Message): MessageReply {
+        return {
+            // Clients store socket-relayed messages under their client id
+            messageId: message.clientMessageId ?? message.id,
+            from: message.from,
+            text: message.deletedAt ? '' : (message.text || message.attachment?.fileName || '').slice(0, SNIPPET_LENGTH),
+            type: message.type,
+        };
+    }
+
     // ============================================
     // PRIVATE CACHE HELPER METHODS
     // ============================================
@@ -361,7 +1411,7 @@ export default class MessageService {
      * Get and cache message count for a conversation
      */
     private async getAndCacheMessageCount(conversationId: string): Promise<number> {
-        const { total } = await messageRepository.findByConversation(conversationId, { page: 1, limit: 1 });
+        const total = await messageRepository.countByConversation(conversationId);
         await cacheService.set(CacheKeys.MESSAGES_COUNT(conversationId), total, CacheTTL.MESSAGES_RECENT);
         return total;
     }
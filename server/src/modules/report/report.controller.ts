@@ -0,0 +1,135 @@
+import { type NextFunction } from 'express';
+import { HttpStatusCode } from 'axios';
+import { type Report, type ReportStatus } from '@prisma/client';
+import ReportService, { REPORT_PAGE_SIZE, type ReportPage, type SuspensionResult } from './report.service';
+import { type CustomResponse } from '@/types/common.type';
+import { type AuthRequest } from '@/types/auth.type';
+import Api from '@/lib/api';
+
+const REPORT_STATUSES: ReportStatus[] = ['open', 'reviewed', 'actioned'];
+
+/**
+ * Controller for reports and moderation endpoints
+ */
+export default class ReportController extends Api {
+    private readonly reportService = new ReportService();
+
+    /**
+     * POST / - Report a message or a user
+     */
+    public create = async (
+        req: AuthRequest,
+        res: CustomResponse<Report>,
+        next: NextFunction
+    ) => {
+        try {
+            const { messageId, waId, reason, details, block } = req.body;
+
+            const report = await this.reportService.fileReport(
+                { messageId, waId, reason, details, block },
+                {
+                    userId: req.user!.id,
+                    userWaId: req.user!.waId,
+                }
+            );
+
+            this.send(res, report, HttpStatusCode.Created, 'Report submitted');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * GET / - List reports (moderators)
+     */
+    public list = async (
+        req: AuthRequest,
+        res: CustomResponse<ReportPage | null>,
+        next: NextFunction
+    ) => {
+        try {
+            const { status, waId, cursor, limit } = req.query;
+
+            if (status && !REPORT_STATUSES.includes(status as ReportStatus)) {
+                return res.status(HttpStatusCode.BadRequest).json({
+                    message: `Invalid status. Must be one of: ${REPORT_STATUSES.join(', ')}`,
+                    data: null,
+                });
+            }
+
+            const page = await this.reportService.listReports(
+                {
+                    status: (status as ReportStatus | undefined) ?? 'open',
+                    reportedWaId: waId ? String(waId) : undefined,
+                },
+                cursor ? String(cursor) : undefined,
+                Math.min(Math.max(Number(limit) || REPORT_PAGE_SIZE, 1), 100)
+            );
+
+            this.send(res, page, HttpStatusCode.Ok, 'Reports retrieved');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * PATCH /:reportId - Mark a report reviewed or actioned (moderators)
+     */
+    public resolve = async (
+        req: AuthRequest,
+        res: CustomResponse<Report>,
+        next: NextFunction
+    ) => {
+        try {
+            const { status, note } = req.body;
+
+            const report = await this.reportService.resolveReport(
+                req.params.reportId,
+                { status, note },
+                req.user!.waId
+            );
+
+            this.send(res, report, HttpStatusCode.Ok, 'Report resolved');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * PUT /users/:waId/suspension - Suspend an account (moderators)
+     */
+    public suspend = async (
+        req: AuthRequest,
+        res: CustomResponse<SuspensionResult>,
+        next: NextFunction
+    ) => {
+        try {
+            const result = await this.reportService.suspendUser(
+                req.params.waId,
+                req.body.reason,
+                req.user!.waId
+            );
+
+            this.send(res, result, HttpStatusCode.Ok, 'User suspended');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * DELETE /users/:waId/suspension - Lift a suspension (moderators)
+     */
+    public unsuspend = async (
+        req: AuthRequest,
+        res: CustomResponse<null>,
+        next: NextFunction
+    ) => {
+        try {
+            await this.reportService.unsuspendUser(req.params.waId, req.user!.waId);
+
+            this.send(res, null, HttpStatusCode.Ok, 'Suspension lifted');
+        } catch (e) {
+            next(e);
+        }
+    };
+}
@@ -0,0 +1,133 @@
+import { type Prisma, type Report, type ReportStatus, type User } from '@prisma/client';
+import prisma from '@/lib/prisma';
+
+/**
+ * Repository for reports and account suspensions
+ */
+export class ReportRepository {
+    /**
+     * Files a new report
+     */
+    public async create(data: Prisma.ReportUncheckedCreateInput): Promise<Report> {
+        return prisma.report.create({ data });
+    }
+
+    /**
+     * Finds a report by id (ignores ids that are not ObjectIds)
+     */
+    public async findById(id: string): Promise<Report | null> {
+        if (!/^[a-f\d]{24}$/i.test(id)) return null;
+
+        return prisma.report.findUnique({
+            where: { id },
+        });
+    }
+
+    /**
+     * Finds the reporter's open report on the same message, or on the same user
+     */
+    public async findOpenDuplicate(
+        reporterWaId: string,
+        target: { messageId: string } | { reportedWaId: string }
+    ): Promise<Report | null> {
+        return prisma.report.findFirst({
+            where: {
+                reporterWaId,
+                status: 'open',
+                ...('messageId' in target
+                    ? { messageId: target.messageId }
+                    : {
+                        reportedWaId: target.reportedWaId,
+                        OR: [{ messageId: { isSet: false } }, { messageId: null }],
+                    }),
+            },
+        });
+    }
+
+    /**
+     * Lists reports oldest first, after the `cursor` report
+     */
+    public async findPage(
+        filter: { status?: ReportStatus; reportedWaId?: string },
+        cursor: string | undefined,
+        limit: number
+    ): Promise<{ reports: Report[]; hasMore: boolean }> {
+        const reports = await prisma.report.findMany({
+            where: {
+                ...(filter.status && { status: filter.status }),
+                ...(filter.reportedWaId && { reportedWaId: filter.reportedWaId }),
+                ...(cursor && { id: { gt: cursor } }),
+            },
+            orderBy: { id: 'asc' },
+            take: limit + 1,
+        });
+
+        return { reports: reports.slice(0, limit), hasMore: reports.length > limit };
+    }
+
+    /**
+     * Blanks the evidence copied from messages that expired or were deleted for everyone
+     */
+    public async blankEvidence(conversationId: string, messageIds: string[]): Promise<void> {
+        await prisma.report.updateMany({
+            where: { conversationId, evidence: { some: { messageId: { in: messageIds } } } },
+            data: {
+                evidence: {
+                    updateMany: { where: { messageId: { in: messageIds } }, data: { text: '', fileName: null } },
+                },
+            },
+        });
+    }
+
+    /**
+     * Closes a report only while it is still open
+     * Returns null if another moderator resolved it in the meantime
+     */
+    public async resolveOpen(
+        id: string,
+        data: { status: ReportStatus; resolvedBy: string; resolutionNote?: string }
+    ): Promise<Report | null> {
+        const { count } = await prisma.report.updateMany({
+            where: { id, status: 'open' },
+            data: { ...data, resolvedAt: new Date() },
+        });
+
+        return count > 0 ? this.findById(id) : null;
+    }
+
+    /**
+     * Marks the open reports against a user as actioned (after suspending them)
+     */
+    public async actionOpenAgainst(reportedWaId: string, resolvedBy: string): Promise<number> {
+        const { count } = await prisma.report.updateMany({
+            where: { reportedWaId, status: 'open' },
+            data: { status: 'actioned', resolvedBy, resolvedAt: new Date() },
+        });
+
+        return count;
+    }
+
+    /**
+     * Finds a user by waId
+     */
+    public async findUserByWaId(waId: string): Promise<User | null> {
+        return prisma.user.findUnique({
+            where: { waId },
+        });
+    }
+
+    /**
+     * Sets or clears a user's suspension
+     */
+    public async setSuspension(
+        userId: string,
+        suspension: { suspendedAt: Date; suspensionReason: string | null } | null
+    ): Promise<User> {
+        return prisma.user.update({
+            where: { id: userId },
+            data: suspension ?? { suspendedAt: null, suspensionReason: null },
+        });
+    }
+}
+
+export default new ReportRepository();
@@ -0,0 +1,146 @@
+import { Router } from 'express';
+import Controller from './report.controller';
+import { requireModerator, verifyAuthToken } from '@/middlewares/auth';
+import RequestValidator from '@/middlewares/request-validator';
+import { messageLimiter } from '@/middlewares/rate-limiter';
+import { CreateReportDto, ResolveReportDto, SuspendUserDto } from '@/dto/report.dto';
+
+const report: Router = Router();
+const controller = new Controller();
+
+// All report routes require authentication
+report.use(verifyAuthToken);
+
+/**
+ * Message snapshot kept with a report
+ * @typedef {object} ReportEvidence
+ * @property {string} messageId - Message ID
+ * @property {string} from - Sender waId
+ * @property {string} text - Text when the report was filed (empty if deleted for everyone)
+ * @property {string} type - Message type
+ * @property {string} fileName - Attachment name
+ * @property {number} timestamp - Sent at (epoch seconds)
+ */
+
+/**
+ * Report
+ * @typedef {object} Report
+ * @property {string} id - Report ID
+ * @property {string} reporterWaId - waId of the reporter
+ * @property {string} reportedWaId - waId of the reported user, or of the sender of the reported message
+ * @property {string} messageId - Reported message (unset for user reports)
+ * @property {string} conversationId - Conversation the evidence was taken from
+ * @property {string} reason - spam, harassment, hate_speech, violence, sexual_content, scam or other
+ * @property {string} details - Free text from the reporter
+ * @property {array<ReportEvidence>} evidence - Messages around the reported one, oldest first
+ * @property {string} status - open, reviewed or actioned
+ * @property {string} resolvedBy - waId of the moderator who closed it
+ * @property {string} resolvedAt - When it was closed
+ * @property {string} resolutionNote - Moderator note
+ */
+
+/**
+ * Report body
+ * @typedef {object} CreateReportBody
+ * @property {string} messageId - Message to report (required unless waId is set)
+ * @property {string} waId - User to report (required unless messageId is set)
+ * @property {string} reason.required - spam, harassment, hate_speech, violence, sexual_content, scam or other
+ * @property {string} details - More context (max 1000 chars)
+ * @property {boolean} block - Also block the reported user
+ */
+
+/**
+ * Resolve report body
+ * @typedef {object} ResolveReportBody
+ * @property {string} status.required - reviewed or actioned
+ * @property {string} note - Moderator note (max 1000 chars)
+ */
+
+/**
+ * Page of reports
+ * @typedef {object} ReportPage
+ * @property {array<Report>} reports - Reports, oldest first
+ * @property {string} nextCursor - Pass as cursor for the next page (null on the last page)
+ */
+
+/**
+ * Suspend user body
+ * @typedef {object} SuspendUserBody
+ * @property {string} reason - Shown to the user when they try to log in (max 500 chars)
+ */
+
+/**
+ * POST /reports
+ * @summary Report a message or a user; the surrounding messages are kept as evidence
+ * @tags reports
+ * @security bearerAuth
+ * @param {CreateReportBody} request.body.required
+ * @return {Report} 201 - Report submitted
+ * @return {object} 403 - Not a participant in the conversation of the message
+ * @return {object} 404 - Message or user not found
+ * @return {object} 409 - Already reported and waiting for review
+ */
+report.post('/', messageLimiter, RequestValidator.validate(CreateReportDto), controller.create);
+
+/**
+ * GET /reports
+ * @summary List reports, oldest first (moderators only)
+ * @tags reports
+ * @security bearerAuth
+ * @param {string} status.query - open (default), reviewed or actioned
+ * @param {string} waId.query - Only reports against this user
+ * @param {string} cursor.query - nextCursor of the previous page
+ * @param {number} limit.query - Page size (default 50, max 100)
+ * @return {ReportPage} 200 - Reports
+ * @return {object} 403 - Not a moderator
+ */
+report.get('/', requireModerator, controller.list);
+
+/**
+ * PUT /reports/users/:waId/suspension
+ * @summary Suspend an account; its open reports are marked actioned (moderators only)
+ * @tags reports
+ * @security bearerAuth
+ * @param {string} waId.path.required - User to suspend
+ * @param {SuspendUserBody} request.body
+ * @return {object} 200 - User suspended
+ * @return {object} 403 - Not a moderator, or the user is a moderator
+ * @return {object} 404 - User not found
+ */
+report.put(
+    '/users/:waId/suspension',
+    requireModerator,
+    RequestValidator.validate(SuspendUserDto),
+    controller.suspend
+);
+
+/**
+ * DELETE /reports/users/:waId/suspension
+ * @summary Lift a suspension (moderators only)
+ * @tags reports
+ * @security bearerAuth
+ * @param {string} waId.path.required - Suspended user
+ * @return {object} 200 - Suspension lifted
+ * @return {object} 404 - User not found or not suspended
+ */
+report.delete('/users/:waId/suspension', requireModerator, controller.unsuspend);
+
+/**
+ * PATCH /reports/:reportId
+ * @summary Mark an open report reviewed or actioned (moderators only)
+ * @tags reports
+ * @security bearerAuth
+ * @param {string} reportId.path.required - Report ID
+ * @param {ResolveReportBody} request.body.required
+ * @return {Report} 200 - Report resolved
+ * @return {object} 404 - Report not found
+ * @return {object} 409 - Already resolved
+ */
+report.patch(
+    '/:reportId',
+    requireModerator,
+    RequestValidator.validate(ResolveReportDto),
+    controller.resolve
+);
+
+export default report;
@@ -0,0 +1,281 @@
+import { type Message, type Report, type ReportEvidence, type ReportReason, type ReportStatus } from '@prisma/client';
+import reportRepository from './report.repository';
+import messageRepository from '@/modules/message/message.repository';
+import conversationRepository from '@/modules/conversation/conversation.repository';
+import ContactService from '@/modules/contact/contact.service';
+import socketService from '@/lib/socket';
+import { redis } from '@/lib/redis';
+import { HttpBadRequestError, HttpConflictError, HttpForbiddenError, HttpNotFoundError } from '@/lib/errors';
+import logger from '@/lib/logger';
+
+/**
+ * Messages copied as evidence on each side of a reported message
+ * User reports get twice as many of the latest messages of the direct chat
+ */
+const EVIDENCE_CONTEXT = 5;
+
+export const REPORT_PAGE_SIZE = 50;
+
+export interface ReportServiceOptions {
+    userId: string;
+    userWaId: string;
+}
+
+export interface ReportPage {
+    reports: Report[];
+    nextCursor: string | null;
+}
+
+export interface SuspensionResult {
+    waId: string;
+    suspendedAt: Date | null;
+    suspensionReason: string | null;
+    actionedReports: number;
+}
+
+/**
+ * Normalize WhatsApp ID (add 91 prefix if missing)
+ */
+const normalizeWaId = (waId: string): string => {
+    return waId?.startsWith('91') ? waId.trim() : `91${waId?.trim()}`;
+};
+
+// Snapshot of a message as the reporter saw it
+const toEvidence = (message: Message): ReportEvidence => ({
+    messageId: message.id,
+    from: message.from,
+    text: message.deletedAt ? '' : message.text,
+    type: message.type,
+    fileName: message.attachment?.fileName ?? null,
+    timestamp: message.timestamp,
+});
+
+/**
+ * Service layer for reports and the moderation queue
+ */
+export default class ReportService {
+    private readonly contactService = new ContactService();
+
+    /**
+     * Reports a message, or a user, with the surrounding messages as evidence
+     */
+    public async fileReport(
+        data: {
+            messageId?: string;
+            waId?: string;
+            reason: ReportReason;
+            details?: string;
+            block?: boolean;
+        },
+        options: ReportServiceOptions
+    ): Promise<Report> {
+        const { userWaId } = options;
+        let target: Pick<Report, 'reportedWaId' | 'messageId' | 'conversationId' | 'evidence'>;
+
+        if (data.messageId) {
+            const message = await messageRepository.findByIdOrClientId(data.messageId);
+            if (!message || message.deletedFor.includes(userWaId)) {
+                throw new HttpNotFoundError('Message not found');
+            }
+
+            if (!(await conversationRepository.isParticipant(message.conversationId, userWaId))) {
+                throw new HttpForbiddenError('Access denied', [
+                    'You are not a participant in this conversation',
+                ]);
+            }
+
+            if (message.from === userWaId) {
+                throw new HttpBadRequestError('Cannot report your own message', [
+                    'Cannot report your own message',
+                ]);
+            }
+
+            target = {
+                reportedWaId: message.from,
+                messageId: message.id,
+                conversationId: message.conversationId,
+                evidence: await this.gatherEvidence(message, userWaId),
+            };
+        } else {
+            const reported = await reportRepository.findUserByWaId(normalizeWaId(data.waId!));
+            if (!reported) {
+                throw new HttpNotFoundError('User not found');
+            }
+
+            if (reported.waId === userWaId) {
+                throw new HttpBadRequestError('Cannot report yourself', ['Cannot report yourself']);
+            }
+
+            const conversation = await conversationRepository.findByParticipants(userWaId, reported.waId);
+            target = {
+                reportedWaId: reported.waId,
+                messageId: null,
+                conversationId: conversation?.id ?? null,
+                evidence: conversation ? await this.gatherLatest(conversation.id, userWaId) : [],
+            };
+        }
+
+        const duplicate = await reportRepository.findOpenDuplicate(
+            userWaId,
+            target.messageId ? { messageId: target.messageId } : { reportedWaId: target.reportedWaId }
+        );
+        if (duplicate) {
+            throw new HttpConflictError('Already reported', [
+                'You already reported this and it is waiting for review',
+            ]);
+        }
+
+        const report = await reportRepository.create({
+            reporterWaId: userWaId,
+            ...target,
+            reason: data.reason,
+            details: data.details?.trim() || null,
+        });
+
+        logger.info(`[fileReport] ${userWaId} reported ${target.reportedWaId} (${report.id}, ${data.reason})`);
+
+        if (data.block) {
+            await this.contactService.blockUser(options.userId, target.reportedWaId);
+        }
+
+        return report;
+    }
+
+    /**
+     * Lists the moderation queue, oldest first
+     */
+    public async listReports(
+        filter: { status?: ReportStatus; reportedWaId?: string },
+        cursor?: string,
+        limit: number = REPORT_PAGE_SIZE
+    ): Promise<ReportPage> {
+        const { reports, hasMore } = await reportRepository.findPage(
+            {
+                ...filter,
+                ...(filter.reportedWaId && { reportedWaId: normalizeWaId(filter.reportedWaId) }),
+            },
+            cursor,
+            limit
+        );
+
+        return {
+            reports,
+            nextCursor: hasMore ? reports[reports.length - 1].id : null,
+        };
+    }
+
+    /**
+     * Closes an open report
+     */
+    public async resolveReport(
+        reportId: string,
+        data: { status: 'reviewed' | 'actioned'; note?: string },
+        moderatorWaId: string
+    ): Promise<Report> {
+        const report = await reportRepository.findById(reportId);
+        if (!report) {
+            throw new HttpNotFoundError('Report not found');
+        }
+
+        const resolved = await reportRepository.resolveOpen(report.id, {
+            status: data.status,
+            resolvedBy: moderatorWaId,
+            resolutionNote: data.note?.trim() || undefined,
+        });
+        if (!resolved) {
+            throw new HttpConflictError('Report already resolved', [
+                `This report was already marked ${report.status}`,
+            ]);
+        }
+
+        logger.info(`[resolveReport] ${moderatorWaId} marked report ${report.id} ${data.status}`);
+
+        return resolved;
+    }
+
+    /**
+     * Suspends an account: ends its session, disconnects its sockets
+     * and marks the open reports against it as actioned
+     */
+    public async suspendUser(
+        waId: string,
+        reason: string | undefined,
+        moderatorWaId: string
+    ): Promise<SuspensionResult> {
+        const user = await reportRepository.findUserByWaId(normalizeWaId(waId));
+        if (!user) {
+            throw new HttpNotFoundError('User not found');
+        }
+
+        if (user.waId === moderatorWaId) {
+            throw new HttpBadRequestError('Cannot suspend yourself', ['Cannot suspend yourself']);
+        }
+
+        if (user.role === 'moderator') {
+            throw new HttpForbiddenError('Cannot suspend a moderator');
+        }
+
+        const suspended = await reportRepository.setSuspension(user.id, {
+            suspendedAt: user.suspendedAt ?? new Date(),
+            suspensionReason: reason?.trim() || null,
+        });
+
+        await redis.del(`auth:session:${user.id}`);
+        socketService.emitAccountSuspended(user.waId);
+
+        const actionedReports = await reportRepository.actionOpenAgainst(user.waId, moderatorWaId);
+
+        logger.info(`[suspendUser] ${moderatorWaId} suspended ${user.waId} (${actionedReports} reports actioned)`);
+
+        return {
+            waId: suspended.waId,
+            suspendedAt: suspended.suspendedAt,
+            suspensionReason: suspended.suspensionReason,
+            actionedReports,
+        };
+    }
+
+    /**
+     * Lifts a suspension
+     */
+    public async unsuspendUser(waId: string, moderatorWaId: string): Promise<void> {
+        const user = await reportRepository.findUserByWaId(normalizeWaId(waId));
+        if (!user) {
+            throw new HttpNotFoundError('User not found');
+        }
+
+        if (!user.suspendedAt) {
+            throw new HttpNotFoundError('User is not suspended');
+        }
+
+        await reportRepository.setSuspension(user.id, null);
+
+        logger.info(`[unsuspendUser] ${moderatorWaId} lifted the suspension of ${user.waId}`);
+    }
+
+    /**
+     * The reported message with the messages around it, oldest first
+     */
+    private async gatherEvidence(message: Message, viewerWaId: string): Promise<ReportEvidence[]> {
+        const [older, newer] = await Promise.all([
+            messageRepository.findPage(message.conversationId, message, 'older', EVIDENCE_CONTEXT),
+            messageRepository.findPage(message.conversationId, message, 'newer', EVIDENCE_CONTEXT),
+        ]);
+
+        return [...older.messages.reverse(), message, ...newer.messages]
+            .filter((m) => !m.deletedFor.includes(viewerWaId))
+            .map(toEvidence);
+    }
+
+    /**
+     * The latest messages of a conversation, oldest first
+     */
+    private async gatherLatest(conversationId: string, viewerWaId: string): Promise<ReportEvidence[]> {
+        const { messages } = await messageRepository.findPage(conversationId, null, 'older', EVIDENCE_CONTEXT * 2);
+
+        return messages
+            .reverse()
+            .filter((m) => !m.deletedFor.includes(viewerWaId))
+            .map(toEvidence);
+    }
+}
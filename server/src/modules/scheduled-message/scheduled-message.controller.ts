@@ -0,0 +1,127 @@
+import { type NextFunction } from 'express';
+import { HttpStatusCode } from 'axios';
+import { type ScheduledMessage, type ScheduledMessageStatus } from '@prisma/client';
+import ScheduledMessageService from './scheduled-message.service';
+import { type CustomResponse } from '@/types/common.type';
+import { type AuthRequest } from '@/types/auth.type';
+import Api from '@/lib/api';
+
+const SCHEDULE_STATUSES: ScheduledMessageStatus[] = ['pending', 'sending', 'sent', 'failed', 'cancelled'];
+
+/**
+ * Controller for scheduled message endpoints
+ */
+export default class ScheduledMessageController extends Api {
+    private readonly scheduledMessageService = new ScheduledMessageService();
+
+    /**
+     * POST / - Schedule a message
+     */
+    public schedule = async (
+        req: AuthRequest,
+        res: CustomResponse<ScheduledMessage>,
+        next: NextFunction
+    ) => {
+        try {
+            const { conversationId, text, scheduledFor, attachmentId, replyTo } = req.body;
+
+            const schedule = await this.scheduledMessageService.schedule(
+                {
+                    conversationId,
+                    text,
+                    scheduledFor: Number(scheduledFor),
+                    attachmentId,
+                    replyTo,
+                },
+                {
+                    userWaId: req.user!.waId,
+                }
+            );
+
+            this.send(res, schedule, HttpStatusCode.Created, 'Message scheduled');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * GET / - List the caller's scheduled messages
+     */
+    public list = async (
+        req: AuthRequest,
+        res: CustomResponse<ScheduledMessage[] | null>,
+        next: NextFunction
+    ) => {
+        try {
+            const { conversationId, status } = req.query;
+
+            if (status && !SCHEDULE_STATUSES.includes(status as ScheduledMessageStatus)) {
+                return res.status(HttpStatusCode.BadRequest).json({
+                    message: `Invalid status. Must be one of: ${SCHEDULE_STATUSES.join(', ')}`,
+                    data: null,
+                });
+            }
+
+            const schedules = await this.scheduledMessageService.list(
+                {
+                    conversationId: conversationId ? String(conversationId) : undefined,
+                    status: status as ScheduledMessageStatus | undefined,
+                },
+                {
+                    userWaId: req.user!.waId,
+                }
+            );
+
+            this.send(res, schedules, HttpStatusCode.Ok, 'Scheduled messages retrieved');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * PATCH /:scheduleId - Change the text or time of a pending scheduled message
+     */
+    public update = async (
+        req: AuthRequest,
+        res: CustomResponse<ScheduledMessage>,
+        next: NextFunction
+    ) => {
+        try {
+            const { text, scheduledFor } = req.body;
+
+            const schedule = await this.scheduledMessageService.update(
+                req.params.scheduleId,
+                {
+                    text,
+                    scheduledFor: scheduledFor === undefined ? undefined : Number(scheduledFor),
+                },
+                {
+                    userWaId: req.user!.waId,
+                }
+            );
+
+            this.send(res, schedule, HttpStatusCode.Ok, 'Scheduled message updated');
+        } catch (e) {
+            next(e);
+        }
+    };
+
+    /**
+     * DELETE /:scheduleId - Cancel a pending scheduled message
+     */
+    public cancel = async (
+        req: AuthRequest,
+        res: CustomResponse<ScheduledMessage>,
+        next: NextFunction
+    ) => {
+        try {
+            const schedule = await this.scheduledMessageService.cancel(req.params.scheduleId, {
+                userWaId: req.user!.waId,
+            });
+
+            this.send(res, schedule, HttpStatusCode.Ok, 'Scheduled message cancelled');
+        } catch (e) {
+            next(e);
+        }
+    };
+}
@@ -0,0 +1,81 @@
+import { type Prisma, type ScheduledMessage, type ScheduledMessageStatus } from '@prisma/client';
+import prisma from '@/lib/prisma';
+
+/**
+ * Repository for messages scheduled to be sent later
+ */
+export class ScheduledMessageRepository {
+    /**
+     * Records a new schedule
+     */
+    public async create(data: Prisma.ScheduledMessageUncheckedCreateInput): Promise<ScheduledMessage> {
+        return prisma.scheduledMessage.create({ data });
+    }
+
+    /**
+     * Finds a schedule by id (ignores ids that are not ObjectIds)
+     */
+    public async findById(id: string): Promise<ScheduledMessage | null> {
+        if (!/^[a-f\d]{24}$/i.test(id)) return null;
+
+        return prisma.scheduledMessage.findUnique({
+            where: { id },
+        });
+    }
+
+    /**
+     * Lists a user's schedules, soonest first
+     */
+    public async findByUser(
+        waId: string,
+        filter: { conversationId?: string; status?: ScheduledMessageStatus }
+    ): Promise<ScheduledMessage[]> {
+        return prisma.scheduledMessage.findMany({
+            where: {
+                from: waId,
+                ...(filter.conversationId && { conversationId: filter.conversationId }),
+                ...(filter.status && { status: filter.status }),
+            },
+            orderBy: [{ scheduledFor: 'asc' }, { id: 'asc' }],
+        });
+    }
+
+    /**
+     * Counts a user's schedules that have not been sent yet
+     */
+    public async countPending(waId: string): Promise<number> {
+        return prisma.scheduledMessage.count({
+            where: { from: waId, status: 'pending' },
+        });
+    }
+
+    /**
+     * Updates a schedule only while it is still pending
+     * Returns null if it was claimed, sent, failed or cancelled in the meantime
+     */
+    public async updatePending(
+        id: string,
+        data: Prisma.ScheduledMessageUpdateManyMutationInput
+    ): Promise<ScheduledMessage | null> {
+        return this.updateIfStatus(id, 'pending', data);
+    }
+
+    /**
+     * Updates a schedule only while it still has the given status
+     * Returns null if its status changed in the meantime
+     */
+    public async updateIfStatus(
+        id: string,
+        status: ScheduledMessageStatus,
+        data: Prisma.ScheduledMessageUpdateManyMutationInput
+    ): Promise<ScheduledMessage | null> {
+        const { count } = await prisma.scheduledMessage.updateMany({
+            where: { id, status },
+            data,
+        });
+
+        return count > 0 ? this.findById(id) : null;
+    }
+}
+
+export default new ScheduledMessageRepository();
@@ -0,0 +1,102 @@
+import { Router } from 'express';
+import Controller from './scheduled-message.controller';
+import { verifyAuthToken } from '@/middlewares/auth';
+import RequestValidator from '@/middlewares/request-validator';
+import { messageLimiter } from '@/middlewares/rate-limiter';
+import { ScheduleMessageDto, UpdateScheduledMessageDto } from '@/dto/message.dto';
+
+const scheduledMessage: Router = Router();
+const controller = new Controller();
+
+// All scheduled message routes require authentication
+scheduledMessage.use(verifyAuthToken);
+
+/**
+ * Scheduled message
+ * @typedef {object} ScheduledMessage
+ * @property {string} id - Schedule ID
+ * @property {string} conversationId - Conversation the message goes to
+ * @property {string} from - waId of the user who scheduled it
+ * @property {string} to - Recipient waId (the conversation ID for groups)
+ * @property {string} text - Message content
+ * @property {string} attachmentId - Media ID from POST /media
+ * @property {string} replyToMessageId - Message being replied to
+ * @property {number} scheduledFor - When to send it (epoch milliseconds)
+ * @property {string} status - pending, sending, sent, failed or cancelled
+ * @property {string} messageId - The sent message (once sent)
+ * @property {string} failureReason - Why it could not be sent (recipient deleted, access lost)
+ */
+
+/**
+ * Schedule message body
+ * @typedef {object} ScheduleMessageBody
+ * @property {string} conversationId.required - Target conversation
+ * @property {string} text - Message content (max 4000 chars), required unless attachmentId is set
+ * @property {number} scheduledFor.required - When to send it (epoch milliseconds, 1 minute to 1 year ahead)
+ * @property {string} attachmentId - Media ID from POST /media
+ * @property {object} replyTo - Message being replied to ({ messageId })
+ */
+
+/**
+ * Update scheduled message body
+ * @typedef {object} UpdateScheduledMessageBody
+ * @property {string} text - New message content (max 4000 chars)
+ * @property {number} scheduledFor - New time to send it (epoch milliseconds)
+ */
+
+/**
+ * POST /scheduled-messages
+ * @summary Schedule a message to be sent later
+ * @tags scheduled-messages
+ * @security bearerAuth
+ * @param {ScheduleMessageBody} request.body.required
+ * @return {ScheduledMessage} 201 - Message scheduled
+ * @return {object} 400 - Scheduled time out of range
+ * @return {object} 409 - Too many pending scheduled messages
+ */
+scheduledMessage.post(
+    '/',
+    messageLimiter,
+    RequestValidator.validate(ScheduleMessageDto),
+    controller.schedule
+);
+
+/**
+ * GET /scheduled-messages
+ * @summary List the caller's scheduled messages, soonest first
+ * @tags scheduled-messages
+ * @security bearerAuth
+ * @param {string} conversationId.query - Only this conversation
+ * @param {string} status.query - pending (default), sending, sent, failed or cancelled
+ * @return {array<ScheduledMessage>} 200 - Scheduled messages
+ */
+scheduledMessage.get('/', controller.list);
+
+/**
+ * PATCH /scheduled-messages/:scheduleId
+ * @summary Change the text or time of a pending scheduled message
+ * @tags scheduled-messages
+ * @security bearerAuth
+ * @param {string} scheduleId.path.required - Schedule ID
+ * @param {UpdateScheduledMessageBody} request.body.required
+ * @return {ScheduledMessage} 200 - Scheduled message updated
+ * @return {object} 409 - Already sent, failed or cancelled
+ */
+scheduledMessage.patch(
+    '/:scheduleId',
+    RequestValidator.validate(UpdateScheduledMessageDto),
+    controller.update
+);
+
+/**
+ * DELETE /scheduled-messages/:scheduleId
+ * @summary Cancel a pending scheduled message
+ * @tags scheduled-messages
+ * @security bearerAuth
+ * @param {string} scheduleId.path.required - Schedule ID
+ * @return {ScheduledMessage} 200 - Scheduled message cancelled
+ * @return {object} 409 - Already sent, failed or cancelled
+ */
+scheduledMessage.delete('/:scheduleId', controller.cancel);
+
+export default scheduledMessage;
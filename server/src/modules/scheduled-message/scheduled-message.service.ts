@@ -0,0 +1,324 @@
+import { type ScheduledMessage, type ScheduledMessageStatus } from '@prisma/client';
+import scheduledMessageRepository from './scheduled-message.repository';
+import conversationRepository from '@/modules/conversation/conversation.repository';
+import MessageService from '@/modules/message/message.service';
+import MediaService from '@/modules/media/media.service';
+import { chatQueue } from '@/lib/queue';
+import { ApiError, HttpBadRequestError, HttpConflictError, HttpForbiddenError, HttpNotFoundError } from '@/lib/errors';
+import logger from '@/lib/logger';
+
+/**
+ * Earliest a message can be scheduled, from now
+ */
+const MIN_SCHEDULE_DELAY_MS = 60 * 1000;
+
+/**
+ * Latest a message can be scheduled, from now
+ */
+const MAX_SCHEDULE_DELAY_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Maximum number of pending scheduled messages per user
+ */
+export const MAX_PENDING_SCHEDULES = 100;
+
+export interface ScheduledMessageServiceOptions {
+    userWaId: string;
+}
+
+/**
+ * Which run of its queue job a delivery is
+ */
+export interface DeliveryAttempt {
+    retry: boolean; // An earlier run started, and may have stopped while holding the claim
+    final: boolean; // The queue will not run the job again
+}
+
+// One delayed job per schedule, so it can be found again to reschedule or cancel
+const jobIdFor = (scheduleId: string) => `scheduled-message-${scheduleId}`;
+
+/**
+ * Service layer for messages scheduled to be sent later
+ * Each pending schedule has a delayed job on the chat queue; Redis keeps it across restarts
+ * and the chat worker hands it to `deliver` when it is due
+ */
+export default class ScheduledMessageService {
+    private readonly messageService = new MessageService();
+    private readonly mediaService = new MediaService();
+
+    /**
+     * Schedules a message to a conversation the user belongs to
+     */
+    public async schedule(
+        data: {
+            conversationId: string;
+            text: string;
+            scheduledFor: number;
+            attachmentId?: string;
+            replyTo?: { messageId: string };
+        },
+        options: ScheduledMessageServiceOptions
+    ): Promise<ScheduledMessage> {
+        const conversation = await conversationRepository.findById(data.conversationId);
+        if (!conversation) {
+            throw new HttpNotFoundError('Conversation not found');
+        }
+
+        if (!conversation.participants.some((p) => p.waId === options.userWaId)) {
+            throw new HttpForbiddenError('Access denied', [
+                'You are not a participant in this conversation',
+            ]);
+        }
+
+        const to =
+            conversation.type === 'group'
+                ? conversation.id
+                : conversation.participants.find((p) => p.waId !== options.userWaId)?.waId;
+        if (!to) {
+            throw new HttpBadRequestError('Conversation has no recipient', [
+                'The conversation has no other participant',
+            ]);
+        }
+
+        this.assertScheduleTime(data.scheduledFor);
+
+        if (data.attachmentId) {
+            await this.mediaService.getAttachment(data.attachmentId, conversation.id, options.userWaId);
+        }
+
+        const pending = await scheduledMessageRepository.countPending(options.userWaId);
+        if (pending >= MAX_PENDING_SCHEDULES) {
+            throw new HttpConflictError('Too many scheduled messages', [
+                `You can have at most ${MAX_PENDING_SCHEDULES} scheduled messages`,
+            ]);
+        }
+
+        const schedule = await scheduledMessageRepository.create({
+            conversationId: conversation.id,
+            from: options.userWaId,
+            to,
+            text: data.text ?? '',
+            attachmentId: data.attachmentId,
+            replyToMessageId: data.replyTo?.messageId,
+            scheduledFor: data.scheduledFor,
+        });
+
+        await this.enqueue(schedule);
+
+        logger.info(`[schedule] ${options.userWaId} scheduled ${schedule.id} in ${conversation.id} for ${new Date(schedule.scheduledFor).toISOString()}`);
+
+        await this.notify(schedule);
+
+        return schedule;
+    }
+
+    /**
+     * Lists the user's scheduled messages, soonest first (pending ones by default)
+     */
+    public async list(
+        filter: { conversationId?: string; status?: ScheduledMessageStatus },
+        options: ScheduledMessageServiceOptions
+    ): Promise<ScheduledMessage[]> {
+        return scheduledMessageRepository.findByUser(options.userWaId, {
+            conversationId: filter.conversationId,
+            status: filter.status ?? 'pending',
+        });
+    }
+
+    /**
+     * Changes the text or time of a pending scheduled message
+     */
+    public async update(
+        scheduleId: string,
+        data: { text?: string; scheduledFor?: number },
+        options: ScheduledMessageServiceOptions
+    ): Promise<ScheduledMessage> {
+        const schedule = await this.getPendingSchedule(scheduleId, options.userWaId);
+
+        if (data.text !== undefined && !data.text && !schedule.attachmentId) {
+            throw new HttpBadRequestError('Message text is required', [
+                'Only messages with an attachment can have an empty text',
+            ]);
+        }
+
+        const isRescheduled = data.scheduledFor !== undefined && data.scheduledFor !== schedule.scheduledFor;
+        if (isRescheduled) {
+            this.assertScheduleTime(data.scheduledFor!);
+            await this.removeJob(schedule.id);
+        }
+
+        const updated = await scheduledMessageRepository.updatePending(schedule.id, {
+            text: data.text,
+            scheduledFor: data.scheduledFor,
+        });
+        if (!updated) {
+            throw new HttpConflictError('Scheduled message was already sent');
+        }
+
+        if (isRescheduled) {
+            await this.enqueue(updated);
+        }
+
+        logger.info(`[update] ${options.userWaId} updated scheduled message ${updated.id}`);
+
+        await this.notify(updated);
+
+        return updated;
+    }
+
+    /**
+     * Cancels a pending scheduled message
+     */
+    public async cancel(scheduleId: string, options: ScheduledMessageServiceOptions): Promise<ScheduledMessage> {
+        const schedule = await this.getPendingSchedule(scheduleId, options.userWaId);
+
+        await this.removeJob(schedule.id);
+
+        const cancelled = await scheduledMessageRepository.updatePending(schedule.id, { status: 'cancelled' });
+        if (!cancelled) {
+            throw new HttpConflictError('Scheduled message was already sent');
+        }
+
+        logger.info(`[cancel] ${options.userWaId} cancelled scheduled message ${cancelled.id}`);
+
+        await this.notify(cancelled);
+
+        return cancelled;
+    }
+
+    /**
+     * Sends a due scheduled message through the normal send path
+     * Called by the chat worker. Rejections (recipient gone, access lost) mark the schedule as failed;
+     * other errors release it and are rethrown so the queue retries the job, until its final attempt
+     */
+    public async deliver(
+        scheduleId: string,
+        attempt: DeliveryAttempt = { retry: false, final: true }
+    ): Promise<ScheduledMessage | null> {
+        // Claimed before sending, so a schedule delivered twice at once is only sent once.
+        // A retried job takes over the claim an earlier run of it left behind (e.g. the worker crashed)
+        const schedule =
+            (await scheduledMessageRepository.updatePending(scheduleId, { status: 'sending' })) ??
+            (attempt.retry
+                ? await scheduledMessageRepository.updateIfStatus(scheduleId, 'sending', { status: 'sending' })
+                : null);
+        if (!schedule) {
+            logger.debug(`[deliver] Scheduled message ${scheduleId} is no longer pending, skipping`);
+            return null;
+        }
+
+        let result: ScheduledMessage | null;
+        try {
+            // Direct recipients must still have an account
+            if (schedule.to !== schedule.conversationId) {
+                const [recipient] = await conversationRepository.findUsersByWaIds([schedule.to]);
+                if (!recipient) {
+                    throw new HttpNotFoundError('Recipient no longer exists');
+                }
+            }
+
+            const { message } = await this.messageService.sendMessage(
+                {
+                    conversationId: schedule.conversationId,
+                    text: schedule.text,
+                    attachmentId: schedule.attachmentId ?? undefined,
+                    replyTo: schedule.replyToMessageId ? { messageId: schedule.replyToMessageId } : undefined,
+                },
+                { userWaId: schedule.from }
+            );
+
+            result = await scheduledMessageRepository.updateIfStatus(schedule.id, 'sending', {
+                status: 'sent',
+                messageId: message.id,
+            });
+            logger.info(`[deliver] Scheduled message ${schedule.id} sent as ${message.id}`);
+        } catch (error) {
+            const retryable = !(error instanceof ApiError) || error.statusCode >= 500;
+            if (retryable && !attempt.final) {
+                await scheduledMessageRepository.updateIfStatus(schedule.id, 'sending', { status: 'pending' });
+                throw error;
+            }
+
+            // Internal errors are logged, not shown to the user
+            const reason = error instanceof ApiError ? error.message : 'The message could not be sent';
+            if (!(error instanceof ApiError)) {
+                logger.error(`[deliver] Scheduled message ${schedule.id} gave up after the last attempt:`, error);
+            }
+            result = await scheduledMessageRepository.updateIfStatus(schedule.id, 'sending', {
+                status: 'failed',
+                failureReason: reason,
+            });
+            logger.warn(`[deliver] Scheduled message ${schedule.id} failed: ${reason}`);
+        }
+
+        if (result) {
+            await this.notify(result);
+        }
+
+        return result;
+    }
+
+    /**
+     * Load a schedule owned by the user that has not been sent yet
+     */
+    private async getPendingSchedule(scheduleId: string, waId: string): Promise<ScheduledMessage> {
+        const schedule = await scheduledMessageRepository.findById(scheduleId);
+        if (!schedule || schedule.from !== waId) {
+            throw new HttpNotFoundError('Scheduled message not found');
+        }
+
+        if (schedule.status !== 'pending') {
+            throw new HttpConflictError(`Scheduled message was already ${schedule.status}`);
+        }
+
+        return schedule;
+    }
+
+    private assertScheduleTime(scheduledFor: number): void {
+        const delay = scheduledFor - Date.now();
+        if (delay < MIN_SCHEDULE_DELAY_MS) {
+            throw new HttpBadRequestError('Scheduled time is too soon', [
+                'Messages must be scheduled at least a minute ahead',
+            ]);
+        }
+
+        if (delay > MAX_SCHEDULE_DELAY_MS) {
+            throw new HttpBadRequestError('Scheduled time is too far ahead', [
+                'Messages can be scheduled at most a year ahead',
+            ]);
+        }
+    }
+
+    private async enqueue(schedule: ScheduledMessage): Promise<void> {
+        await chatQueue.add(
+            'scheduled_message',
+            { type: 'scheduled_message', payload: { scheduleId: schedule.id } },
+            {
+                jobId: jobIdFor(schedule.id),
+                delay: Math.max(0, schedule.scheduledFor - Date.now()),
+            }
+        );
+    }
+
+    /**
+     * Remove a schedule's delayed job; a job that is already running cannot be stopped
+     */
+    private async removeJob(scheduleId: string): Promise<void> {
+        const job = await chatQueue.getJob(jobIdFor(scheduleId));
+        if (!job) return;
+
+        if (await job.isActive()) {
+            throw new HttpConflictError('Scheduled message is being sent');
+        }
+
+        await job.remove();
+    }
+
+    /**
+     * Tell the scheduling user's devices about the change
+     */
+    private async notify(schedule: ScheduledMessage): Promise<void> {
+        const socketService = (await import('@/lib/socket')).default;
+        socketService.emitScheduledMessageUpdated(schedule);
+    }
+}
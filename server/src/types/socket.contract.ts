@@ -0,0 +1,332 @@
+/**
+ * Socket.io event contract shared by client and server.
+ * This file is mirrored in client/types/socket-contract.ts - keep both copies identical.
+ */
+import { z } from 'zod';
+
+export enum SocketEvents {
+    // Connection events
+    CONNECTION = 'connection',
+    DISCONNECT = 'disconnect',
+
+    // Auth events
+    AUTH_FORCED_LOGOUT = 'auth:forced-logout',
+
+    // Notification events
+    NOTIFICATION = 'notification',
+    TASK_ASSIGNED = 'task:assigned',
+
+    // Room events
+    JOIN_ROOM = 'room:join',
+    LEAVE_ROOM = 'room:leave',
+
+    // User events
+    USER_GET_STATUS = 'user:get-status',
+    USER_STATUS = 'user:status',
+    USER_ONLINE = 'user:online',
+    USER_OFFLINE = 'user:offline',
+
+    // Conversation events
+    CONVERSATION_JOIN = 'conversation:join',
+    CONVERSATION_UPDATED = 'conversation:updated',
+    CONVERSATION_DELETED = 'conversation:deleted',
+
+    // Message events
+    MESSAGE_SEND = 'message:send',
+    MESSAGE_CREATED = 'message:created',
+    MESSAGE_STATUS_UPDATED = 'message:status-updated',
+    MESSAGES_MARKED_AS_READ = 'messages:marked-as-read',
+    MESSAGE_EDIT = 'message:edit',
+    MESSAGE_UPDATED = 'message:updated',
+    MESSAGE_DELETE = 'message:delete',
+    MESSAGE_DELETED = 'message:deleted',
+    MESSAGE_REACT = 'message:react',
+    MESSAGE_REACTION_UPDATED = 'message:reaction-updated',
+    MESSAGES_EXPIRED = 'messages:expired',
+    MESSAGE_PINS_UPDATED = 'message:pins-updated',
+    MESSAGE_STAR_UPDATED = 'message:star-updated',
+
+    // Activity indicators (client -> server, relayed to the conversation with the sender waId)
+    TYPING_START = 'typing:start',
+    TYPING_STOP = 'typing:stop',
+    RECORDING_START = 'recording:start',
+    RECORDING_STOP = 'recording:stop',
+
+    // Scheduled messages (server -> the user who scheduled them)
+    SCHEDULED_MESSAGE_UPDATED = 'scheduled-message:updated',
+}
+
+// ============================================
+// Client -> server payload schemas
+// ============================================
+
+const idSchema = z.string().trim().min(1).max(128);
+const roomSchema = z.string().trim().min(1).max(200);
+
+export const messageStatusSchema = z.enum(['sent', 'delivered', 'read', 'failed']);
+export const messageTypeSchema = z.enum(['text', 'image', 'document', 'audio', 'video']);
+// Single emoji (may be a multi-codepoint sequence)
+export const reactionEmojiSchema = z.string().trim().min(1).max(16);
+export const deleteScopeSchema = z.enum(['me', 'everyone']);
+
+/**
+ * Snippet of the message being replied to. `messageId` is the id clients store it under.
+ */
+export const replySnippetSchema = z.object({
+    messageId: idSchema,
+    from: idSchema,
+    text: z.string().max(4000),
+    type: messageTypeSchema.optional(),
+});
+
+/**
+ * Metadata of an uploaded file, as returned by the media upload endpoint
+ */
+export const attachmentSchema = z.object({
+    mediaId: idSchema,
+    fileName: z.string().max(255),
+    mimeType: z.string().max(255),
+    size: z.number().int().nonnegative(),
+    width: z.number().int().positive().nullish(),
+    height: z.number().int().positive().nullish(),
+    duration: z.number().nonnegative().nullish(),
+    checksum: z.string().max(128),
+    blurhash: z.string().max(100).nullish(),
+    waveform: z.array(z.number().int().min(0).max(100)).max(200).optional(),
+    hasThumbnail: z.boolean().optional(),
+});
+
+/**
+ * Message relayed over `message:send`. `id` is the client-generated id.
+ * For group conversations `to` is the conversation id. `text` is the caption of attachments.
+ */
+const relayedMessageFields = z.object({
+    id: idSchema,
+    conversationId: idSchema,
+    from: idSchema,
+    to: idSchema,
+    text: z.string().trim().max(4000),
+    timestamp: z.number().int().nonnegative(),
+    type: messageTypeSchema.optional(),
+    contact: z
+        .object({
+            name: z.string(),
+            waId: z.string(),
+        })
+        .optional(),
+    replyTo: replySnippetSchema.nullish(),
+    attachment: attachmentSchema.nullish(),
+    // Stamped by the server when relaying; any value sent by the client is replaced
+    seq: z.number().int().positive().optional(),
+});
+
+// Unknown keys (such as the sender's local-store fields) are stripped at every level;
+// the server stamps the status and times the recipients store
+export const relayedMessageSchema = relayedMessageFields
+    .refine((message) => message.text.length > 0 || message.attachment, {
+        message: 'Message text is required without an attachment',
+        path: ['text'],
+    });
+
+const activitySchema = z.object({
+    conversationId: idSchema,
+});
+
+export const clientEventSchemas = {
+    [SocketEvents.JOIN_ROOM]: roomSchema,
+    [SocketEvents.LEAVE_ROOM]: roomSchema,
+    [SocketEvents.CONVERSATION_JOIN]: idSchema,
+    [SocketEvents.USER_GET_STATUS]: z.object({
+        waId: idSchema,
+    }),
+    [SocketEvents.MESSAGE_SEND]: z.object({
+        message: relayedMessageSchema,
+        conversationId: idSchema,
+    }),
+    [SocketEvents.MESSAGES_MARKED_AS_READ]: z.object({
+        conversationId: idSchema,
+        waId: idSchema,
+        updatedMessages: z.number().int().nonnegative(),
+    }),
+    [SocketEvents.MESSAGE_STATUS_UPDATED]: z.object({
+        id: idSchema,
+        status: messageStatusSchema,
+        conversationId: idSchema,
+        updatedBy: idSchema,
+    }),
+    [SocketEvents.MESSAGE_EDIT]: z.object({
+        messageId: idSchema,
+        text: z.string().trim().min(1).max(4000),
+    }),
+    [SocketEvents.MESSAGE_DELETE]: z.object({
+        messageId: idSchema,
+        deleteFor: deleteScopeSchema,
+    }),
+    // `emoji: null` removes the caller's reaction
+    [SocketEvents.MESSAGE_REACT]: z.object({
+        messageId: idSchema,
+        emoji: reactionEmojiSchema.nullable(),
+    }),
+    [SocketEvents.TYPING_START]: activitySchema,
+    [SocketEvents.TYPING_STOP]: activitySchema,
+    [SocketEvents.RECORDING_START]: activitySchema,
+    [SocketEvents.RECORDING_STOP]: activitySchema,
+};
+
+export type ClientEventName = keyof typeof clientEventSchemas;
+
+export type RelayedMessage = z.infer<typeof relayedMessageFields>;
+
+// Relayed messages are typed by their known fields so local message types can be sent as-is
+export type ClientEventPayloads = {
+    [E in ClientEventName]: E extends SocketEvents.MESSAGE_SEND
+        ? { message: RelayedMessage; conversationId: string }
+        : z.infer<(typeof clientEventSchemas)[E]>;
+};
+
+// ============================================
+// Acknowledgements
+// ============================================
+
+export type SocketErrorCode =
+    | 'VALIDATION_ERROR'
+    | 'UNAUTHORIZED'
+    | 'NOT_FOUND'
+    | 'REJECTED'
+    | 'INTERNAL_ERROR';
+
+export interface SocketAckError {
+    status: 'error';
+    code: SocketErrorCode;
+    error: string;
+    issues?: Array<{ path: string; message: string }>;
+}
+
+export type SocketAck<T extends object = object> = ({ status: 'ok' } & T) | SocketAckError;
+
+export interface ClientEventAcks {
+    [SocketEvents.JOIN_ROOM]: SocketAck<{ room: string }>;
+    [SocketEvents.LEAVE_ROOM]: SocketAck;
+    [SocketEvents.CONVERSATION_JOIN]: SocketAck<{ room: string }>;
+    [SocketEvents.USER_GET_STATUS]: SocketAck;
+    [SocketEvents.MESSAGE_SEND]: SocketAck<{ messageId: string; seq: number }>;
+    [SocketEvents.MESSAGES_MARKED_AS_READ]: SocketAck;
+    [SocketEvents.MESSAGE_STATUS_UPDATED]: SocketAck;
+    [SocketEvents.MESSAGE_EDIT]: SocketAck<{ messageId: string; editedAt: string }>;
+    [SocketEvents.MESSAGE_DELETE]: SocketAck<{ messageId: string }>;
+    [SocketEvents.MESSAGE_REACT]: SocketAck<{ messageId: string }>;
+    [SocketEvents.TYPING_START]: SocketAck;
+    [SocketEvents.TYPING_STOP]: SocketAck;
+    [SocketEvents.RECORDING_START]: SocketAck;
+    [SocketEvents.RECORDING_STOP]: SocketAck;
+}
+
+// ============================================
+// Server -> client payloads
+// ============================================
+
+/**
+ * Typing/recording indicator of `waId` in a conversation. Start events are repeated while the
+ * activity goes on; the server sends the stop event itself if they cease.
+ */
+export interface ActivityPayload {
+    conversationId: string;
+    waId: string;
+}
+
+/**
+ * A message pinned in a conversation. Pins past `expiresAt` no longer count as pinned.
+ */
+export interface PinnedMessagePayload {
+    /** Id clients store the message under */
+    messageId: string;
+    from: string;
+    /** Truncated snippet */
+    text: string;
+    type: z.infer<typeof messageTypeSchema> | 'system';
+    pinnedBy: string;
+    /** Epoch milliseconds */
+    pinnedAt: number;
+    /** Epoch milliseconds; null = until unpinned */
+    expiresAt: number | null;
+}
+
+/**
+ * A message scheduled for later. Sent again whenever it is edited, cancelled, sent or fails.
+ */
+export interface ScheduledMessagePayload {
+    id: string;
+    conversationId: string;
+    to: string;
+    text: string;
+    attachmentId: string | null;
+    replyToMessageId: string | null;
+    /** Epoch milliseconds */
+    scheduledFor: number;
+    status: 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled';
+    /** The sent message */
+    messageId: string | null;
+    failureReason: string | null;
+}
+
+/**
+ * Payloads of events pushed by the server. Message and conversation shapes are
+ * supplied by each side (Prisma models on the server, API types on the client).
+ */
+export interface ServerEventPayloads<TMessage, TConversation> {
+    [SocketEvents.AUTH_FORCED_LOGOUT]: { reason: string; message: string; timestamp: number };
+    [SocketEvents.USER_STATUS]: { waId: string; isOnline: boolean; lastSeen?: number };
+    [SocketEvents.USER_ONLINE]: { waId: string };
+    [SocketEvents.USER_OFFLINE]: { waId: string; lastSeen: number };
+    [SocketEvents.CONVERSATION_UPDATED]: TConversation;
+    [SocketEvents.CONVERSATION_DELETED]: { conversationId: string; waId: string; participants: string[] };
+    [SocketEvents.MESSAGE_CREATED]: { message: TMessage; conversationId: string };
+    [SocketEvents.MESSAGE_UPDATED]: { message: TMessage; conversationId: string };
+    [SocketEvents.MESSAGE_DELETED]: {
+        message: TMessage;
+        conversationId: string;
+        deleteFor: z.infer<typeof deleteScopeSchema>;
+    };
+    [SocketEvents.MESSAGE_REACTION_UPDATED]: {
+        message: TMessage;
+        conversationId: string;
+        waId: string;
+        emoji: string | null;
+    };
+    /** Disappearing messages removed by the server; ids are the ones clients store them under */
+    [SocketEvents.MESSAGES_EXPIRED]: { conversationId: string; messageIds: string[] };
+    /** Every pin of the conversation, oldest first (sent whenever one is added or removed) */
+    [SocketEvents.MESSAGE_PINS_UPDATED]: { conversationId: string; pinnedMessages: PinnedMessagePayload[] };
+    /** Stars are private: only sent to the devices of the user who starred or unstarred */
+    [SocketEvents.MESSAGE_STAR_UPDATED]: { conversationId: string; messageId: string; starred: boolean };
+    [SocketEvents.TYPING_START]: ActivityPayload;
+    [SocketEvents.TYPING_STOP]: ActivityPayload;
+    [SocketEvents.RECORDING_START]: ActivityPayload;
+    [SocketEvents.RECORDING_STOP]: ActivityPayload;
+    [SocketEvents.SCHEDULED_MESSAGE_UPDATED]: ScheduledMessagePayload;
+    [SocketEvents.MESSAGE_STATUS_UPDATED]: {
+        id: string;
+        conversationId: string;
+        status: string;
+        message?: TMessage;
+        updatedBy?: string;
+    };
+    [SocketEvents.MESSAGES_MARKED_AS_READ]: {
+        conversationId: string;
+        readBy?: string;
+        waId?: string;
+        updatedMessages?: number;
+        conversation?: TConversation;
+        timestamp?: number;
+    };
+}
+
+/**
+ * Flattens zod issues into the `issues` field of a validation error ack
+ */
+export function toAckIssues(error: z.ZodError): SocketAckError['issues'] {
+    return error.issues.map((issue) => ({
+        path: issue.path.join('.'),
+        message: issue.message,
+    }));
+}
@@ -1,35 +1,25 @@
 import { type Socket } from 'socket.io';
 import { type SafeUser } from './auth.type';
+import { type SocketEvents, type ClientEventPayloads } from './socket.contract';
 
 export interface AuthenticatedSocket extends Socket {
     user?: SafeUser;
 }
 
-export enum SocketEvents {
-    // Connection events
-    CONNECTION = 'connection',
-    DISCONNECT = 'disconnect',
+export {
+    SocketEvents,
+    type ClientEventName,
+    type ClientEventPayloads,
+    type ClientEventAcks,
+    type RelayedMessage,
+    type SocketAck,
+    type SocketAckError,
+    type SocketErrorCode,
+} from './socket.contract';
 
-    // Task events
-    TASK_CREATED = 'task:created',
-    TASK_UPDATED = 'task:updated',
-    TASK_DELETED = 'task:deleted',
+export type MessageSendPayload = ClientEventPayloads[SocketEvents.MESSAGE_SEND];
 
-    // Notification events
-    NOTIFICATION = 'notification',
-    TASK_ASSIGNED = 'task:assigned',
-
-    // Room events
-    JOIN_ROOM = 'room:join',
-    LEAVE_ROOM = 'room:leave',
-
-    // Message events
-    MESSAGE_SEND = 'message:send',
-    MESSAGE_STATUS_UPDATED = 'message:status-updated',
-    MESSAGES_MARKED_AS_READ = 'messages:marked-as-read',
-}
-
-// Conversation events
+// Task events
 export interface TaskEventPayload {
     taskId: string;
     task?: unknown;
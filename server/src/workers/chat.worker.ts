@@ -1,16 +1,26 @@
 
 import { Worker, Job } from 'bullmq';
-import { QUEUE_NAMES, redisConnection } from '@/lib/queue';
+import { QUEUE_NAMES, chatQueue, redisConnection } from '@/lib/queue';
 import logger from '@/lib/logger';
 import { notificationService } from '@/services/notification.service';
 import { analyticsService } from '@/services/analytics.service';
+import MessageService from '@/modules/message/message.service';
+import conversationRepository from '@/modules/conversation/conversation.repository';
+import ScheduledMessageService from '@/modules/scheduled-message/scheduled-message.service';
+import { type MessageSendPayload } from '@/types/socket.type';
 
 // Job interface
 interface ChatJobData {
-    type: 'new_message' | 'message_status';
+    type: 'new_message' | 'message_status' | 'scheduled_message' | 'purge_expired_messages';
     payload: any;
 }
 
+// How often expired disappearing messages are purged
+const PURGE_EXPIRED_INTERVAL_MS = Number(process.env.PURGE_EXPIRED_INTERVAL_MS) || 60 * 1000;
+
+const messageService = new MessageService();
+const scheduledMessageService = new ScheduledMessageService();
+
 // Worker processor
 const processor = async (job: Job<ChatJobData>) => {
     const { type, payload } = job.data;
@@ -19,27 +29,66 @@ const processor = async (job: Job<ChatJobData>) => {
 
     try {
         switch (type) {
-            case 'new_message':
-                const msg = payload.message;
-                // 1. Send Push Notification to recipient
+            case 'new_message': {
+                const msg = (payload as MessageSendPayload).message;
+
+                // 1. Persist the relayed message (also updates lastMessage and warms the recent-messages cache)
+                // Runs first so a failed write is retried before any side-effects fire
+                // The job was added when the socket relayed the message, so its timestamp is the server's send time
+                const persisted = await messageService.persistRelayedMessage(payload, job.timestamp);
+                if (!persisted) {
+                    logger.warn(`Relayed message ${msg.id} was not persisted, skipping side-effects`);
+                    break;
+                }
+
+                // A re-run job finds the message an earlier run saved; its side-effects already fired
+                if (!persisted.created) {
+                    logger.info(`Relayed message ${msg.id} was already processed, skipping side-effects`);
+                    break;
+                }
+
+                // 2. Send Push Notification to recipients (every other member for groups)
                 // We only send if the user is not in the active chat (handled by client status usually, 
                 // but for simplicity we send 'data' messages that client handles)
-                await notificationService.sendPushNotification(
-                    msg.to,
-                    `New message from ${msg.contact?.name || msg.from}`,
-                    msg.text
+                // Recipients who muted the conversation are skipped
+                const recipients = persisted.participants.filter((waId) => waId !== msg.from);
+                const muted = await conversationRepository.findMutedWaIds(persisted.message.conversationId, recipients);
+                await Promise.all(
+                    recipients.filter((waId) => !muted.has(waId)).map((waId) =>
+                        notificationService.sendPushNotification(
+                            waId,
+                            `New message from ${persisted.message.contact?.name || msg.from}`,
+                            persisted.message.text || persisted.message.attachment?.fileName || ''
+                        )
+                    )
                 );
 
-                // 2. Track Analytics
+                // 3. Track Analytics
                 await analyticsService.trackEvent('message_sent', {
-                    messageId: msg.id,
+                    messageId: persisted.message.id,
                     senderId: msg.from,
-                    type: msg.type,
+                    type: persisted.message.type,
                     timestamp: Date.now()
                 });
 
                 logger.info(`New message processed: ${msg.id}`);
                 break;
+            }
+
+            // Delayed job added when the message was scheduled
+            case 'scheduled_message': {
+                const { scheduleId } = payload as { scheduleId: string };
+                await scheduledMessageService.deliver(scheduleId, {
+                    retry: job.attemptsStarted > 1,
+                    final: job.attemptsMade + 1 >= (job.opts.attempts ?? 1),
+                });
+                break;
+            }
+
+            // Repeating job registered below
+            case 'purge_expired_messages':
+                await messageService.purgeExpiredMessages();
+                break;
 
             case 'message_status':
                 logger.info(`Message status update processed: ${payload.id} -> ${payload.status}`);
@@ -73,3 +122,12 @@ chatWorker.on('failed', (job, err) => {
 });
 
 logger.info(`Chat Worker initialized for queue: ${QUEUE_NAMES.CHAT_EVENTS}`);
+
+// Upserting keeps a single schedule across restarts and instances
+chatQueue
+    .upsertJobScheduler(
+        'purge-expired-messages',
+        { every: PURGE_EXPIRED_INTERVAL_MS },
+        { name: 'purge_expired_messages', data: { type: 'purge_expired_messages', payload: {} } }
+    )
+    .catch((err) => logger.error('Failed to schedule the expired message purge:', err));
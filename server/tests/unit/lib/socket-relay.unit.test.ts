@@ -0,0 +1,236 @@
+import { jest } from '@jest/globals';
+import { HttpForbiddenError } from '@/lib/errors';
+
+// 1. Define mock objects
+const mockLogger = {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+};
+
+const mockConversationRepository = {
+    findById: jest.fn<(id: string) => Promise<unknown>>(),
+    isParticipant: jest.fn(),
+};
+
+const mockMessageService = {
+    reserveSeq: jest.fn<(conversationId: string, clientMessageId: string) => Promise<number | null>>(),
+};
+
+const mockContactService = {
+    assertNotBlocked: jest.fn<(fromWaId: string, toWaId: string) => Promise<void>>(),
+};
+
+const mockQueueAdd = jest.fn<(...args: unknown[]) => Promise<unknown>>();
+
+const mockEmit = jest.fn();
+const mockTo = jest.fn().mockReturnValue({ emit: mockEmit });
+const mockIo = {
+    to: mockTo,
+    emit: mockEmit,
+};
+
+// 2. Mock dependencies using jest.mock()
+// Note: These will be hoisted to the top
+jest.mock('@/lib/logger', () => ({
+    __esModule: true,
+    default: mockLogger,
+}));
+
+jest.mock('@/lib/cache', () => ({
+    __esModule: true,
+    default: { setUserOnline: jest.fn() },
+}));
+
+jest.mock('@/lib/jwt', () => ({
+    __esModule: true,
+    default: { verifyAccessToken: jest.fn() },
+}));
+
+jest.mock('@/modules/auth/auth.repository', () => ({
+    __esModule: true,
+    default: { findUserById: jest.fn() },
+}));
+
+jest.mock('@/modules/conversation/conversation.repository', () => ({
+    __esModule: true,
+    default: mockConversationRepository,
+}));
+
+jest.mock('@/modules/message/message.service', () => ({
+    __esModule: true,
+    default: jest.fn(() => mockMessageService),
+}));
+
+jest.mock('@/modules/contact/contact.service', () => ({
+    __esModule: true,
+    default: jest.fn(() => mockContactService),
+}));
+
+jest.mock('@/lib/queue', () => ({
+    chatQueue: { add: mockQueueAdd },
+}));
+
+// 3. Import the service under test
+import SocketService from '@/lib/socket';
+
+type Handler = (payload: unknown, ack: (response: unknown) => void) => Promise<void>;
+
+const conversationId = '65f1a2b3c4d5e6f7a8b9c0d1';
+const sender = '919000000001';
+const recipient = '919000000002';
+
+/**
+ * Connects a fake socket of the given user and returns its registered event handlers
+ */
+const connect = (waId: string) => {
+    const handlers = new Map<string, Handler>();
+    const socket = {
+        user: { id: `user-${waId}`, waId },
+        rooms: new Set<string>(),
+        join: jest.fn(),
+        on: jest.fn((event: string, handler: Handler) => handlers.set(event, handler)),
+    };
+    (SocketService as unknown as { handleConnection: (s: unknown) => void }).handleConnection(socket);
+    // Connecting announces the user as online; only the relay's emits are of interest
+    mockEmit.mockClear();
+    return handlers;
+};
+
+const send = async (handlers: Map<string, Handler>, payload: unknown) => {
+    const ack = jest.fn();
+    await handlers.get('message:send')!(payload, ack);
+    return ack.mock.calls[0]?.[0] as { status: string; code?: string; seq?: number };
+};
+
+const relayedMessage = (overrides: Record<string, unknown> = {}) => ({
+    id: 'client-message-1',
+    conversationId,
+    from: sender,
+    to: recipient,
+    text: 'Hello',
+    timestamp: 1700000000000,
+    ...overrides,
+});
+
+describe('[Unit] - SocketService message relay', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        // Inject the mock IO instance instead of initializing it with an http server
+        (SocketService as unknown as { io: unknown }).io = mockIo;
+
+        mockConversationRepository.findById.mockResolvedValue({
+            id: conversationId,
+            type: 'direct',
+            participants: [{ waId: sender }, { waId: recipient }],
+        });
+        mockContactService.assertNotBlocked.mockResolvedValue(undefined);
+        mockMessageService.reserveSeq.mockResolvedValue(7);
+        mockQueueAdd.mockResolvedValue({});
+    });
+
+    it('should relay a message to the participants and queue it for persistence', async () => {
+        const ack = await send(connect(sender), { message: relayedMessage(), conversationId });
+
+        expect(ack).toEqual({ status: 'ok', messageId: 'client-message-1', seq: 7 });
+        expect(mockMessageService.reserveSeq).toHaveBeenCalledWith(conversationId, 'client-message-1');
+        expect(mockTo).toHaveBeenCalledWith(`user:${recipient}`);
+        expect(mockEmit).toHaveBeenCalledWith(
+            'message:created',
+            expect.objectContaining({
+                message: expect.objectContaining({ id: 'client-message-1', seq: 7, status: 'sent' }),
+            })
+        );
+        expect(mockQueueAdd).toHaveBeenCalledWith(
+            'new_message',
+            expect.anything(),
+            expect.objectContaining({ jobId: 'relayed-message-client-message-1' })
+        );
+    });
+
+    it('should strip fields that are not part of the contract', async () => {
+        await send(connect(sender), {
+            message: relayedMessage({ queueMetadata: { retryCount: 2 }, contact: { name: 'A', waId: sender, role: 'x' } }),
+            conversationId,
+        });
+
+        const [, { message }] = mockEmit.mock.calls[0] as [string, { message: Record<string, unknown> }];
+        expect(message).not.toHaveProperty('queueMetadata');
+        expect(message.contact).toEqual({ name: 'A', waId: sender });
+    });
+
+    it('should reject a message sent on behalf of another user', async () => {
+        const ack = await send(connect(recipient), { message: relayedMessage(), conversationId });
+
+        expect(ack).toEqual(expect.objectContaining({ status: 'error', code: 'UNAUTHORIZED' }));
+        expect(mockEmit).not.toHaveBeenCalled();
+        expect(mockQueueAdd).not.toHaveBeenCalled();
+    });
+
+    it('should reject a direct message to someone outside the conversation', async () => {
+        const ack = await send(connect(sender), {
+            message: relayedMessage({ to: '919000000009' }),
+            conversationId,
+        });
+
+        expect(ack).toEqual(expect.objectContaining({ status: 'error', code: 'UNAUTHORIZED' }));
+        expect(mockMessageService.reserveSeq).not.toHaveBeenCalled();
+        expect(mockEmit).not.toHaveBeenCalled();
+    });
+
+    it('should reject a sender who is not a participant', async () => {
+        mockConversationRepository.findById.mockResolvedValue({
+            id: conversationId,
+            type: 'direct',
+            participants: [{ waId: recipient }, { waId: '919000000009' }],
+        });
+
+        const ack = await send(connect(sender), { message: relayedMessage(), conversationId });
+
+        expect(ack).toEqual(expect.objectContaining({ status: 'error', code: 'UNAUTHORIZED' }));
+        expect(mockEmit).not.toHaveBeenCalled();
+    });
+
+    it('should not relay a direct message between blocked users', async () => {
+        mockContactService.assertNotBlocked.mockRejectedValue(
+            new HttpForbiddenError('Message blocked', ['You cannot send messages to this contact'])
+        );
+
+        const ack = await send(connect(sender), { message: relayedMessage(), conversationId });
+
+        expect(mockContactService.assertNotBlocked).toHaveBeenCalledWith(sender, recipient);
+        expect(ack).toEqual({
+            status: 'error',
+            code: 'UNAUTHORIZED',
+            error: 'You cannot send messages to this contact',
+        });
+        expect(mockMessageService.reserveSeq).not.toHaveBeenCalled();
+        expect(mockEmit).not.toHaveBeenCalled();
+        expect(mockQueueAdd).not.toHaveBeenCalled();
+    });
+
+    it('should not check blocks for group messages', async () => {
+        mockConversationRepository.findById.mockResolvedValue({
+            id: conversationId,
+            type: 'group',
+            participants: [{ waId: sender }, { waId: recipient }],
+        });
+
+        const ack = await send(connect(sender), {
+            message: relayedMessage({ to: conversationId }),
+            conversationId,
+        });
+
+        expect(ack).toEqual(expect.objectContaining({ status: 'ok' }));
+        expect(mockContactService.assertNotBlocked).not.toHaveBeenCalled();
+    });
+
+    it('should reject a malformed payload before relaying it', async () => {
+        const ack = await send(connect(sender), { message: relayedMessage({ text: '' }), conversationId });
+
+        expect(ack).toEqual(expect.objectContaining({ status: 'error', code: 'VALIDATION_ERROR' }));
+        expect(mockConversationRepository.findById).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,292 @@
+import { jest } from '@jest/globals';
+import { type Message } from '@prisma/client';
+import { HttpBadRequestError, HttpForbiddenError } from '@/lib/errors';
+
+// 1. Define mock objects
+const mockLogger = {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+};
+
+const mockMessageRepository = {
+    findByIdOrClientId: jest.fn<(id: string) => Promise<Message | null>>(),
+    findByClientMessageId: jest.fn<(id: string) => Promise<Message | null>>(),
+    resolveConversationId: jest.fn<(id: string) => Promise<string | null>>(),
+    getConversation: jest.fn<(id: string) => Promise<unknown>>(),
+    getUserByWaId: jest.fn<(waId: string) => Promise<unknown>>(),
+    updateText: jest.fn<(id: string, text: string, previous: string) => Promise<Message>>(),
+    syncLastMessageText: jest.fn(),
+    hideForUser: jest.fn<(id: string, waId: string) => Promise<Message>>(),
+    tombstone: jest.fn<(id: string) => Promise<Message>>(),
+    blankReplySnippets: jest.fn<(conversationId: string, ids: string[]) => Promise<number>>(),
+    unstar: jest.fn(),
+    create: jest.fn(),
+};
+
+const mockConversationRepository = {
+    nextSeq: jest.fn<(id: string) => Promise<number>>(),
+};
+
+const mockCacheService = {
+    get: jest.fn<(key: string) => Promise<unknown>>(),
+    setIfAbsent: jest.fn<(key: string, value: unknown, ttl: number) => Promise<boolean>>(),
+    del: jest.fn(),
+    updateMessageInCache: jest.fn<() => Promise<void>>(),
+};
+
+const mockContactRepository = {
+    findBlockBetween: jest.fn<(fromWaId: string, toWaId: string) => Promise<string | null>>(),
+};
+
+const mockReportRepository = {
+    blankEvidence: jest.fn<(conversationId: string, ids: string[]) => Promise<void>>(),
+};
+
+const mockSocketService = {
+    emitMessageUpdated: jest.fn(),
+    emitMessageDeleted: jest.fn(),
+};
+
+// 2. Mock dependencies using jest.mock()
+// Note: These will be hoisted to the top
+jest.mock('@/lib/logger', () => ({
+    __esModule: true,
+    default: mockLogger,
+}));
+
+jest.mock('@/modules/message/message.repository', () => ({
+    __esModule: true,
+    default: mockMessageRepository,
+    expiresAtFor: jest.fn(),
+}));
+
+jest.mock('@/modules/conversation/conversation.repository', () => ({
+    __esModule: true,
+    default: mockConversationRepository,
+}));
+
+jest.mock('@/lib/cache', () => ({
+    __esModule: true,
+    default: mockCacheService,
+    CacheKeys: {
+        USER_CONVERSATIONS: (waId: string) => `conversations:${waId}`,
+        RELAYED_MESSAGE_SEQ: (conversationId: string, clientMessageId: string) =>
+            `seq:${conversationId}:${clientMessageId}`,
+    },
+    CacheTTL: { RELAYED_MESSAGE_SEQ: 3600 },
+}));
+
+// Blocks are checked by the real ContactService against its repository
+jest.mock('@/modules/contact/contact.repository', () => ({
+    __esModule: true,
+    default: mockContactRepository,
+}));
+
+jest.mock('@/modules/report/report.repository', () => ({
+    __esModule: true,
+    default: mockReportRepository,
+}));
+
+jest.mock('@/modules/media/media.service', () => ({
+    __esModule: true,
+    default: jest.fn(() => ({})),
+    messageTypeForMime: jest.fn(),
+}));
+
+jest.mock('@/lib/socket', () => ({
+    __esModule: true,
+    default: mockSocketService,
+}));
+
+// 3. Import the service under test
+import MessageService from '@/modules/message/message.service';
+
+const MINUTE = 60 * 1000;
+const conversationId = '65f1a2b3c4d5e6f7a8b9c0d1';
+const sender = '919000000001';
+const recipient = '919000000002';
+
+/**
+ * A stored message created `ageMs` ago on the server; its client timestamp claims it was just sent
+ */
+const storedMessage = (ageMs: number, overrides: Partial<Message> = {}): Message =>
+    ({
+        id: '65f1a2b3c4d5e6f7a8b9c0e2',
+        conversationId,
+        from: sender,
+        to: recipient,
+        text: 'Hello',
+        timestamp: Date.now(),
+        clientMessageId: 'client-message-1',
+        deletedFor: [],
+        deletedAt: null,
+        createdAt: new Date(Date.now() - ageMs),
+        ...overrides,
+    }) as Message;
+
+describe('[Unit] - MessageService', () => {
+    let messageService: MessageService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        messageService = new MessageService();
+
+        mockMessageRepository.getConversation.mockResolvedValue({
+            id: conversationId,
+            participants: [{ waId: sender }, { waId: recipient }],
+            pinnedMessages: [],
+            lastMessage: null,
+        });
+        mockCacheService.updateMessageInCache.mockResolvedValue(undefined);
+    });
+
+    describe('editMessage', () => {
+        it('should edit a message within the edit window', async () => {
+            const message = storedMessage(5 * MINUTE);
+            mockMessageRepository.findByIdOrClientId.mockResolvedValue(message);
+            mockMessageRepository.updateText.mockResolvedValue({ ...message, text: 'Hello again' });
+
+            const edited = await messageService.editMessage(message.id, 'Hello again', { userWaId: sender });
+
+            expect(mockMessageRepository.updateText).toHaveBeenCalledWith(message.id, 'Hello again', 'Hello');
+            expect(edited.text).toBe('Hello again');
+        });
+
+        it('should measure the edit window from the server-side creation time', async () => {
+            mockMessageRepository.findByIdOrClientId.mockResolvedValue(storedMessage(16 * MINUTE));
+
+            await expect(
+                messageService.editMessage('client-message-1', 'Hello again', { userWaId: sender })
+            ).rejects.toThrow(new HttpBadRequestError('Edit window expired', []));
+            expect(mockMessageRepository.updateText).not.toHaveBeenCalled();
+        });
+
+        it('should only let the sender edit', async () => {
+            mockMessageRepository.findByIdOrClientId.mockResolvedValue(storedMessage(MINUTE));
+
+            await expect(
+                messageService.editMessage('client-message-1', 'Hello again', { userWaId: recipient })
+            ).rejects.toBeInstanceOf(HttpForbiddenError);
+            expect(mockMessageRepository.updateText).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('deleteMessage', () => {
+        it('should delete a message for everyone within the delete window', async () => {
+            const message = storedMessage(30 * MINUTE);
+            mockMessageRepository.findByIdOrClientId.mockResolvedValue(message);
+            mockMessageRepository.tombstone.mockResolvedValue({ ...message, text: '', deletedAt: new Date() });
+            mockMessageRepository.blankReplySnippets.mockResolvedValue(0);
+
+            await messageService.deleteMessage(message.id, 'everyone', { userWaId: sender });
+
+            expect(mockMessageRepository.tombstone).toHaveBeenCalledWith(message.id);
+            expect(mockMessageRepository.blankReplySnippets).toHaveBeenCalledWith(conversationId, [
+                message.id,
+                'client-message-1',
+            ]);
+            expect(mockReportRepository.blankEvidence).toHaveBeenCalledWith(conversationId, [message.id]);
+            expect(mockSocketService.emitMessageDeleted).toHaveBeenCalled();
+        });
+
+        it('should measure the delete window from the server-side creation time', async () => {
+            mockMessageRepository.findByIdOrClientId.mockResolvedValue(storedMessage(61 * MINUTE));
+
+            await expect(
+                messageService.deleteMessage('client-message-1', 'everyone', { userWaId: sender })
+            ).rejects.toThrow(new HttpBadRequestError('Delete window expired', []));
+            expect(mockMessageRepository.tombstone).not.toHaveBeenCalled();
+        });
+
+        it('should still delete an old message for the requester only', async () => {
+            const message = storedMessage(24 * 60 * MINUTE);
+            mockMessageRepository.findByIdOrClientId.mockResolvedValue(message);
+            mockMessageRepository.hideForUser.mockResolvedValue({ ...message, deletedFor: [recipient] });
+
+            await messageService.deleteMessage(message.id, 'me', { userWaId: recipient });
+
+            expect(mockMessageRepository.hideForUser).toHaveBeenCalledWith(message.id, recipient);
+            expect(mockMessageRepository.tombstone).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('sendMessage', () => {
+        beforeEach(() => {
+            mockMessageRepository.getUserByWaId.mockImplementation(async (waId) => ({ id: `user-${waId}`, waId }));
+        });
+
+        it('should not send a direct message to a user who blocked the sender', async () => {
+            mockContactRepository.findBlockBetween.mockResolvedValue(recipient);
+
+            await expect(
+                messageService.sendMessage({ to: recipient, text: 'Hello' }, { userWaId: sender })
+            ).rejects.toMatchObject({
+                statusCode: 403,
+                rawErrors: ['You cannot send messages to this contact'],
+            });
+            expect(mockContactRepository.findBlockBetween).toHaveBeenCalledWith(sender, recipient);
+            expect(mockMessageRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('should not send a direct message to a user the sender blocked', async () => {
+            mockContactRepository.findBlockBetween.mockResolvedValue(sender);
+
+            await expect(
+                messageService.sendMessage({ to: recipient, text: 'Hello' }, { userWaId: sender })
+            ).rejects.toMatchObject({
+                statusCode: 403,
+                rawErrors: ['You blocked this contact. Unblock them to send a message'],
+            });
+            expect(mockMessageRepository.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('reserveSeq', () => {
+        beforeEach(() => {
+            mockMessageRepository.resolveConversationId.mockResolvedValue(conversationId);
+            mockMessageRepository.findByClientMessageId.mockResolvedValue(null);
+            mockCacheService.get.mockResolvedValue(null);
+            mockCacheService.setIfAbsent.mockResolvedValue(true);
+            mockConversationRepository.nextSeq.mockResolvedValue(12);
+        });
+
+        it('should reserve the next seq for a new message', async () => {
+            await expect(messageService.reserveSeq(conversationId, 'client-message-1')).resolves.toBe(12);
+            expect(mockCacheService.setIfAbsent).toHaveBeenCalledWith(
+                `seq:${conversationId}:client-message-1`,
+                12,
+                3600
+            );
+        });
+
+        it('should reuse the seq of a message that was already persisted', async () => {
+            mockMessageRepository.findByClientMessageId.mockResolvedValue(storedMessage(MINUTE, { seq: 4 }));
+
+            await expect(messageService.reserveSeq(conversationId, 'client-message-1')).resolves.toBe(4);
+            expect(mockConversationRepository.nextSeq).not.toHaveBeenCalled();
+        });
+
+        it('should reuse the seq reserved by an earlier send of the same message', async () => {
+            mockCacheService.get.mockResolvedValue(9);
+
+            await expect(messageService.reserveSeq(conversationId, 'client-message-1')).resolves.toBe(9);
+            expect(mockConversationRepository.nextSeq).not.toHaveBeenCalled();
+        });
+
+        it('should return the winning seq when two sends of the same message race', async () => {
+            mockCacheService.get.mockResolvedValueOnce(null).mockResolvedValueOnce(11);
+            mockCacheService.setIfAbsent.mockResolvedValue(false);
+
+            await expect(messageService.reserveSeq(conversationId, 'client-message-1')).resolves.toBe(11);
+        });
+
+        it('should return null for an unknown conversation', async () => {
+            mockMessageRepository.resolveConversationId.mockResolvedValue(null);
+
+            await expect(messageService.reserveSeq(conversationId, 'client-message-1')).resolves.toBeNull();
+            expect(mockConversationRepository.nextSeq).not.toHaveBeenCalled();
+        });
+    });
+});